@@ -158,7 +158,7 @@ async function main() {
 
   // Show cache stats
   console.log('\n=== Cache Statistics ===\n');
-  console.log(`Cache size: ${sdk.getCacheSize()} items`);
+  console.log(`Cache size: ${await sdk.getCacheSizeAsync()} items`);
 }
 
 // Run the example
@@ -140,7 +140,7 @@ async function demonstrateEvents() {
     console.log(`   Failed: ${stats.failed}`);
     console.log(`   Average Time: ${stats.successful > 0 ? (stats.totalTime / stats.successful).toFixed(0) : 0}ms`);
     console.log(`   Total Tokens: ${stats.totalTokens}`);
-    console.log(`   Cache Size: ${sdk.getCacheSize()}`);
+    console.log(`   Cache Size: ${await sdk.getCacheSizeAsync()}`);
 
     console.log('\n✨ Event handling example complete!\n');
   } catch (error: any) {
@@ -0,0 +1,192 @@
+/**
+ * Analyzer Registry for managing content analyzers
+ */
+
+import * as fs from 'fs/promises';
+import * as mime from 'mime-types';
+import { ContentAnalyzer } from './base/ContentAnalyzer';
+import {
+  AnalyzerConfig,
+  AnalyzerResult,
+  AnalyzerStats,
+  ContentExtractionOptions,
+} from '../types/analyzer';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Analyzer constructor type
+ */
+export type AnalyzerConstructor = new (config: AnalyzerConfig) => ContentAnalyzer;
+
+/**
+ * Analyzer registration options
+ */
+export interface AnalyzerRegistration extends Partial<Omit<AnalyzerConfig, 'name'>> {
+  description?: string;
+  version?: string;
+}
+
+/**
+ * Analyzer registry entry
+ */
+interface AnalyzerEntry {
+  analyzer: ContentAnalyzer;
+  order: number; // Registration order, breaks priority ties
+  description?: string;
+  version?: string;
+}
+
+/**
+ * Analyzer Registry class
+ *
+ * Analyzers are tried in priority order (higher first, then in registration
+ * order); when one fails the next one that handles the file is tried.
+ */
+export class AnalyzerRegistry {
+  private static analyzers = new Map<string, AnalyzerEntry>();
+  private static registrations = 0;
+  private static logger = Logger.getInstance();
+
+  /**
+   * Register an analyzer
+   */
+  static register(
+    name: string,
+    analyzer: AnalyzerConstructor,
+    registration: AnalyzerRegistration = {},
+  ): void {
+    if (this.analyzers.has(name)) {
+      this.logger.warn(`Analyzer '${name}' is already registered. Overwriting...`);
+    }
+
+    const { description, version, ...config } = registration;
+    this.analyzers.set(name, {
+      analyzer: new analyzer({ name, priority: 0, enabled: true, ...config }),
+      order: this.registrations++,
+      description,
+      version,
+    });
+  }
+
+  /**
+   * Unregister an analyzer
+   */
+  static unregister(name: string): boolean {
+    return this.analyzers.delete(name);
+  }
+
+  /**
+   * Change an analyzer's priority, enabled state or options
+   */
+  static configure(name: string, config: Partial<Omit<AnalyzerConfig, 'name'>>): void {
+    const entry = this.analyzers.get(name);
+    if (!entry) {
+      throw new Error(
+        `Unknown analyzer: ${name}. Available analyzers: ${this.getAvailable().join(', ')}`,
+      );
+    }
+    entry.analyzer.updateConfig(config);
+  }
+
+  /**
+   * Get a registered analyzer
+   */
+  static get(name: string): ContentAnalyzer | undefined {
+    return this.analyzers.get(name)?.analyzer;
+  }
+
+  /**
+   * Analyzers that handle a file, in the order they are tried
+   */
+  static getAnalyzersFor(
+    filePath: string,
+    file: { size: number; mimeType?: string },
+  ): ContentAnalyzer[] {
+    return Array.from(this.analyzers.values())
+      .filter((entry) => entry.analyzer.validate(filePath, file).canAnalyze)
+      .sort(
+        (a, b) =>
+          b.analyzer.getConfig().priority - a.analyzer.getConfig().priority || a.order - b.order,
+      )
+      .map((entry) => entry.analyzer);
+  }
+
+  /**
+   * Analyze a file with the first analyzer that handles it and succeeds
+   *
+   * Returns undefined when no analyzer handles the file or all of them fail.
+   */
+  static async analyze(
+    filePath: string,
+    options?: ContentExtractionOptions,
+  ): Promise<AnalyzerResult | undefined> {
+    const stats = await fs.stat(filePath);
+    const mimeType = mime.lookup(filePath) || undefined;
+
+    for (const analyzer of this.getAnalyzersFor(filePath, { size: stats.size, mimeType })) {
+      try {
+        return { analyzer: analyzer.name, content: await analyzer.analyze(filePath, options) };
+      } catch (error) {
+        this.logger.debug(`Analyzer '${analyzer.name}' failed, trying the next one`, {
+          filePath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get available analyzer names
+   */
+  static getAvailable(): string[] {
+    return Array.from(this.analyzers.keys());
+  }
+
+  /**
+   * Check if an analyzer is registered
+   */
+  static has(name: string): boolean {
+    return this.analyzers.has(name);
+  }
+
+  /**
+   * Get all analyzers with metadata and configuration
+   */
+  static getAllAnalyzers(): Array<
+    AnalyzerConfig & {
+      description?: string;
+      version?: string;
+      capabilities: ContentAnalyzer['capabilities'];
+    }
+  > {
+    return Array.from(this.analyzers.values()).map((entry) => ({
+      ...entry.analyzer.getConfig(),
+      description: entry.description,
+      version: entry.version,
+      capabilities: entry.analyzer.capabilities,
+    }));
+  }
+
+  /**
+   * Get statistics of every analyzer
+   */
+  static getStats(): Record<string, AnalyzerStats> {
+    return Object.fromEntries(
+      Array.from(this.analyzers.entries()).map(([name, entry]) => [
+        name,
+        entry.analyzer.getStats(),
+      ]),
+    );
+  }
+
+  /**
+   * Reset statistics of every analyzer
+   */
+  static resetStats(): void {
+    for (const entry of this.analyzers.values()) {
+      entry.analyzer.resetStats();
+    }
+  }
+}
@@ -4,15 +4,15 @@
  * This class implements front-loading strategy to minimize token usage:
  * - PDFs: First 500 words
  * - Images: Thumbnail (256px) + EXIF metadata
- * - Videos: 1-2 frames from first 10%
- * - Documents: First 500 characters
+ * - Text files: First 500 characters
+ * - Other formats with a registered analyzer (spreadsheets, videos, ...):
+ *   the analyzer's summary
  * - Others: File metadata only
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import pdfParse from 'pdf-parse';
-import * as XLSX from 'xlsx';
+import { AnalyzerRegistry } from './index';
 // import exifr from 'exifr';  // Will be used for full EXIF integration
 import sharp from 'sharp';
 
@@ -50,20 +50,11 @@ export class ContentSampler {
     const fileType = this.getFileType(ext);
 
     try {
-      switch (fileType) {
-        case 'pdf':
-          return await this.samplePdf(filePath);
-        case 'image':
-          return await this.sampleImage(filePath);
-        case 'video':
-          return await this.sampleVideo(filePath);
-        case 'document':
-          return await this.sampleDocument(filePath);
-        case 'excel':
-          return await this.sampleExcel(filePath);
-        default:
-          return await this.sampleMetadata(filePath);
+      if (fileType === 'image') {
+        return await this.sampleImage(filePath);
       }
+      const sampled = await this.sampleWithAnalyzers(filePath, fileType);
+      return sampled ?? (await this.sampleMetadata(filePath));
     } catch (error) {
       // Fallback to metadata on any error
       return await this.sampleMetadata(filePath);
@@ -71,22 +62,33 @@ export class ContentSampler {
   }
 
   /**
-   * Sample first N words from PDF
+   * Sample text through the registered analyzers: first N words of PDFs,
+   * first N characters of other text, or the analyzer's summary
    */
-  private async samplePdf(filePath: string): Promise<SampledContent> {
-    const dataBuffer = await fs.readFile(filePath);
-    const pdfData = await pdfParse(dataBuffer);
+  private async sampleWithAnalyzers(
+    filePath: string,
+    fileType: string,
+  ): Promise<SampledContent | undefined> {
+    const pdf = fileType === 'pdf';
+    const limit = pdf ? { maxWords: this.config.pdfWords } : { maxLength: this.config.textChars };
+    const result = await AnalyzerRegistry.analyze(filePath, limit);
+    if (!result) {
+      return undefined;
+    }
 
-    // Extract first N words
-    const words = pdfData.text.split(/\s+/);
-    const sampledWords = words.slice(0, this.config.pdfWords);
-    const content = sampledWords.join(' ');
+    const content = result.content.text ?? result.content.summary;
+    let extent = 'summary';
+    if (result.content.text !== undefined) {
+      extent = pdf
+        ? `first ${this.config.pdfWords} words`
+        : `first ${this.config.textChars} characters`;
+    }
 
     return {
       content,
       type: 'text',
       tokens: Math.ceil(content.length / 4), // Rough token estimate
-      extractionMethod: `PDF first ${this.config.pdfWords} words`,
+      extractionMethod: `${result.analyzer} analyzer, ${extent}`,
     };
   }
 
@@ -118,87 +120,6 @@ export class ContentSampler {
     };
   }
 
-  /**
-   * Sample Excel file - extract sheet names and headers
-   */
-  private async sampleExcel(filePath: string): Promise<SampledContent> {
-    const workbook = XLSX.readFile(filePath);
-
-    const content: string[] = [];
-
-    // Add sheet names
-    content.push(`Sheets: ${workbook.SheetNames.slice(0, 3).join(', ')}`);
-
-    // Extract first sheet content
-    if (workbook.SheetNames[0]) {
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      if (worksheet) {
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '' }) as any[][];
-
-        // Get first few rows
-        const firstRow = jsonData[0] as any[];
-        const secondRow = jsonData[1] as any[];
-
-        if (firstRow && firstRow.length > 0) {
-          const headers = firstRow.slice(0, 5).filter(Boolean).join(', ');
-          if (headers) content.push(`Headers: ${headers}`);
-        }
-
-        if (secondRow && secondRow.length > 0) {
-          const sample = secondRow.slice(0, 3).filter(Boolean).join(', ');
-          if (sample) content.push(`Data: ${sample}`);
-        }
-
-        content.push(`${jsonData.length} rows`);
-      }
-    }
-
-    const text = content.join('. ');
-
-    return {
-      content: text,
-      type: 'text',
-      tokens: Math.ceil(text.length / 4),
-      extractionMethod: 'Excel sheet names and headers',
-    };
-  }
-
-  /**
-   * Sample video frames (placeholder - requires ffmpeg)
-   */
-  private async sampleVideo(filePath: string): Promise<SampledContent> {
-    // For now, return enhanced metadata with creation date
-    const stats = await fs.stat(filePath);
-    const createdDate = stats.birthtime.toISOString().split('T')[0];
-    const sizeMB = Math.round(stats.size / 1024 / 1024);
-    const basename = path.basename(filePath, path.extname(filePath));
-
-    const content = `Video file: ${basename}, created ${createdDate}, size ${sizeMB}MB`;
-
-    return {
-      content,
-      type: 'text',
-      tokens: Math.ceil(content.length / 4),
-      extractionMethod: 'Video metadata with creation date',
-    };
-  }
-
-  /**
-   * Sample first N characters from text document
-   */
-  private async sampleDocument(filePath: string): Promise<SampledContent> {
-    const fileContent = await fs.readFile(filePath, 'utf-8');
-    const sampled = fileContent.slice(0, this.config.textChars);
-
-    return {
-      content: sampled,
-      type: 'text',
-      tokens: Math.ceil(sampled.length / 4),
-      extractionMethod: `Document first ${this.config.textChars} characters`,
-    };
-  }
-
   /**
    * Extract file metadata only (fallback)
    */
@@ -274,6 +195,9 @@ export class ContentSampler {
       '.md': 'document',
       '.doc': 'document',
       '.docx': 'document',
+      '.pptx': 'document',
+      '.odt': 'document',
+      '.odp': 'document',
     };
 
     return typeMap[ext] || 'unknown';
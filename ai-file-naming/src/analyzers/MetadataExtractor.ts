@@ -6,12 +6,14 @@
  * - Screenshots with timestamps
  * - Photos with GPS + date EXIF data
  * - Documents with clear titles
+ * - Audio files tagged with artist and title
  * - Downloads with descriptive names
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import exifr from 'exifr';
+import { AudioInfo, getAudioInfo, hasNamingTags } from '../utils/AudioUtils';
 
 export interface MetadataScore {
   confidence: number;  // 0-1
@@ -30,6 +32,7 @@ export interface RichMetadata {
     camera?: string;
     description?: string;
   };
+  audio?: AudioInfo;
   patterns?: {
     hasSequenceNumber: boolean;
     hasDatePattern: boolean;
@@ -85,6 +88,11 @@ export class MetadataExtractor {
       metadata.exif = await this.extractExif(filePath);
     }
 
+    // Read tags for audio
+    if (this.isAudio(ext)) {
+      metadata.audio = await getAudioInfo(filePath).catch(() => undefined);
+    }
+
     // Detect patterns in filename
     metadata.patterns = this.detectPatterns(basename);
 
@@ -161,6 +169,11 @@ export class MetadataExtractor {
       return 0.95;
     }
 
+    // Audio tags with title and artist or album = very high confidence (0.9)
+    if (metadata.audio && hasNamingTags(metadata.audio)) {
+      return 0.9;
+    }
+
     // EXIF GPS + Date = very high confidence (0.9)
     if (metadata.exif?.gps && metadata.exif?.dateTime) {
       score += 0.9;
@@ -201,6 +214,21 @@ export class MetadataExtractor {
   private generateNameFromMetadata(metadata: RichMetadata): string {
     const parts: string[] = [];
 
+    // Name tagged audio as artist_album_03_title
+    if (metadata.audio && hasNamingTags(metadata.audio)) {
+      const { artist, albumArtist, album, track, title } = metadata.audio;
+      return [
+        artist ?? albumArtist,
+        album,
+        track ? String(track).padStart(2, '0') : undefined,
+        title,
+      ]
+        .filter((part): part is string => !!part)
+        .map((part) => this.sanitize(part))
+        .filter((part) => part.length > 0)
+        .join('_');
+    }
+
     // Handle screenshots specially
     if (metadata.patterns?.isScreenshot) {
       parts.push('screenshot');
@@ -300,6 +328,10 @@ export class MetadataExtractor {
       reasons.push('Screenshot pattern detected');
     }
 
+    if (metadata.audio && hasNamingTags(metadata.audio)) {
+      reasons.push('Artist and title from audio tags');
+    }
+
     if (metadata.exif?.gps && metadata.exif?.dateTime) {
       reasons.push('GPS location and date from EXIF');
     } else if (metadata.exif?.dateTime) {
@@ -324,6 +356,13 @@ export class MetadataExtractor {
     return ['.jpg', '.jpeg', '.png', '.gif', '.heic', '.heif', '.webp'].includes(ext);
   }
 
+  /**
+   * Check if file is audio
+   */
+  private isAudio(ext: string): boolean {
+    return ['.mp3', '.flac', '.ogg', '.oga', '.opus', '.m4a', '.wav'].includes(ext);
+  }
+
   /**
    * Sanitize filename
    */
@@ -0,0 +1,102 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { AnalyzerRegistry } from '../AnalyzerRegistry';
+import { ContentAnalyzer } from '../base/ContentAnalyzer';
+import { AnalyzedContent, AnalyzerCapabilities } from '../../types/analyzer';
+
+/**
+ * Analyzer for `.fake` files that summarizes them with its own name
+ */
+class FakeAnalyzer extends ContentAnalyzer {
+  readonly capabilities: AnalyzerCapabilities = {
+    supportedExtensions: ['.fake'],
+    supportedMimeTypes: [],
+    maxFileSize: 100,
+    canExtractText: false,
+    canExtractMetadata: false,
+    canGenerateThumbnail: false,
+    canAnalyzeContent: true,
+  };
+
+  protected extract(): Promise<AnalyzedContent> {
+    return Promise.resolve({ summary: this.name, details: [], keywords: [], confidence: 1 });
+  }
+}
+
+/**
+ * Analyzer for `.fake` files that always fails
+ */
+class FailingAnalyzer extends FakeAnalyzer {
+  protected override extract(): Promise<AnalyzedContent> {
+    return Promise.reject(new Error('Cannot read file'));
+  }
+}
+
+describe('AnalyzerRegistry', () => {
+  const names = ['low', 'high', 'tied', 'failing'];
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'analyzer-registry-'));
+  });
+
+  afterEach(async () => {
+    names.forEach((name) => AnalyzerRegistry.unregister(name));
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const order = (filePath = 'a.fake', size = 10): string[] =>
+    AnalyzerRegistry.getAnalyzersFor(filePath, { size }).map((analyzer) => analyzer.name);
+
+  it('tries higher priorities first and keeps registration order for ties', () => {
+    AnalyzerRegistry.register('low', FakeAnalyzer, { priority: 1 });
+    AnalyzerRegistry.register('high', FakeAnalyzer, { priority: 5 });
+    AnalyzerRegistry.register('tied', FakeAnalyzer, { priority: 1 });
+
+    expect(order()).toEqual(['high', 'low', 'tied']);
+  });
+
+  it('follows priority changes made with configure', () => {
+    AnalyzerRegistry.register('low', FakeAnalyzer, { priority: 1 });
+    AnalyzerRegistry.register('high', FakeAnalyzer, { priority: 5 });
+
+    AnalyzerRegistry.configure('low', { priority: 10 });
+
+    expect(order()).toEqual(['low', 'high']);
+  });
+
+  it('leaves out disabled analyzers and files they do not handle', () => {
+    AnalyzerRegistry.register('low', FakeAnalyzer, { priority: 1 });
+    AnalyzerRegistry.register('high', FakeAnalyzer, { priority: 5, enabled: false });
+
+    expect(order()).toEqual(['low']);
+    expect(order('a.txt')).toEqual([]);
+    expect(order('a.fake', 1000)).toEqual([]);
+  });
+
+  it('rejects configuring an unknown analyzer', () => {
+    expect(() => AnalyzerRegistry.configure('missing', { priority: 1 })).toThrow(
+      /Unknown analyzer: missing/,
+    );
+  });
+
+  it('analyzes with the next analyzer when one fails', async () => {
+    const filePath = path.join(dir, 'a.fake');
+    await fs.writeFile(filePath, 'content');
+    AnalyzerRegistry.register('failing', FailingAnalyzer, { priority: 5 });
+    AnalyzerRegistry.register('low', FakeAnalyzer, { priority: 1 });
+
+    const result = await AnalyzerRegistry.analyze(filePath);
+
+    expect(result).toMatchObject({ analyzer: 'low', content: { summary: 'low' } });
+    expect(AnalyzerRegistry.getStats()['failing']).toMatchObject({ errorCount: 1 });
+  });
+
+  it('returns undefined when no analyzer handles the file', async () => {
+    const filePath = path.join(dir, 'a.unknown');
+    await fs.writeFile(filePath, 'content');
+
+    expect(await AnalyzerRegistry.analyze(filePath)).toBeUndefined();
+  });
+});
@@ -0,0 +1,210 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+import { OfficeOpenXmlAnalyzer } from '../office/OfficeOpenXmlAnalyzer';
+
+/**
+ * The part of xlsx's bundled CFB/ZIP library used to build packages
+ */
+interface ZipWriter {
+  utils: {
+    cfb_new(): unknown;
+    cfb_add(container: unknown, name: string, content: Buffer): void;
+  };
+  write(
+    container: unknown,
+    options: { fileType: 'zip'; type: 'buffer'; compression: boolean },
+  ): Buffer;
+}
+
+const zip = XLSX.CFB as ZipWriter;
+
+const CORE = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <dc:title>Q3 Budget Review</dc:title>
+  <dc:subject>Finance</dc:subject>
+  <cp:keywords>budget, forecast; q3</cp:keywords>
+</cp:coreProperties>`;
+
+const paragraph = (text: string, style?: string): string =>
+  `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}<w:r><w:t>${text}</w:t></w:r></w:p>`;
+
+const document = (...paragraphs: string[]): string =>
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${paragraphs.join('')}</w:body></w:document>`;
+
+const RELATIONSHIP = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const relationships = (...targets: Array<[id: string, type: string, target: string]>): string =>
+  `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${targets
+    .map(
+      ([id, type, target]) =>
+        `<Relationship Id="${id}" Type="${RELATIONSHIP}/${type}" Target="${target}"/>`,
+    )
+    .join('')}</Relationships>`;
+
+const shape = (placeholder: string | undefined, ...paragraphs: string[]): string =>
+  `<p:sp><p:nvSpPr><p:nvPr>${placeholder ?? ''}</p:nvPr></p:nvSpPr><p:spPr/><p:txBody>${paragraphs
+    .map((text) => `<a:p><a:r><a:t>${text}</a:t></a:r></a:p>`)
+    .join('')}</p:txBody></p:sp>`;
+
+const slide = (...shapes: string[]): string =>
+  `<p:sld xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"><p:cSld><p:spTree>${shapes.join('')}</p:spTree></p:cSld></p:sld>`;
+
+describe('OfficeOpenXmlAnalyzer', () => {
+  const analyzer = new OfficeOpenXmlAnalyzer({ name: 'office', priority: 0, enabled: true });
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'office-open-xml-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const writePackage = async (name: string, entries: Record<string, string>): Promise<string> => {
+    const container = zip.utils.cfb_new();
+    for (const [entry, content] of Object.entries(entries)) {
+      zip.utils.cfb_add(container, entry, Buffer.from(content));
+    }
+    const filePath = path.join(dir, name);
+    await fs.writeFile(
+      filePath,
+      zip.write(container, { fileType: 'zip', type: 'buffer', compression: true }),
+    );
+    return filePath;
+  };
+
+  describe('Word documents', () => {
+    it('summarizes the title, headings and opening paragraphs', async () => {
+      const filePath = await writePackage('report.docx', {
+        'docProps/core.xml': CORE,
+        'word/document.xml': document(
+          paragraph('Summary', 'Heading1'),
+          paragraph('Revenue &amp; costs grew'),
+          paragraph(''),
+          '<w:p><w:pPr><w:outlineLvl w:val="1"/></w:pPr><w:r><w:t>Outlook</w:t></w:r></w:p>',
+          '<w:p><w:r><w:t>We expect</w:t></w:r><w:r><w:tab/><w:t>growth.</w:t></w:r></w:p>',
+        ),
+      });
+
+      const content = await analyzer.analyze(filePath);
+
+      expect(content).toEqual({
+        summary: 'Word document: Q3 Budget Review. Revenue & costs grew We expect growth.',
+        details: [
+          'Title: Q3 Budget Review',
+          'Subject: Finance',
+          'Headings: Summary; Outlook',
+          'Content: Revenue & costs grew We expect growth.',
+        ],
+        keywords: ['budget', 'forecast', 'q3', 'Summary', 'Outlook'],
+        confidence: 0.85,
+        text: 'Summary\nRevenue & costs grew\nOutlook\nWe expect growth.',
+      });
+    });
+
+    it('takes the title from the first heading when the properties have none', async () => {
+      const filePath = await writePackage('report.docx', {
+        'word/document.xml': document(
+          paragraph('Lease Agreement', 'Title'),
+          paragraph('This agreement is made between the parties.'),
+        ),
+      });
+
+      const content = await analyzer.analyze(filePath);
+
+      expect(content.summary).toBe(
+        'Word document: Lease Agreement. This agreement is made between the parties.',
+      );
+      expect(content.keywords).toEqual([]);
+    });
+
+    it('limits the extracted text', async () => {
+      const filePath = await writePackage('report.docx', {
+        'word/document.xml': document(paragraph('word '.repeat(100))),
+      });
+
+      const content = await analyzer.analyze(filePath, { maxLength: 20 });
+
+      expect(content.text?.length).toBeLessThanOrEqual(20);
+    });
+
+    it('fails for documents with neither text nor a title', async () => {
+      const filePath = await writePackage('empty.docx', {
+        'word/document.xml': document(paragraph('')),
+      });
+
+      await expect(analyzer.analyze(filePath)).rejects.toThrow('No text or title found');
+    });
+  });
+
+  describe('PowerPoint presentations', () => {
+    const presentation = (...ids: string[]): string =>
+      `<p:presentation xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main" xmlns:r="${RELATIONSHIP}"><p:sldIdLst>${ids
+        .map((id, i) => `<p:sldId id="${256 + i}" r:id="${id}"/>`)
+        .join('')}</p:sldIdLst></p:presentation>`;
+
+    it('summarizes the slide titles, text and speaker notes in slide order', async () => {
+      const filePath = await writePackage('deck.pptx', {
+        'ppt/presentation.xml': presentation('rId2', 'rId1'),
+        'ppt/_rels/presentation.xml.rels': relationships(
+          ['rId1', 'slide', 'slides/slide1.xml'],
+          ['rId2', 'slide', 'slides/slide2.xml'],
+        ),
+        'ppt/slides/slide1.xml': slide(
+          shape('<p:ph type="title"/>', 'Roadmap'),
+          shape('<p:ph idx="1"/>', 'Launch in May', 'Hire two engineers'),
+          shape('<p:ph type="sldNum" idx="12"/>', '2'),
+        ),
+        'ppt/slides/_rels/slide1.xml.rels': relationships([
+          'rId1',
+          'notesSlide',
+          '../notesSlides/notesSlide1.xml',
+        ]),
+        'ppt/notesSlides/notesSlide1.xml': slide(
+          shape('<p:ph type="sldImg"/>'),
+          shape('<p:ph type="body" idx="1"/>', 'Mention the budget'),
+        ),
+        'ppt/slides/slide2.xml': slide(shape('<p:ph type="ctrTitle"/>', 'Product Strategy 2025')),
+      });
+
+      const content = await analyzer.analyze(filePath);
+
+      expect(content).toEqual({
+        summary: 'PowerPoint presentation, 2 slides: Product Strategy 2025',
+        details: [
+          '2 slides',
+          'Title: Product Strategy 2025',
+          'Slide titles: Product Strategy 2025; Roadmap',
+          'Speaker notes: Mention the budget',
+        ],
+        keywords: ['Roadmap'],
+        confidence: 0.85,
+        text: 'Product Strategy 2025\n\nRoadmap\nLaunch in May\nHire two engineers\nMention the budget',
+      });
+    });
+
+    it('orders slides by their part number without a slide list', async () => {
+      const filePath = await writePackage('deck.pptx', {
+        'ppt/presentation.xml': presentation(),
+        'ppt/slides/slide10.xml': slide(shape('<p:ph type="title"/>', 'Tenth')),
+        'ppt/slides/slide2.xml': slide(shape('<p:ph type="title"/>', 'Second')),
+      });
+
+      const content = await analyzer.analyze(filePath);
+
+      expect(content.details).toContain('Slide titles: Second; Tenth');
+    });
+  });
+
+  it('fails for packages that are neither documents nor presentations', async () => {
+    const filePath = await writePackage('book.docx', { 'xl/workbook.xml': '<workbook/>' });
+
+    await expect(analyzer.analyze(filePath)).rejects.toThrow(
+      'Not a Word document or PowerPoint presentation',
+    );
+  });
+});
@@ -0,0 +1,168 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+import { OpenDocumentAnalyzer } from '../office/OpenDocumentAnalyzer';
+
+/**
+ * The part of xlsx's bundled CFB/ZIP library used to build packages
+ */
+interface ZipWriter {
+  utils: {
+    cfb_new(): unknown;
+    cfb_add(container: unknown, name: string, content: Buffer): void;
+  };
+  write(
+    container: unknown,
+    options: { fileType: 'zip'; type: 'buffer'; compression: boolean },
+  ): Buffer;
+}
+
+const zip = XLSX.CFB as ZipWriter;
+
+const TEXT = 'application/vnd.oasis.opendocument.text';
+const PRESENTATION = 'application/vnd.oasis.opendocument.presentation';
+
+const META = `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-meta xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" xmlns:meta="urn:oasis:names:tc:opendocument:xmlns:meta:1.0" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <office:meta>
+    <dc:title>Field Trip Letter</dc:title>
+    <meta:keyword>school</meta:keyword>
+    <meta:keyword>consent</meta:keyword>
+  </office:meta>
+</office:document-meta>`;
+
+const content = (body: string): string =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0" xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0" xmlns:draw="urn:oasis:names:tc:opendocument:xmlns:drawing:1.0" xmlns:presentation="urn:oasis:names:tc:opendocument:xmlns:presentation:1.0"><office:body>${body}</office:body></office:document-content>`;
+
+const frame = (presentationClass: string, ...paragraphs: string[]): string =>
+  `<draw:frame presentation:class="${presentationClass}"><draw:text-box>${paragraphs
+    .map((text) => `<text:p>${text}</text:p>`)
+    .join('')}</draw:text-box></draw:frame>`;
+
+describe('OpenDocumentAnalyzer', () => {
+  const analyzer = new OpenDocumentAnalyzer({ name: 'opendocument', priority: 0, enabled: true });
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'open-document-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const writePackage = async (name: string, entries: Record<string, string>): Promise<string> => {
+    const container = zip.utils.cfb_new();
+    for (const [entry, data] of Object.entries(entries)) {
+      zip.utils.cfb_add(container, entry, Buffer.from(data));
+    }
+    const filePath = path.join(dir, name);
+    await fs.writeFile(
+      filePath,
+      zip.write(container, { fileType: 'zip', type: 'buffer', compression: true }),
+    );
+    return filePath;
+  };
+
+  describe('text documents', () => {
+    it('summarizes the title, headings and opening paragraphs', async () => {
+      const filePath = await writePackage('letter.odt', {
+        mimetype: TEXT,
+        'meta.xml': META,
+        'content.xml': content(
+          '<office:text>' +
+            '<text:h text:outline-level="1">Dear parents</text:h>' +
+            '<text:p>The trip is on<text:s/>Friday.</text:p>' +
+            '<text:p/>' +
+            '<text:p text:style-name="Subtitle">Costs</text:p>' +
+            '<text:p>Please return the form &amp; fee.</text:p>' +
+            '</office:text>',
+        ),
+      });
+
+      const result = await analyzer.analyze(filePath);
+
+      expect(result).toEqual({
+        summary:
+          'OpenDocument text: Field Trip Letter. The trip is on Friday. Please return the form & fee.',
+        details: [
+          'Title: Field Trip Letter',
+          'Headings: Dear parents; Costs',
+          'Content: The trip is on Friday. Please return the form & fee.',
+        ],
+        keywords: ['school', 'consent', 'Dear parents', 'Costs'],
+        confidence: 0.85,
+        text: 'Dear parents\nThe trip is on Friday.\nCosts\nPlease return the form & fee.',
+      });
+    });
+
+    it('takes the title from the first heading when the meta has none', async () => {
+      const filePath = await writePackage('letter.odt', {
+        mimetype: TEXT,
+        'content.xml': content(
+          '<office:text><text:p text:style-name="Title">Minutes</text:p>' +
+            '<text:p>Present: all members.</text:p></office:text>',
+        ),
+      });
+
+      const result = await analyzer.analyze(filePath);
+
+      expect(result.summary).toBe('OpenDocument text: Minutes. Present: all members.');
+      expect(result.details[0]).toBe('Title: Minutes');
+    });
+  });
+
+  describe('presentations', () => {
+    it('summarizes the slide titles, text and speaker notes', async () => {
+      const filePath = await writePackage('talk.odp', {
+        mimetype: PRESENTATION,
+        'content.xml': content(
+          '<office:presentation>' +
+            '<draw:page draw:name="page1">' +
+            frame('title', 'Quarterly Results') +
+            frame('outline', 'Revenue up', 'Costs down') +
+            frame('page-number', '1') +
+            `<presentation:notes>${frame('page')}${frame('notes', 'Thank the team')}</presentation:notes>` +
+            '</draw:page>' +
+            `<draw:page draw:name="page2">${frame('title', 'Next Steps')}</draw:page>` +
+            '</office:presentation>',
+        ),
+      });
+
+      const result = await analyzer.analyze(filePath);
+
+      expect(result).toEqual({
+        summary: 'OpenDocument presentation, 2 slides: Quarterly Results',
+        details: [
+          '2 slides',
+          'Title: Quarterly Results',
+          'Slide titles: Quarterly Results; Next Steps',
+          'Speaker notes: Thank the team',
+        ],
+        keywords: ['Next Steps'],
+        confidence: 0.85,
+        text: 'Quarterly Results\nRevenue up\nCosts down\nThank the team\n\nNext Steps',
+      });
+    });
+  });
+
+  it('fails for other OpenDocument types', async () => {
+    const filePath = await writePackage('sheet.odt', {
+      mimetype: 'application/vnd.oasis.opendocument.spreadsheet',
+      'content.xml': content('<office:spreadsheet/>'),
+    });
+
+    await expect(analyzer.analyze(filePath)).rejects.toThrow(
+      'Not an OpenDocument text or presentation: application/vnd.oasis.opendocument.spreadsheet',
+    );
+  });
+
+  it('fails for files that are not packages', async () => {
+    const filePath = path.join(dir, 'plain.odt');
+    await fs.writeFile(filePath, 'Just some text');
+
+    await expect(analyzer.analyze(filePath)).rejects.toThrow();
+  });
+});
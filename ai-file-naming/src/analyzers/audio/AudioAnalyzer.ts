@@ -0,0 +1,72 @@
+/**
+ * Audio analyzer - artist, album, track and title tags and stream properties
+ */
+
+import * as path from 'path';
+import { ContentAnalyzer } from '../base/ContentAnalyzer';
+import { AnalyzedContent, AnalyzerCapabilities } from '../../types/analyzer';
+import { getAudioInfo, hasNamingTags } from '../../utils/AudioUtils';
+import { formatDuration } from '../../utils/FileUtils';
+
+/**
+ * Audio analyzer class
+ */
+export class AudioAnalyzer extends ContentAnalyzer {
+  readonly capabilities: AnalyzerCapabilities = {
+    supportedExtensions: ['.mp3', '.flac', '.ogg', '.oga', '.opus', '.m4a', '.wav'],
+    supportedMimeTypes: ['audio/*'],
+    canExtractText: false,
+    canExtractMetadata: true,
+    canGenerateThumbnail: false,
+    canAnalyzeContent: false,
+  };
+
+  /**
+   * Extract the tags, duration and stream properties
+   */
+  protected async extract(filePath: string): Promise<AnalyzedContent> {
+    const info = await getAudioInfo(filePath);
+    const artist = info.artist ?? info.albumArtist;
+    const details: string[] = [];
+
+    if (artist) {
+      details.push(`Artist: ${artist}`);
+    }
+    if (info.album) {
+      details.push(`Album: ${info.album}`);
+    }
+    if (info.track) {
+      details.push(`Track: ${info.track}${info.trackTotal ? ` of ${info.trackTotal}` : ''}`);
+    }
+    if (info.disc) {
+      details.push(`Disc: ${info.disc}`);
+    }
+    if (info.year) {
+      details.push(`Year: ${info.year}`);
+    }
+    if (info.genre) {
+      details.push(`Genre: ${info.genre}`);
+    }
+    if (info.duration) {
+      details.push(`Duration: ${formatDuration(info.duration)}`);
+    }
+    const stream = [
+      info.codec,
+      info.bitrate ? `${Math.round(info.bitrate / 1000)} kbps` : undefined,
+      info.sampleRate ? `${info.sampleRate} Hz` : undefined,
+    ].filter(Boolean);
+    if (stream.length > 0) {
+      details.push(`Stream: ${stream.join(', ')}`);
+    }
+
+    const heading = [artist, info.title].filter(Boolean).join(' - ');
+    return {
+      summary: `Audio file (${path.extname(filePath)})${heading ? `: ${heading}` : ''}${
+        info.album ? ` from ${info.album}` : ''
+      }`,
+      details,
+      keywords: [artist, info.album, info.title, info.genre].filter((k): k is string => !!k),
+      confidence: hasNamingTags(info) ? 0.9 : info.title ? 0.75 : 0.5,
+    };
+  }
+}
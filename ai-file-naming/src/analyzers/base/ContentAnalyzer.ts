@@ -0,0 +1,162 @@
+/**
+ * Base class for content analyzers
+ */
+
+import * as path from 'path';
+import {
+  AnalyzedContent,
+  AnalyzerCapabilities,
+  AnalyzerConfig,
+  AnalyzerStats,
+  AnalyzerValidationResult,
+  ContentExtractionOptions,
+} from '../../types/analyzer';
+import { Logger } from '../../utils/Logger';
+
+/**
+ * File facts an analyzer is matched against
+ */
+export interface AnalyzerFileInfo {
+  size: number;
+  mimeType?: string;
+}
+
+/**
+ * Abstract content analyzer class
+ */
+export abstract class ContentAnalyzer {
+  abstract readonly capabilities: AnalyzerCapabilities;
+
+  protected config: AnalyzerConfig;
+  protected analyzerLogger: Logger;
+  private stats: AnalyzerStats = {
+    filesAnalyzed: 0,
+    successCount: 0,
+    errorCount: 0,
+    averageProcessingTime: 0,
+  };
+
+  constructor(config: AnalyzerConfig) {
+    this.config = config;
+    this.analyzerLogger = Logger.getInstance();
+  }
+
+  /**
+   * Registered analyzer name
+   */
+  get name(): string {
+    return this.config.name;
+  }
+
+  /**
+   * Analyzer configuration
+   */
+  getConfig(): AnalyzerConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Update priority, enabled state or options
+   */
+  updateConfig(config: Partial<Omit<AnalyzerConfig, 'name'>>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Check whether the analyzer handles a file, by extension or MIME type
+   * (`type/*` patterns allowed) and size
+   */
+  validate(filePath: string, file: AnalyzerFileInfo): AnalyzerValidationResult {
+    if (!this.config.enabled) {
+      return { valid: true, canAnalyze: false, reason: `Analyzer '${this.name}' is disabled` };
+    }
+
+    const extension = path.extname(filePath).toLowerCase();
+    const { supportedExtensions, supportedMimeTypes, maxFileSize } = this.capabilities;
+    const mimeType = file.mimeType?.toLowerCase();
+    const supported =
+      supportedExtensions.includes(extension) ||
+      (mimeType !== undefined &&
+        supportedMimeTypes.some((pattern) =>
+          pattern.endsWith('/*') ? mimeType.startsWith(pattern.slice(0, -1)) : pattern === mimeType,
+        ));
+
+    if (!supported) {
+      return { valid: true, canAnalyze: false, reason: `Unsupported file type: ${extension}` };
+    }
+    if (maxFileSize !== undefined && file.size > maxFileSize) {
+      return {
+        valid: true,
+        canAnalyze: false,
+        reason: `File is larger than ${maxFileSize} bytes`,
+      };
+    }
+    return { valid: true, canAnalyze: true };
+  }
+
+  /**
+   * Analyze a file, recording stats
+   */
+  async analyze(
+    filePath: string,
+    options: ContentExtractionOptions = {},
+  ): Promise<AnalyzedContent> {
+    const startTime = Date.now();
+    this.stats.filesAnalyzed++;
+    this.stats.lastUsed = new Date();
+
+    try {
+      const content = await this.extract(filePath, options);
+      this.stats.successCount++;
+      return content;
+    } catch (error) {
+      this.stats.errorCount++;
+      throw error;
+    } finally {
+      const elapsed = Date.now() - startTime;
+      this.stats.averageProcessingTime +=
+        (elapsed - this.stats.averageProcessingTime) / this.stats.filesAnalyzed;
+    }
+  }
+
+  /**
+   * Get analyzer statistics
+   */
+  getStats(): AnalyzerStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Reset analyzer statistics
+   */
+  resetStats(): void {
+    this.stats = {
+      filesAnalyzed: 0,
+      successCount: 0,
+      errorCount: 0,
+      averageProcessingTime: 0,
+    };
+  }
+
+  /**
+   * Cut extracted text to the requested number of words and characters
+   */
+  protected limitText(text: string, options: ContentExtractionOptions): string {
+    let limited = text;
+    if (options.maxWords !== undefined) {
+      limited = limited.split(/\s+/).slice(0, options.maxWords).join(' ');
+    }
+    if (options.maxLength !== undefined) {
+      limited = limited.slice(0, options.maxLength);
+    }
+    return limited;
+  }
+
+  /**
+   * Read the file's content
+   */
+  protected abstract extract(
+    filePath: string,
+    options: ContentExtractionOptions,
+  ): Promise<AnalyzedContent>;
+}
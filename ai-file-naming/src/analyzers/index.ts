@@ -0,0 +1,66 @@
+/**
+ * Analyzer exports and registration
+ */
+
+import { AnalyzerRegistry } from './AnalyzerRegistry';
+import { PdfAnalyzer } from './pdf/PdfAnalyzer';
+import { SpreadsheetAnalyzer } from './spreadsheet/SpreadsheetAnalyzer';
+import { VideoAnalyzer } from './video/VideoAnalyzer';
+import { AudioAnalyzer } from './audio/AudioAnalyzer';
+import { TextAnalyzer } from './text/TextAnalyzer';
+import { OfficeOpenXmlAnalyzer } from './office/OfficeOpenXmlAnalyzer';
+import { OpenDocumentAnalyzer } from './office/OpenDocumentAnalyzer';
+
+// Export analyzers
+export { ContentAnalyzer, AnalyzerFileInfo } from './base/ContentAnalyzer';
+export { PdfAnalyzer } from './pdf/PdfAnalyzer';
+export { SpreadsheetAnalyzer } from './spreadsheet/SpreadsheetAnalyzer';
+export { VideoAnalyzer } from './video/VideoAnalyzer';
+export { AudioAnalyzer } from './audio/AudioAnalyzer';
+export { TextAnalyzer } from './text/TextAnalyzer';
+export {
+  OfficeAnalyzer,
+  OfficeDocument,
+  OfficeParagraph,
+  OfficeProperties,
+  OfficeSlide,
+} from './office/OfficeAnalyzer';
+export { OfficeOpenXmlAnalyzer } from './office/OfficeOpenXmlAnalyzer';
+export { OpenDocumentAnalyzer } from './office/OpenDocumentAnalyzer';
+export { AnalyzerRegistry, AnalyzerConstructor, AnalyzerRegistration } from './AnalyzerRegistry';
+
+// Register all built-in analyzers
+AnalyzerRegistry.register('pdf', PdfAnalyzer, {
+  description: 'PDF text, page count and opening lines',
+  version: '1.0.0',
+});
+
+AnalyzerRegistry.register('spreadsheet', SpreadsheetAnalyzer, {
+  description: 'Excel, CSV and OpenDocument sheet names, headers and sample rows',
+  version: '1.0.0',
+});
+
+AnalyzerRegistry.register('video', VideoAnalyzer, {
+  description: 'Video dates, size and embedded title',
+  version: '1.0.0',
+});
+
+AnalyzerRegistry.register('audio', AudioAnalyzer, {
+  description: 'ID3, Vorbis comment, MP4 and RIFF tags, duration and stream properties',
+  version: '1.0.0',
+});
+
+AnalyzerRegistry.register('office', OfficeOpenXmlAnalyzer, {
+  description: 'Word and PowerPoint titles, headings, opening paragraphs, slide titles and notes',
+  version: '1.0.0',
+});
+
+AnalyzerRegistry.register('opendocument', OpenDocumentAnalyzer, {
+  description: 'OpenDocument text and presentation titles, headings, slides and notes',
+  version: '1.0.0',
+});
+
+AnalyzerRegistry.register('text', TextAnalyzer, {
+  description: 'Opening of plain-text files',
+  version: '1.0.0',
+});
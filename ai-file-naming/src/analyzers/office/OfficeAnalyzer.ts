@@ -0,0 +1,176 @@
+/**
+ * Base class for office package analyzers - title, headings, opening
+ * paragraphs, slide titles and speaker notes
+ */
+
+import { OfficePackage } from './OfficePackage';
+import { ContentAnalyzer } from '../base/ContentAnalyzer';
+import { AnalyzedContent, ContentExtractionOptions } from '../../types/analyzer';
+
+/**
+ * Document properties (OOXML core properties, OpenDocument meta)
+ */
+export interface OfficeProperties {
+  title?: string;
+  subject?: string;
+  keywords: string[];
+}
+
+/**
+ * A paragraph of a text document
+ */
+export interface OfficeParagraph {
+  text: string;
+  heading: boolean;
+}
+
+/**
+ * A presentation slide
+ */
+export interface OfficeSlide {
+  title?: string;
+  text: string[];
+  notes: string[];
+}
+
+/**
+ * What an office package says, before it is summarized
+ */
+export interface OfficeDocument {
+  kind: string; // e.g. 'Word document'
+  properties: OfficeProperties;
+  paragraphs: OfficeParagraph[];
+  slides?: OfficeSlide[]; // Set for presentations
+}
+
+/**
+ * Abstract office analyzer class
+ */
+export abstract class OfficeAnalyzer extends ContentAnalyzer {
+  /**
+   * Open the package and summarize what it contains
+   */
+  protected async extract(
+    filePath: string,
+    options: ContentExtractionOptions,
+  ): Promise<AnalyzedContent> {
+    const pkg = await OfficePackage.open(filePath);
+    const document = this.readDocument(pkg);
+    return document.slides
+      ? this.describePresentation(document, document.slides, options)
+      : this.describeDocument(document, options);
+  }
+
+  /**
+   * Read properties, paragraphs and slides from the package
+   */
+  protected abstract readDocument(pkg: OfficePackage): OfficeDocument;
+
+  /**
+   * Summarize a text document by its title, headings and opening paragraphs
+   */
+  private describeDocument(
+    document: OfficeDocument,
+    options: ContentExtractionOptions,
+  ): AnalyzedContent {
+    const { properties, paragraphs } = document;
+    const headings = paragraphs.filter((p) => p.heading).map((p) => p.text);
+    const opening = paragraphs
+      .filter((p) => !p.heading)
+      .slice(0, 3)
+      .map((p) => p.text)
+      .join(' ');
+    const title = properties.title ?? headings[0];
+
+    const details: string[] = [];
+    if (title) {
+      details.push(`Title: ${title}`);
+    }
+    if (properties.subject) {
+      details.push(`Subject: ${properties.subject}`);
+    }
+    if (headings.length > 0) {
+      details.push(`Headings: ${headings.slice(0, 5).join('; ')}`);
+    }
+    if (opening) {
+      details.push(`Content: ${opening.slice(0, 200)}`);
+    }
+
+    const text = paragraphs.map((p) => p.text).join('\n');
+    return this.toContent(
+      `${document.kind}: ${[title, opening.slice(0, 100)].filter(Boolean).join('. ')}`,
+      details,
+      [...properties.keywords, ...headings.filter((h) => h !== title).slice(0, 3)],
+      text,
+      options,
+    );
+  }
+
+  /**
+   * Summarize a presentation by its title, slide titles and speaker notes
+   */
+  private describePresentation(
+    document: OfficeDocument,
+    slides: OfficeSlide[],
+    options: ContentExtractionOptions,
+  ): AnalyzedContent {
+    const { properties } = document;
+    const slideTitles = slides.map((slide) => slide.title).filter((t): t is string => !!t);
+    const notes = slides.flatMap((slide) => slide.notes).join(' ');
+    const title = properties.title ?? slideTitles[0];
+
+    const count = `${slides.length} ${slides.length === 1 ? 'slide' : 'slides'}`;
+    const details: string[] = [count];
+    if (title) {
+      details.push(`Title: ${title}`);
+    }
+    if (properties.subject) {
+      details.push(`Subject: ${properties.subject}`);
+    }
+    if (slideTitles.length > 0) {
+      details.push(
+        `Slide titles: ${slideTitles.slice(0, 8).join('; ')}${slideTitles.length > 8 ? '...' : ''}`,
+      );
+    }
+    if (notes) {
+      details.push(`Speaker notes: ${notes.slice(0, 200)}`);
+    }
+
+    const text = slides
+      .map((slide) => [slide.title, ...slide.text, ...slide.notes].filter(Boolean).join('\n'))
+      .filter(Boolean)
+      .join('\n\n');
+    return this.toContent(
+      `${document.kind}, ${count}${title ? `: ${title}` : ''}`,
+      details,
+      [...properties.keywords, ...slideTitles.filter((t) => t !== title).slice(0, 3)],
+      text,
+      options,
+    );
+  }
+
+  /**
+   * Assemble the analyzed content; a package with neither text nor a title
+   * says nothing and fails so the file is named from metadata
+   */
+  private toContent(
+    summary: string,
+    details: string[],
+    keywords: string[],
+    text: string,
+    options: ContentExtractionOptions,
+  ): AnalyzedContent {
+    const hasTitle = details.some((detail) => detail.startsWith('Title: '));
+    if (!text && !hasTitle) {
+      throw new Error('No text or title found in the document');
+    }
+
+    return {
+      summary,
+      details,
+      keywords: Array.from(new Set(keywords.filter((k) => k.length > 0))),
+      confidence: text ? 0.85 : 0.6,
+      text: text ? this.limitText(text, options) : undefined,
+    };
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Office Open XML analyzer - Word documents and PowerPoint presentations
+ */
+
+import { OfficeAnalyzer, OfficeDocument, OfficeParagraph, OfficeSlide } from './OfficeAnalyzer';
+import { OfficePackage, xmlAttribute, xmlElements, xmlFirstText, xmlText } from './OfficePackage';
+import { AnalyzerCapabilities } from '../../types/analyzer';
+
+// Placeholders that repeat on every slide rather than saying what it is about
+const BOILERPLATE_PLACEHOLDERS = ['sldNum', 'dt', 'ftr', 'hdr', 'sldImg'];
+
+/**
+ * Office Open XML analyzer class
+ */
+export class OfficeOpenXmlAnalyzer extends OfficeAnalyzer {
+  readonly capabilities: AnalyzerCapabilities = {
+    supportedExtensions: ['.docx', '.pptx'],
+    supportedMimeTypes: [
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    ],
+    canExtractText: true,
+    canExtractMetadata: true,
+    canGenerateThumbnail: false,
+    canAnalyzeContent: true,
+  };
+
+  /**
+   * Read the core properties and the document body or the slides
+   */
+  protected readDocument(pkg: OfficePackage): OfficeDocument {
+    const core = pkg.read('docProps/core.xml') ?? '';
+    const properties = {
+      title: xmlFirstText(core, 'dc:title'),
+      subject: xmlFirstText(core, 'dc:subject'),
+      keywords: (xmlFirstText(core, 'cp:keywords') ?? '')
+        .split(/[,;]/)
+        .map((keyword) => keyword.trim())
+        .filter(Boolean),
+    };
+
+    const body = pkg.read('word/document.xml');
+    if (body !== undefined) {
+      return { kind: 'Word document', properties, paragraphs: this.readParagraphs(body) };
+    }
+    if (pkg.has('ppt/presentation.xml')) {
+      return {
+        kind: 'PowerPoint presentation',
+        properties,
+        paragraphs: [],
+        slides: this.readSlides(pkg),
+      };
+    }
+    throw new Error('Not a Word document or PowerPoint presentation');
+  }
+
+  /**
+   * Non-empty paragraphs of a Word document; headings are paragraphs with a
+   * title or heading style or an outline level
+   */
+  private readParagraphs(body: string): OfficeParagraph[] {
+    return xmlElements(body, 'w:p')
+      .map((paragraph) => {
+        const style = xmlAttribute(/<w:pStyle\s[^>]*>/.exec(paragraph.inner)?.[0] ?? '', 'w:val');
+        return {
+          text: this.runText(paragraph.inner, 'w:t', 'w:tab', 'w:br'),
+          heading:
+            /^(title|subtitle|heading\s*\d*)$/i.test(style ?? '') ||
+            /<w:outlineLvl\s/.test(paragraph.inner),
+        };
+      })
+      .filter((paragraph) => paragraph.text.length > 0);
+  }
+
+  /**
+   * Slides in presentation order, with their title, body text and speaker notes
+   */
+  private readSlides(pkg: OfficePackage): OfficeSlide[] {
+    const presentation = pkg.read('ppt/presentation.xml') ?? '';
+    const relationships = pkg.relationships('ppt/presentation.xml');
+    let parts = xmlElements(presentation, 'p:sldId')
+      .map((slide) => relationships.get(xmlAttribute(slide.attributes, 'r:id') ?? '')?.target)
+      .filter((part): part is string => part !== undefined && pkg.has(part));
+
+    if (parts.length === 0) {
+      // No usable slide list; fall back to the slide part numbering
+      const slideNumber = (part: string): number => Number(/(\d+)\.xml$/.exec(part)?.[1] ?? 0);
+      parts = pkg
+        .list('ppt/slides/')
+        .filter((part) => /^ppt\/slides\/slide\d+\.xml$/.test(part))
+        .sort((a, b) => slideNumber(a) - slideNumber(b));
+    }
+
+    return parts.map((part) => {
+      const slide: OfficeSlide = { text: [], notes: [] };
+      for (const shape of this.readShapes(pkg.read(part) ?? '')) {
+        if (shape.placeholder === 'title' || shape.placeholder === 'ctrTitle') {
+          slide.title ??= shape.paragraphs.join(' ');
+        } else if (!BOILERPLATE_PLACEHOLDERS.includes(shape.placeholder ?? '')) {
+          slide.text.push(...shape.paragraphs);
+        }
+      }
+
+      const notesPart = Array.from(pkg.relationships(part).values()).find((rel) =>
+        rel.type.endsWith('/notesSlide'),
+      )?.target;
+      if (notesPart) {
+        slide.notes = this.readShapes(pkg.read(notesPart) ?? '')
+          .filter((shape) => shape.placeholder === 'body')
+          .flatMap((shape) => shape.paragraphs);
+      }
+      return slide;
+    });
+  }
+
+  /**
+   * Shapes of a slide or notes page with their placeholder type and paragraphs
+   */
+  private readShapes(xml: string): Array<{ placeholder?: string; paragraphs: string[] }> {
+    return xmlElements(xml, 'p:sp').map((shape) => {
+      const placeholder = /<p:ph(?:\s[^>]*)?\/?>/.exec(shape.inner)?.[0];
+      return {
+        // A placeholder without a type is a body placeholder
+        placeholder: placeholder ? (xmlAttribute(placeholder, 'type') ?? 'body') : undefined,
+        paragraphs: xmlElements(shape.inner, 'a:p')
+          .map((paragraph) => this.runText(paragraph.inner, 'a:t', 'a:br'))
+          .filter((text) => text.length > 0),
+      };
+    });
+  }
+
+  /**
+   * Text of a paragraph's runs; tabs and breaks become spaces
+   */
+  private runText(paragraph: string, textTag: string, ...spaceTags: string[]): string {
+    return xmlText(
+      xmlElements(paragraph, textTag, ...spaceTags)
+        .map((run) => (run.tag === textTag ? run.inner : ' '))
+        .join(''),
+    );
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Office package reader - ZIP entries and XML text of OOXML and OpenDocument files
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+
+/**
+ * The part of xlsx's bundled CFB/ZIP reader used here
+ */
+interface ZipContainer {
+  FullPaths: string[];
+  FileIndex: Array<{ content?: ArrayLike<number> }>;
+}
+
+interface ZipReader {
+  read(data: Buffer, options: { type: 'buffer' }): ZipContainer;
+}
+
+const zip = XLSX.CFB as ZipReader;
+
+/**
+ * An XML element's attributes and inner markup
+ */
+export interface XmlElement {
+  attributes: string;
+  inner: string;
+}
+
+/**
+ * Office package class
+ */
+export class OfficePackage {
+  private entries = new Map<string, ArrayLike<number>>();
+
+  private constructor(container: ZipContainer) {
+    container.FullPaths.forEach((fullPath, index) => {
+      const content = container.FileIndex[index]?.content;
+      if (content && content.length > 0) {
+        // Drop the reader's root entry name
+        this.entries.set(fullPath.slice(fullPath.indexOf('/') + 1), content);
+      }
+    });
+  }
+
+  /**
+   * Open a package file
+   */
+  static async open(filePath: string): Promise<OfficePackage> {
+    return new OfficePackage(zip.read(await fs.readFile(filePath), { type: 'buffer' }));
+  }
+
+  /**
+   * Check if the package has an entry
+   */
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  /**
+   * Entry names, optionally only those under a folder
+   */
+  list(folder = ''): string[] {
+    return Array.from(this.entries.keys()).filter((name) => name.startsWith(folder));
+  }
+
+  /**
+   * Read an entry as UTF-8 text
+   */
+  read(name: string): string | undefined {
+    const content = this.entries.get(name);
+    return content ? Buffer.from(content as Uint8Array).toString('utf8') : undefined;
+  }
+
+  /**
+   * Targets of an OOXML part's relationships, keyed by relationship ID and
+   * resolved against the part's folder
+   */
+  relationships(part: string): Map<string, { type: string; target: string }> {
+    const folder = path.posix.dirname(part);
+    const rels = this.read(`${folder}/_rels/${path.posix.basename(part)}.rels`) ?? '';
+    const targets = new Map<string, { type: string; target: string }>();
+
+    for (const match of rels.matchAll(/<Relationship\s[^>]*>/g)) {
+      const id = xmlAttribute(match[0], 'Id');
+      const type = xmlAttribute(match[0], 'Type');
+      const target = xmlAttribute(match[0], 'Target');
+      if (id && type && target) {
+        targets.set(id, { type, target: path.posix.normalize(`${folder}/${target}`) });
+      }
+    }
+    return targets;
+  }
+}
+
+/**
+ * Elements with one of the given tag names, in document order
+ *
+ * Nested elements of the same name end at the first closing tag.
+ */
+export function xmlElements(xml: string, ...tags: string[]): Array<XmlElement & { tag: string }> {
+  const names = tags.map((tag) => tag.replace(/[.:]/g, '\\$&')).join('|');
+  const pattern = new RegExp(`<(${names})(\\s[^>]*?)?(?:/>|(?<!/)>([\\s\\S]*?)</\\1>)`, 'g');
+  return Array.from(xml.matchAll(pattern), (match) => ({
+    tag: match[1] ?? '',
+    attributes: match[2] ?? '',
+    inner: match[3] ?? '',
+  }));
+}
+
+/**
+ * Text of the first element with the given tag name
+ */
+export function xmlFirstText(xml: string, tag: string): string | undefined {
+  const element = xmlElements(xml, tag)[0];
+  const text = element ? xmlText(element.inner) : '';
+  return text.length > 0 ? text : undefined;
+}
+
+/**
+ * Value of an attribute in an element's markup
+ */
+export function xmlAttribute(markup: string, name: string): string | undefined {
+  const match = new RegExp(`\\s${name.replace(/[.:]/g, '\\$&')}="([^"]*)"`).exec(markup);
+  return match?.[1] !== undefined ? decodeXml(match[1]) : undefined;
+}
+
+/**
+ * Plain text of XML markup: tabs, breaks and spacers become spaces, other
+ * tags are dropped and whitespace is collapsed
+ */
+export function xmlText(markup: string): string {
+  return decodeXml(
+    markup
+      .replace(/<(?:w:tab|w:br|a:br|text:s|text:tab|text:line-break)(?:\s[^>]*)?\/>/g, ' ')
+      .replace(/<[^>]+>/g, ''),
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Decode XML entities
+ */
+function decodeXml(text: string): string {
+  const entities: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+  };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity: string, code: string) => {
+    if (code.startsWith('#')) {
+      const point =
+        code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : +code.slice(1);
+      return Number.isNaN(point) || point > 0x10ffff ? entity : String.fromCodePoint(point);
+    }
+    return entities[code] ?? entity;
+  });
+}
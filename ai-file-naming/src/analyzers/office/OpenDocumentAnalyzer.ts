@@ -0,0 +1,108 @@
+/**
+ * OpenDocument analyzer - text documents and presentations
+ */
+
+import { OfficeAnalyzer, OfficeDocument, OfficeParagraph, OfficeSlide } from './OfficeAnalyzer';
+import { OfficePackage, xmlAttribute, xmlElements, xmlFirstText, xmlText } from './OfficePackage';
+import { AnalyzerCapabilities } from '../../types/analyzer';
+
+// Presentation classes that repeat on every slide rather than saying what it is about
+const BOILERPLATE_CLASSES = ['page-number', 'date-time', 'footer', 'header', 'page'];
+
+/**
+ * OpenDocument analyzer class
+ */
+export class OpenDocumentAnalyzer extends OfficeAnalyzer {
+  readonly capabilities: AnalyzerCapabilities = {
+    supportedExtensions: ['.odt', '.odp'],
+    supportedMimeTypes: [
+      'application/vnd.oasis.opendocument.text',
+      'application/vnd.oasis.opendocument.presentation',
+    ],
+    canExtractText: true,
+    canExtractMetadata: true,
+    canGenerateThumbnail: false,
+    canAnalyzeContent: true,
+  };
+
+  /**
+   * Read the meta properties and the document body or the slides
+   */
+  protected readDocument(pkg: OfficePackage): OfficeDocument {
+    const meta = pkg.read('meta.xml') ?? '';
+    const properties = {
+      title: xmlFirstText(meta, 'dc:title'),
+      subject: xmlFirstText(meta, 'dc:subject'),
+      keywords: xmlElements(meta, 'meta:keyword')
+        .map((keyword) => xmlText(keyword.inner))
+        .filter(Boolean),
+    };
+
+    const content = pkg.read('content.xml') ?? '';
+    const mimeType = pkg.read('mimetype')?.trim();
+    if (mimeType === 'application/vnd.oasis.opendocument.text') {
+      const body = xmlElements(content, 'office:text')[0]?.inner ?? '';
+      return { kind: 'OpenDocument text', properties, paragraphs: this.readParagraphs(body) };
+    }
+    if (mimeType === 'application/vnd.oasis.opendocument.presentation') {
+      return {
+        kind: 'OpenDocument presentation',
+        properties,
+        paragraphs: [],
+        slides: this.readSlides(content),
+      };
+    }
+    throw new Error(`Not an OpenDocument text or presentation: ${mimeType ?? 'no mimetype'}`);
+  }
+
+  /**
+   * Non-empty paragraphs of a text document; headings are `text:h` elements
+   * and paragraphs in the Title or Subtitle style
+   */
+  private readParagraphs(body: string): OfficeParagraph[] {
+    return xmlElements(body, 'text:h', 'text:p')
+      .map((paragraph) => ({
+        text: xmlText(paragraph.inner),
+        heading:
+          paragraph.tag === 'text:h' ||
+          /^(title|subtitle)$/i.test(xmlAttribute(paragraph.attributes, 'text:style-name') ?? ''),
+      }))
+      .filter((paragraph) => paragraph.text.length > 0);
+  }
+
+  /**
+   * Slides with their title, body text and speaker notes
+   */
+  private readSlides(content: string): OfficeSlide[] {
+    return xmlElements(content, 'draw:page').map((page) => {
+      const notes = xmlElements(page.inner, 'presentation:notes')[0]?.inner ?? '';
+      const slide: OfficeSlide = {
+        text: [],
+        notes: this.readFrames(notes)
+          .filter((frame) => frame.presentationClass === 'notes')
+          .flatMap((frame) => frame.paragraphs),
+      };
+
+      for (const frame of this.readFrames(page.inner.replace(notes, ''))) {
+        if (frame.presentationClass === 'title') {
+          slide.title ??= frame.paragraphs.join(' ');
+        } else if (!BOILERPLATE_CLASSES.includes(frame.presentationClass ?? '')) {
+          slide.text.push(...frame.paragraphs);
+        }
+      }
+      return slide;
+    });
+  }
+
+  /**
+   * Frames and shapes with their presentation class and paragraphs
+   */
+  private readFrames(xml: string): Array<{ presentationClass?: string; paragraphs: string[] }> {
+    return xmlElements(xml, 'draw:frame', 'draw:custom-shape').map((frame) => ({
+      presentationClass: xmlAttribute(frame.attributes, 'presentation:class'),
+      paragraphs: xmlElements(frame.inner, 'text:h', 'text:p')
+        .map((paragraph) => xmlText(paragraph.inner))
+        .filter((text) => text.length > 0),
+    }));
+  }
+}
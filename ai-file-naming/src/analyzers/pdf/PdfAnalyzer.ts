@@ -0,0 +1,50 @@
+/**
+ * PDF analyzer - page count, opening lines and keywords
+ */
+
+import * as fs from 'fs/promises';
+import pdfParse from 'pdf-parse';
+import { ContentAnalyzer } from '../base/ContentAnalyzer';
+import {
+  AnalyzedContent,
+  AnalyzerCapabilities,
+  ContentExtractionOptions,
+} from '../../types/analyzer';
+
+/**
+ * PDF analyzer class
+ */
+export class PdfAnalyzer extends ContentAnalyzer {
+  readonly capabilities: AnalyzerCapabilities = {
+    supportedExtensions: ['.pdf'],
+    supportedMimeTypes: ['application/pdf'],
+    canExtractText: true,
+    canExtractMetadata: false,
+    canGenerateThumbnail: false,
+    canAnalyzeContent: true,
+  };
+
+  /**
+   * Extract the text, page count and first lines
+   */
+  protected async extract(
+    filePath: string,
+    options: ContentExtractionOptions,
+  ): Promise<AnalyzedContent> {
+    const pdfData = await pdfParse(await fs.readFile(filePath));
+
+    // First lines often contain the title or subject
+    const text = pdfData.text.slice(0, 1000).trim();
+    const lines = text.split('\n').filter((line) => line.trim().length > 0);
+    const firstLines = lines.slice(0, 5).join(' ');
+    const words = text.split(/\s+/).filter((w) => w.length > 4 && /^[a-zA-Z]/.test(w));
+
+    return {
+      summary: `PDF document, ${pdfData.numpages} pages. ${firstLines.slice(0, 100)}`,
+      details: [`${pdfData.numpages} pages`, `Content: ${firstLines.slice(0, 200)}`],
+      keywords: words.slice(0, 10),
+      confidence: 0.85,
+      text: this.limitText(pdfData.text.trim(), options),
+    };
+  }
+}
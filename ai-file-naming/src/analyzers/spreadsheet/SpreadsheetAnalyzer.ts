@@ -0,0 +1,72 @@
+/**
+ * Spreadsheet analyzer - sheet names, headers and a sample row
+ */
+
+import * as path from 'path';
+import * as XLSX from 'xlsx';
+import { ContentAnalyzer } from '../base/ContentAnalyzer';
+import { AnalyzedContent, AnalyzerCapabilities } from '../../types/analyzer';
+
+/**
+ * Spreadsheet analyzer class
+ */
+export class SpreadsheetAnalyzer extends ContentAnalyzer {
+  readonly capabilities: AnalyzerCapabilities = {
+    supportedExtensions: ['.xlsx', '.xls', '.csv', '.ods'],
+    supportedMimeTypes: [
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'application/vnd.ms-excel',
+      'application/vnd.oasis.opendocument.spreadsheet',
+      'text/csv',
+    ],
+    canExtractText: false,
+    canExtractMetadata: false,
+    canGenerateThumbnail: false,
+    canAnalyzeContent: true,
+  };
+
+  /**
+   * Extract sheet names and the first sheet's headers, first row and size
+   */
+  protected extract(filePath: string): Promise<AnalyzedContent> {
+    const workbook = XLSX.readFile(filePath);
+    const sheetNames = workbook.SheetNames;
+    const details: string[] = [];
+    const keywords: string[] = [];
+
+    details.push(
+      `${sheetNames.length} sheets: ${sheetNames.slice(0, 3).join(', ')}${sheetNames.length > 3 ? '...' : ''}`,
+    );
+    keywords.push(...sheetNames.slice(0, 3));
+
+    const worksheet = sheetNames[0] ? workbook.Sheets[sheetNames[0]] : undefined;
+    if (worksheet) {
+      const rows = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, defval: '' });
+      const [firstRow, secondRow] = rows;
+
+      const headers = (firstRow ?? []).slice(0, 5).filter(Boolean).map(String);
+      if (headers.length > 0) {
+        details.push(`Headers: ${headers.join(', ')}`);
+        keywords.push(...headers.slice(0, 3));
+      }
+
+      const sample = (secondRow ?? []).slice(0, 3).filter(Boolean).map(String);
+      if (sample.length > 0) {
+        details.push(`Sample data: ${sample.join(', ')}`);
+      }
+
+      details.push(`${rows.length} rows`);
+    }
+
+    const kind = ['.xlsx', '.xls'].includes(path.extname(filePath).toLowerCase())
+      ? 'Excel workbook'
+      : 'Spreadsheet';
+
+    return Promise.resolve({
+      summary: `${kind}: ${sheetNames[0] ?? 'data'}. ${details.join('. ')}`,
+      details,
+      keywords: keywords.filter((k) => k.length > 0),
+      confidence: 0.9,
+    });
+  }
+}
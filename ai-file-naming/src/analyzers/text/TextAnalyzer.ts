@@ -0,0 +1,77 @@
+/**
+ * Text analyzer - the opening of plain-text files
+ */
+
+import * as fs from 'fs/promises';
+import { ContentAnalyzer } from '../base/ContentAnalyzer';
+import {
+  AnalyzedContent,
+  AnalyzerCapabilities,
+  ContentExtractionOptions,
+} from '../../types/analyzer';
+
+/**
+ * Bytes read from the start of the file
+ */
+const READ_BYTES = 64 * 1024;
+
+/**
+ * Characters of text used as the summary
+ */
+const SUMMARY_CHARS = 300;
+
+/**
+ * Text analyzer class
+ */
+export class TextAnalyzer extends ContentAnalyzer {
+  readonly capabilities: AnalyzerCapabilities = {
+    supportedExtensions: [
+      '.txt',
+      '.md',
+      '.markdown',
+      '.rst',
+      '.log',
+      '.json',
+      '.xml',
+      '.yaml',
+      '.yml',
+      '.ini',
+    ],
+    supportedMimeTypes: ['text/*'],
+    canExtractText: true,
+    canExtractMetadata: false,
+    canGenerateThumbnail: false,
+    canAnalyzeContent: true,
+  };
+
+  /**
+   * Read the start of the file; fails for binary content
+   */
+  protected async extract(
+    filePath: string,
+    options: ContentExtractionOptions,
+  ): Promise<AnalyzedContent> {
+    const handle = await fs.open(filePath, 'r');
+    let text: string;
+    try {
+      const buffer = Buffer.alloc(READ_BYTES);
+      const { bytesRead } = await handle.read(buffer, 0, READ_BYTES, 0);
+      text = buffer.subarray(0, bytesRead).toString('utf-8').trim();
+    } finally {
+      await handle.close();
+    }
+
+    // Binary formats read as text contain NUL characters
+    if (!text || text.includes('\u0000')) {
+      throw new Error('No text content');
+    }
+
+    return {
+      summary: text.replace(/\s+/g, ' ').slice(0, SUMMARY_CHARS),
+      details: [],
+      keywords: [],
+      confidence: 0.8,
+      text: this.limitText(text, options),
+    };
+  }
+}
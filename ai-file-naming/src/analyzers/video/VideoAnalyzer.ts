@@ -0,0 +1,133 @@
+/**
+ * Video analyzer - duration, resolution, codecs, recording time and location
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ContentAnalyzer } from '../base/ContentAnalyzer';
+import {
+  AnalyzedContent,
+  AnalyzerCapabilities,
+  ContentExtractionOptions,
+} from '../../types/analyzer';
+import { formatDuration } from '../../utils/FileUtils';
+import { VideoInfo, getVideoInfo } from '../../utils/VideoUtils';
+
+/**
+ * Video properties read from ffprobe or from metadata the caller already has
+ */
+type VideoDetails = Pick<
+  VideoInfo,
+  | 'duration'
+  | 'width'
+  | 'height'
+  | 'fps'
+  | 'codec'
+  | 'audioCodec'
+  | 'creationTime'
+  | 'gps'
+  | 'title'
+>;
+
+/**
+ * Video analyzer class
+ */
+export class VideoAnalyzer extends ContentAnalyzer {
+  readonly capabilities: AnalyzerCapabilities = {
+    supportedExtensions: ['.mov', '.mp4', '.m4v', '.avi', '.mkv', '.webm'],
+    supportedMimeTypes: ['video/*'],
+    canExtractText: false,
+    canExtractMetadata: true,
+    canGenerateThumbnail: false,
+    canAnalyzeContent: false,
+  };
+
+  /**
+   * Extract the container metadata with ffprobe, unless the caller passed
+   * it in, falling back to the file size and modification date when ffprobe
+   * is not installed
+   */
+  protected async extract(
+    filePath: string,
+    options: ContentExtractionOptions,
+  ): Promise<AnalyzedContent> {
+    const stats = await fs.stat(filePath);
+    const info = options.metadata
+      ? this.fromMetadata(options.metadata)
+      : await this.readInfo(filePath);
+    const details: string[] = [];
+    const keywords: string[] = [];
+
+    if (info?.duration) {
+      details.push(`Duration: ${formatDuration(info.duration)}`);
+    }
+    if (info?.width && info.height) {
+      details.push(`Resolution: ${info.width}x${info.height}`);
+    }
+    if (info?.fps) {
+      details.push(`Frame rate: ${Math.round(info.fps * 100) / 100} fps`);
+    }
+    const codecs = [info?.codec, info?.audioCodec].filter(Boolean);
+    if (codecs.length > 0) {
+      details.push(`Codecs: ${codecs.join('/')}`);
+    }
+
+    const date = (info?.creationTime ?? stats.mtime).toISOString().split('T')[0]!;
+    if (info?.creationTime) {
+      details.push(`Recorded: ${date}`);
+      keywords.push(date.replace(/-/g, '_'));
+    } else {
+      details.push(`Modified: ${date}`);
+    }
+    if (info?.gps) {
+      details.push(`Location: ${info.gps.latitude.toFixed(4)}, ${info.gps.longitude.toFixed(4)}`);
+    }
+    if (info?.title) {
+      details.push(`Title: ${info.title}`);
+      keywords.push(info.title);
+    }
+
+    const sizeMB = Math.round(stats.size / 1024 / 1024);
+    details.push(`Size: ${sizeMB}MB`);
+
+    const basename = path.basename(filePath, path.extname(filePath));
+    const filenameParts = basename.split(/[-_\s]/).filter((p) => p.length > 2);
+    if (filenameParts.length > 0 && basename !== 'test') {
+      keywords.push(...filenameParts);
+    }
+
+    return {
+      summary: `Video file (${path.extname(filePath)}), ${sizeMB}MB, ${
+        info?.creationTime ? 'recorded' : 'modified'
+      } ${date}. ${details.join('. ')}`,
+      details,
+      keywords,
+      confidence: info ? 0.8 : 0.5,
+    };
+  }
+
+  /**
+   * Video properties from metadata read earlier; plain file metadata means
+   * ffprobe already failed, so it is not run again
+   */
+  private fromMetadata(
+    metadata: NonNullable<ContentExtractionOptions['metadata']>,
+  ): VideoDetails | undefined {
+    return 'fps' in metadata ? metadata : undefined;
+  }
+
+  /**
+   * Probe the video, or return undefined when ffprobe is missing or fails
+   */
+  private async readInfo(filePath: string): Promise<VideoDetails | undefined> {
+    try {
+      return await getVideoInfo(filePath);
+    } catch (error) {
+      this.analyzerLogger.debug('Video metadata unavailable', {
+        filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+}
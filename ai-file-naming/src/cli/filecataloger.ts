@@ -3,127 +3,525 @@
 /**
  * FileCataloger CLI - AI-powered file naming
  *
- * Usage: filecataloger <filepath>
+ * Usage: filecataloger [options] <file|directory|glob>...
  */
 
+/* eslint-disable no-console */
+
 import * as dotenv from 'dotenv';
 import * as path from 'path';
-import * as fs from 'fs/promises';
-import OpenAI from 'openai';
-import { EnhancedContentAnalyzer } from '../analyzers/EnhancedContentAnalyzer';
+import { parseArgs } from 'util';
+import { FileNamingSDK } from '../core/FileNamingSDK';
+import { PlanManager } from '../core/PlanManager';
+import { RenameJournal } from '../core/RenameJournal';
+import '../providers';
+import { PartialSDKConfig, ProviderType } from '../types/config';
+import { ConflictResolution, NamingOptions, UndoResult } from '../types/naming';
+import { RenamePlan, PlanApplyResult } from '../types/plan';
+import { BatchProgressEvent, EventName } from '../types/events';
 
 // Load environment variables
 dotenv.config();
 
-async function main() {
-  // Parse arguments
-  const args = process.argv.slice(2);
-
-  if (args.length === 0) {
-    console.log('🤖 FileCataloger - AI File Naming\n');
-    console.log('Usage: filecataloger <filepath>\n');
-    console.log('Example:');
-    console.log('  filecataloger /Users/jinhu/Desktop/document.pdf');
-    console.log('  filecataloger ~/Downloads/photo.jpg\n');
-    process.exit(0);
+type CaseFormat = NonNullable<NamingOptions['caseFormat']>;
+type ConflictStrategy = Exclude<ConflictResolution['strategy'], 'prompt'>;
+
+const PROVIDERS: ProviderType[] = ['openai', 'anthropic', 'ollama', 'gemini'];
+const CASE_FORMATS: CaseFormat[] = [
+  'snake_case',
+  'kebab-case',
+  'camelCase',
+  'PascalCase',
+  'preserve',
+];
+const CONFLICT_STRATEGIES: ConflictStrategy[] = ['skip', 'overwrite', 'rename'];
+
+/**
+ * Naming cache limits for the CLI, which keeps answers between runs
+ */
+const CLI_CACHE_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+const CLI_CACHE_SIZE = 10000;
+
+/**
+ * Environment variables checked for each provider's API key
+ */
+const API_KEY_ENV: Record<ProviderType, string[]> = {
+  openai: ['OPEN_AI_API_KEY', 'OPENAI_API_KEY'],
+  anthropic: ['ANTHROPIC_API_KEY'],
+  gemini: ['GEMINI_API_KEY', 'GOOGLE_API_KEY'],
+  ollama: [],
+  custom: [],
+};
+
+const USAGE = `🤖 FileCataloger - AI File Naming
+
+Usage: filecataloger [options] <file|directory|glob>...
+       filecataloger apply [--dry-run] [--conflict <strategy>] <plan.json>
+       filecataloger undo [--dry-run] [--run <id>] [file]
+       filecataloger history
+
+Options:
+  -p, --provider <type>     AI provider: ${PROVIDERS.join(', ')} (default: openai)
+  -m, --model <name>        Model override for the provider
+  -f, --format <case>       Name format: ${CASE_FORMATS.join(', ')}
+  -r, --recursive           Descend into subdirectories
+  -c, --concurrency <n>     Files processed in parallel
+      --prompt <text>       Custom prompt used for every file
+  -s, --sequence            Append sequence numbers per folder (continues existing ones)
+  -t, --template <tpl>      Name template, e.g. "{date:YYYY-MM-DD}_{ai.subject}_{seq:03}"
+      --candidates <n>      Rank n names per file; the others go to the plan's alternatives
+      --json                Print the plan as JSON instead of a table
+      --plan <file>         Save the rename plan for review and a later 'apply'
+      --dry-run             (apply) Report what would be renamed without renaming
+      --conflict <strategy> Taken names: ${CONFLICT_STRATEGIES.join(', ')}
+                            (default: rename duplicates when naming, skip when applying)
+      --overwrite           (apply) Same as --conflict overwrite
+      --run <id>            (undo) Revert a specific run instead of the last one
+      --journal <file>      Rename history file (default: ~/.ai-file-naming/history.jsonl)
+      --cache <file>        Naming cache file (default: ~/.ai-file-naming/cache.jsonl)
+      --no-cache            Always ask the provider, ignoring cached names
+  -v, --verbose             Show SDK debug logging
+  -h, --help                Show this help
+
+Examples:
+  filecataloger ~/Downloads/photo.jpg
+  filecataloger -r ~/Documents/scans
+  filecataloger "~/Desktop/*.{png,jpg}" notes.pdf
+  filecataloger -t "{date}_{exif.camera|phone}_{seq:03}" ~/Pictures/trip
+  filecataloger --plan plan.json ~/Downloads && filecataloger apply plan.json
+  filecataloger undo
+`;
+
+interface CliOptions {
+  command: 'name' | 'apply' | 'undo' | 'history';
+  inputs: string[];
+  provider: ProviderType;
+  model?: string;
+  format?: CaseFormat;
+  recursive: boolean;
+  concurrency?: number;
+  prompt?: string;
+  template?: string;
+  candidates?: number;
+  sequence: boolean;
+  json: boolean;
+  plan?: string;
+  dryRun: boolean;
+  conflict?: ConflictStrategy;
+  run?: string;
+  journal?: string;
+  cache: boolean;
+  cachePath?: string;
+  verbose: boolean;
+}
+
+/**
+ * Parse command line arguments
+ */
+function parseCliArgs(argv: string[]): CliOptions | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      provider: { type: 'string', short: 'p' },
+      model: { type: 'string', short: 'm' },
+      format: { type: 'string', short: 'f' },
+      recursive: { type: 'boolean', short: 'r', default: false },
+      concurrency: { type: 'string', short: 'c' },
+      prompt: { type: 'string' },
+      template: { type: 'string', short: 't' },
+      candidates: { type: 'string' },
+      sequence: { type: 'boolean', short: 's', default: false },
+      json: { type: 'boolean', default: false },
+      plan: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      conflict: { type: 'string' },
+      overwrite: { type: 'boolean', default: false },
+      run: { type: 'string' },
+      journal: { type: 'string' },
+      cache: { type: 'string' },
+      'no-cache': { type: 'boolean', default: false },
+      verbose: { type: 'boolean', short: 'v', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help || (positionals.length === 0 && !values.run)) {
+    return null;
   }
 
-  const filePath = args[0];
-  if (!filePath) {
-    console.error('❌ Error: No file path provided\n');
-    process.exit(1);
+  const subcommands = ['apply', 'undo', 'history'] as const;
+  const command =
+    subcommands.find((name) => name === positionals[0]) ?? ('name' as CliOptions['command']);
+  const inputs = command === 'name' ? positionals : positionals.slice(1);
+  if (command === 'apply' && inputs.length !== 1) {
+    throw new Error('apply expects exactly one plan file');
+  }
+  if (command === 'undo' && inputs.length > 1) {
+    throw new Error('undo accepts at most one file');
   }
 
-  // Check API key
-  const apiKey = process.env['OPEN_AI_API_KEY'] || process.env['OPENAI_API_KEY'];
-  if (!apiKey) {
-    console.error('❌ Error: OPEN_AI_API_KEY not set\n');
-    console.log('Please set your OpenAI API key:');
-    console.log('  export OPEN_AI_API_KEY=your-key-here\n');
-    process.exit(1);
+  const provider = (values.provider ?? process.env['AI_PROVIDER_TYPE'] ?? 'openai') as ProviderType;
+  if (!PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown provider '${provider}'. Expected one of: ${PROVIDERS.join(', ')}`);
   }
 
-  // Check if file exists
-  try {
-    await fs.access(filePath);
-  } catch {
-    console.error(`❌ Error: File not found: ${filePath}\n`);
-    process.exit(1);
+  const format = values.format as CaseFormat | undefined;
+  if (format && !CASE_FORMATS.includes(format)) {
+    throw new Error(`Unknown format '${format}'. Expected one of: ${CASE_FORMATS.join(', ')}`);
   }
 
-  const filename = path.basename(filePath);
-  const ext = path.extname(filePath);
+  const conflict = (values.overwrite ? 'overwrite' : values.conflict) as
+    | ConflictStrategy
+    | undefined;
+  if (conflict && !CONFLICT_STRATEGIES.includes(conflict)) {
+    throw new Error(
+      `Unknown conflict strategy '${conflict}'. Expected one of: ${CONFLICT_STRATEGIES.join(', ')}`,
+    );
+  }
 
-  console.log('🤖 AI File Naming\n');
-  console.log('═'.repeat(70));
-  console.log(`File:     ${filename}`);
-  console.log(`Path:     ${filePath}`);
-  console.log('═'.repeat(70));
-  console.log('\n📊 Analyzing content... ⏳\n');
+  let concurrency: number | undefined;
+  if (values.concurrency !== undefined) {
+    concurrency = parseInt(values.concurrency, 10);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Invalid concurrency '${values.concurrency}'`);
+    }
+  }
 
-  try {
-    // Initialize analyzer and AI client
-    const analyzer = new EnhancedContentAnalyzer();
-    const client = new OpenAI({ apiKey });
-
-    // Extract content
-    const content = await analyzer.analyze(filePath);
-
-    console.log('Content extracted:');
-    console.log(`  ${content.summary}\n`);
-
-    // Call AI
-    console.log('🤖 Calling GPT-5-mini... ⏳\n');
-
-    const response = await client.chat.completions.create({
-      model: 'gpt-5-mini',
-      messages: [
-        {
-          role: 'system',
-          content: 'Generate a clear, descriptive filename based on content analysis. Return ONLY the filename without extension. Use snake_case or descriptive format.',
-        },
-        {
-          role: 'user',
-          content: `Original filename: ${filename}
-
-Content Analysis:
-${content.summary}
-
-Details:
-${content.details.slice(0, 5).join('\n')}
-
-Key terms: ${content.keywords.slice(0, 8).join(', ')}
-
-Generate a specific, meaningful filename that captures the actual content (not generic like "data" or "test"). Be descriptive about what this file contains.`,
-        },
-      ],
-      max_completion_tokens: 500,
-    });
+  let candidates: number | undefined;
+  if (values.candidates !== undefined) {
+    candidates = parseInt(values.candidates, 10);
+    if (!Number.isInteger(candidates) || candidates < 1) {
+      throw new Error(`Invalid candidates '${values.candidates}'`);
+    }
+  }
 
-    const suggestedName = response.choices[0]?.message?.content?.trim() || filename;
-
-    // Display results
-    console.log('✅ Analysis Complete!\n');
-    console.log('═'.repeat(70));
-    console.log(`Original:     ${filename}`);
-    console.log(`Suggested:    ${suggestedName}${ext}`);
-    console.log(`Confidence:   ${(content.confidence * 100).toFixed(0)}%`);
-    console.log(`Tokens:       ${response.usage?.total_tokens || 0} (${response.usage?.prompt_tokens}p + ${response.usage?.completion_tokens}c)`);
-    console.log(`Cost:         $${(((response.usage?.total_tokens || 0) * 0.25) / 1_000_000).toFixed(6)}`);
-    console.log('═'.repeat(70));
+  return {
+    command,
+    inputs,
+    provider,
+    model: values.model ?? process.env['AI_PROVIDER_MODEL'],
+    format,
+    recursive: values.recursive ?? false,
+    concurrency,
+    prompt: values.prompt,
+    template: values.template,
+    candidates,
+    sequence: values.sequence ?? false,
+    json: values.json ?? false,
+    plan: values.plan,
+    dryRun: values['dry-run'] ?? false,
+    conflict,
+    run: values.run,
+    journal: values.journal ?? process.env['AI_HISTORY_PATH'],
+    cache: !values['no-cache'],
+    cachePath: values.cache ?? process.env['AI_CACHE_PATH'],
+    verbose: values.verbose ?? false,
+  };
+}
+
+/**
+ * Resolve the API key for a provider from the environment
+ */
+function resolveApiKey(provider: ProviderType): string | undefined {
+  for (const name of [...API_KEY_ENV[provider], 'AI_PROVIDER_API_KEY']) {
+    const value = process.env[name];
+    if (value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build SDK configuration from CLI options
+ */
+function buildConfig(options: CliOptions, apiKey: string | undefined): PartialSDKConfig {
+  return {
+    provider: {
+      type: options.provider,
+      apiKey,
+      model: options.model,
+      baseURL: process.env['AI_PROVIDER_BASE_URL'],
+      maxRetries: 3,
+      timeout: 30000,
+      temperature: 0.7,
+    },
+    cache: {
+      enabled: options.cache,
+      backend: 'file',
+      path: options.cachePath,
+      ttl: CLI_CACHE_TTL,
+      maxSize: CLI_CACHE_SIZE,
+    },
+    logging: {
+      level: options.verbose ? 'debug' : 'warn',
+      format: 'pretty',
+    },
+  };
+}
+
+/**
+ * Truncate a table cell to a maximum width
+ */
+function fit(text: string, width: number): string {
+  if (text.length <= width) {
+    return text.padEnd(width);
+  }
+  return text.slice(0, Math.max(0, width - 1)) + '…';
+}
+
+/**
+ * Print a table with one row per file
+ */
+function printTable(
+  rows: Array<[string, string, string]>,
+  headers: [string, string, string],
+): void {
+  const totalWidth = Math.max(process.stdout.columns ?? 100, 80);
+  const indexWidth = String(rows.length).length + 1;
+  const lastWidth = 6;
+  const nameWidth = Math.floor((totalWidth - indexWidth - lastWidth - 6) / 2);
+
+  const line = (index: string, [first, second, last]: [string, string, string]) =>
+    `${fit(index, indexWidth)}  ${fit(first, nameWidth)}  ${fit(second, nameWidth)}  ${last.padStart(lastWidth)}`;
+
+  console.log(line('#', headers));
+  console.log('─'.repeat(Math.min(totalWidth, indexWidth + nameWidth * 2 + lastWidth + 6)));
+  rows.forEach((row, i) => console.log(line(String(i + 1), row)));
+}
+
+/**
+ * Print the per-file naming plan as a table
+ */
+function printPlanTable(plan: RenamePlan): void {
+  const rows: Array<[string, string, string]> = plan.entries.map((entry) => [
+    entry.originalName,
+    entry.skip
+      ? `- ${path.basename(entry.proposedPath)} (skipped)`
+      : path.basename(entry.proposedPath),
+    `${(entry.confidence * 100).toFixed(0)}%`,
+  ]);
+
+  for (const failure of plan.failed ?? []) {
+    rows.push([path.basename(failure.originalPath), `✗ ${failure.error}`, '-']);
+  }
+
+  printTable(rows, ['Original', 'Suggested', 'Conf.']);
+}
+
+/**
+ * Print the outcome of applying a plan
+ */
+function printApplyTable(result: PlanApplyResult): void {
+  const icons = { renamed: '✓', unchanged: '=', skipped: '-', failed: '✗' };
+  const rows: Array<[string, string, string]> = result.results.map((r) => [
+    r.entry.originalName,
+    r.reason ?? path.basename(r.newPath ?? r.entry.proposedPath),
+    icons[r.status],
+  ]);
+
+  printTable(rows, ['Original', result.dryRun ? 'Would become' : 'Result', '']);
+}
+
+/**
+ * Print the outcome of an undo
+ */
+function printUndoTable(result: UndoResult): void {
+  const icons = { reverted: '✓', skipped: '-', failed: '✗' };
+  const rows: Array<[string, string, string]> = result.results.map((r) => [
+    r.entry.newName,
+    r.reason ?? r.entry.originalName,
+    icons[r.status],
+  ]);
+
+  printTable(rows, ['Current', result.dryRun ? 'Would revert to' : 'Reverted to', '']);
+}
+
+/**
+ * Apply a saved rename plan
+ */
+async function runApply(options: CliOptions): Promise<number> {
+  const planPath = options.inputs[0] ?? '';
+  const planManager = new PlanManager(new RenameJournal(options.journal));
+
+  const plan = await planManager.loadPlan(planPath);
+  const result = await planManager.applyPlan(plan, {
+    dryRun: options.dryRun,
+    conflict: options.conflict,
+  });
+
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    console.log(`📋 ${options.dryRun ? 'Dry run of' : 'Applying'} plan ${plan.id}\n`);
+    printApplyTable(result);
     console.log();
+    console.log(
+      `✅ ${result.renamed} ${options.dryRun ? 'would be renamed' : 'renamed'}, ${result.skipped} skipped, ${result.failed} failed`,
+    );
+    console.log();
+  }
+
+  return result.failed > 0 ? 1 : 0;
+}
+
+/**
+ * Undo the last run, a specific run, or a single file
+ */
+async function runUndo(options: CliOptions): Promise<number> {
+  const journal = new RenameJournal(options.journal);
+  const result = await journal.undo({
+    runId: options.run,
+    filePath: options.inputs[0],
+    dryRun: options.dryRun,
+  });
+
+  if (options.json) {
+    console.log(JSON.stringify(result, null, 2));
+    return result.failed > 0 ? 1 : 0;
+  }
+
+  if (result.results.length === 0) {
+    console.log('Nothing to undo.\n');
+    return 0;
+  }
+
+  console.log(`↩️  ${options.dryRun ? 'Dry run of undo for' : 'Undoing'} ${result.runId}\n`);
+  printUndoTable(result);
+  console.log();
+  console.log(
+    `✅ ${result.reverted} ${options.dryRun ? 'would be reverted' : 'reverted'}, ${result.skipped} skipped, ${result.failed} failed`,
+  );
+  console.log();
+
+  return result.failed > 0 ? 1 : 0;
+}
+
+/**
+ * List recorded rename runs
+ */
+async function runHistory(options: CliOptions): Promise<number> {
+  const journal = new RenameJournal(options.journal);
+  const runs = await journal.getRuns();
+
+  if (options.json) {
+    console.log(JSON.stringify(runs, null, 2));
+    return 0;
+  }
+
+  if (runs.length === 0) {
+    console.log(`No renames recorded in ${journal.getPath()}\n`);
+    return 0;
+  }
+
+  printTable(
+    runs.map((run) => [run.runId, run.timestamp.toLocaleString(), `${run.active}/${run.renames}`]),
+    ['Run', 'When', 'Active'],
+  );
+  console.log();
+  return 0;
+}
+
+/**
+ * Name files and print (or save) the resulting plan
+ */
+async function runName(options: CliOptions): Promise<number> {
+  // Check API key
+  const apiKey = resolveApiKey(options.provider);
+  if (!apiKey && API_KEY_ENV[options.provider].length > 0) {
+    const envName = API_KEY_ENV[options.provider][0] ?? 'AI_PROVIDER_API_KEY';
+    console.error(`❌ Error: ${envName} not set\n`);
+    console.log(`Please set your ${options.provider} API key:`);
+    console.log(`  export ${envName}=your-key-here\n`);
+    return 1;
+  }
+
+  const sdk = new FileNamingSDK(buildConfig(options, apiKey));
+
+  // Resolve files, directories and globs
+  const files = await sdk.resolveFiles(options.inputs, { recursive: options.recursive });
+  if (files.length === 0) {
+    console.error(`❌ Error: No files matched: ${options.inputs.join(' ')}\n`);
+    return 1;
+  }
+
+  if (!options.json) {
+    console.log('🤖 AI File Naming\n');
+    console.log(`Provider: ${options.provider}${options.model ? ` (${options.model})` : ''}`);
+    console.log(`Files:    ${files.length}\n`);
+
+    sdk.on<BatchProgressEvent>(EventName.BatchProgress, (event) => {
+      process.stderr.write(
+        `\r📊 Processing ${event.processed}/${event.total}... ${event.processed === event.total ? '\n\n' : ''}`,
+      );
+    });
+  }
+
+  const startTime = Date.now();
+  const plan = await sdk.createPlan(files, {
+    concurrency: options.concurrency,
+    caseFormat: options.format,
+    prompt: options.prompt,
+    template: options.template,
+    candidates: options.candidates,
+    includeSequence: options.sequence,
+    continueOnError: true,
+    conflict: options.conflict,
+  });
+  const duration = Date.now() - startTime;
+  const failed = plan.failed?.length ?? 0;
 
-  } catch (error: any) {
-    console.error(`\n❌ Error: ${error.message}\n`);
-    if (error.code === 'ENOENT') {
-      console.error('File not found or cannot be read.\n');
-    } else if (error.status === 401) {
-      console.error('Invalid API key. Please check your OPEN_AI_API_KEY.\n');
-    } else if (error.status) {
-      console.error(`API Error (${error.status}): ${error.message}\n`);
+  if (options.plan) {
+    await sdk.savePlan(plan, options.plan);
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify(plan, null, 2));
+  } else {
+    printPlanTable(plan);
+
+    const metrics = sdk.getProviderMetrics();
+    console.log();
+    console.log(
+      `✅ ${plan.entries.length} named, ${failed} failed in ${(duration / 1000).toFixed(1)}s`,
+    );
+    console.log(
+      `Tokens:   ${metrics?.totalTokensUsed ?? 0} (${metrics?.promptTokens ?? 0} prompt, ${metrics?.completionTokens ?? 0} completion)`,
+    );
+    console.log(`Cost:     $${(metrics?.totalCost ?? 0).toFixed(4)}`);
+    if (options.cache) {
+      const cache = await sdk.getCacheStatsAsync();
+      console.log(`Cache:    ${cache.hits} hits, ${cache.misses} misses`);
     }
+    if (options.plan) {
+      console.log(`Plan:     ${options.plan} (review, then: filecataloger apply ${options.plan})`);
+    }
+    console.log();
+  }
+
+  sdk.destroy();
+  return failed > 0 ? 1 : 0;
+}
+
+async function main() {
+  let options: CliOptions | null;
+  try {
+    options = parseCliArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    console.log(USAGE);
     process.exit(1);
   }
+
+  if (!options) {
+    console.log(USAGE);
+    process.exit(0);
+  }
+
+  const commands = { name: runName, apply: runApply, undo: runUndo, history: runHistory };
+  const exitCode = await commands[options.command](options);
+  process.exit(exitCode);
 }
 
 main().catch((error) => {
@@ -7,17 +7,61 @@
  * - Directory location
  * - Date created (same day)
  *
+ * The similarity strategy instead clusters files of the same type and
+ * directory by filename token overlap, perceptual image hashes and text
+ * shingles, so only files that are actually alike share a group.
+ *
  * Reduces API calls by 70-90% for similar file batches
  */
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import sharp from 'sharp';
+import { ContentSampler } from '../analyzers/ContentSampler';
+
+/**
+ * Weight of filename overlap when content can also be compared
+ */
+const NAME_WEIGHT = 0.3;
+
+/**
+ * Words per text shingle
+ */
+const SHINGLE_SIZE = 3;
+
+/**
+ * How files are grouped
+ *
+ * - bucket: same type, size range, directory and day (default)
+ * - similarity: same type and directory, clustered by name and content similarity
+ * - type / directory: file type or parent directory only
+ * - custom: the key returned by `groupKey`
+ */
+export type GroupingStrategy = 'bucket' | 'similarity' | 'type' | 'directory' | 'custom';
+
+export interface GroupingOptions {
+  strategy?: GroupingStrategy;
+  similarityThreshold?: number; // 0-1, for 'similarity' (default 0.5)
+  maxGroupSize?: number; // Larger groups are split into consecutive chunks
+  groupKey?: (filePath: string) => string; // Required for 'custom'
+}
+
+type FileInfo = Awaited<ReturnType<BatchGrouper['extractFileMetadata']>>;
+
+/**
+ * What similarity is measured on
+ */
+interface FileSignature {
+  tokens: Set<string>; // Filename words
+  imageHash?: bigint; // 64-bit difference hash of the image
+  shingles?: Set<string>; // Word shingles of the sampled text
+}
 
 export interface FileGroup {
   id: string;
-  representative: string;  // First file in group
-  similar: string[];       // Other files in group
-  pattern?: string;        // Extracted naming pattern
+  representative: string; // First file in group
+  similar: string[]; // Other files in group
+  pattern?: string; // Extracted naming pattern
   metadata: GroupMetadata;
 }
 
@@ -30,56 +74,159 @@ export interface GroupMetadata {
 }
 
 export class BatchGrouper {
+  private sampler = new ContentSampler({ textChars: 2000 });
+
   /**
    * Group files by similarity for batch processing
    */
-  async group(files: string[]): Promise<FileGroup[]> {
+  async group(files: string[], options: GroupingOptions = {}): Promise<FileGroup[]> {
     if (files.length === 0) return [];
 
+    const strategy = options.strategy ?? 'bucket';
+    if (strategy === 'custom' && !options.groupKey) {
+      throw new Error("The 'custom' grouping strategy requires a groupKey function");
+    }
+
     // Extract metadata for all files
     const filesWithMetadata = await Promise.all(
       files.map(async (file) => ({
         file,
         metadata: await this.extractFileMetadata(file),
-      }))
+      })),
     );
 
     // Group by bucket key
     const buckets = new Map<string, typeof filesWithMetadata>();
 
     for (const item of filesWithMetadata) {
-      const key = this.getBucketKey(item.metadata);
-      const bucket = buckets.get(key) || [];
+      const key = this.getGroupKey(item.file, item.metadata, options);
+      const bucket = buckets.get(key) ?? [];
       bucket.push(item);
       buckets.set(key, bucket);
     }
 
-    // Convert buckets to file groups
+    let clusters = Array.from(buckets.values());
+    if (strategy === 'similarity') {
+      const threshold = options.similarityThreshold ?? 0.5;
+      const clustered: typeof clusters = [];
+      for (const items of clusters) {
+        clustered.push(...(await this.clusterBySimilarity(items, threshold)));
+      }
+      clusters = clustered;
+    }
+
+    if (options.maxGroupSize && options.maxGroupSize > 0) {
+      const size = options.maxGroupSize;
+      clusters = clusters.flatMap((items) =>
+        Array.from({ length: Math.ceil(items.length / size) }, (_, i) =>
+          items.slice(i * size, (i + 1) * size),
+        ),
+      );
+    }
+
+    // Convert clusters to file groups
     const groups: FileGroup[] = [];
 
-    for (const [_key, items] of buckets.entries()) {
-      if (items.length > 0 && items[0]) {
-        const representative = items[0].file;
-        const similar = items.slice(1).map((item) => item.file);
-
-        groups.push({
-          id: this.generateGroupId(),
-          representative,
-          similar,
-          metadata: {
-            fileType: items[0].metadata.type,
-            sizeRange: items[0].metadata.sizeRange,
-            directory: items[0].metadata.directory,
-            dateRange: items[0].metadata.dateRange,
-            count: items.length,
-          },
-        });
-      }
+    for (const items of clusters) {
+      const first = items[0];
+      if (!first) continue;
+
+      groups.push({
+        id: this.generateGroupId(),
+        representative: first.file,
+        similar: items.slice(1).map((item) => item.file),
+        metadata: {
+          fileType: first.metadata.type,
+          sizeRange: first.metadata.sizeRange,
+          directory: first.metadata.directory,
+          dateRange: first.metadata.dateRange,
+          count: items.length,
+        },
+      });
     }
 
     return groups;
   }
 
+  /**
+   * Split a bucket into clusters of alike files
+   *
+   * Each file joins the first cluster whose representative it resembles at
+   * least `threshold`, so the representative stands for every member.
+   */
+  private async clusterBySimilarity<T extends { file: string; metadata: FileInfo }>(
+    items: T[],
+    threshold: number,
+  ): Promise<T[][]> {
+    const clusters: Array<{ signature: FileSignature; items: T[] }> = [];
+
+    for (const item of items) {
+      const signature = await this.getSignature(item.file, item.metadata);
+      const cluster = clusters.find((c) => similarity(c.signature, signature) >= threshold);
+      if (cluster) {
+        cluster.items.push(item);
+      } else {
+        clusters.push({ signature, items: [item] });
+      }
+    }
+
+    return clusters.map((c) => c.items);
+  }
+
+  /**
+   * Compute the similarity signature of a file
+   */
+  private async getSignature(filePath: string, metadata: FileInfo): Promise<FileSignature> {
+    const signature: FileSignature = { tokens: this.getNameTokens(filePath) };
+
+    try {
+      if (metadata.type === 'image') {
+        signature.imageHash = await this.getImageHash(filePath);
+      } else {
+        const sample = await this.sampler.sample(filePath);
+        if (sample.type === 'text' && typeof sample.content === 'string') {
+          const shingles = getShingles(sample.content);
+          if (shingles.size > 0) signature.shingles = shingles;
+        }
+      }
+    } catch {
+      // Unreadable content: compare by name only
+    }
+
+    return signature;
+  }
+
+  /**
+   * 64-bit difference hash: whether each pixel of a 9x8 grayscale thumbnail
+   * is brighter than its right neighbour
+   */
+  private async getImageHash(filePath: string): Promise<bigint> {
+    const pixels = await sharp(filePath).greyscale().resize(9, 8, { fit: 'fill' }).raw().toBuffer();
+
+    let hash = 0n;
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        const left = pixels[y * 9 + x] ?? 0;
+        const right = pixels[y * 9 + x + 1] ?? 0;
+        hash = (hash << 1n) | (left > right ? 1n : 0n);
+      }
+    }
+    return hash;
+  }
+
+  /**
+   * Lowercase word tokens of a file name, without numbers
+   */
+  private getNameTokens(filePath: string): Set<string> {
+    const name = path.basename(filePath, path.extname(filePath));
+    const words = name
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+|(?<=\d)(?=[a-z])|(?<=[a-z])(?=\d)/)
+      .filter((word) => word && !/^\d+$/.test(word));
+    return new Set(words);
+  }
+
   /**
    * Extract pattern from a representative file's generated name
    * Example: "beach_sunset_001" -> "beach_sunset_[n]"
@@ -91,14 +238,14 @@ export class BatchGrouper {
 
     // Check for sequence numbers at end
     const numberMatch = generatedName.match(/(\d{3,})$/);
-    if (numberMatch && numberMatch[1]) {
+    if (numberMatch?.[1]) {
       const baseName = generatedName.slice(0, -numberMatch[1].length);
       return `${baseName}[n]`;
     }
 
     // Check for dates
     const dateMatch = generatedName.match(/(\d{4}_\d{2}_\d{2})/);
-    if (dateMatch && dateMatch[1]) {
+    if (dateMatch?.[1]) {
       return generatedName.replace(dateMatch[1], '[date]');
     }
 
@@ -155,10 +302,22 @@ export class BatchGrouper {
   }
 
   /**
-   * Generate bucket key for grouping
+   * Generate group key for the strategy
    */
-  private getBucketKey(metadata: ReturnType<BatchGrouper['extractFileMetadata']> extends Promise<infer T> ? T : never): string {
-    return `${metadata.type}|${metadata.sizeRange}|${metadata.directory}|${metadata.dateRange}`;
+  private getGroupKey(filePath: string, metadata: FileInfo, options: GroupingOptions): string {
+    switch (options.strategy) {
+      case 'type':
+        return metadata.type;
+      case 'directory':
+        return metadata.directory;
+      case 'custom':
+        return options.groupKey?.(filePath) ?? '';
+      case 'similarity':
+        return `${metadata.type}|${metadata.directory}`;
+      case 'bucket':
+      default:
+        return `${metadata.type}|${metadata.sizeRange}|${metadata.directory}|${metadata.dateRange}`;
+    }
   }
 
   /**
@@ -184,17 +343,17 @@ export class BatchGrouper {
       '.wav': 'audio',
     };
 
-    return typeMap[ext] || 'other';
+    return typeMap[ext] ?? 'other';
   }
 
   /**
    * Get size range for bucketing
    */
   private getSizeRange(bytes: number): string {
-    if (bytes < 1024 * 1024) return 'small';           // < 1MB
-    if (bytes < 10 * 1024 * 1024) return 'medium';     // 1-10MB
-    if (bytes < 100 * 1024 * 1024) return 'large';     // 10-100MB
-    return 'xlarge';                                     // > 100MB
+    if (bytes < 1024 * 1024) return 'small'; // < 1MB
+    if (bytes < 10 * 1024 * 1024) return 'medium'; // 1-10MB
+    if (bytes < 100 * 1024 * 1024) return 'large'; // 10-100MB
+    return 'xlarge'; // > 100MB
   }
 
   /**
@@ -211,3 +370,63 @@ export class BatchGrouper {
     return `group_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
   }
 }
+
+/**
+ * Jaccard similarity of two token sets
+ */
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Similarity of two files, 0-1
+ *
+ * Filename overlap alone is used when contents cannot be compared; otherwise
+ * content dominates, so same-named screenshots of different things differ.
+ */
+function similarity(a: FileSignature, b: FileSignature): number {
+  const name = jaccard(a.tokens, b.tokens);
+
+  let content: number | undefined;
+  if (a.imageHash !== undefined && b.imageHash !== undefined) {
+    content = hashSimilarity(a.imageHash, b.imageHash);
+  } else if (a.shingles && b.shingles) {
+    content = jaccard(a.shingles, b.shingles);
+  }
+
+  return content === undefined ? name : NAME_WEIGHT * name + (1 - NAME_WEIGHT) * content;
+}
+
+/**
+ * Similarity of two image hashes; 0 at 32 differing bits, where unrelated
+ * images land on average
+ */
+function hashSimilarity(a: bigint, b: bigint): number {
+  let diff = a ^ b;
+  let distance = 0;
+  while (diff > 0n) {
+    distance += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return Math.max(0, 1 - distance / 32);
+}
+
+/**
+ * Overlapping word shingles of a text
+ */
+function getShingles(text: string): Set<string> {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (words.length < SHINGLE_SIZE) return new Set(words);
+
+  const shingles = new Set<string>();
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    shingles.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return shingles;
+}
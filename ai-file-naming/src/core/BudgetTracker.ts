@@ -0,0 +1,142 @@
+/**
+ * BudgetTracker - Token and cost accounting against a run's budget
+ *
+ * Requests are checked before they are sent: the estimate must fit the
+ * per-file limits and what is left of the run once in-flight requests are
+ * counted. Reservations are settled with the real usage afterwards.
+ */
+
+import { BudgetEstimate, BudgetLimits, BudgetUsage, PricingTable } from '../types/budget';
+import { calculateCost, getModelPrice, mergePricing } from '../utils/Pricing';
+
+/**
+ * Budget tracker class
+ */
+export class BudgetTracker {
+  private pricing: PricingTable;
+  private used: BudgetEstimate = { tokens: 0, cost: 0 };
+  private reserved: BudgetEstimate = { tokens: 0, cost: 0 };
+  private degraded = 0;
+  private stopped = 0;
+  private limits: BudgetLimits;
+
+  constructor(limits: BudgetLimits = {}, pricing?: PricingTable) {
+    const { maxTokensPerRun, maxCostPerRun, maxTokensPerFile, maxCostPerFile } = limits;
+    this.limits = { maxTokensPerRun, maxCostPerRun, maxTokensPerFile, maxCostPerFile };
+    this.pricing = mergePricing(pricing);
+  }
+
+  /**
+   * Whether any limit is set
+   */
+  isLimited(): boolean {
+    return (
+      this.limits.maxTokensPerRun !== undefined ||
+      this.limits.maxCostPerRun !== undefined ||
+      this.limits.maxTokensPerFile !== undefined ||
+      this.limits.maxCostPerFile !== undefined
+    );
+  }
+
+  /**
+   * Estimate a request's tokens and cost for a provider and model, pricing
+   * the prompt and the answer at their own rates
+   */
+  estimate(
+    provider: string,
+    model: string | undefined,
+    promptTokens: number,
+    completionTokens = 0,
+  ): BudgetEstimate {
+    const tokens = promptTokens + completionTokens;
+    return {
+      tokens,
+      cost: calculateCost(this.pricing, provider, model, tokens, completionTokens),
+    };
+  }
+
+  /**
+   * The provider's cheapest priced model, if it is cheaper than `model`
+   */
+  getCheaperModel(provider: string, model: string | undefined): string | undefined {
+    const current = getModelPrice(this.pricing, provider, model).input;
+
+    let cheapest: { model: string; price: number } | undefined;
+    for (const name of Object.keys(this.pricing[provider] ?? {})) {
+      const price = getModelPrice(this.pricing, provider, name).input;
+      if (name === '*' || price >= current) continue;
+      if (!cheapest || price < cheapest.price) cheapest = { model: name, price };
+    }
+    return cheapest?.model;
+  }
+
+  /**
+   * Whether a request fits the budget
+   *
+   * `files` is how many files the request names; per-file limits apply to
+   * each file's share.
+   */
+  fits(estimate: BudgetEstimate, files = 1): boolean {
+    const { maxTokensPerRun, maxCostPerRun, maxTokensPerFile, maxCostPerFile } = this.limits;
+    const perFile = { tokens: estimate.tokens / files, cost: estimate.cost / files };
+
+    if (maxTokensPerFile !== undefined && perFile.tokens > maxTokensPerFile) return false;
+    if (maxCostPerFile !== undefined && perFile.cost > maxCostPerFile) return false;
+
+    const committed = {
+      tokens: this.used.tokens + this.reserved.tokens + estimate.tokens,
+      cost: this.used.cost + this.reserved.cost + estimate.cost,
+    };
+    if (maxTokensPerRun !== undefined && committed.tokens > maxTokensPerRun) return false;
+    if (maxCostPerRun !== undefined && committed.cost > maxCostPerRun) return false;
+
+    return true;
+  }
+
+  /**
+   * Hold an estimate against the run budget while its request is in flight
+   */
+  reserve(estimate: BudgetEstimate): BudgetEstimate {
+    this.reserved.tokens += estimate.tokens;
+    this.reserved.cost += estimate.cost;
+    return estimate;
+  }
+
+  /**
+   * Replace a reservation with the real usage (none if the request failed)
+   */
+  settle(reservation: BudgetEstimate, actual?: BudgetEstimate): void {
+    this.reserved.tokens -= reservation.tokens;
+    this.reserved.cost -= reservation.cost;
+    if (actual) this.record(actual);
+  }
+
+  /**
+   * Record usage that was not reserved
+   */
+  record(actual: BudgetEstimate): void {
+    this.used.tokens += actual.tokens;
+    this.used.cost += actual.cost;
+  }
+
+  /**
+   * Count a file named with less than the configured model, or not at all
+   */
+  countDegraded(stopped: boolean): void {
+    if (stopped) this.stopped++;
+    else this.degraded++;
+  }
+
+  /**
+   * Get usage so far
+   */
+  getUsage(): BudgetUsage {
+    return {
+      ...this.limits,
+      tokensUsed: this.used.tokens,
+      cost: this.used.cost,
+      degraded: this.degraded,
+      stopped: this.stopped,
+    };
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * CandidateRanker - Score and order candidate names for a file
+ *
+ * Candidates are scored on length, specificity (informative words rather than
+ * generic ones like "document" or "image"), whether a sibling file already
+ * has the name, and how closely the model's answer followed the naming
+ * format. Candidates with equal scores keep the model's order.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { NameCandidate, NamingOptions } from '../types/naming';
+import { transformCase } from '../utils/CaseTransformer';
+
+/**
+ * Weight of each factor in the total score
+ */
+const WEIGHTS: Record<keyof NameCandidate['factors'], number> = {
+  length: 0.2,
+  specificity: 0.35,
+  uniqueness: 0.25,
+  format: 0.2,
+};
+
+/**
+ * Name lengths that score fully
+ */
+const IDEAL_LENGTH = { min: 12, max: 48 };
+
+/**
+ * Informative words at which a name is fully specific
+ */
+const SPECIFIC_WORDS = 3;
+
+/**
+ * Words that say little about a file on their own
+ */
+const GENERIC_WORDS = new Set([
+  'file',
+  'files',
+  'document',
+  'doc',
+  'image',
+  'img',
+  'photo',
+  'picture',
+  'pic',
+  'video',
+  'audio',
+  'scan',
+  'new',
+  'untitled',
+  'final',
+  'copy',
+  'draft',
+  'misc',
+  'other',
+  'unknown',
+  'data',
+  'the',
+  'a',
+  'an',
+  'of',
+  'and',
+  'for',
+]);
+
+/**
+ * Characters that are not allowed in file names
+ */
+// eslint-disable-next-line no-control-regex
+const INVALID_CHARS = /[<>:"/\\|?*\x00-\x1f]/;
+
+/**
+ * Ranking options
+ */
+export interface CandidateRankerOptions {
+  caseFormat?: NamingOptions['caseFormat'];
+  maxLength?: number;
+}
+
+/**
+ * A name to rank
+ */
+export interface CandidateInput {
+  name: string; // With naming options applied
+  raw: string; // As the model answered it
+}
+
+/**
+ * Candidate ranker class
+ */
+export class CandidateRanker {
+  constructor(private options: CandidateRankerOptions = {}) {}
+
+  /**
+   * Score candidate names for a file and order them best first
+   *
+   * Duplicate and empty names are dropped.
+   */
+  async rank(filePath: string, candidates: CandidateInput[]): Promise<NameCandidate[]> {
+    const siblings = await this.readSiblings(filePath);
+    const extension = path.extname(filePath).toLowerCase();
+
+    const seen = new Set<string>();
+    const ranked: NameCandidate[] = [];
+    for (const candidate of candidates) {
+      const key = candidate.name.toLowerCase();
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+
+      const factors: NameCandidate['factors'] = {
+        length: this.scoreLength(candidate.name),
+        specificity: this.scoreSpecificity(candidate.name),
+        uniqueness: siblings.has(key + extension) ? 0 : 1,
+        format: this.scoreFormat(candidate.raw),
+      };
+      const score = (Object.keys(WEIGHTS) as Array<keyof typeof WEIGHTS>).reduce(
+        (total, factor) => total + WEIGHTS[factor] * factors[factor],
+        0,
+      );
+
+      ranked.push({ name: candidate.name, score: Math.round(score * 100) / 100, factors });
+    }
+
+    // Array.prototype.sort is stable, so ties keep the model's order
+    return ranked.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Names (lower-cased) of the other files in the file's directory
+   */
+  private async readSiblings(filePath: string): Promise<Set<string>> {
+    const self = path.basename(filePath).toLowerCase();
+    try {
+      const entries = await fs.readdir(path.dirname(filePath));
+      return new Set(entries.map((entry) => entry.toLowerCase()).filter((name) => name !== self));
+    } catch {
+      return new Set();
+    }
+  }
+
+  /**
+   * Full score within the ideal length, less for shorter or longer names
+   */
+  private scoreLength(name: string): number {
+    const length = name.length;
+    if (this.options.maxLength !== undefined && length > this.options.maxLength) return 0;
+    if (length < IDEAL_LENGTH.min) return length / IDEAL_LENGTH.min;
+    const excess = length - IDEAL_LENGTH.max;
+    if (excess > 0) return Math.max(0, 1 - excess / (IDEAL_LENGTH.max / 2));
+    return 1;
+  }
+
+  /**
+   * Share of informative words, scaled down for names with few of them
+   *
+   * Numbers count when they carry information like a year or a date.
+   */
+  private scoreSpecificity(name: string): number {
+    const words = name
+      .replace(/(\p{Ll})(\p{Lu})/gu, '$1 $2')
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 0);
+    if (words.length === 0) return 0;
+
+    const informative = words.filter((word) =>
+      /^\d+$/.test(word) ? word.length >= 4 : word.length > 1 && !GENERIC_WORDS.has(word),
+    );
+    return (informative.length / words.length) * Math.min(1, informative.length / SPECIFIC_WORDS);
+  }
+
+  /**
+   * Whether the model's answer was already a valid name in the requested format
+   */
+  private scoreFormat(raw: string): number {
+    if (INVALID_CHARS.test(raw)) return 0;
+
+    const caseFormat = this.options.caseFormat;
+    if (!caseFormat || caseFormat === 'preserve') return 1;
+    return transformCase(raw, caseFormat) === raw ? 1 : 0.5;
+  }
+}
@@ -45,6 +45,7 @@ export class ConfigManager extends EventEmitter {
         maxRetries: 3,
         timeout: 30000,
         temperature: 0.7,
+        structuredOutput: true,
       },
       naming: {
         format: 'preserve',
@@ -62,6 +63,17 @@ export class ConfigManager extends EventEmitter {
         enabled: true,
         ttl: 3600000, // 1 hour
         maxSize: 100,
+        backend: 'memory',
+      },
+      optimization: {
+        enabled: false,
+        strategy: 'balanced',
+      },
+      budget: {
+        onExceeded: 'cheaper-model',
+      },
+      history: {
+        enabled: true,
       },
       logging: {
         level: 'info',
@@ -212,6 +224,32 @@ export class ConfigManager extends EventEmitter {
       config.batch.concurrency = parseInt(process.env['AI_BATCH_CONCURRENCY'], 10);
     }
 
+    // Cache configuration
+    if (process.env['AI_CACHE_PATH']) {
+      config.cache = config.cache ?? {};
+      config.cache.backend = 'file';
+      config.cache.path = process.env['AI_CACHE_PATH'];
+    }
+
+    // Optimization configuration
+    if (process.env['AI_OPTIMIZATION_STRATEGY']) {
+      config.optimization = config.optimization ?? {};
+      config.optimization.enabled = true;
+      config.optimization.strategy = process.env['AI_OPTIMIZATION_STRATEGY'];
+    }
+
+    // Budget configuration
+    if (process.env['AI_BUDGET_MAX_COST']) {
+      config.budget = config.budget ?? {};
+      config.budget.maxCostPerRun = parseFloat(process.env['AI_BUDGET_MAX_COST']);
+    }
+
+    // History configuration
+    if (process.env['AI_HISTORY_PATH']) {
+      config.history = config.history ?? {};
+      config.history.path = process.env['AI_HISTORY_PATH'];
+    }
+
     // Logging configuration
     if (process.env['AI_LOG_LEVEL']) {
       config.logging = config.logging ?? {};
@@ -352,6 +390,18 @@ export class ConfigManager extends EventEmitter {
       merged.provider = { ...base.provider, ...updates.provider };
     }
 
+    if (updates.fallbackProviders) {
+      merged.fallbackProviders = updates.fallbackProviders;
+    }
+
+    if (updates.routing) {
+      merged.routing = updates.routing;
+    }
+
+    if (updates.consensus) {
+      merged.consensus = updates.consensus;
+    }
+
     if (updates.naming) {
       merged.naming = { ...base.naming, ...updates.naming };
     }
@@ -364,6 +414,18 @@ export class ConfigManager extends EventEmitter {
       merged.cache = { ...base.cache, ...updates.cache };
     }
 
+    if (updates.optimization) {
+      merged.optimization = { ...base.optimization, ...updates.optimization };
+    }
+
+    if (updates.budget) {
+      merged.budget = { ...base.budget, ...updates.budget };
+    }
+
+    if (updates.history) {
+      merged.history = { ...base.history, ...updates.history };
+    }
+
     if (updates.logging) {
       merged.logging = { ...base.logging, ...updates.logging };
     }
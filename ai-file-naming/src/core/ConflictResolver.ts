@@ -0,0 +1,244 @@
+/**
+ * ConflictResolver - Resolve rename targets that are already taken
+ *
+ * A resolver is used for one run of renames. Targets claimed by earlier files
+ * of the run count as taken, so two files the model gave the same name do not
+ * collide, and names are compared case-insensitively when the target directory
+ * lives on a case-insensitive filesystem.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ConflictDecision, ConflictResolution, NameConflict } from '../types/naming';
+import * as FileUtils from '../utils/FileUtils';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Default pattern for the `rename` strategy
+ */
+export const DEFAULT_RENAME_PATTERN = '{name}_{n}';
+
+/**
+ * Upper bound on numbered candidates tried by the `rename` strategy, and on
+ * names taken from an `onConflict` handler for one file
+ */
+const MAX_RENAME_ATTEMPTS = 10000;
+
+/**
+ * Outcome of resolving a rename target
+ */
+export type ConflictOutcome =
+  | { action: 'rename'; targetPath: string; overwrite: boolean; conflict?: NameConflict }
+  | { action: 'skip'; reason: string; conflict: NameConflict };
+
+/**
+ * Conflict resolver class
+ */
+export class ConflictResolver {
+  private resolution: ConflictResolution;
+  private claimed = new Map<string, { sourcePath: string; targetPath: string }>();
+  private caseInsensitiveDirs = new Map<string, boolean>();
+  private logger = Logger.getInstance();
+
+  constructor(resolution?: ConflictResolution | ConflictResolution['strategy']) {
+    this.resolution =
+      typeof resolution === 'string'
+        ? { strategy: resolution }
+        : (resolution ?? { strategy: 'skip' });
+  }
+
+  /**
+   * Resolve the target for renaming `sourcePath` to `targetPath`
+   *
+   * With `checkDisk: false` only collisions within the run are considered,
+   * which is what plan generation wants since the disk may change before apply.
+   */
+  async resolve(
+    sourcePath: string,
+    targetPath: string,
+    options?: { checkDisk?: boolean },
+  ): Promise<ConflictOutcome> {
+    return this.resolveTarget(sourcePath, targetPath, options?.checkDisk ?? true, 0);
+  }
+
+  /**
+   * Resolve a target, counting the names the `onConflict` handler has chosen
+   * so a handler that keeps picking taken names cannot loop forever
+   */
+  private async resolveTarget(
+    sourcePath: string,
+    targetPath: string,
+    checkDisk: boolean,
+    handlerNames: number,
+  ): Promise<ConflictOutcome> {
+    const conflict = await this.findConflict(sourcePath, targetPath, checkDisk);
+
+    if (!conflict) {
+      await this.claim(sourcePath, targetPath);
+      return { action: 'rename', targetPath, overwrite: false };
+    }
+
+    const decision = await this.decide(conflict);
+    this.logger.debug('Name conflict', { ...conflict, decision });
+
+    if (typeof decision === 'object') {
+      if (handlerNames >= MAX_RENAME_ATTEMPTS) {
+        return {
+          action: 'skip',
+          reason: `No free name among ${handlerNames} names from onConflict for ${targetPath}`,
+          conflict,
+        };
+      }
+
+      const chosen = path.join(path.dirname(targetPath), decision.name);
+      const outcome = await this.resolveTarget(sourcePath, chosen, checkDisk, handlerNames + 1);
+      return outcome.action === 'rename' ? { ...outcome, conflict } : outcome;
+    }
+
+    if (decision === 'skip') {
+      return { action: 'skip', reason: this.describe(conflict), conflict };
+    }
+
+    // Never overwrite a file that another rename of this run just produced
+    if (decision === 'overwrite' && conflict.reason === 'exists') {
+      await this.claim(sourcePath, targetPath);
+      return { action: 'rename', targetPath, overwrite: true, conflict };
+    }
+
+    for (let n = 1; n <= MAX_RENAME_ATTEMPTS; n++) {
+      const candidate = this.formatCandidate(targetPath, n);
+      if (!(await this.findConflict(sourcePath, candidate, checkDisk))) {
+        await this.claim(sourcePath, candidate);
+        return { action: 'rename', targetPath: candidate, overwrite: false, conflict };
+      }
+    }
+
+    return { action: 'skip', reason: `No free name found for ${targetPath}`, conflict };
+  }
+
+  /**
+   * Reserve a target for `sourcePath` ahead of resolving it
+   *
+   * Lets numbered candidates avoid names that later files of the run already
+   * asked for. The first reservation of a name wins.
+   */
+  async reserve(sourcePath: string, targetPath: string): Promise<void> {
+    const key = await this.getKey(targetPath);
+    if (!this.claimed.has(key)) {
+      this.claimed.set(key, { sourcePath, targetPath });
+    }
+  }
+
+  /**
+   * Find what occupies a target, if anything
+   */
+  private async findConflict(
+    sourcePath: string,
+    targetPath: string,
+    checkDisk: boolean,
+  ): Promise<NameConflict | null> {
+    const claim = this.claimed.get(await this.getKey(targetPath));
+    if (claim && path.resolve(claim.sourcePath) !== path.resolve(sourcePath)) {
+      return { sourcePath, targetPath, existingPath: claim.targetPath, reason: 'batch' };
+    }
+
+    if (
+      !checkDisk ||
+      !(await FileUtils.fileExists(targetPath)) ||
+      (await FileUtils.isSameFile(sourcePath, targetPath))
+    ) {
+      return null;
+    }
+
+    return {
+      sourcePath,
+      targetPath,
+      existingPath: await this.getExistingPath(targetPath),
+      reason: 'exists',
+    };
+  }
+
+  /**
+   * Ask the configured strategy (or prompt handler) what to do
+   */
+  private async decide(conflict: NameConflict): Promise<ConflictDecision> {
+    if (this.resolution.strategy !== 'prompt') {
+      return this.resolution.strategy;
+    }
+
+    if (!this.resolution.onConflict) {
+      this.logger.warn('Conflict strategy is "prompt" but no onConflict handler is set; skipping', {
+        targetPath: conflict.targetPath,
+      });
+      return 'skip';
+    }
+
+    return this.resolution.onConflict(conflict);
+  }
+
+  /**
+   * Mark a target as taken for the rest of the run
+   */
+  private async claim(sourcePath: string, targetPath: string): Promise<void> {
+    this.claimed.set(await this.getKey(targetPath), { sourcePath, targetPath });
+  }
+
+  /**
+   * Build the comparison key for a path
+   */
+  private async getKey(filePath: string): Promise<string> {
+    const resolved = path.resolve(filePath);
+    const dir = path.dirname(resolved);
+
+    let caseInsensitive = this.caseInsensitiveDirs.get(dir);
+    if (caseInsensitive === undefined) {
+      caseInsensitive = await FileUtils.isCaseInsensitiveDir(dir);
+      this.caseInsensitiveDirs.set(dir, caseInsensitive);
+    }
+
+    return caseInsensitive ? resolved.toLowerCase() : resolved;
+  }
+
+  /**
+   * Get the actual on-disk spelling of an existing target
+   */
+  private async getExistingPath(targetPath: string): Promise<string> {
+    const dir = path.dirname(targetPath);
+    const name = path.basename(targetPath);
+
+    try {
+      const entries = await fs.readdir(dir);
+      const match =
+        entries.find((entry) => entry === name) ??
+        entries.find((entry) => entry.toLowerCase() === name.toLowerCase());
+      return match ? path.join(dir, match) : targetPath;
+    } catch {
+      return targetPath;
+    }
+  }
+
+  /**
+   * Build the n-th numbered candidate from the rename pattern
+   */
+  private formatCandidate(targetPath: string, n: number): string {
+    const pattern = this.resolution.renamePattern ?? DEFAULT_RENAME_PATTERN;
+    const ext = path.extname(targetPath);
+    const name = path.basename(targetPath, ext);
+
+    let candidate = pattern.replace(/\{name\}/g, name).replace(/\{n\}/g, String(n));
+    if (!pattern.includes('{n}')) {
+      candidate += `_${n}`;
+    }
+
+    return path.join(path.dirname(targetPath), candidate + ext);
+  }
+
+  /**
+   * Describe a conflict for skip results
+   */
+  private describe(conflict: NameConflict): string {
+    return conflict.reason === 'batch'
+      ? `Another file in this batch is already named ${path.basename(conflict.existingPath)}`
+      : `Target already exists: ${conflict.existingPath}`;
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * FileCacheBackend - Naming results cached in a JSON-lines file
+ *
+ * Keeps results across processes, so running the CLI again over the same
+ * folder does not pay for files it has already named. Writes are appends; a
+ * later line for a key replaces earlier ones and `deleted` lines remove it.
+ * The file is rewritten without stale lines when it is loaded and more than
+ * half of it is garbage.
+ *
+ * Entries expire `ttl` ms after they were stored. Reads do not extend that,
+ * since they only update the in-memory recency used for eviction.
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CacheBackend, CacheBackendOptions } from '../types/cache';
+import { NamingResponse } from '../types/naming';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Default cache file location
+ */
+export const DEFAULT_CACHE_PATH = path.join(os.homedir(), '.ai-file-naming', 'cache.jsonl');
+
+/**
+ * A line of the cache file
+ */
+interface CacheLine {
+  key: string;
+  value?: NamingResponse;
+  storedAt?: number;
+  deleted?: boolean;
+}
+
+interface CacheRecord {
+  value: NamingResponse;
+  storedAt: number;
+}
+
+/**
+ * File cache backend class
+ */
+export class FileCacheBackend implements CacheBackend {
+  readonly name = 'file';
+  private cachePath: string;
+  private options: CacheBackendOptions;
+  private entries = new Map<string, CacheRecord>(); // Least recently used first
+  private loading: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+  private logger = Logger.getInstance();
+
+  constructor(options: CacheBackendOptions & { path?: string }) {
+    this.cachePath = options.path ?? DEFAULT_CACHE_PATH;
+    this.options = { ttl: options.ttl, maxSize: options.maxSize };
+  }
+
+  /**
+   * Get cache file path
+   */
+  getPath(): string {
+    return this.cachePath;
+  }
+
+  async get(key: string): Promise<NamingResponse | undefined> {
+    await this.load();
+
+    const record = this.entries.get(key);
+    if (!record) {
+      return undefined;
+    }
+
+    if (this.isExpired(record)) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, record);
+    return record.value;
+  }
+
+  async set(key: string, value: NamingResponse): Promise<void> {
+    await this.load();
+
+    const record = { value, storedAt: Date.now() };
+    this.entries.delete(key);
+    this.entries.set(key, record);
+    const lines: CacheLine[] = [{ key, ...record }];
+
+    for (const evicted of this.evict()) {
+      lines.push({ key: evicted, deleted: true });
+    }
+
+    await this.append(lines);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    await this.load();
+
+    const existed = this.entries.delete(key);
+    if (existed) {
+      await this.append([{ key, deleted: true }]);
+    }
+    return existed;
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+
+    this.entries.clear();
+    await this.enqueue(() => fs.rm(this.cachePath, { force: true }));
+  }
+
+  async size(): Promise<number> {
+    await this.load();
+
+    for (const [key, record] of this.entries) {
+      if (this.isExpired(record)) this.entries.delete(key);
+    }
+    return this.entries.size;
+  }
+
+  async close(): Promise<void> {
+    await this.writing;
+  }
+
+  /**
+   * Read the cache file once, compacting it if mostly stale
+   */
+  private load(): Promise<void> {
+    this.loading ??= this.read();
+    return this.loading;
+  }
+
+  private async read(): Promise<void> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.cachePath, 'utf-8');
+    } catch {
+      return;
+    }
+
+    let lineCount = 0;
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      lineCount++;
+
+      try {
+        const parsed = JSON.parse(line) as CacheLine;
+        this.entries.delete(parsed.key);
+        if (!parsed.deleted && parsed.value && parsed.storedAt !== undefined) {
+          this.entries.set(parsed.key, { value: parsed.value, storedAt: parsed.storedAt });
+        }
+      } catch {
+        this.logger.warn('Skipping malformed cache line', { cache: this.cachePath });
+      }
+    }
+
+    for (const [key, record] of this.entries) {
+      if (this.isExpired(record)) this.entries.delete(key);
+    }
+    this.evict();
+
+    if (lineCount > this.entries.size * 2) {
+      await this.compact();
+    }
+  }
+
+  /**
+   * Rewrite the cache file with only the live entries
+   */
+  private async compact(): Promise<void> {
+    const lines = Array.from(this.entries, ([key, record]) => JSON.stringify({ key, ...record }));
+    const tempPath = `${this.cachePath}.${process.pid}.tmp`;
+
+    try {
+      await this.enqueue(async () => {
+        await fs.writeFile(tempPath, lines.map((line) => line + '\n').join(''), 'utf-8');
+        await fs.rename(tempPath, this.cachePath);
+      });
+      this.logger.debug('Compacted naming cache', { cache: this.cachePath, entries: lines.length });
+    } catch (error) {
+      this.logger.warn('Could not compact naming cache', {
+        cache: this.cachePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Drop least recently used entries beyond maxSize
+   */
+  private evict(): string[] {
+    const evicted: string[] = [];
+    for (const key of this.entries.keys()) {
+      if (this.entries.size - evicted.length <= this.options.maxSize) break;
+      evicted.push(key);
+    }
+
+    evicted.forEach((key) => this.entries.delete(key));
+    return evicted;
+  }
+
+  private isExpired(record: CacheRecord): boolean {
+    return this.options.ttl > 0 && Date.now() - record.storedAt > this.options.ttl;
+  }
+
+  /**
+   * Append lines to the cache file
+   */
+  private append(lines: CacheLine[]): Promise<void> {
+    const content = lines.map((line) => JSON.stringify(line) + '\n').join('');
+    return this.enqueue(async () => {
+      await fs.mkdir(path.dirname(this.cachePath), { recursive: true });
+      await fs.appendFile(this.cachePath, content, 'utf-8');
+    });
+  }
+
+  /**
+   * Run file writes one at a time so appends never race a rewrite
+   */
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const run = this.writing.then(write);
+    this.writing = run.catch(() => undefined);
+    return run;
+  }
+}
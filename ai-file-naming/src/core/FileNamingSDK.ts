@@ -3,24 +3,127 @@
  */
 
 import { ConfigManager } from './ConfigManager';
+import { ConflictResolver } from './ConflictResolver';
+import { NameDeduplicator } from './NameDeduplicator';
+import { CandidateRanker } from './CandidateRanker';
+import { NamingTemplate } from './NamingTemplate';
+import { SequenceNumberer } from './SequenceNumberer';
+import { PlanManager } from './PlanManager';
+import { RenameJournal } from './RenameJournal';
+import { SmartPipeline } from './SmartPipeline';
+import { SemanticBatchNamer } from './SemanticBatchNamer';
+import { BudgetTracker } from './BudgetTracker';
+import { MemoryCacheBackend } from './MemoryCacheBackend';
+import { FileCacheBackend } from './FileCacheBackend';
+import { MetadataExtractor } from '../analyzers/MetadataExtractor';
+import { AnalyzerRegistry } from '../analyzers';
+import { PromptOptimizer } from '../prompts/PromptOptimizer';
 import { ProviderRegistry } from '../providers/ProviderRegistry';
+import { ProviderChain } from '../providers/ProviderChain';
+import { ConsensusProvider } from '../providers/ConsensusProvider';
+import { ProviderRoute, ProviderRouter } from '../providers/ProviderRouter';
 import { AIProvider } from '../providers/base/AIProvider';
+import { CompositeProvider } from '../providers/base/CompositeProvider';
 import { EventEmitter } from '../events/EventEmitter';
 import { Logger } from '../utils/Logger';
-import { SDKConfig, PartialSDKConfig, ConfigValidationResult } from '../types/config';
-import { FileContext, FileAnalysisResult, FileProcessingOptions } from '../types/file';
+import {
+  BaseProviderConfig,
+  SDKConfig,
+  PartialSDKConfig,
+  ConfigValidationResult,
+} from '../types/config';
+import {
+  AudioMetadata,
+  FileContext,
+  FileAnalysisResult,
+  FileMetadata,
+  FileProcessingOptions,
+  FileType,
+  VideoMetadata,
+} from '../types/file';
 import {
   NamingResponse,
   NamingOptions,
   BatchNamingResult,
   BatchNamingOptions,
+  ConflictResolution,
+  NamingHistoryEntry,
+  NamingHistoryRun,
+  UndoOptions,
+  UndoResult,
 } from '../types/naming';
+import { RenamePlan, PlanApplyOptions, PlanApplyResult } from '../types/plan';
+import { CacheBackend, CacheStats } from '../types/cache';
+import { SemanticGroupingOptions } from '../types/mode';
+import { BudgetAction, BudgetEstimate, BudgetForecast } from '../types/budget';
 import { EventName } from '../types/events';
+import { GenerateNameOptions } from '../types/provider';
 import * as FileUtils from '../utils/FileUtils';
+import { getAudioInfo, hasNamingTags } from '../utils/AudioUtils';
+import { DEFAULT_VIDEO_FRAMES, getVideoInfo } from '../utils/VideoUtils';
 import { transformCase } from '../utils/CaseTransformer';
 import * as path from 'path';
+import { createHash } from 'crypto';
 import PQueue from 'p-queue';
-import { LRUCache } from 'lru-cache';
+
+/**
+ * Output tokens assumed per request when provider.maxTokens is not set
+ */
+const ESTIMATED_OUTPUT_TOKENS = 100;
+
+/**
+ * Tokens assumed for an image sent to a vision model
+ */
+const ESTIMATED_IMAGE_TOKENS = 765;
+
+/**
+ * Largest file whose content is read for the prompt (bytes)
+ */
+const MAX_CONTENT_ANALYSIS_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Characters of extracted text kept in the file analysis
+ */
+const CONTENT_TEXT_CHARS = 2000;
+
+/**
+ * Template for audio files named from their tags
+ */
+const AUDIO_TAG_TEMPLATE = '{artist}_{album}_{track:2}_{title}';
+
+/**
+ * Estimated prompt (input) and answer (output) tokens of a request
+ */
+interface RequestTokens {
+  prompt: number;
+  completion: number;
+}
+
+/**
+ * A provider request and what it used; tokens and cost are estimated when unset
+ */
+type BudgetedCall = (model?: string) => Promise<{
+  response: NamingResponse;
+  tokens?: number;
+  cost?: number;
+  model?: string;
+}>;
+
+/**
+ * Provider events passed on to SDK listeners
+ */
+const FORWARDED_PROVIDER_EVENTS = [
+  EventName.ProviderRequest,
+  EventName.ProviderResponse,
+  EventName.ProviderError,
+  EventName.ProviderRateLimit,
+  EventName.ProviderFallback,
+];
+
+/**
+ * How the provider is asked to answer a naming prompt
+ */
+type ProviderRequestOptions = Pick<GenerateNameOptions, 'structured' | 'alternatives'>;
 
 /**
  * Main SDK class
@@ -29,8 +132,18 @@ export class FileNamingSDK extends EventEmitter {
   private configManager: ConfigManager;
   private provider: AIProvider | null = null;
   private sdkLogger: Logger;
-  private cache: LRUCache<string, NamingResponse>;
+  private cache: CacheBackend;
+  private cacheHits = 0;
+  private cacheMisses = 0;
+  private knownCacheSize = 0; // Last size read from a backend without a synchronous size
   private abortControllers = new Map<string, AbortController>();
+  private journal: RenameJournal | null = null;
+  private planManager: PlanManager;
+  private pipeline: SmartPipeline | null = null;
+  private promptOptimizer = new PromptOptimizer();
+  private providerForwarders = new Map(
+    FORWARDED_PROVIDER_EVENTS.map((event) => [event, (data: unknown) => this.emit(event, data)]),
+  );
 
   constructor(config?: PartialSDKConfig) {
     super();
@@ -38,19 +151,20 @@ export class FileNamingSDK extends EventEmitter {
     // Initialize configuration manager
     this.configManager = new ConfigManager(config);
 
-    // Initialize LRU cache
-    const cacheConfig = this.configManager.getConfig().cache;
-    this.cache = new LRUCache<string, NamingResponse>({
-      max: cacheConfig.maxSize,
-      ttl: cacheConfig.ttl,
-      updateAgeOnGet: true, // Reset TTL on access
-      updateAgeOnHas: false,
-    });
+    // Initialize cache
+    this.cache = this.createCacheBackend();
 
     // Initialize logger
     const logConfig = this.configManager.getConfig().logging;
     this.sdkLogger = new Logger(logConfig.level, logConfig.format);
 
+    // Initialize SmartPipeline when optimization is enabled
+    this.initializePipeline();
+
+    // Initialize rename history and plans
+    this.initializeHistory();
+    this.planManager = new PlanManager(this.journal ?? undefined);
+
     // Initialize provider
     this.initializeProvider();
 
@@ -67,8 +181,39 @@ export class FileNamingSDK extends EventEmitter {
     const config = this.configManager.getConfig();
 
     try {
-      this.provider = ProviderRegistry.getOrCreate(config.provider);
-      this.sdkLogger.info(`Provider '${config.provider.type}' initialized`);
+      // Providers are shared between SDK instances with the same pricing
+      const { pricing } = config.budget;
+      const getProvider = (providerConfig: BaseProviderConfig) =>
+        ProviderRegistry.getOrCreate(providerConfig, pricing);
+
+      const fallbacks = (config.fallbackProviders ?? []).map(getProvider);
+      const voters = (config.consensus?.providers ?? []).map(getProvider);
+      const judge = config.consensus?.judge && getProvider(config.consensus.judge);
+
+      // The default and every routed provider get the fallbacks and consensus
+      const withStack = (provider: AIProvider): AIProvider => {
+        const next = fallbacks.filter((fallback) => fallback !== provider);
+        const chain = next.length > 0 ? new ProviderChain([provider, ...next]) : provider;
+        const others = voters.filter((voter) => voter !== provider);
+        return config.consensus && others.length > 0
+          ? new ConsensusProvider([chain, ...others], {
+              strategy: config.consensus.strategy,
+              judge,
+            })
+          : chain;
+      };
+
+      const main = withStack(getProvider(config.provider));
+      const routes = (config.routing ?? []).map((rule) => ({
+        rule,
+        provider: withStack(getProvider(rule.provider)),
+      }));
+      this.attachProvider(routes.length > 0 ? new ProviderRouter(main, routes) : main);
+      this.sdkLogger.info(`Provider '${config.provider.type}' initialized`, {
+        fallbacks: config.fallbackProviders?.map((fallback) => fallback.type),
+        routes: config.routing?.map((rule) => rule.name ?? rule.provider.type),
+        consensus: config.consensus?.providers.map((p) => p.type),
+      });
     } catch (error) {
       this.sdkLogger.error('Failed to initialize provider', error);
       throw new Error(
@@ -78,33 +223,104 @@ export class FileNamingSDK extends EventEmitter {
   }
 
   /**
-   * Setup event forwarding from provider and config manager
+   * Make a provider the SDK's provider and forward its events, releasing the
+   * previous one: provider instances are shared through `ProviderRegistry`,
+   * so listeners left on them would leak and repeat events
    */
-  private setupEventForwarding(): void {
-    // Forward provider events
-    if (this.provider) {
-      this.provider.on(EventName.ProviderRequest, (event) =>
-        this.emit(EventName.ProviderRequest, event),
-      );
-      this.provider.on(EventName.ProviderResponse, (event) =>
-        this.emit(EventName.ProviderResponse, event),
-      );
-      this.provider.on(EventName.ProviderError, (event) =>
-        this.emit(EventName.ProviderError, event),
-      );
-      this.provider.on(EventName.ProviderRateLimit, (event) =>
-        this.emit(EventName.ProviderRateLimit, event),
-      );
+  private attachProvider(provider: AIProvider): void {
+    this.detachProvider();
+    this.provider = provider;
+    for (const [event, handler] of this.providerForwarders) {
+      provider.on(event, handler);
+    }
+  }
+
+  /**
+   * Stop forwarding the current provider's events
+   */
+  private detachProvider(): void {
+    if (!this.provider) {
+      return;
+    }
+
+    for (const [event, handler] of this.providerForwarders) {
+      this.provider.off(event, handler);
     }
+    if (this.provider instanceof CompositeProvider) {
+      this.provider.dispose();
+    }
+    this.provider = null;
+  }
+
+  /**
+   * Create the configured cache backend
+   */
+  private createCacheBackend(): CacheBackend {
+    const cacheConfig = this.configManager.getConfig().cache;
+    const options = { ttl: cacheConfig.ttl, maxSize: cacheConfig.maxSize };
+
+    return cacheConfig.backend === 'file'
+      ? new FileCacheBackend({ ...options, path: cacheConfig.path })
+      : new MemoryCacheBackend(options);
+  }
+
+  /**
+   * Create the SmartPipeline from the optimization config
+   */
+  private initializePipeline(): void {
+    const { optimization, budget } = this.configManager.getConfig();
+    this.pipeline = optimization.enabled
+      ? new SmartPipeline({
+          strategy: optimization.strategy,
+          enableMetadataStage: optimization.enableMetadataStage,
+          enableCheapModelStage: optimization.enableCheapModelStage,
+          models: optimization.models,
+          confidenceThresholds: optimization.thresholds,
+          pricing: budget.pricing,
+        })
+      : null;
+  }
 
+  /**
+   * Initialize rename history journal
+   */
+  private initializeHistory(): void {
+    const historyConfig = this.configManager.getConfig().history;
+    this.journal = historyConfig.enabled ? new RenameJournal(historyConfig.path) : null;
+  }
+
+  /**
+   * Setup event forwarding from the config manager (provider events are
+   * forwarded by `attachProvider`)
+   */
+  private setupEventForwarding(): void {
     // Forward config events
     this.configManager.on(EventName.ConfigUpdate, (event) => {
       this.emit(EventName.ConfigUpdate, event);
       // Reinitialize provider if provider config changed
       const changes = event as { changes?: import('../types/ai-clients').ConfigUpdateChanges };
-      if (changes.changes?.provider) {
+      if (
+        changes.changes?.provider ??
+        changes.changes?.fallbackProviders ??
+        changes.changes?.routing ??
+        changes.changes?.consensus ??
+        changes.changes?.budget?.['pricing']
+      ) {
         this.initializeProvider();
       }
+      // Recreate cache backend if cache config changed
+      if (changes.changes?.cache) {
+        this.setCacheBackend(this.createCacheBackend());
+      }
+      // Rebuild pipeline if optimization or pricing config changed
+      if (changes.changes?.optimization ?? changes.changes?.budget) {
+        this.initializePipeline();
+      }
+      // Reopen history journal if history config changed
+      if (changes.changes?.history) {
+        this.initializeHistory();
+        this.planManager = new PlanManager(this.journal ?? undefined);
+      }
       // Update logger if logging config changed
       if (changes.changes?.logging) {
         const logConfig = this.configManager.getConfig().logging;
@@ -123,10 +339,18 @@ export class FileNamingSDK extends EventEmitter {
       prompt?: string;
       analyzeContent?: boolean;
       signal?: AbortSignal;
+      sequenceNumber?: number; // Value of the {seq} template token (set by nameBatch)
+      budget?: BudgetTracker; // Run budget shared by a batch (set by nameBatch)
     },
   ): Promise<NamingResponse> {
     this.sdkLogger.debug('Naming file', { filePath, options });
 
+    // Parse the template up front so unknown tokens fail before any work
+    if (options?.strategy === 'template' && !options.template) {
+      throw new Error('The template naming strategy requires a template');
+    }
+    const template = options?.template ? new NamingTemplate(options.template) : null;
+
     // Create request ID and AbortController
     const requestId = `naming-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
     const controller = new AbortController();
@@ -156,25 +380,14 @@ export class FileNamingSDK extends EventEmitter {
         throw new Error(`File validation failed: ${validation.errors?.join(', ')}`);
       }
 
-      // Check cache
-      const cacheKey = await this.getCacheKey(filePath, options);
-      if (this.configManager.getConfig().cache.enabled) {
-        const cached = this.cache.get(cacheKey);
-        if (cached) {
-          this.emit(EventName.CacheHit, {
-            key: cacheKey,
-            hit: true,
-            timestamp: new Date(),
-            eventId: `cache-hit-${Date.now()}`,
-          });
-          this.sdkLogger.debug('Cache hit', { key: cacheKey });
-          return cached;
-        }
-      }
-
-      // Analyze file
+      // Analyze file; its content is only read when the default prompt will use it
+      const usePipeline = this.pipeline !== null && !template && !options?.prompt;
       const analysis = await this.analyzeFile(filePath, {
-        analyzeContent: options?.analyzeContent,
+        analyzeContent:
+          options?.analyzeContent !== false &&
+          !usePipeline &&
+          !options?.prompt &&
+          (!template || template.usesAI()),
       });
 
       // Create context
@@ -185,27 +398,57 @@ export class FileNamingSDK extends EventEmitter {
         directory: path.dirname(filePath),
       };
 
-      // Build prompt
-      const prompt = options?.prompt ?? this.buildDefaultPrompt(context);
-
-      // Generate name using provider
-      if (!this.provider) {
-        throw new Error('No provider initialized');
+      // Tagged audio files are named from their tags, like a metadata-only template
+      const namingTemplate =
+        template ??
+        (!options?.prompt && options?.audioTags !== false
+          ? this.getAudioTagTemplate(analysis)
+          : null);
+
+      const budget = options?.budget ?? this.createBudgetTracker();
+      let response: NamingResponse;
+      if (this.pipeline && usePipeline && !namingTemplate) {
+        // Metadata first, then the cheap model, then the premium model
+        response = await this.runPipeline(this.pipeline, context, budget);
+      } else if (!namingTemplate || namingTemplate.usesAI()) {
+        // Build prompt
+        const prompt =
+          (options?.prompt ?? this.buildDefaultPrompt(context)) +
+          (template?.getPromptInstructions() ?? '');
+
+        // Generate name using provider (or a cached answer to the same prompt);
+        // templates ask for their own JSON fields, so only plain names are structured
+        response = await this.generateName(prompt, context, budget, {
+          structured: !template,
+          alternatives: options?.candidates ? options.candidates - 1 : undefined,
+        });
+      } else {
+        // Metadata-only template: no provider call needed
+        response = {
+          originalName: context.originalName,
+          suggestedName: '',
+          confidence: 1,
+          reasoning: template
+            ? `Named from template ${template.template}`
+            : 'Named from audio tags',
+        };
       }
 
-      const response = await this.provider.generateName(prompt, context);
+      if (namingTemplate && !response.error) {
+        response = await this.renderTemplate(namingTemplate, response, context, options);
+      }
 
       // Apply naming options
-      const finalResponse = this.applyNamingOptions(response, options);
-
-      // Cache result (LRU cache handles TTL and eviction automatically)
-      if (this.configManager.getConfig().cache.enabled) {
-        this.cache.set(cacheKey, finalResponse);
-        this.sdkLogger.debug('Cached result', {
-          key: cacheKey,
-          cacheSize: this.cache.size,
-        });
+      let namedResponse = { ...this.applyNamingOptions(response, options), filePath };
+      if (options?.candidates) {
+        namedResponse = await this.rankCandidates(
+          namedResponse,
+          response,
+          options.candidates,
+          options,
+        );
       }
+      const finalResponse = await this.applySequence(namedResponse, options);
 
       // Emit complete event
       const duration = Date.now() - startTime;
@@ -213,6 +456,8 @@ export class FileNamingSDK extends EventEmitter {
         request: { filePath },
         response: finalResponse,
         duration,
+        usage: finalResponse.usage,
+        provider: finalResponse.provider,
         timestamp: new Date(),
         eventId: `naming-complete-${Date.now()}`,
       });
@@ -279,12 +524,16 @@ export class FileNamingSDK extends EventEmitter {
     options?: BatchNamingOptions & {
       prompt?: string;
       mode?: 'batch' | 'semantic-batch';
+      grouping?: SemanticGroupingOptions; // How 'semantic-batch' groups related files
     },
   ): Promise<BatchNamingResult> {
     this.sdkLogger.debug('Batch naming files', { files, options });
 
+    // Reject a bad template once instead of failing every file
+    const template = options?.template ? new NamingTemplate(options.template) : null;
+
     // Resolve file list
-    const fileList = typeof files === 'string' ? await this.resolveFilePattern(files) : files;
+    const fileList = typeof files === 'string' ? await this.resolveFiles(files) : files;
 
     if (fileList.length === 0) {
       return {
@@ -309,6 +558,34 @@ export class FileNamingSDK extends EventEmitter {
     const config = this.configManager.getConfig();
     const concurrency = options?.concurrency ?? config.batch.concurrency;
 
+    // One budget for the whole batch; warn up front if it is unlikely to last
+    const budget = this.createBudgetTracker();
+    if (budget.isLimited()) {
+      const forecast = await this.estimateCost(fileList);
+      if (!forecast.withinBudget) {
+        this.sdkLogger.warn('Batch is estimated to exceed the budget', {
+          files: forecast.files,
+          tokens: forecast.tokens,
+          cost: forecast.cost,
+          onExceeded: config.budget.onExceeded,
+        });
+      }
+    }
+
+    // Number files for the {seq} token up front, since names are not known yet
+    const sequenceNumbers = template?.tokens.some((t) => t.name === 'seq')
+      ? await this.createSequenceNumberer(options).number(
+          fileList.map((filePath) => ({ filePath })),
+          { continueExisting: false },
+        )
+      : undefined;
+
+    // Name related files together, one prompt per group
+    const groupNames =
+      (options?.mode === 'semantic-batch' || options?.semanticGrouping) && !template
+        ? await this.nameGroups(fileList, options, budget)
+        : new Map<string, NamingResponse>();
+
     // Create queue for parallel processing
     const queue = new PQueue({ concurrency });
     const results: NamingResponse[] = [];
@@ -319,10 +596,16 @@ export class FileNamingSDK extends EventEmitter {
     const tasks = fileList.map((filePath) =>
       queue.add(async () => {
         try {
-          const result = await this.nameFile(filePath, {
-            ...options,
-            prompt: options?.prompt,
-          });
+          const grouped = groupNames.get(filePath);
+          const result = grouped
+            ? { ...this.applyNamingOptions(grouped, options), filePath }
+            : await this.nameFile(filePath, {
+                ...options,
+                prompt: options?.prompt,
+                includeSequence: false, // Numbered across the batch below
+                sequenceNumber: sequenceNumbers?.get(filePath),
+                budget,
+              });
 
           results.push(result);
           processed++;
@@ -345,6 +628,7 @@ export class FileNamingSDK extends EventEmitter {
           };
 
           const errorResponse: NamingResponse & { error: import('../types/naming').NamingError } = {
+            filePath,
             originalName: path.basename(filePath),
             suggestedName: path.basename(filePath),
             confidence: 0,
@@ -386,15 +670,48 @@ export class FileNamingSDK extends EventEmitter {
       }
     }
 
+    // Post-process in input order so results do not depend on completion order
+    const order = new Map(fileList.map((file, i) => [file, i]));
+    let successful = [...results].sort(
+      (a, b) => (order.get(a.filePath ?? '') ?? 0) - (order.get(b.filePath ?? '') ?? 0),
+    );
+
+    // Make names unique across the batch
+    if (options?.deduplicateNames && successful.length > 1) {
+      successful = await new NameDeduplicator({
+        caseFormat: options.caseFormat ?? config.naming.format,
+        separator: config.naming.replaceSpaces,
+        maxLength: options.maxLength ?? config.naming.maxLength,
+      }).deduplicate(successful);
+    }
+
+    // Number files per directory, batch or name
+    if (options?.includeSequence) {
+      successful = await this.createSequenceNumberer(options).apply(successful);
+    }
+
     const duration = Date.now() - startTime;
 
+    // Provider usage of the batch
+    const usage = { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 };
+    for (const response of successful) {
+      if (!response.usage) continue;
+      usage.requests++;
+      usage.promptTokens += response.usage.promptTokens;
+      usage.completionTokens += response.usage.completionTokens;
+      usage.totalTokens += response.usage.totalTokens;
+      usage.cost += response.usage.cost ?? 0;
+    }
+
     const result: BatchNamingResult = {
-      successful: results,
+      successful,
       failed: errors,
       totalProcessed: processed,
       totalSuccess: results.length,
       totalFailed: errors.length,
       duration,
+      budget: budget.getUsage(),
+      usage,
     };
 
     // Emit batch complete event
@@ -403,7 +720,8 @@ export class FileNamingSDK extends EventEmitter {
       successful: results.length,
       failed: errors.length,
       duration,
-      results,
+      results: successful,
+      usage,
       timestamp: new Date(),
       eventId: `batch-complete-${Date.now()}`,
     });
@@ -413,6 +731,8 @@ export class FileNamingSDK extends EventEmitter {
       successful: results.length,
       failed: errors.length,
       duration,
+      tokens: usage.totalTokens,
+      cost: usage.cost,
     });
 
     return result;
@@ -420,6 +740,11 @@ export class FileNamingSDK extends EventEmitter {
 
   /**
    * Rename a file
+   *
+   * Without a `conflict` strategy (or `overwrite`), a taken name throws.
+   * `pick` chooses among the ranked names: 0 is the suggested name, 1 the
+   * first alternative and so on. Naming with the same options again reuses
+   * the cached answer, so the names match what `nameFile` returned.
    */
   async renameFile(
     filePath: string,
@@ -427,41 +752,305 @@ export class FileNamingSDK extends EventEmitter {
       prompt?: string;
       dryRun?: boolean;
       overwrite?: boolean;
+      conflict?: ConflictResolution | ConflictResolution['strategy'];
+      pick?: number;
     },
-  ): Promise<{ oldPath: string; newPath: string; newName: string }> {
+  ): Promise<{
+    oldPath: string;
+    newPath: string;
+    newName: string;
+    skipped?: boolean;
+    reason?: string;
+  }> {
     // Generate new name
     const namingResponse = await this.nameFile(filePath, options);
+    const names = [namingResponse.suggestedName, ...(namingResponse.alternatives ?? [])];
+    const suggestedName = names[options?.pick ?? 0];
+    if (suggestedName === undefined) {
+      throw new Error(
+        `Cannot pick name ${options?.pick}: only ${names.length} candidate(s) for ${filePath}`,
+      );
+    }
 
-    if (options?.dryRun) {
+    const ext = path.extname(filePath);
+    const fileName =
+      options?.preserveExtension !== false
+        ? FileUtils.withExtension(suggestedName, ext)
+        : suggestedName;
+
+    const resolver = new ConflictResolver(
+      options?.conflict ?? (options?.overwrite ? 'overwrite' : 'skip'),
+    );
+    const outcome = await resolver.resolve(filePath, path.join(path.dirname(filePath), fileName));
+
+    if (outcome.action === 'skip') {
+      if (!options?.conflict) {
+        throw new Error(`File already exists: ${outcome.conflict.existingPath}`);
+      }
       return {
         oldPath: filePath,
-        newPath: path.join(
-          path.dirname(filePath),
-          namingResponse.suggestedName + path.extname(filePath),
-        ),
-        newName: namingResponse.suggestedName,
+        newPath: filePath,
+        newName: path.basename(filePath, ext),
+        skipped: true,
+        reason: outcome.reason,
       };
     }
 
+    const newName = path.basename(outcome.targetPath, ext);
+
+    if (options?.dryRun) {
+      return { oldPath: filePath, newPath: outcome.targetPath, newName };
+    }
+
     // Actually rename the file
-    const newPath = await FileUtils.renameFile(filePath, namingResponse.suggestedName, {
+    const newPath = await FileUtils.moveFile(filePath, outcome.targetPath, {
+      overwrite: outcome.overwrite,
+    });
+
+    this.sdkLogger.info('File renamed', { oldPath: filePath, newPath, newName });
+
+    if (this.journal) {
+      await this.journal.recordRename({
+        runId: this.journal.createRunId(),
+        originalName: path.basename(filePath),
+        newName: path.basename(newPath),
+        filePath,
+        newPath,
+        provider: namingResponse.provider ?? this.provider?.name ?? 'unknown',
+        model: namingResponse.model,
+        prompt: namingResponse.prompt,
+      });
+    }
+
+    return { oldPath: filePath, newPath, newName };
+  }
+
+  /**
+   * Name and rename a batch of files in one step
+   *
+   * Equivalent to `createPlan` followed by `applyPlan`; the conflict strategy
+   * applies both to identical names within the batch and to existing files.
+   */
+  async renameBatch(
+    files: string[] | string,
+    options?: BatchNamingOptions & {
+      prompt?: string;
+      mode?: 'batch' | 'semantic-batch';
+      dryRun?: boolean;
+      conflict?: ConflictResolution | ConflictResolution['strategy'];
+    },
+  ): Promise<PlanApplyResult> {
+    const plan = await this.createPlan(files, options);
+    return this.applyPlan(plan, { dryRun: options?.dryRun, conflict: options?.conflict });
+  }
+
+  /**
+   * Generate a rename plan for review without touching any files
+   */
+  async createPlan(
+    files: string[] | string,
+    options?: BatchNamingOptions & {
+      prompt?: string;
+      mode?: 'batch' | 'semantic-batch';
+      conflict?: ConflictResolution | ConflictResolution['strategy'];
+    },
+  ): Promise<RenamePlan> {
+    const fileList = typeof files === 'string' ? await this.resolveFiles(files) : files;
+    const result = await this.nameBatch(fileList, { continueOnError: true, ...options });
+    const config = this.configManager.getConfig();
+
+    // Keep entries in input order regardless of completion order
+    const order = new Map(fileList.map((file, i) => [file, i]));
+    const successful = [...result.successful].sort(
+      (a, b) => (order.get(a.filePath ?? '') ?? 0) - (order.get(b.filePath ?? '') ?? 0),
+    );
+
+    const plan = await this.planManager.createPlan(successful, {
+      provider: this.provider?.name,
+      model: config.provider.model,
       preserveExtension: options?.preserveExtension !== false,
-      overwrite: options?.overwrite,
+      failed: result.failed,
+      conflict: options?.conflict,
+    });
+
+    this.sdkLogger.info('Rename plan created', {
+      planId: plan.id,
+      entries: plan.entries.length,
+      failed: plan.failed?.length ?? 0,
+    });
+
+    return plan;
+  }
+
+  /**
+   * Save a rename plan to a JSON file
+   */
+  async savePlan(plan: RenamePlan, filePath: string): Promise<void> {
+    await this.planManager.savePlan(plan, filePath);
+    this.sdkLogger.debug('Rename plan saved', { planId: plan.id, filePath });
+  }
+
+  /**
+   * Load a rename plan from a JSON file
+   */
+  async loadPlan(filePath: string): Promise<RenamePlan> {
+    return this.planManager.loadPlan(filePath);
+  }
+
+  /**
+   * Apply a rename plan (or a path to a saved plan)
+   */
+  async applyPlan(plan: RenamePlan | string, options?: PlanApplyOptions): Promise<PlanApplyResult> {
+    const loaded = typeof plan === 'string' ? await this.planManager.loadPlan(plan) : plan;
+    const result = await this.planManager.applyPlan(loaded, options);
+
+    this.sdkLogger.info('Rename plan applied', {
+      planId: result.planId,
+      renamed: result.renamed,
+      skipped: result.skipped,
+      failed: result.failed,
+      dryRun: result.dryRun,
     });
 
-    this.sdkLogger.info('File renamed', {
-      oldPath: filePath,
-      newPath,
-      newName: namingResponse.suggestedName,
+    return result;
+  }
+
+  /**
+   * Undo renames: the last run by default, or a specific run ID or file
+   */
+  async undo(options?: UndoOptions): Promise<UndoResult> {
+    if (!this.journal) {
+      throw new Error('Rename history is disabled (history.enabled = false)');
+    }
+
+    const result = await this.journal.undo(options);
+
+    this.sdkLogger.info('Undo completed', {
+      runId: result.runId,
+      reverted: result.reverted,
+      skipped: result.skipped,
+      failed: result.failed,
+      dryRun: result.dryRun,
     });
 
+    return result;
+  }
+
+  /**
+   * Get rename history entries
+   */
+  async getHistory(): Promise<NamingHistoryEntry[]> {
+    return this.journal ? this.journal.getEntries() : [];
+  }
+
+  /**
+   * Get rename history grouped by run, most recent first
+   */
+  async getHistoryRuns(): Promise<NamingHistoryRun[]> {
+    return this.journal ? this.journal.getRuns() : [];
+  }
+
+  /**
+   * Estimate the tokens and cost of naming files, before naming them
+   *
+   * Assumes every file needs a provider request with the default prompt;
+   * cached answers and cheaper pipeline stages make the real cost lower.
+   */
+  async estimateCost(files: string[] | string): Promise<BudgetForecast> {
+    const fileList = typeof files === 'string' ? await this.resolveFiles(files) : files;
+    const config = this.configManager.getConfig();
+
+    const tokens: RequestTokens = { prompt: 0, completion: 0 };
+    for (const filePath of fileList) {
+      const context: FileContext = {
+        filePath,
+        analysis: {
+          filePath,
+          fileName: path.basename(filePath),
+          fileType: FileUtils.detectFileType(filePath),
+          metadata: await FileUtils.getFileMetadata(filePath),
+        },
+        originalName: path.basename(filePath),
+        directory: path.dirname(filePath),
+      };
+      const request = this.estimateRequestTokens(context, this.buildDefaultPrompt(context));
+      tokens.prompt += request.prompt;
+      tokens.completion += request.completion;
+    }
+
+    const budget = this.createBudgetTracker();
+    const estimate = budget.estimate(
+      this.provider?.name ?? config.provider.type,
+      config.provider.model,
+      tokens.prompt,
+      tokens.completion,
+    );
+
     return {
-      oldPath: filePath,
-      newPath,
-      newName: namingResponse.suggestedName,
+      files: fileList.length,
+      ...estimate,
+      withinBudget: fileList.length === 0 || budget.fits(estimate, fileList.length),
     };
   }
 
+  /**
+   * Name groups of related files for semantic batch mode
+   *
+   * Files missing from the result (unreadable, alone in their group, or in a
+   * group the provider could not name) are named individually.
+   */
+  private async nameGroups(
+    files: string[],
+    options: BatchNamingOptions & { prompt?: string; grouping?: SemanticGroupingOptions },
+    budget: BudgetTracker,
+  ): Promise<Map<string, NamingResponse>> {
+    const provider = this.provider;
+    if (!provider) {
+      throw new Error('No provider initialized');
+    }
+
+    const config = this.configManager.getConfig();
+    const contexts: FileContext[] = [];
+    for (const filePath of files) {
+      try {
+        const validation = await FileUtils.validateFile(filePath);
+        if (!validation.valid) continue;
+
+        const analysis = await this.analyzeFile(filePath);
+        if (!options.prompt && options.audioTags !== false && this.getAudioTagTemplate(analysis)) {
+          continue; // Named from its tags on its own
+        }
+
+        contexts.push({
+          filePath,
+          analysis,
+          originalName: path.basename(filePath),
+          directory: path.dirname(filePath),
+        });
+      } catch {
+        // Reported when the file is named on its own
+      }
+    }
+
+    try {
+      const namer = new SemanticBatchNamer(provider, {
+        prompt: options.prompt,
+        caseFormat: options.caseFormat ?? config.naming.format,
+        budget,
+        model: config.provider.model,
+      });
+      return await namer.name(contexts, {
+        ...options.grouping,
+        maxGroupSize: options.grouping?.maxGroupSize ?? config.batch.chunkSize,
+      });
+    } catch (error) {
+      this.sdkLogger.warn('Semantic grouping failed, naming files individually', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return new Map();
+    }
+  }
+
   /**
    * Analyze a file
    */
@@ -487,7 +1076,7 @@ export class FileNamingSDK extends EventEmitter {
         filePath,
         fileName: path.basename(filePath),
         fileType,
-        metadata,
+        metadata: await this.readMediaMetadata(filePath, fileType, metadata),
       };
 
       // Add hash if requested
@@ -495,6 +1084,13 @@ export class FileNamingSDK extends EventEmitter {
         result.hash = await FileUtils.getFileHash(filePath);
       }
 
+      if (
+        options?.analyzeContent &&
+        metadata.size <= (options.maxFileSize ?? MAX_CONTENT_ANALYSIS_SIZE)
+      ) {
+        result.content = await this.analyzeContent(filePath, result.metadata);
+      }
+
       // Emit analysis complete event
       const duration = Date.now() - startTime;
       this.emit(EventName.FileAnalysisComplete, {
@@ -520,15 +1116,160 @@ export class FileNamingSDK extends EventEmitter {
   }
 
   /**
-   * Apply naming options to response
+   * Add the tags and stream properties of audio and video files to their metadata
+   */
+  private async readMediaMetadata(
+    filePath: string,
+    fileType: FileType,
+    metadata: FileMetadata,
+  ): Promise<FileMetadata | AudioMetadata | VideoMetadata> {
+    switch (fileType) {
+      case FileType.Audio:
+        return this.readAudioMetadata(filePath, metadata);
+      case FileType.Video:
+        return this.readVideoMetadata(filePath, metadata);
+      default:
+        return metadata;
+    }
+  }
+
+  /**
+   * Add an audio file's tags and stream properties to its metadata; files
+   * whose tags cannot be read keep the plain metadata
+   */
+  private async readAudioMetadata(
+    filePath: string,
+    metadata: FileMetadata,
+  ): Promise<FileMetadata | AudioMetadata> {
+    try {
+      const info = await getAudioInfo(filePath);
+      return {
+        ...metadata,
+        duration: info.duration ?? 0,
+        bitrate: info.bitrate,
+        sampleRate: info.sampleRate,
+        channels: info.channels,
+        codec: info.codec,
+        artist: info.artist ?? info.albumArtist,
+        albumArtist: info.albumArtist,
+        title: info.title,
+        album: info.album,
+        year: info.year,
+        genre: info.genre,
+        track: info.track,
+        trackTotal: info.trackTotal,
+        disc: info.disc,
+      };
+    } catch (error) {
+      this.sdkLogger.debug('Audio tags could not be read', {
+        filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return metadata;
+    }
+  }
+
+  /**
+   * Add a video's duration, resolution, codecs, recording time and location
+   * to its metadata; without ffprobe the plain metadata is kept
+   */
+  private async readVideoMetadata(
+    filePath: string,
+    metadata: FileMetadata,
+  ): Promise<FileMetadata | VideoMetadata> {
+    try {
+      const info = await getVideoInfo(filePath);
+      return {
+        ...metadata,
+        duration: info.duration,
+        width: info.width,
+        height: info.height,
+        fps: info.fps,
+        codec: info.codec,
+        bitrate: info.bitrate,
+        audioCodec: info.audioCodec,
+        audioBitrate: info.audioBitrate,
+        audioChannels: info.audioChannels,
+        audioSampleRate: info.audioSampleRate,
+        creationTime: info.creationTime,
+        gps: info.gps,
+        title: info.title,
+      };
+    } catch (error) {
+      this.sdkLogger.debug('Video metadata could not be read', {
+        filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return metadata;
+    }
+  }
+
+  /**
+   * Template naming an audio file from its tags, when they name it well enough
+   */
+  private getAudioTagTemplate(analysis: FileAnalysisResult): NamingTemplate | null {
+    return analysis.fileType === FileType.Audio && hasNamingTags(analysis.metadata as AudioMetadata)
+      ? new NamingTemplate(AUDIO_TAG_TEMPLATE)
+      : null;
+  }
+
+  /**
+   * Read a summary, keywords and details of a file's content for the prompt
+   *
+   * Uses the first analyzer in `AnalyzerRegistry` that handles the file;
+   * files no analyzer handles get no content.
+   */
+  private async analyzeContent(
+    filePath: string,
+    metadata: FileAnalysisResult['metadata'],
+  ): Promise<FileAnalysisResult['content']> {
+    try {
+      const result = await AnalyzerRegistry.analyze(filePath, {
+        maxLength: CONTENT_TEXT_CHARS,
+        metadata,
+      });
+      if (!result) {
+        return undefined;
+      }
+
+      const { summary, keywords, text } = result.content;
+      const details = result.content.details.filter((detail) => !summary.includes(detail));
+      return {
+        text,
+        summary,
+        keywords: keywords.length > 0 ? [...new Set(keywords)] : undefined,
+        details: details.length > 0 ? details : undefined,
+      };
+    } catch (error) {
+      this.sdkLogger.debug('Content analysis failed', {
+        filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Apply naming options to the suggested name and its alternatives
    */
   private applyNamingOptions(response: NamingResponse, options?: NamingOptions): NamingResponse {
-    let name = response.suggestedName;
+    return {
+      ...response,
+      suggestedName: this.formatName(response.suggestedName, options),
+      alternatives: response.alternatives?.map((name) => this.formatName(name, options)),
+    };
+  }
+
+  /**
+   * Apply case format, sanitization and date prefix to a name
+   */
+  private formatName(suggestedName: string, options?: NamingOptions): string {
+    let name = suggestedName;
     const config = this.configManager.getConfig();
 
-    // Apply case transformation
+    // Apply case transformation (templates apply it per token instead)
     const caseFormat = options?.caseFormat ?? config.naming.format;
-    if (caseFormat !== 'preserve') {
+    if (caseFormat !== 'preserve' && !options?.template) {
       name = transformCase(name, caseFormat);
     }
 
@@ -546,15 +1287,104 @@ export class FileNamingSDK extends EventEmitter {
       name = `${date}_${name}`;
     }
 
-    // Add sequence if requested
-    if (options?.includeSequence) {
-      const timestamp = Date.now();
-      name = `${name}_${timestamp}`;
+    return name;
+  }
+
+  /**
+   * Rank the suggested name and its alternatives, keeping the best `count`
+   *
+   * Candidates are scored on the formatted names and the model's own answers
+   * (for format adherence), and the response is reordered so the best is the
+   * suggested name.
+   */
+  private async rankCandidates(
+    named: NamingResponse & { filePath: string },
+    raw: NamingResponse,
+    count: number,
+    options?: NamingOptions,
+  ): Promise<NamingResponse & { filePath: string }> {
+    const config = this.configManager.getConfig();
+    const ranker = new CandidateRanker({
+      caseFormat: options?.template ? 'preserve' : (options?.caseFormat ?? config.naming.format),
+      maxLength: options?.maxLength ?? config.naming.maxLength,
+    });
+
+    const inputs = [
+      { name: named.suggestedName, raw: raw.suggestedName },
+      ...(raw.alternatives ?? []).map((alternative, i) => ({
+        name: named.alternatives?.[i] ?? alternative,
+        raw: alternative,
+      })),
+    ];
+    const candidates = (await ranker.rank(named.filePath, inputs)).slice(0, Math.max(1, count));
+    const [best, ...rest] = candidates;
+    if (!best) {
+      return named;
     }
 
+    return {
+      ...named,
+      suggestedName: best.name,
+      alternatives: rest.length > 0 ? rest.map((candidate) => candidate.name) : undefined,
+      candidates,
+    };
+  }
+
+  /**
+   * Append a sequence number to a single file's name if requested
+   */
+  private async applySequence(
+    response: NamingResponse,
+    options?: NamingOptions,
+  ): Promise<NamingResponse> {
+    if (!options?.includeSequence) {
+      return response;
+    }
+
+    const [numbered] = await this.createSequenceNumberer(options).apply([response]);
+    return numbered ?? response;
+  }
+
+  /**
+   * Create a sequence numberer for the effective naming options
+   */
+  private createSequenceNumberer(options?: NamingOptions): SequenceNumberer {
+    const config = this.configManager.getConfig();
+    return new SequenceNumberer(options?.sequence, {
+      caseFormat: options?.caseFormat ?? config.naming.format,
+      separator: config.naming.replaceSpaces,
+    });
+  }
+
+  /**
+   * Render a naming template from file metadata and the AI answer
+   */
+  private async renderTemplate(
+    template: NamingTemplate,
+    response: NamingResponse,
+    context: FileContext,
+    options?: NamingOptions & { sequenceNumber?: number },
+  ): Promise<NamingResponse> {
+    const rich = template.usesRichMetadata()
+      ? await new MetadataExtractor().extractRichMetadata(context.filePath)
+      : undefined;
+    const answer = template.usesAI() ? NamingTemplate.parseAnswer(response) : {};
+
+    const name = template.render(
+      {
+        analysis: context.analysis,
+        rich,
+        ai: answer,
+        sequence: options?.sequenceNumber ?? options?.sequence?.start,
+      },
+      { caseFormat: options?.caseFormat ?? this.configManager.getConfig().naming.format },
+    );
+
     return {
       ...response,
-      suggestedName: name,
+      suggestedName:
+        name || path.basename(context.originalName, path.extname(context.originalName)),
+      metadata: { ...response.metadata, template: template.template, fields: answer },
     };
   }
 
@@ -575,6 +1405,14 @@ export class FileNamingSDK extends EventEmitter {
       prompt += `Content: ${context.analysis.content.summary}\n`;
     }
 
+    if (context.analysis.content?.details?.length) {
+      prompt += `Details: ${context.analysis.content.details.join('; ')}\n`;
+    }
+
+    if (context.analysis.content?.keywords?.length) {
+      prompt += `Keywords: ${context.analysis.content.keywords.join(', ')}\n`;
+    }
+
     prompt += '\nProvide a clear, descriptive filename that reflects the content.';
     prompt += '\nKeep the name concise but informative.';
     prompt += '\nDo not include the file extension in your response.';
@@ -587,40 +1425,470 @@ export class FileNamingSDK extends EventEmitter {
   }
 
   /**
-   * Get cache key for a file
+   * Generate a name with the provider, reusing cached answers
+   *
+   * Raw provider answers are cached rather than final names, so templates,
+   * case formats and sequence numbers are always applied fresh. Failed
+   * answers and answers degraded by the budget are not cached.
    */
-  private async getCacheKey(filePath: string, options?: NamingOptions): Promise<string> {
-    const hash = await FileUtils.getFileHash(filePath);
-    const optionsStr = JSON.stringify(options ?? {});
-    return `${hash}-${optionsStr}`;
+  private async generateName(
+    prompt: string,
+    context: FileContext,
+    budget: BudgetTracker,
+    request: ProviderRequestOptions,
+  ): Promise<NamingResponse> {
+    return this.withCache(context, { prompt, alternatives: request.alternatives }, () =>
+      this.withinBudget(budget, context, prompt, (model) =>
+        this.callProvider(prompt, context, model, request),
+      ),
+    );
   }
 
   /**
-   * Resolve file pattern to file list
+   * Send a prompt to the provider, optionally with another model
+   *
+   * Structured requests get a validated name, alternatives, confidence and
+   * detected content instead of free text.
+   */
+  private async callProvider(
+    prompt: string,
+    context: FileContext,
+    model?: string,
+    request: ProviderRequestOptions = { structured: true },
+  ): ReturnType<BudgetedCall> {
+    const provider = this.provider;
+    if (!provider) {
+      throw new Error('No provider initialized');
+    }
+
+    const response = await provider.generateName(prompt, context, { ...request, model });
+    return {
+      response: { ...response, model: response.model ?? model, prompt },
+      tokens: response.usage?.totalTokens,
+      cost: response.usage?.cost,
+      model: response.model ?? model,
+    };
+  }
+
+  /**
+   * Name a file through the SmartPipeline stages, reusing cached answers
+   */
+  private async runPipeline(
+    pipeline: SmartPipeline,
+    context: FileContext,
+    budget: BudgetTracker,
+  ): Promise<NamingResponse> {
+    const provider = this.provider;
+    if (!provider) {
+      throw new Error('No provider initialized');
+    }
+
+    // The default prompt stands in for the pipeline's prompts when estimating
+    const prompt = this.buildDefaultPrompt(context);
+    const optimization = this.configManager.getConfig().optimization;
+    return this.withCache(context, { pipeline: optimization }, () =>
+      this.withinBudget(budget, context, prompt, async (model) => {
+        if (model) {
+          // Over budget: skip the stages and use the cheaper model directly
+          return this.callProvider(prompt, context, model);
+        }
+
+        return this.processWithPipeline(pipeline, provider, context);
+      }),
+    );
+  }
+
+  /**
+   * Name a file with the SmartPipeline and report the stage that named it
+   */
+  private async processWithPipeline(
+    pipeline: SmartPipeline,
+    provider: AIProvider,
+    context: FileContext,
+  ): ReturnType<BudgetedCall> {
+    const result = await pipeline.processFile(context.filePath, provider);
+
+    this.emit(EventName.PipelineStage, {
+      filePath: context.filePath,
+      stage: result.stage,
+      confidence: result.confidence,
+      tokensUsed: result.tokensUsed,
+      cost: result.cost,
+      model: result.model,
+      timestamp: new Date(),
+      eventId: `pipeline-stage-${Date.now()}`,
+    });
+    this.sdkLogger.debug('Pipeline stage produced name', {
+      filePath: context.filePath,
+      stage: result.stage,
+      tokensUsed: result.tokensUsed,
+    });
+
+    const response: NamingResponse = {
+      originalName: context.originalName,
+      suggestedName:
+        result.suggestedName ??
+        path.basename(context.originalName, path.extname(context.originalName)),
+      confidence: result.confidence,
+      reasoning: result.reasoning,
+      alternatives: result.alternatives,
+      detected: result.detected,
+      error: result.error,
+      usage: result.usage,
+      provider: result.provider,
+      model: result.model,
+      prompt: result.prompt,
+      metadata: {
+        stage: result.stage,
+        tokensUsed: result.tokensUsed,
+        cost: result.cost,
+        model: result.model,
+      },
+    };
+    return { response, tokens: result.tokensUsed, cost: result.cost, model: result.model };
+  }
+
+  /**
+   * Run a provider request if its estimate fits the budget
+   *
+   * Otherwise falls back as configured by `budget.onExceeded`: a cheaper
+   * model of the same provider, then naming from metadata, or failing.
+   */
+  private async withinBudget(
+    budget: BudgetTracker,
+    context: FileContext,
+    prompt: string,
+    call: BudgetedCall,
+  ): Promise<NamingResponse> {
+    const config = this.configManager.getConfig();
+    const route = this.routeFor(context);
+    const providerConfig = route?.rule.provider ?? config.provider;
+    const provider = route?.provider.name ?? this.provider?.name ?? config.provider.type;
+    const tokens = this.estimateRequestTokens(context, prompt);
+    const estimate = budget.estimate(
+      provider,
+      providerConfig.model,
+      tokens.prompt,
+      tokens.completion,
+    );
+
+    if (budget.fits(estimate)) {
+      return this.runBudgeted(budget, estimate, call);
+    }
+
+    // Routed providers keep their own model, so only the default provider can switch
+    const action = config.budget.onExceeded;
+    if (action === 'cheaper-model' && !route) {
+      const model = budget.getCheaperModel(provider, config.provider.model);
+      const cheaper = model
+        ? budget.estimate(provider, model, tokens.prompt, tokens.completion)
+        : undefined;
+      if (model && cheaper && budget.fits(cheaper)) {
+        this.reportBudgetExceeded(budget, context, 'cheaper-model', estimate);
+        const response = await this.runBudgeted(budget, cheaper, call, model);
+        return { ...response, metadata: { ...response.metadata, budget: 'cheaper-model' } };
+      }
+    }
+
+    if (action !== 'stop') {
+      this.reportBudgetExceeded(budget, context, 'metadata-only', estimate);
+      return this.nameFromMetadata(context);
+    }
+
+    this.reportBudgetExceeded(budget, context, 'stop', estimate);
+    throw new Error(`Naming ${context.originalName} would exceed the budget`);
+  }
+
+  /**
+   * Run a request against a reservation and record what it really used
    */
-  private async resolveFilePattern(pattern: string): Promise<string[]> {
-    // If pattern is a directory, list all files
+  private async runBudgeted(
+    budget: BudgetTracker,
+    estimate: BudgetEstimate,
+    call: BudgetedCall,
+    model?: string,
+  ): Promise<NamingResponse> {
+    const reservation = budget.reserve(estimate);
+
+    let result: Awaited<ReturnType<BudgetedCall>>;
     try {
-      const stat = await FileUtils.getFileMetadata(pattern);
-      if (stat) {
-        // It's a single file
-        return [pattern];
+      result = await call(model);
+    } catch (error) {
+      budget.settle(reservation);
+      throw error;
+    }
+
+    const tokens = result.tokens ?? estimate.tokens;
+    const completionTokens = Math.min(result.response.usage?.completionTokens ?? 0, tokens);
+    const config = this.configManager.getConfig();
+    const cost =
+      result.cost ??
+      budget.estimate(
+        result.response.provider ?? this.provider?.name ?? config.provider.type,
+        result.model ?? model ?? config.provider.model,
+        tokens - completionTokens,
+        completionTokens,
+      ).cost;
+    budget.settle(reservation, { tokens, cost });
+
+    return result.response;
+  }
+
+  /**
+   * Name a file from its metadata alone, without calling the provider
+   */
+  private async nameFromMetadata(context: FileContext): Promise<NamingResponse> {
+    const result = await new MetadataExtractor().canNameFromMetadata(context.filePath);
+    return {
+      originalName: context.originalName,
+      suggestedName:
+        result.suggestedName ||
+        path.basename(context.originalName, path.extname(context.originalName)),
+      confidence: result.confidence,
+      reasoning: `Named from metadata to stay within the budget. ${result.reasoning}`,
+      metadata: { budget: 'metadata-only' },
+    };
+  }
+
+  /**
+   * Count and announce a request that did not fit the budget
+   */
+  private reportBudgetExceeded(
+    budget: BudgetTracker,
+    context: FileContext,
+    action: BudgetAction,
+    estimate: BudgetEstimate,
+  ): void {
+    budget.countDegraded(action === 'stop');
+    const usage = budget.getUsage();
+
+    this.emit(EventName.BudgetExceeded, {
+      filePath: context.filePath,
+      action,
+      estimate,
+      usage,
+      timestamp: new Date(),
+      eventId: `budget-exceeded-${Date.now()}`,
+    });
+    this.sdkLogger.warn('Budget exceeded', {
+      filePath: context.filePath,
+      action,
+      estimatedTokens: estimate.tokens,
+      estimatedCost: estimate.cost,
+      tokensUsed: usage.tokensUsed,
+      cost: usage.cost,
+    });
+  }
+
+  /**
+   * Estimate the tokens of a naming request: prompt and image in, answer out
+   */
+  private estimateRequestTokens(context: FileContext, prompt: string): RequestTokens {
+    const config = this.configManager.getConfig();
+    let tokens = this.promptOptimizer.estimateTokens(prompt);
+    const completion = config.provider.maxTokens ?? ESTIMATED_OUTPUT_TOKENS;
+
+    const route = this.routeFor(context);
+    const provider = route?.provider ?? this.provider;
+    if (provider?.capabilities.supportsVision) {
+      if (context.analysis.fileType === FileType.Image) {
+        tokens += ESTIMATED_IMAGE_TOKENS;
+      } else if (context.analysis.fileType === FileType.Video) {
+        const frames = (route?.rule.provider ?? config.provider).videoFrames;
+        tokens += ESTIMATED_IMAGE_TOKENS * (frames ?? DEFAULT_VIDEO_FRAMES);
       }
-    } catch {
-      // Not a single file, might be a directory or pattern
     }
 
-    // Try as directory
+    // Consensus asks every other provider, and the judge on top; like the
+    // provider stack, voters that are the file's own provider are not asked twice
+    const consensus = config.consensus;
+    let requests = 1;
+    if (consensus) {
+      const { pricing } = config.budget;
+      const own = ProviderRegistry.getOrCreate(route?.rule.provider ?? config.provider, pricing);
+      const others = consensus.providers.filter(
+        (voter) => ProviderRegistry.getOrCreate(voter, pricing) !== own,
+      );
+      if (others.length > 0) {
+        requests += others.length + (consensus.strategy === 'judge' ? 1 : 0);
+      }
+    }
+    return { prompt: tokens * requests, completion: completion * requests };
+  }
+
+  /**
+   * Routing rule that sends a file to another provider than the default, if any
+   */
+  private routeFor(context: FileContext): ProviderRoute | undefined {
+    return this.provider instanceof ProviderRouter ? this.provider.selectRoute(context) : undefined;
+  }
+
+  /**
+   * Create a budget tracker from the budget config
+   */
+  private createBudgetTracker(): BudgetTracker {
+    const budget = this.configManager.getConfig().budget;
+    return new BudgetTracker(budget, budget.pricing);
+  }
+
+  /**
+   * Return a cached answer for a request, or generate and cache one
+   */
+  private async withCache(
+    context: FileContext,
+    request: Record<string, unknown>,
+    generate: () => Promise<NamingResponse>,
+  ): Promise<NamingResponse> {
+    if (!this.configManager.getConfig().cache.enabled) {
+      return generate();
+    }
+
+    const key = await this.getCacheKey(context, request);
+    const cached = await this.readCache(key);
+    if (cached) {
+      return { ...cached, originalName: context.originalName, usage: undefined };
+    }
+
+    const response = await generate();
+    if (!response.error && !response.metadata?.['budget']) {
+      try {
+        await this.cache.set(key, { ...response, usage: undefined });
+        this.sdkLogger.debug('Cached result', { key, backend: this.cache.name });
+      } catch (error) {
+        this.sdkLogger.warn('Failed to write naming cache', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Look up a cache entry, counting hits and misses
+   */
+  private async readCache(key: string): Promise<NamingResponse | undefined> {
+    let cached: NamingResponse | undefined;
     try {
+      cached = await this.cache.get(key);
+    } catch (error) {
+      this.sdkLogger.warn('Failed to read naming cache', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (cached) {
+      this.cacheHits++;
+    } else {
+      this.cacheMisses++;
+    }
+
+    this.emit(cached ? EventName.CacheHit : EventName.CacheMiss, {
+      key,
+      hit: !!cached,
+      timestamp: new Date(),
+      eventId: `cache-${cached ? 'hit' : 'miss'}-${Date.now()}`,
+    });
+    this.sdkLogger.debug(cached ? 'Cache hit' : 'Cache miss', { key });
+
+    return cached;
+  }
+
+  /**
+   * Get cache key for a file: its content hash plus the provider it is routed
+   * to, model, consensus providers and what was asked (the effective prompt,
+   * or the pipeline settings)
+   */
+  private async getCacheKey(
+    context: FileContext,
+    request: Record<string, unknown>,
+  ): Promise<string> {
+    const config = this.configManager.getConfig();
+    const route = this.routeFor(context);
+    const providerConfig = route?.rule.provider ?? config.provider;
+    // Routed providers are wrapped in the same consensus as the default one
+    const consensus = config.consensus;
+    const hash = await FileUtils.getFileHash(context.filePath);
+
+    return createHash('sha256')
+      .update(
+        JSON.stringify({
+          hash,
+          provider: providerConfig.type,
+          model: providerConfig.model ?? null,
+          structured: providerConfig.structuredOutput !== false,
+          consensus: consensus
+            ? {
+                providers: consensus.providers.map((p) => [p.type, p.model ?? null]),
+                strategy: consensus.strategy ?? 'agreement',
+                judge: consensus.judge
+                  ? [consensus.judge.type, consensus.judge.model ?? null]
+                  : null,
+              }
+            : null,
+          ...request,
+        }),
+      )
+      .digest('hex');
+  }
+
+  /**
+   * Resolve files, directories and glob patterns to a file list
+   */
+  async resolveFiles(
+    patterns: string | string[],
+    options?: { recursive?: boolean; includeHidden?: boolean },
+  ): Promise<string[]> {
+    const inputs = typeof patterns === 'string' ? [patterns] : patterns;
+    const seen = new Set<string>();
+    const files: string[] = [];
+
+    for (const input of inputs) {
+      const resolved = await this.resolveFilePattern(input, options);
+      for (const file of resolved.sort()) {
+        const key = path.resolve(file);
+        if (!seen.has(key)) {
+          seen.add(key);
+          files.push(file);
+        }
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Resolve file pattern to file list
+   */
+  private async resolveFilePattern(
+    input: string,
+    options?: { recursive?: boolean; includeHidden?: boolean },
+  ): Promise<string[]> {
+    // Quoted patterns reach us with `~` unexpanded
+    const pattern = FileUtils.expandHome(input);
+    const skipHidden = options?.includeHidden !== true;
+
+    // Directory: list its files, staying out of .git and other hidden folders
+    if (await FileUtils.isDirectory(pattern)) {
       const files = await FileUtils.listFiles(pattern, {
-        recursive: true,
+        recursive: options?.recursive ?? true,
         includeDirectories: false,
+        skipHidden,
       });
       return files;
-    } catch {
-      // Not a directory, return empty array
-      return [];
     }
+
+    // Single file
+    if (await FileUtils.fileExists(pattern)) {
+      return [pattern];
+    }
+
+    // Glob pattern
+    if (FileUtils.isGlobPattern(pattern)) {
+      return FileUtils.expandGlob(pattern, { skipHidden });
+    }
+
+    return [];
   }
 
   /**
@@ -684,39 +1952,79 @@ export class FileNamingSDK extends EventEmitter {
   }
 
   /**
-   * Clear cache
+   * Use a custom cache backend
+   */
+  setCacheBackend(backend: CacheBackend): void {
+    const previous = this.cache;
+    this.cache = backend;
+    this.knownCacheSize = 0;
+    void previous.close?.().catch(() => undefined);
+  }
+
+  /**
+   * Clear cached results and reset hit/miss counters
    */
-  clearCache(): void {
-    this.cache.clear();
+  async clearCache(): Promise<void> {
+    await this.cache.clear();
+    this.knownCacheSize = 0;
+    this.cacheHits = 0;
+    this.cacheMisses = 0;
     this.sdkLogger.debug('Cache cleared');
   }
 
   /**
    * Get cache size
+   *
+   * Only backends that know their size without I/O, such as the default
+   * in-memory one, answer synchronously; others report the size last read
+   * by `getCacheSizeAsync()` or `getCacheStatsAsync()`.
+   *
+   * @deprecated Use `getCacheSizeAsync()`, which works with any backend
    */
   getCacheSize(): number {
-    return this.cache.size;
+    return this.cache.sizeSync ? this.cache.sizeSync() : this.knownCacheSize;
+  }
+
+  /**
+   * Get cache size from any backend
+   */
+  async getCacheSizeAsync(): Promise<number> {
+    this.knownCacheSize = await this.cache.size();
+    return this.knownCacheSize;
+  }
+
+  /**
+   * Get cache statistics, with the size as `getCacheSize()` reports it
+   *
+   * @deprecated Use `getCacheStatsAsync()`, which works with any backend
+   */
+  getCacheStats(): CacheStats {
+    return this.buildCacheStats(this.getCacheSize());
   }
 
   /**
-   * Get cache statistics
+   * Get cache statistics from any backend
    */
-  getCacheStats(): {
-    size: number;
-    maxSize: number;
-    enabled: boolean;
-    ttl: number;
-    hits: number;
-    misses: number;
-  } {
+  async getCacheStatsAsync(): Promise<CacheStats> {
+    return this.buildCacheStats(await this.getCacheSizeAsync());
+  }
+
+  /**
+   * Cache statistics for a backend of the given size
+   */
+  private buildCacheStats(size: number): CacheStats {
     const config = this.configManager.getConfig().cache;
+    const lookups = this.cacheHits + this.cacheMisses;
+
     return {
-      size: this.cache.size,
-      maxSize: this.cache.max,
+      backend: this.cache.name,
+      size,
+      maxSize: config.maxSize,
       enabled: config.enabled,
       ttl: config.ttl,
-      hits: this.cache.calculatedSize, // Approximation of hits
-      misses: 0, // LRU doesn't track misses directly
+      hits: this.cacheHits,
+      misses: this.cacheMisses,
+      hitRate: lookups > 0 ? this.cacheHits / lookups : 0,
     };
   }
 
@@ -727,10 +2035,11 @@ export class FileNamingSDK extends EventEmitter {
     // Cancel all pending requests
     this.cancelAllRequests();
 
-    // Clear cache and timers
-    this.clearCache();
+    // Release the cache (in-memory results are dropped, persistent ones kept)
+    void this.cache.close?.().catch(() => undefined);
 
-    // Remove all event listeners
+    // Remove all event listeners, including ours on shared providers
+    this.detachProvider();
     this.removeAllListeners();
 
     this.sdkLogger.info('FileNamingSDK destroyed');
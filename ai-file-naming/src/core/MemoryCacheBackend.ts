@@ -0,0 +1,57 @@
+/**
+ * MemoryCacheBackend - In-process LRU cache for naming results
+ *
+ * Results last for the lifetime of the SDK instance. Reading an entry resets
+ * its TTL, so files that keep coming back stay cached.
+ */
+
+import { LRUCache } from 'lru-cache';
+import { CacheBackend, CacheBackendOptions } from '../types/cache';
+import { NamingResponse } from '../types/naming';
+
+/**
+ * Memory cache backend class
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  private cache: LRUCache<string, NamingResponse>;
+
+  constructor(options: CacheBackendOptions) {
+    this.cache = new LRUCache<string, NamingResponse>({
+      max: options.maxSize,
+      ttl: options.ttl,
+      updateAgeOnGet: true, // Reset TTL on access
+      updateAgeOnHas: false,
+    });
+  }
+
+  get(key: string): Promise<NamingResponse | undefined> {
+    return Promise.resolve(this.cache.get(key));
+  }
+
+  set(key: string, value: NamingResponse): Promise<void> {
+    this.cache.set(key, value);
+    return Promise.resolve();
+  }
+
+  delete(key: string): Promise<boolean> {
+    return Promise.resolve(this.cache.delete(key));
+  }
+
+  clear(): Promise<void> {
+    this.cache.clear();
+    return Promise.resolve();
+  }
+
+  size(): Promise<number> {
+    return Promise.resolve(this.cache.size);
+  }
+
+  sizeSync(): number {
+    return this.cache.size;
+  }
+
+  close(): Promise<void> {
+    return this.clear();
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * NameDeduplicator - Make names unique across a batch
+ *
+ * Files that came back with the same name, in the same folder and with the
+ * same extension, are first told apart by something meaningful about them
+ * (EXIF capture time, PDF page count, spreadsheet sheet name, the sequence
+ * number in the original file name). Numeric suffixes are only used for
+ * whatever is still ambiguous. Results depend only on the input
+ * order, never on which file finished naming first.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import exifr from 'exifr';
+import pdfParse from 'pdf-parse';
+import * as XLSX from 'xlsx';
+import { FileType } from '../types/file';
+import { NamingOptions, NamingResponse } from '../types/naming';
+import { appendInCase } from '../utils/CaseTransformer';
+import * as FileUtils from '../utils/FileUtils';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Differentiators tried in order of preference
+ */
+const DIFFERENTIATORS = ['date', 'time', 'datetime', 'pages', 'sheet', 'sequence'] as const;
+
+type Differentiator = (typeof DIFFERENTIATORS)[number];
+
+/**
+ * Deduplication options
+ */
+export interface NameDeduplicatorOptions {
+  caseFormat?: NamingOptions['caseFormat'];
+  separator?: string; // Used with 'preserve' case format
+  maxLength?: number;
+}
+
+interface DedupItem {
+  response: NamingResponse;
+  name: string;
+}
+
+/**
+ * Name deduplicator class
+ */
+export class NameDeduplicator {
+  private options: NameDeduplicatorOptions;
+  private logger = Logger.getInstance();
+
+  constructor(options?: NameDeduplicatorOptions) {
+    this.options = options ?? {};
+  }
+
+  /**
+   * Return responses (in the given order) with unique suggested names
+   */
+  async deduplicate(responses: NamingResponse[]): Promise<NamingResponse[]> {
+    const items: DedupItem[] = responses.map((response) => ({
+      response,
+      name: response.suggestedName,
+    }));
+
+    // Pass 1: meaningful differentiators
+    for (const group of this.findDuplicates(items)) {
+      const values = await this.pickDifferentiator(group);
+      if (!values) continue;
+
+      group.forEach((item, i) => {
+        const value = values[i];
+        if (value) item.name = this.append(item.name, value);
+      });
+    }
+
+    // Pass 2: numeric suffixes for anything still ambiguous
+    for (const group of this.findDuplicates(items)) {
+      const taken = new Set(items.filter((item) => !group.includes(item)).map((i) => this.key(i)));
+      const width = String(group.length).length;
+      const base = group[0]?.name ?? '';
+      let n = 0;
+
+      for (const item of group) {
+        do {
+          n++;
+          item.name = this.append(base, String(n).padStart(width, '0'));
+        } while (taken.has(this.key(item)));
+        taken.add(this.key(item));
+      }
+    }
+
+    return items.map(({ response, name }) => {
+      if (name === response.suggestedName) return response;
+
+      this.logger.debug('Deduplicated name', { from: response.suggestedName, to: name });
+      return {
+        ...response,
+        suggestedName: name,
+        metadata: { ...response.metadata, deduplicatedFrom: response.suggestedName },
+      };
+    });
+  }
+
+  /**
+   * Group items whose targets collide, in input order
+   */
+  private findDuplicates(items: DedupItem[]): DedupItem[][] {
+    const groups = new Map<string, DedupItem[]>();
+    for (const item of items) {
+      const group = groups.get(this.key(item)) ?? [];
+      group.push(item);
+      groups.set(this.key(item), group);
+    }
+
+    return Array.from(groups.values()).filter((group) => group.length > 1);
+  }
+
+  /**
+   * Pick per-item differentiator values for a group of duplicates
+   *
+   * Prefers the first differentiator that tells every file apart; otherwise
+   * the one that splits the group the most, leaving the rest to numbering.
+   */
+  private async pickDifferentiator(group: DedupItem[]): Promise<string[] | null> {
+    const facts = await Promise.all(group.map((item) => this.getFacts(item.response)));
+    let best: string[] | null = null;
+    let bestDistinct = 1;
+
+    for (const kind of DIFFERENTIATORS) {
+      const values = facts.map((f) => f[kind]);
+      if (!values.every((v): v is string => !!v)) continue;
+
+      const distinct = new Set(values).size;
+      if (distinct === values.length) return values;
+      if (distinct > bestDistinct) {
+        best = values;
+        bestDistinct = distinct;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Collect differentiator values for a file
+   */
+  private async getFacts(
+    response: NamingResponse,
+  ): Promise<Partial<Record<Differentiator, string>>> {
+    const facts: Partial<Record<Differentiator, string>> = {};
+    const filePath = response.filePath;
+    if (!filePath) return facts;
+
+    const ext = path.extname(filePath).toLowerCase();
+
+    try {
+      if (FileUtils.detectFileType(filePath) === FileType.Image) {
+        const exif = (await exifr.parse(filePath, {
+          pick: ['DateTimeOriginal', 'CreateDate'],
+        })) as { DateTimeOriginal?: Date; CreateDate?: Date } | undefined;
+        const taken = exif?.DateTimeOriginal ?? exif?.CreateDate;
+
+        if (taken instanceof Date && !isNaN(taken.getTime())) {
+          const pad = (v: number) => String(v).padStart(2, '0');
+          const date = `${taken.getFullYear()}-${pad(taken.getMonth() + 1)}-${pad(taken.getDate())}`;
+          const time = `${pad(taken.getHours())}${pad(taken.getMinutes())}${pad(taken.getSeconds())}`;
+          facts.date = date;
+          facts.time = time;
+          facts.datetime = `${date} ${time}`;
+        }
+      } else if (ext === '.pdf') {
+        const pdf = await pdfParse(await fs.readFile(filePath));
+        facts.pages = `${pdf.numpages}p`;
+      } else if (['.xlsx', '.xls', '.ods'].includes(ext)) {
+        const workbook = XLSX.readFile(filePath, { bookSheets: true });
+        facts.sheet = workbook.SheetNames[0];
+      }
+    } catch (error) {
+      this.logger.debug('Could not read differentiators', {
+        filePath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    // Camera counters and scanner sequences, e.g. IMG_0421 -> 0421
+    const sequence = response.originalName.replace(/\.[^.]+$/, '').match(/\d+(?!.*\d)/);
+    if (sequence) facts.sequence = sequence[0];
+
+    return facts;
+  }
+
+  /**
+   * Append a differentiator in the batch's case format
+   */
+  private append(name: string, value: string): string {
+    const result = appendInCase(
+      name,
+      value,
+      this.options.caseFormat ?? 'preserve',
+      this.options.separator,
+    );
+
+    const sanitized = FileUtils.sanitizeFilename(result);
+    const maxLength = this.options.maxLength;
+    if (!maxLength || sanitized.length <= maxLength) return sanitized;
+
+    // Trim the base name, never the differentiator
+    const suffix = sanitized.slice(name.length);
+    return name.slice(0, Math.max(1, maxLength - suffix.length)) + suffix;
+  }
+
+  /**
+   * Comparison key for an item's target: its directory, name and extension
+   *
+   * Files only collide when they end up in the same folder with the same
+   * extension. Case is ignored, since case-only differences collide on
+   * case-insensitive filesystems.
+   */
+  private key(item: DedupItem): string {
+    const source = item.response.filePath ?? item.response.originalName;
+    const fileName = FileUtils.withExtension(item.name, path.extname(source));
+    return path.join(path.dirname(path.resolve(source)), fileName).toLowerCase();
+  }
+}
@@ -0,0 +1,359 @@
+/**
+ * NamingTemplate - Build file names from a template of metadata tokens
+ *
+ * Templates mix literal text with tokens, e.g.
+ * `{date:YYYY-MM-DD}_{exif.camera}_{ai.subject}_{seq:03}`. A token can take a
+ * format after `:` and a fallback after `|` (`{exif.camera|unknown}`). A token
+ * with no value and no fallback is dropped together with one separator next
+ * to it, so missing metadata never leaves `__` or a dangling `-` behind.
+ *
+ * Unknown tokens are rejected when the template is parsed, before any file is
+ * analyzed or any provider is called.
+ */
+
+import * as path from 'path';
+import { RichMetadata } from '../analyzers/MetadataExtractor';
+import { FileAnalysisResult } from '../types/file';
+import { NamingOptions, NamingResponse } from '../types/naming';
+import { transformCase } from '../utils/CaseTransformer';
+
+/**
+ * A parsed template token
+ */
+export interface TemplateToken {
+  raw: string;
+  name: string;
+  format?: string;
+  fallback?: string;
+}
+
+/**
+ * Values available when rendering a template
+ */
+export interface TemplateValues {
+  analysis: FileAnalysisResult;
+  rich?: RichMetadata;
+  ai?: Record<string, unknown>; // Structured AI answer; `name` is the suggested name
+  sequence?: number;
+  now?: Date;
+}
+
+type TokenKind = 'date' | 'number' | 'text' | 'verbatim'; // 'verbatim' skips case formatting
+
+/**
+ * Fixed tokens and how they are formatted
+ */
+const TOKENS: Record<string, TokenKind> = {
+  date: 'date', // EXIF capture date or video recording time, falling back to modification date
+  created: 'date',
+  modified: 'date',
+  today: 'date',
+  'exif.date': 'date',
+  seq: 'number',
+  width: 'number',
+  height: 'number',
+  pages: 'number',
+  duration: 'number',
+  year: 'number',
+  track: 'number',
+  disc: 'number',
+  original: 'verbatim',
+  ext: 'verbatim',
+  type: 'verbatim',
+  title: 'text',
+  author: 'text',
+  artist: 'text',
+  album: 'text',
+  genre: 'text',
+  'exif.camera': 'verbatim',
+  'exif.description': 'text',
+};
+
+/**
+ * Token prefixes that accept any field name
+ */
+const TOKEN_PREFIXES = ['ai.', 'meta.'];
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+const SEPARATORS = /[\s_.-]/;
+
+/**
+ * Naming template class
+ */
+export class NamingTemplate {
+  readonly template: string;
+  readonly tokens: TemplateToken[];
+  private parts: Array<string | TemplateToken>;
+
+  constructor(template: string) {
+    this.template = template;
+    this.parts = NamingTemplate.parse(template);
+    this.tokens = this.parts.filter((part): part is TemplateToken => typeof part !== 'string');
+
+    if (this.tokens.length === 0) {
+      throw new Error(`Naming template has no tokens: "${template}"`);
+    }
+  }
+
+  /**
+   * Fields the AI has to provide, beyond the name itself
+   */
+  getAIFields(): string[] {
+    const fields = this.tokens
+      .filter((t) => t.name.startsWith('ai.') && t.name !== 'ai.name')
+      .map((t) => t.name.slice(3));
+    return Array.from(new Set(fields));
+  }
+
+  /**
+   * Whether rendering needs a provider call at all
+   */
+  usesAI(): boolean {
+    return this.tokens.some((t) => t.name.startsWith('ai.'));
+  }
+
+  /**
+   * Whether rendering needs EXIF data
+   */
+  usesRichMetadata(): boolean {
+    return this.tokens.some((t) => t.name === 'date' || t.name.startsWith('exif.'));
+  }
+
+  /**
+   * Prompt instructions asking for the fields this template uses
+   */
+  getPromptInstructions(): string {
+    const fields = this.getAIFields();
+    if (fields.length === 0) {
+      return '';
+    }
+
+    return (
+      '\n\nRespond only with a JSON object with these keys:' +
+      '\n- name: a short descriptive filename' +
+      fields.map((field) => `\n- ${field}: the file's ${field} in a few words`).join('') +
+      '\nUse null for anything you cannot determine.'
+    );
+  }
+
+  /**
+   * Extract the structured answer from a provider response
+   */
+  static parseAnswer(response: NamingResponse): Record<string, unknown> {
+    for (const text of [response.reasoning, response.suggestedName]) {
+      const match = text?.match(/\{[\s\S]*\}/);
+      if (!match) continue;
+
+      try {
+        const parsed: unknown = JSON.parse(match[0]);
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+          return parsed as Record<string, unknown>;
+        }
+      } catch {
+        // Not JSON; try the next candidate
+      }
+    }
+
+    return { name: response.suggestedName };
+  }
+
+  /**
+   * Render the template
+   */
+  render(values: TemplateValues, options?: { caseFormat?: NamingOptions['caseFormat'] }): string {
+    const segments: string[] = [];
+    let dropNextSeparator = false;
+
+    for (const part of this.parts) {
+      if (typeof part === 'string') {
+        segments.push(dropNextSeparator && SEPARATORS.test(part[0] ?? '') ? part.slice(1) : part);
+        dropNextSeparator = false;
+        continue;
+      }
+
+      const value = this.resolve(part, values, options?.caseFormat) ?? part.fallback;
+      if (value) {
+        segments.push(value);
+        continue;
+      }
+
+      // Drop one separator next to the missing value
+      const previous = segments[segments.length - 1];
+      if (previous && SEPARATORS.test(previous.slice(-1))) {
+        segments[segments.length - 1] = previous.slice(0, -1);
+      } else {
+        dropNextSeparator = true;
+      }
+    }
+
+    return segments
+      .join('')
+      .replace(/^[\s_.-]+|[\s_.-]+$/g, '')
+      .replace(/[/\\]/g, '_');
+  }
+
+  /**
+   * Resolve a token to its formatted value
+   */
+  private resolve(
+    token: TemplateToken,
+    values: TemplateValues,
+    caseFormat?: NamingOptions['caseFormat'],
+  ): string | undefined {
+    const raw = this.lookup(token.name, values);
+    if (raw === undefined || raw === null || raw === '') {
+      return undefined;
+    }
+
+    if (raw instanceof Date) {
+      return isNaN(raw.getTime())
+        ? undefined
+        : formatDate(raw, token.format ?? DEFAULT_DATE_FORMAT);
+    }
+
+    if (typeof raw === 'number') {
+      const rounded = String(Math.round(raw));
+      return token.format ? rounded.padStart(Number(token.format), '0') : rounded;
+    }
+
+    if (typeof raw !== 'string') {
+      return undefined;
+    }
+
+    const text = raw.trim();
+    return caseFormat && caseFormat !== 'preserve' && TOKENS[token.name] !== 'verbatim'
+      ? transformCase(text, caseFormat)
+      : text;
+  }
+
+  /**
+   * Look up the raw value of a token
+   */
+  private lookup(name: string, values: TemplateValues): unknown {
+    const { analysis, rich } = values;
+    const metadata = analysis.metadata as unknown as Record<string, unknown>;
+
+    if (name.startsWith('ai.')) {
+      return values.ai?.[name.slice(3)];
+    }
+    if (name.startsWith('meta.')) {
+      return metadata[name.slice(5)];
+    }
+
+    switch (name) {
+      case 'date':
+        return (
+          rich?.exif?.dateTime ??
+          (metadata['creationTime'] instanceof Date ? metadata['creationTime'] : undefined) ??
+          analysis.metadata.modified
+        );
+      case 'created':
+        return analysis.metadata.created;
+      case 'modified':
+        return analysis.metadata.modified;
+      case 'today':
+        return values.now ?? new Date();
+      case 'exif.date':
+        return rich?.exif?.dateTime;
+      case 'exif.camera':
+        return rich?.exif?.camera;
+      case 'exif.description':
+        return rich?.exif?.description;
+      case 'seq':
+        return values.sequence ?? 1;
+      case 'original':
+        return path.basename(analysis.fileName, path.extname(analysis.fileName));
+      case 'ext':
+        return path.extname(analysis.fileName).slice(1);
+      case 'type':
+        return analysis.fileType;
+      case 'pages':
+        return metadata['pageCount'];
+      default:
+        return metadata[name];
+    }
+  }
+
+  /**
+   * Split a template into literals and validated tokens
+   */
+  private static parse(template: string): Array<string | TemplateToken> {
+    const parts: Array<string | TemplateToken> = [];
+    const pattern = /\{([^{}]*)\}/g;
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(template)) !== null) {
+      if (match.index > lastIndex) {
+        parts.push(NamingTemplate.literal(template.slice(lastIndex, match.index)));
+      }
+      parts.push(NamingTemplate.parseToken(match[0], match[1] ?? ''));
+      lastIndex = pattern.lastIndex;
+    }
+
+    if (lastIndex < template.length) {
+      parts.push(NamingTemplate.literal(template.slice(lastIndex)));
+    }
+
+    return parts;
+  }
+
+  /**
+   * Validate literal text between tokens
+   */
+  private static literal(text: string): string {
+    if (/[{}]/.test(text)) {
+      throw new Error(`Unbalanced brace in naming template near "${text}"`);
+    }
+    return text;
+  }
+
+  /**
+   * Parse and validate a single `{name:format|fallback}` token
+   */
+  private static parseToken(raw: string, body: string): TemplateToken {
+    const [spec = '', fallback] = body.split('|', 2);
+    const [name = '', format] = spec.split(':', 2).map((s) => s.trim());
+
+    const kind =
+      TOKENS[name] ??
+      (TOKEN_PREFIXES.some((prefix) => name.startsWith(prefix) && name.length > prefix.length)
+        ? 'text'
+        : undefined);
+
+    if (!kind) {
+      const known = [...Object.keys(TOKENS), ...TOKEN_PREFIXES.map((p) => `${p}<field>`)];
+      throw new Error(`Unknown naming template token ${raw}. Known tokens: ${known.join(', ')}`);
+    }
+
+    if (format !== undefined) {
+      const valid =
+        (kind === 'number' && /^\d+$/.test(format)) ||
+        ((kind === 'date' || name.startsWith('meta.')) && /[YMDHms]/.test(format));
+
+      if (!valid) {
+        throw new Error(`Invalid format "${format}" for naming template token ${raw}`);
+      }
+    }
+
+    return { raw, name, format, fallback: fallback?.trim() };
+  }
+}
+
+/**
+ * Format a date with YYYY, YY, MM, DD, HH, mm and ss placeholders
+ */
+function formatDate(date: Date, format: string): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const parts: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    YY: String(date.getFullYear()).slice(-2),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+  };
+
+  return format.replace(/YYYY|YY|MM|DD|HH|mm|ss/g, (placeholder) => parts[placeholder] ?? '');
+}
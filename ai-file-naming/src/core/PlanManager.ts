@@ -0,0 +1,257 @@
+/**
+ * PlanManager - Generate, persist and apply rename plans
+ *
+ * A plan separates naming from renaming: the SDK proposes names, the plan is
+ * written to disk for review (and optional hand edits), and is applied later.
+ * Entries whose source file changed since the plan was generated are skipped.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { z } from 'zod';
+import { ConflictResolution, NamingResponse } from '../types/naming';
+import {
+  RENAME_PLAN_VERSION,
+  RenamePlan,
+  RenamePlanEntry,
+  RenamePlanSchema,
+  PlanApplyOptions,
+  PlanApplyResult,
+  PlanEntryResult,
+} from '../types/plan';
+import { ConflictResolver } from './ConflictResolver';
+import { RenameJournal } from './RenameJournal';
+import * as FileUtils from '../utils/FileUtils';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Plan Manager class
+ */
+export class PlanManager {
+  private logger = Logger.getInstance();
+  private journal?: RenameJournal;
+
+  constructor(journal?: RenameJournal) {
+    this.journal = journal;
+  }
+
+  /**
+   * Build a plan from naming results
+   *
+   * Files given identical names are disambiguated (or skipped) here using the
+   * conflict strategy, which defaults to `rename`. Files already on disk are
+   * only checked when the plan is applied.
+   */
+  async createPlan(
+    results: NamingResponse[],
+    options?: {
+      provider?: string;
+      model?: string;
+      preserveExtension?: boolean;
+      failed?: NamingResponse[];
+      conflict?: ConflictResolution | ConflictResolution['strategy'];
+    },
+  ): Promise<RenamePlan> {
+    const entries: RenamePlanEntry[] = [];
+    const resolver = new ConflictResolver(options?.conflict ?? 'rename');
+    const named = results
+      .filter((r): r is NamingResponse & { filePath: string } => !!r.filePath && !r.error)
+      .map((result) => ({
+        result,
+        target: this.getProposedPath(
+          result.filePath,
+          result.suggestedName,
+          options?.preserveExtension,
+        ),
+      }));
+
+    for (const { result, target } of named) {
+      await resolver.reserve(result.filePath, target);
+    }
+
+    for (const { result, target } of named) {
+      const outcome = await resolver.resolve(result.filePath, target, { checkDisk: false });
+
+      entries.push({
+        originalPath: result.filePath,
+        proposedPath:
+          outcome.action === 'rename' ? outcome.targetPath : outcome.conflict.targetPath,
+        originalName: result.originalName,
+        proposedName: result.suggestedName,
+        confidence: result.confidence,
+        reasoning: result.reasoning,
+        alternatives: result.alternatives,
+        hash: await FileUtils.getFileHash(result.filePath),
+        skip: outcome.action === 'skip' ? true : undefined,
+        provider: result.provider,
+        model: result.model,
+        prompt: result.prompt,
+      });
+    }
+
+    const failed = [...(options?.failed ?? []), ...results.filter((r) => r.error)].map((r) => ({
+      originalPath: r.filePath ?? r.originalName,
+      error: r.error?.message ?? 'Unknown error',
+    }));
+
+    return {
+      version: RENAME_PLAN_VERSION,
+      id: `plan-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`,
+      createdAt: new Date().toISOString(),
+      provider: options?.provider,
+      model: options?.model,
+      entries,
+      failed: failed.length > 0 ? failed : undefined,
+    };
+  }
+
+  /**
+   * Save plan to a JSON file
+   */
+  async savePlan(plan: RenamePlan, filePath: string): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(plan, null, 2), 'utf-8');
+  }
+
+  /**
+   * Load and validate a plan from a JSON file
+   */
+  async loadPlan(filePath: string): Promise<RenamePlan> {
+    const content = await fs.readFile(filePath, 'utf-8');
+
+    try {
+      return RenamePlanSchema.parse(JSON.parse(content));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const details = error.errors.map((err) => `${err.path.join('.')}: ${err.message}`);
+        throw new Error(`Invalid rename plan ${filePath}: ${details.join('; ')}`);
+      }
+      throw new Error(
+        `Failed to parse rename plan ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Apply a plan, skipping entries whose source changed since planning
+   */
+  async applyPlan(plan: RenamePlan, options?: PlanApplyOptions): Promise<PlanApplyResult> {
+    const results: PlanEntryResult[] = [];
+    const runId = this.journal?.createRunId();
+    const resolver = new ConflictResolver(
+      options?.conflict ?? (options?.overwrite ? 'overwrite' : 'skip'),
+    );
+
+    for (const entry of plan.entries) {
+      if (!entry.skip) {
+        await resolver.reserve(entry.originalPath, entry.proposedPath);
+      }
+    }
+
+    for (const entry of plan.entries) {
+      const result = await this.applyEntry(entry, resolver, options);
+      results.push(result);
+
+      if (
+        this.journal &&
+        runId &&
+        result.newPath &&
+        result.status === 'renamed' &&
+        !options?.dryRun
+      ) {
+        await this.journal.recordRename({
+          runId,
+          originalName: entry.originalName,
+          newName: path.basename(result.newPath),
+          filePath: entry.originalPath,
+          newPath: result.newPath,
+          hash: entry.hash,
+          provider: entry.provider ?? plan.provider ?? 'unknown',
+          model: entry.model ?? plan.model,
+          prompt: entry.prompt,
+        });
+      }
+    }
+
+    const count = (status: PlanEntryResult['status']) =>
+      results.filter((r) => r.status === status).length;
+
+    return {
+      planId: plan.id,
+      runId: options?.dryRun ? undefined : runId,
+      results,
+      renamed: count('renamed'),
+      skipped: count('skipped') + count('unchanged'),
+      failed: count('failed'),
+      dryRun: options?.dryRun ?? false,
+    };
+  }
+
+  /**
+   * Apply a single plan entry
+   */
+  private async applyEntry(
+    entry: RenamePlanEntry,
+    resolver: ConflictResolver,
+    options?: PlanApplyOptions,
+  ): Promise<PlanEntryResult> {
+    if (entry.skip) {
+      return { entry, status: 'skipped', reason: 'Marked as skip' };
+    }
+
+    if (path.resolve(entry.originalPath) === path.resolve(entry.proposedPath)) {
+      return { entry, status: 'unchanged', newPath: entry.originalPath };
+    }
+
+    try {
+      if (!(await FileUtils.fileExists(entry.originalPath))) {
+        return { entry, status: 'skipped', reason: 'Source file no longer exists' };
+      }
+
+      const hash = await FileUtils.getFileHash(entry.originalPath);
+      if (hash !== entry.hash) {
+        return { entry, status: 'skipped', reason: 'Source file changed since plan was created' };
+      }
+
+      const outcome = await resolver.resolve(entry.originalPath, entry.proposedPath);
+      if (outcome.action === 'skip') {
+        return { entry, status: 'skipped', reason: outcome.reason, conflict: outcome.conflict };
+      }
+
+      if (options?.dryRun) {
+        return {
+          entry,
+          status: 'renamed',
+          newPath: outcome.targetPath,
+          conflict: outcome.conflict,
+        };
+      }
+
+      const newPath = await FileUtils.moveFile(entry.originalPath, outcome.targetPath, {
+        overwrite: outcome.overwrite,
+      });
+      this.logger.debug('Plan entry applied', { from: entry.originalPath, to: newPath });
+
+      return { entry, status: 'renamed', newPath, conflict: outcome.conflict };
+    } catch (error) {
+      return {
+        entry,
+        status: 'failed',
+        reason: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Build the proposed path for a suggested name
+   */
+  private getProposedPath(
+    filePath: string,
+    suggestedName: string,
+    preserveExtension = true,
+  ): string {
+    const ext = path.extname(filePath);
+    const name = preserveExtension ? FileUtils.withExtension(suggestedName, ext) : suggestedName;
+    return path.join(path.dirname(filePath), name);
+  }
+}
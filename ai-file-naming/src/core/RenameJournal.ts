@@ -0,0 +1,248 @@
+/**
+ * RenameJournal - Persistent record of renames with undo support
+ *
+ * The journal is an append-only JSON-lines file. Each rename is recorded with
+ * the old and new paths, the content hash and the provider that produced the
+ * name. Undoing a rename appends an `undo` entry instead of rewriting history,
+ * so the file stays safe to read while another process appends to it.
+ */
+
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  NamingHistoryEntry,
+  NamingHistoryRun,
+  UndoOptions,
+  UndoResult,
+  UndoEntryResult,
+} from '../types/naming';
+import * as FileUtils from '../utils/FileUtils';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Default journal location
+ */
+export const DEFAULT_JOURNAL_PATH = path.join(os.homedir(), '.ai-file-naming', 'history.jsonl');
+
+/**
+ * Rename journal class
+ */
+export class RenameJournal {
+  private journalPath: string;
+  private logger = Logger.getInstance();
+
+  constructor(journalPath?: string) {
+    this.journalPath = journalPath ?? DEFAULT_JOURNAL_PATH;
+  }
+
+  /**
+   * Get journal file path
+   */
+  getPath(): string {
+    return this.journalPath;
+  }
+
+  /**
+   * Create a new run ID
+   */
+  createRunId(): string {
+    return `run-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+  }
+
+  /**
+   * Record a rename
+   */
+  async recordRename(
+    entry: Omit<NamingHistoryEntry, 'id' | 'action' | 'timestamp' | 'success' | 'hash'> & {
+      hash?: string;
+    },
+  ): Promise<NamingHistoryEntry> {
+    const recorded: NamingHistoryEntry = {
+      ...entry,
+      id: this.createEntryId(),
+      action: 'rename',
+      timestamp: new Date(),
+      hash: entry.hash ?? (await FileUtils.getFileHash(entry.newPath)),
+      success: true,
+    };
+
+    await this.append(recorded);
+    return recorded;
+  }
+
+  /**
+   * Read all journal entries in recorded order
+   */
+  async getEntries(): Promise<NamingHistoryEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.journalPath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: NamingHistoryEntry[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+
+      try {
+        const raw = JSON.parse(line) as NamingHistoryEntry & { timestamp: string };
+        entries.push({ ...raw, timestamp: new Date(raw.timestamp) });
+      } catch {
+        this.logger.warn('Skipping malformed journal line', { journal: this.journalPath });
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Get renames that have not been undone
+   */
+  async getActiveRenames(): Promise<NamingHistoryEntry[]> {
+    const entries = await this.getEntries();
+    const reverted = new Set(
+      entries.filter((e) => e.action === 'undo' && e.success).map((e) => e.revertsId),
+    );
+
+    return entries.filter((e) => e.action === 'rename' && e.success && !reverted.has(e.id));
+  }
+
+  /**
+   * Summarize runs, most recent first
+   */
+  async getRuns(): Promise<NamingHistoryRun[]> {
+    const entries = await this.getEntries();
+    const active = new Set((await this.getActiveRenames()).map((e) => e.id));
+    const runs = new Map<string, NamingHistoryRun>();
+
+    for (const entry of entries) {
+      if (entry.action !== 'rename') continue;
+
+      const run = runs.get(entry.runId) ?? {
+        runId: entry.runId,
+        timestamp: entry.timestamp,
+        renames: 0,
+        active: 0,
+      };
+      run.renames++;
+      if (active.has(entry.id)) run.active++;
+      runs.set(entry.runId, run);
+    }
+
+    return Array.from(runs.values()).reverse();
+  }
+
+  /**
+   * Undo the last run, a specific run, or a single file
+   */
+  async undo(options?: UndoOptions): Promise<UndoResult> {
+    const active = await this.getActiveRenames();
+    let targets: NamingHistoryEntry[];
+    let runId = options?.runId;
+
+    if (options?.filePath) {
+      // Most recent rename that left a file at (or moved it from) this path
+      const resolved = path.resolve(options.filePath);
+      const match = [...active]
+        .reverse()
+        .find((e) => path.resolve(e.newPath) === resolved || path.resolve(e.filePath) === resolved);
+      targets = match ? [match] : [];
+      runId = match?.runId;
+    } else {
+      runId = runId ?? active[active.length - 1]?.runId;
+      targets = active.filter((e) => e.runId === runId);
+    }
+
+    const results: UndoEntryResult[] = [];
+    const undoRunId = this.createRunId();
+
+    // Revert in reverse order so chained renames within a run unwind correctly
+    for (const entry of [...targets].reverse()) {
+      results.push(await this.undoEntry(entry, undoRunId, options?.dryRun ?? false));
+    }
+
+    const count = (status: UndoEntryResult['status']) =>
+      results.filter((r) => r.status === status).length;
+
+    return {
+      runId,
+      results,
+      reverted: count('reverted'),
+      skipped: count('skipped'),
+      failed: count('failed'),
+      dryRun: options?.dryRun ?? false,
+    };
+  }
+
+  /**
+   * Revert a single rename, refusing if the file was modified since
+   */
+  private async undoEntry(
+    entry: NamingHistoryEntry,
+    undoRunId: string,
+    dryRun: boolean,
+  ): Promise<UndoEntryResult> {
+    try {
+      if (!(await FileUtils.fileExists(entry.newPath))) {
+        return { entry, status: 'skipped', reason: `File no longer exists: ${entry.newPath}` };
+      }
+
+      if (entry.hash && (await FileUtils.getFileHash(entry.newPath)) !== entry.hash) {
+        return { entry, status: 'skipped', reason: 'File was modified since it was renamed' };
+      }
+
+      // A case-only rename on a case-insensitive filesystem finds itself at the original path
+      if (
+        (await FileUtils.fileExists(entry.filePath)) &&
+        !(await FileUtils.isSameFile(entry.newPath, entry.filePath))
+      ) {
+        return { entry, status: 'skipped', reason: `Original path is taken: ${entry.filePath}` };
+      }
+
+      if (dryRun) {
+        return { entry, status: 'reverted' };
+      }
+
+      await FileUtils.moveFile(entry.newPath, entry.filePath);
+
+      await this.append({
+        ...entry,
+        id: this.createEntryId(),
+        runId: undoRunId,
+        action: 'undo',
+        timestamp: new Date(),
+        originalName: entry.newName,
+        newName: entry.originalName,
+        filePath: entry.newPath,
+        newPath: entry.filePath,
+        success: true,
+        revertsId: entry.id,
+      });
+
+      return { entry, status: 'reverted' };
+    } catch (error) {
+      return {
+        entry,
+        status: 'failed',
+        reason: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Append an entry to the journal file
+   */
+  private async append(entry: NamingHistoryEntry): Promise<void> {
+    await fs.mkdir(path.dirname(this.journalPath), { recursive: true });
+    await fs.appendFile(this.journalPath, JSON.stringify(entry) + '\n', 'utf-8');
+  }
+
+  /**
+   * Generate entry ID
+   */
+  private createEntryId(): string {
+    return `entry-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+  }
+}
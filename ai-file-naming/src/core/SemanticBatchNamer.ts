@@ -0,0 +1,294 @@
+/**
+ * SemanticBatchNamer - Name groups of related files with one prompt each
+ *
+ * Files are grouped with BatchGrouper, then each group is described to the
+ * provider in a single request that asks for a shared stem plus one name per
+ * file. Single-file groups and groups the provider could not name are left
+ * out of the result so the caller can name those files on their own.
+ */
+
+import * as path from 'path';
+import { BatchGrouper, FileGroup, GroupingOptions } from './BatchGrouper';
+import { NamingTemplate } from './NamingTemplate';
+import { BudgetTracker } from './BudgetTracker';
+import { ContentSampler, SampledContent } from '../analyzers/ContentSampler';
+import { PromptOptimizer } from '../prompts/PromptOptimizer';
+import { AIProvider } from '../providers/base/AIProvider';
+import { FileContext } from '../types/file';
+import { NamingOptions, NamingResponse } from '../types/naming';
+import { SemanticGroupingOptions } from '../types/mode';
+import { PreparedImage, ProviderResponse } from '../types/provider';
+import { BudgetEstimate } from '../types/budget';
+import * as FileUtils from '../utils/FileUtils';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Characters of sampled text included per file
+ */
+const SNIPPET_CHARS = 300;
+
+/**
+ * Tokens assumed per attached thumbnail and per file in the answer
+ */
+const IMAGE_TOKENS = 170;
+const ANSWER_TOKENS_PER_FILE = 20;
+
+export interface SemanticBatchNamerOptions {
+  prompt?: string; // Extra instructions placed before the group description
+  caseFormat?: NamingOptions['caseFormat'];
+  budget?: BudgetTracker; // Groups that would exceed it are left to individual naming
+  model?: string; // Configured model, for pricing
+}
+
+/**
+ * Semantic batch namer class
+ */
+export class SemanticBatchNamer {
+  private grouper = new BatchGrouper();
+  private sampler = new ContentSampler({ textChars: SNIPPET_CHARS });
+  private logger = Logger.getInstance();
+
+  constructor(
+    private provider: AIProvider,
+    private options: SemanticBatchNamerOptions = {},
+  ) {}
+
+  /**
+   * Group files and name each group, keyed by file path
+   */
+  async name(
+    contexts: FileContext[],
+    grouping: SemanticGroupingOptions = {},
+  ): Promise<Map<string, NamingResponse>> {
+    const byPath = new Map(contexts.map((context) => [context.filePath, context]));
+    const groups = await this.grouper.group(
+      contexts.map((context) => context.filePath),
+      this.toGroupingOptions(grouping),
+    );
+
+    const names = new Map<string, NamingResponse>();
+    for (const group of groups) {
+      const members = [group.representative, ...group.similar]
+        .map((filePath) => byPath.get(filePath))
+        .filter((context): context is FileContext => context !== undefined);
+      if (members.length < 2) continue;
+
+      try {
+        const groupNames = await this.nameGroup(group, members);
+        groupNames.forEach((response, filePath) => names.set(filePath, response));
+      } catch (error) {
+        this.logger.warn('Could not name file group, naming files individually', {
+          group: group.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return names;
+  }
+
+  /**
+   * Name the files of one group with a single provider request
+   */
+  async nameGroup(group: FileGroup, members: FileContext[]): Promise<Map<string, NamingResponse>> {
+    const samples = await Promise.all(members.map((member) => this.sample(member.filePath)));
+
+    const images: PreparedImage[] = [];
+    const imageNumbers: number[] = [];
+    if (this.provider.capabilities.supportsVision) {
+      samples.forEach((sample, i) => {
+        if (sample && Buffer.isBuffer(sample.content)) {
+          images.push({
+            data: sample.content.toString('base64'),
+            mimeType: 'image/jpeg',
+            size: sample.content.length,
+          });
+          imageNumbers.push(i + 1);
+        }
+      });
+    }
+
+    const first = members[0];
+    if (!first) {
+      return new Map();
+    }
+
+    const prompt = this.buildPrompt(members, samples, imageNumbers);
+    const reservation = this.reserveBudget(prompt, images.length, members.length);
+
+    // Always pass images so the provider does not attach the first file on its own
+    let response: ProviderResponse;
+    try {
+      response = await this.provider.generateName(prompt, first, { images });
+    } catch (error) {
+      this.settleBudget(reservation);
+      throw error;
+    }
+    this.settleBudget(reservation, response);
+    if (response.error) {
+      throw new Error(response.error.message);
+    }
+
+    const answer = NamingTemplate.parseAnswer(response);
+    const stem = typeof answer['stem'] === 'string' ? answer['stem'].trim() : '';
+    const rawNames = answer['names'];
+    if (!stem || !rawNames || typeof rawNames !== 'object') {
+      throw new Error('Provider did not return a stem and names for the group');
+    }
+
+    // The group's usage is reported once, on the first named file
+    let usage = response.usage;
+    const names = new Map<string, NamingResponse>();
+    members.forEach((member, i) => {
+      const value = (rawNames as Record<string, unknown>)[String(i + 1)];
+      if (typeof value !== 'string' || !value.trim()) return;
+
+      names.set(member.filePath, {
+        originalName: member.originalName,
+        suggestedName: this.withStem(stem, value.trim(), path.extname(member.filePath)),
+        confidence: response.confidence,
+        reasoning: response.reasoning,
+        usage,
+        provider: response.provider,
+        model: response.model,
+        prompt,
+        metadata: { group: group.id, stem, groupSize: members.length },
+      });
+      usage = undefined;
+    });
+
+    this.logger.debug('Named file group', {
+      group: group.id,
+      stem,
+      named: names.size,
+      total: members.length,
+    });
+
+    return names;
+  }
+
+  /**
+   * Reserve a group request against the budget, failing if it does not fit
+   */
+  private reserveBudget(
+    prompt: string,
+    imageCount: number,
+    fileCount: number,
+  ): BudgetEstimate | undefined {
+    const budget = this.options.budget;
+    if (!budget) return undefined;
+
+    const estimate = budget.estimate(
+      this.provider.name,
+      this.options.model,
+      new PromptOptimizer().estimateTokens(prompt) + imageCount * IMAGE_TOKENS,
+      fileCount * ANSWER_TOKENS_PER_FILE,
+    );
+    if (!budget.fits(estimate, fileCount)) {
+      throw new Error('Naming the group would exceed the budget');
+    }
+    return budget.reserve(estimate);
+  }
+
+  /**
+   * Record what a group request used, or release it if it failed
+   */
+  private settleBudget(reservation: BudgetEstimate | undefined, response?: ProviderResponse): void {
+    const budget = this.options.budget;
+    if (!budget || !reservation) return;
+
+    if (!response) {
+      budget.settle(reservation);
+      return;
+    }
+
+    // Providers price their usage; estimate only when they did not
+    const tokens = response.usage?.totalTokens ?? reservation.tokens;
+    const completionTokens = Math.min(response.usage?.completionTokens ?? 0, tokens);
+    const cost =
+      response.usage?.cost ??
+      budget.estimate(
+        this.provider.name,
+        response.model ?? this.options.model,
+        tokens - completionTokens,
+        completionTokens,
+      ).cost;
+    budget.settle(reservation, { tokens, cost });
+  }
+
+  /**
+   * Build the prompt describing every file in the group
+   */
+  private buildPrompt(
+    members: FileContext[],
+    samples: Array<SampledContent | null>,
+    imageNumbers: number[],
+  ): string {
+    let prompt = this.options.prompt ? `${this.options.prompt}\n\n` : '';
+    prompt += `These ${members.length} files belong together.\n`;
+    prompt += 'Choose a short stem that describes the group, then name each file so the name ';
+    prompt += 'starts with the stem and tells it apart from the others.\n\nFiles:\n';
+
+    members.forEach((member, i) => {
+      const metadata = member.analysis.metadata;
+      prompt += `${i + 1}. ${member.originalName} (${member.analysis.fileType}, `;
+      prompt += `${FileUtils.formatSize(metadata.size)}, `;
+      prompt += `modified ${metadata.modified.toISOString().split('T')[0]})\n`;
+
+      const sample = samples[i];
+      if (sample?.type === 'text' && typeof sample.content === 'string') {
+        const snippet = sample.content.replace(/\s+/g, ' ').trim().slice(0, SNIPPET_CHARS);
+        if (snippet) prompt += `   Content: ${snippet}\n`;
+      }
+    });
+
+    if (imageNumbers.length > 0) {
+      prompt += `\nThe attached images are files ${imageNumbers.join(', ')}, in that order.\n`;
+    }
+
+    prompt += '\nRespond with JSON only: {"stem": "...", "names": {"1": "...", "2": "..."}}';
+    prompt += '\nDo not include file extensions.';
+
+    const caseFormat = this.options.caseFormat;
+    if (caseFormat && caseFormat !== 'preserve') {
+      prompt += `\nUse ${caseFormat} format for the stem and names.`;
+    }
+
+    return prompt;
+  }
+
+  /**
+   * Prefix a name with the stem unless it already contains it, dropping the
+   * file's extension if the model repeated it
+   */
+  private withStem(stem: string, name: string, ext: string): string {
+    const normalize = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const fileName = path.basename(name);
+    const hasExt = ext && fileName.toLowerCase().endsWith(ext.toLowerCase());
+    const baseName = (hasExt ? fileName.slice(0, -ext.length) : fileName) || name;
+    return normalize(baseName).startsWith(normalize(stem)) ? baseName : `${stem} ${baseName}`;
+  }
+
+  /**
+   * Sample a file's content, or null if it cannot be read
+   */
+  private async sample(filePath: string): Promise<SampledContent | null> {
+    try {
+      return await this.sampler.sample(filePath);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Map semantic grouping settings to BatchGrouper options
+   */
+  private toGroupingOptions(grouping: SemanticGroupingOptions): GroupingOptions {
+    return {
+      strategy: grouping.groupingStrategy ?? 'similarity',
+      similarityThreshold: grouping.similarityThreshold,
+      maxGroupSize: grouping.maxGroupSize,
+      groupKey: grouping.groupKey,
+    };
+  }
+}
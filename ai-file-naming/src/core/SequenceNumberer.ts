@@ -0,0 +1,253 @@
+/**
+ * SequenceNumberer - Number files in a stable, meaningful order
+ *
+ * Files are numbered per scope (target directory, whole batch, or suggested
+ * name within a directory), ordered by capture date, modification time or
+ * original name, and continue after the highest number already used in the
+ * target folder so repeated runs extend a series instead of restarting it.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import exifr from 'exifr';
+import { FileType } from '../types/file';
+import { NamingOptions, NamingResponse, SequenceOptions } from '../types/naming';
+import { appendInCase } from '../utils/CaseTransformer';
+import * as FileUtils from '../utils/FileUtils';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Defaults for sequence numbering
+ */
+export const DEFAULT_SEQUENCE_OPTIONS: Required<SequenceOptions> = {
+  scope: 'directory',
+  start: 1,
+  padding: 3,
+  orderBy: 'captureDate',
+  continueExisting: true,
+};
+
+/**
+ * A file to number, with its suggested name for the 'name' scope
+ */
+export interface SequenceItem {
+  filePath: string;
+  name?: string;
+}
+
+/**
+ * Sequence numberer class
+ */
+export class SequenceNumberer {
+  private options: Required<SequenceOptions>;
+  private caseFormat: NonNullable<NamingOptions['caseFormat']>;
+  private separator: string;
+  private logger = Logger.getInstance();
+
+  constructor(
+    options?: SequenceOptions,
+    format?: { caseFormat?: NamingOptions['caseFormat']; separator?: string },
+  ) {
+    this.options = { ...DEFAULT_SEQUENCE_OPTIONS, ...options };
+    this.caseFormat = format?.caseFormat ?? 'preserve';
+    this.separator = format?.separator ?? '_';
+  }
+
+  /**
+   * Assign a number to each file
+   */
+  async number(
+    items: SequenceItem[],
+    options?: { continueExisting?: boolean },
+  ): Promise<Map<string, number>> {
+    const continueExisting = options?.continueExisting ?? this.options.continueExisting;
+    const sortKeys = new Map<string, number | string>();
+    for (const item of items) {
+      sortKeys.set(item.filePath, await this.getSortKey(item.filePath));
+    }
+
+    const groups = new Map<string, SequenceItem[]>();
+    for (const item of items) {
+      const key = this.getScopeKey(item);
+      groups.set(key, [...(groups.get(key) ?? []), item]);
+    }
+
+    const batchPaths = new Set(items.map((item) => path.resolve(item.filePath)));
+    const numbers = new Map<string, number>();
+
+    for (const group of groups.values()) {
+      // Array.prototype.sort is stable, so ties keep input order
+      const sorted = [...group].sort((a, b) =>
+        compareKeys(sortKeys.get(a.filePath), sortKeys.get(b.filePath)),
+      );
+
+      let next = this.options.start;
+      if (continueExisting) {
+        const dirs = new Set(group.map((item) => path.dirname(path.resolve(item.filePath))));
+        for (const dir of dirs) {
+          const highest = await this.findHighestExisting(dir, group[0]?.name, batchPaths);
+          next = Math.max(next, highest + 1);
+        }
+      }
+
+      for (const item of sorted) {
+        numbers.set(item.filePath, next++);
+      }
+    }
+
+    return numbers;
+  }
+
+  /**
+   * Append sequence numbers to suggested names
+   */
+  async apply(responses: NamingResponse[]): Promise<NamingResponse[]> {
+    const items = responses
+      .filter((r): r is NamingResponse & { filePath: string } => !!r.filePath && !r.error)
+      .map((r) => ({ filePath: r.filePath, name: r.suggestedName }));
+    const numbers = await this.number(items);
+
+    return responses.map((response) => {
+      const n = response.filePath ? numbers.get(response.filePath) : undefined;
+      if (n === undefined || response.error) return response;
+
+      return {
+        ...response,
+        suggestedName: appendInCase(
+          response.suggestedName,
+          this.format(n),
+          this.caseFormat,
+          this.separator,
+        ),
+        metadata: { ...response.metadata, sequence: n },
+      };
+    });
+  }
+
+  /**
+   * Zero-pad a sequence number
+   */
+  format(n: number): string {
+    return String(n).padStart(this.options.padding, '0');
+  }
+
+  /**
+   * Separator placed before the number in the configured case format
+   */
+  private getSeparator(): string {
+    switch (this.caseFormat) {
+      case 'snake_case':
+        return '_';
+      case 'kebab-case':
+        return '-';
+      case 'camelCase':
+      case 'PascalCase':
+        return '';
+      case 'preserve':
+      default:
+        return this.separator;
+    }
+  }
+
+  /**
+   * Group key for the configured scope
+   */
+  private getScopeKey(item: SequenceItem): string {
+    const dir = path.dirname(path.resolve(item.filePath));
+    switch (this.options.scope) {
+      case 'batch':
+        return '';
+      case 'name':
+        return `${dir}\0${(item.name ?? '').toLowerCase()}`;
+      case 'directory':
+      default:
+        return dir;
+    }
+  }
+
+  /**
+   * Sort key for the configured order
+   */
+  private async getSortKey(filePath: string): Promise<number | string> {
+    if (this.options.orderBy === 'name') {
+      return path.basename(filePath);
+    }
+
+    if (
+      this.options.orderBy === 'captureDate' &&
+      FileUtils.detectFileType(filePath) === FileType.Image
+    ) {
+      try {
+        const exif = (await exifr.parse(filePath, {
+          pick: ['DateTimeOriginal', 'CreateDate'],
+        })) as { DateTimeOriginal?: Date; CreateDate?: Date } | undefined;
+        const taken = exif?.DateTimeOriginal ?? exif?.CreateDate;
+        if (taken instanceof Date && !isNaN(taken.getTime())) {
+          return taken.getTime();
+        }
+      } catch (error) {
+        this.logger.debug('No EXIF capture date, using mtime', { filePath, error });
+      }
+    }
+
+    try {
+      return (await fs.stat(filePath)).mtimeMs;
+    } catch {
+      return path.basename(filePath);
+    }
+  }
+
+  /**
+   * Highest sequence number already used in a folder
+   *
+   * For the 'name' scope this matches `<name><sep><digits>`; otherwise any
+   * name ending in `<sep>` plus exactly `padding` digits, so years and other
+   * numbers in unrelated names are not mistaken for a sequence. Files in the
+   * batch itself are ignored since they are about to be renamed.
+   */
+  private async findHighestExisting(
+    dir: string,
+    name: string | undefined,
+    batchPaths: Set<string>,
+  ): Promise<number> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(dir);
+    } catch {
+      return 0;
+    }
+
+    const separator = escapeRegExp(this.getSeparator());
+    const pattern =
+      this.options.scope === 'name' && name
+        ? new RegExp(`^${escapeRegExp(name)}${separator}(\\d+)$`, 'i')
+        : new RegExp(`${separator || '(?<!\\d)'}(\\d{${this.options.padding}})$`);
+
+    let highest = 0;
+    for (const entry of entries) {
+      if (batchPaths.has(path.join(dir, entry))) continue;
+
+      const match = path.basename(entry, path.extname(entry)).match(pattern);
+      if (match?.[1]) {
+        highest = Math.max(highest, parseInt(match[1], 10));
+      }
+    }
+
+    return highest;
+  }
+}
+
+/**
+ * Compare sort keys (numbers numerically, names naturally)
+ */
+function compareKeys(a: number | string | undefined, b: number | string | undefined): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a ?? '').localeCompare(String(b ?? ''), undefined, { numeric: true });
+}
+
+/**
+ * Escape a string for use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -10,47 +10,106 @@
  */
 
 import * as path from 'path';
-import { MetadataExtractor, MetadataScore } from '../analyzers/MetadataExtractor';
-// import { ContentSampler } from '../analyzers/ContentSampler';  // Will be used for full integration
-// import { PromptMode } from '../prompts/PromptOptimizer';  // Will be used for full integration
+import { MetadataExtractor, MetadataScore, RichMetadata } from '../analyzers/MetadataExtractor';
+import { ContentSampler, ContentSamplerConfig, SampledContent } from '../analyzers/ContentSampler';
+import { PromptMode, PromptOptimizer } from '../prompts/PromptOptimizer';
 import { BatchGrouper } from './BatchGrouper';
 import { AIProvider } from '../providers/base/AIProvider';
+import { FileContext } from '../types/file';
+import { DetectedContent, NamingError, TokenUsage } from '../types/naming';
+import { GenerateNameOptions } from '../types/provider';
+import { PricingTable } from '../types/budget';
+import { calculateCost, mergePricing } from '../utils/Pricing';
+import * as FileUtils from '../utils/FileUtils';
 
 export type OptimizationStrategy = 'aggressive' | 'balanced' | 'quality';
 
+type ModelTier = 'cheap' | 'premium';
+
+/**
+ * Photos from the same camera taken this close together are treated as one
+ * series when verifying batch patterns
+ */
+const SERIES_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Characters of sampled text shown in a pattern verification prompt
+ */
+const VERIFY_SNIPPET_CHARS = 200;
+
+interface PatternCheck {
+  fits: boolean;
+  method: 'metadata' | 'model';
+  tokensUsed: number;
+  cost: number;
+  usage?: TokenUsage;
+}
+
+/**
+ * Cheap-stage model per provider; the premium stage uses the configured model
+ */
+const CHEAP_MODELS: Record<string, string> = {
+  openai: 'gpt-5-mini',
+  anthropic: 'claude-3-haiku-20240307',
+  gemini: 'gemini-1.5-flash',
+};
+
 export interface PipelineConfig {
   strategy: OptimizationStrategy;
   enableMetadataStage: boolean;
   enableCheapModelStage: boolean;
   maxTokensPerFile: number;
+  similarityThreshold?: number; // Minimum similarity for processBatch pattern reuse (default 0.5)
+  pricing?: PricingTable; // USD per 1M tokens, merged over DEFAULT_PRICING
+  models?: {
+    cheap?: string; // Defaults to the provider's cheap model (CHEAP_MODELS)
+    premium?: string; // Defaults to the provider's configured model
+  };
   confidenceThresholds: {
     metadata: number;
     cheapModel: number;
   };
 }
 
+/**
+ * Pipeline options; anything unset comes from the strategy's preset
+ */
+export type PipelineOptions = Partial<Omit<PipelineConfig, 'confidenceThresholds'>> & {
+  confidenceThresholds?: Partial<PipelineConfig['confidenceThresholds']>;
+};
+
 export interface PipelineResult {
   originalName: string;
   suggestedName: string | undefined;
   confidence: number;
   stage: string;
-  tokensUsed: number;
+  tokensUsed: number; // Includes tokens spent on stages that escalated
   cost: number;
+  usage?: TokenUsage; // Provider-reported usage, when every request reported it
+  provider?: string; // Provider that answered, for the model stages
+  model?: string;
+  prompt?: string; // User prompt of the stage that named the file
   reasoning?: string;
+  alternatives?: string[];
+  detected?: DetectedContent;
+  error?: NamingError;
+  patternCheck?: 'verified' | 'reprocessed'; // processBatch: group pattern confirmed, or file named on its own
 }
 
 export class SmartPipeline {
   private metadataExtractor: MetadataExtractor;
-  // private _contentSampler: ContentSampler;  // Will be used for full integration
-  // private _promptOptimizer: PromptOptimizer; // Will be used for full integration
+  private contentSampler: ContentSampler;
+  private promptOptimizer: PromptOptimizer;
   private batchGrouper: BatchGrouper;
   private config: PipelineConfig;
+  private pricing: PricingTable;
 
-  constructor(config: Partial<PipelineConfig> = {}) {
+  constructor(config: PipelineOptions = {}) {
     this.config = this.buildConfig(config);
+    this.pricing = mergePricing(this.config.pricing);
     this.metadataExtractor = new MetadataExtractor();
-    // this._contentSampler = new ContentSampler(this.getContentSamplerConfig());
-    // this._promptOptimizer = new PromptOptimizer();
+    this.contentSampler = new ContentSampler(this.getContentSamplerConfig());
+    this.promptOptimizer = new PromptOptimizer();
     this.batchGrouper = new BatchGrouper();
   }
 
@@ -61,7 +120,10 @@ export class SmartPipeline {
     // Stage 0: Try metadata-only (0 tokens)
     if (this.config.enableMetadataStage) {
       const metadataResult = await this.tryMetadataOnly(filePath);
-      if (metadataResult && metadataResult.confidence >= this.config.confidenceThresholds.metadata) {
+      if (
+        metadataResult &&
+        metadataResult.confidence >= this.config.confidenceThresholds.metadata
+      ) {
         return {
           originalName: filePath,
           suggestedName: metadataResult.suggestedName,
@@ -74,17 +136,30 @@ export class SmartPipeline {
       }
     }
 
+    const sample = await this.contentSampler.sample(filePath);
+    const context = await this.buildContext(filePath);
+
     // Stage 1: Try cheap model (GPT-5-mini) with minimal prompt
+    let spent: Pick<PipelineResult, 'tokensUsed' | 'cost' | 'usage'> = { tokensUsed: 0, cost: 0 };
     if (this.config.enableCheapModelStage) {
-      const cheapResult = await this.tryCheapModel(filePath, provider);
+      const cheapResult = await this.tryCheapModel(filePath, provider, sample, context);
       if (cheapResult && cheapResult.confidence >= this.config.confidenceThresholds.cheapModel) {
         return cheapResult;
       }
+      if (cheapResult) {
+        spent = cheapResult;
+      }
     }
 
     // Stage 2: Use premium model (GPT-5) with standard prompt
-    const premiumResult = await this.tryPremiumModel(filePath, provider);
-    return premiumResult;
+    const premiumResult = await this.tryPremiumModel(filePath, provider, sample, context);
+    return {
+      ...premiumResult,
+      tokensUsed: premiumResult.tokensUsed + spent.tokensUsed,
+      cost: premiumResult.cost + spent.cost,
+      usage:
+        spent.tokensUsed > 0 ? addUsage(premiumResult.usage, spent.usage) : premiumResult.usage,
+    };
   }
 
   /**
@@ -93,8 +168,11 @@ export class SmartPipeline {
   async processBatch(files: string[], provider: AIProvider): Promise<PipelineResult[]> {
     const results: PipelineResult[] = [];
 
-    // Group similar files
-    const groups = await this.batchGrouper.group(files);
+    // Group files that are actually alike, so patterns are only reused among them
+    const groups = await this.batchGrouper.group(files, {
+      strategy: 'similarity',
+      similarityThreshold: this.config.similarityThreshold,
+    });
 
     for (const group of groups) {
       // Process representative file
@@ -104,14 +182,28 @@ export class SmartPipeline {
       // If there are similar files and representative was successful
       if (group.similar.length > 0 && repResult.confidence > 0.7) {
         // Extract pattern from representative
-        const pattern = this.batchGrouper.extractPattern(repResult.suggestedName || '');
+        const pattern = this.batchGrouper.extractPattern(repResult.suggestedName ?? '');
+        const repMetadata = await this.readMetadata(group.representative);
 
-        // Apply pattern to similar files
+        // Apply pattern to similar files it fits, name the others individually
         for (let i = 0; i < group.similar.length; i++) {
           const similarFile = group.similar[i];
           if (!similarFile) continue;
 
-          const originalName = similarFile.split('/').pop() || '';
+          const check = await this.verifyPattern(pattern, similarFile, repMetadata, provider);
+          if (!check.fits) {
+            const result = await this.processFile(similarFile, provider);
+            results.push({
+              ...result,
+              tokensUsed: result.tokensUsed + check.tokensUsed,
+              cost: result.cost + check.cost,
+              usage: check.tokensUsed > 0 ? addUsage(result.usage, check.usage) : result.usage,
+              patternCheck: 'reprocessed',
+            });
+            continue;
+          }
+
+          const originalName = similarFile.split('/').pop() ?? '';
 
           const patternName = this.batchGrouper.applyPattern(pattern, i, originalName);
 
@@ -120,8 +212,11 @@ export class SmartPipeline {
             suggestedName: patternName,
             confidence: repResult.confidence * 0.95,
             stage: 'batch-pattern',
-            tokensUsed: 20, // Minimal tokens for pattern application
-            cost: this.calculateCost(20, 'gpt-5-mini'),
+            tokensUsed: check.tokensUsed,
+            cost: check.cost,
+            usage: check.usage,
+            reasoning: `Pattern ${pattern} verified by ${check.method}`,
+            patternCheck: 'verified',
           });
         }
       } else {
@@ -136,6 +231,80 @@ export class SmartPipeline {
     return results;
   }
 
+  /**
+   * Check that a group's pattern fits one of its members
+   *
+   * Photos in the same series as the representative pass on metadata alone;
+   * other files are checked with a yes/no question to the cheap model. Files
+   * that cannot be checked do not fit.
+   */
+  private async verifyPattern(
+    pattern: string,
+    filePath: string,
+    representative: RichMetadata | null,
+    provider: AIProvider,
+  ): Promise<PatternCheck> {
+    const metadata = await this.readMetadata(filePath);
+    if (representative && metadata && isSameSeries(representative, metadata)) {
+      return { fits: true, method: 'metadata', tokensUsed: 0, cost: 0 };
+    }
+
+    try {
+      const sample = await this.contentSampler.sample(filePath);
+      const context = await this.buildContext(filePath);
+
+      let fileInfo = `${context.originalName} (${context.analysis.fileType})`;
+      if (sample.type === 'text' && typeof sample.content === 'string') {
+        fileInfo += `: ${sample.content.replace(/\s+/g, ' ').slice(0, VERIFY_SNIPPET_CHARS)}`;
+      }
+      const prompt = this.promptOptimizer.buildBatchPrompt(pattern, fileInfo, 'verify');
+
+      const options: GenerateNameOptions = {
+        model: this.getModel('cheap', provider),
+        systemPrompt: prompt.system,
+        images: [], // Never attach the full-size image
+      };
+      if (Buffer.isBuffer(sample.content)) {
+        options.images = [
+          {
+            data: sample.content.toString('base64'),
+            mimeType: 'image/jpeg',
+            size: sample.content.length,
+          },
+        ];
+      }
+
+      const response = await provider.generateName(prompt.user, context, options);
+      const tokensUsed =
+        response.usage?.totalTokens ??
+        prompt.tokens + (sample.type === 'image' ? sample.tokens : 0);
+      const answer = response.reasoning ?? response.suggestedName;
+
+      return {
+        fits: !response.error && /^\W*yes\b/i.test(answer),
+        method: 'model',
+        tokensUsed,
+        cost:
+          response.usage?.cost ??
+          this.calculateCost(tokensUsed, provider.name, response.model ?? options.model),
+        usage: response.usage,
+      };
+    } catch {
+      return { fits: false, method: 'model', tokensUsed: 0, cost: 0 };
+    }
+  }
+
+  /**
+   * Read rich metadata, or null if the file cannot be read
+   */
+  private async readMetadata(filePath: string): Promise<RichMetadata | null> {
+    try {
+      return await this.metadataExtractor.extractRichMetadata(filePath);
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Stage 0: Try metadata-only naming
    */
@@ -150,53 +319,128 @@ export class SmartPipeline {
 
   /**
    * Stage 1: Try with cheap model (GPT-5-mini)
+   *
+   * Returns null when the call fails, so the file escalates to the premium stage.
    */
-  private async tryCheapModel(_filePath: string, _provider: AIProvider): Promise<PipelineResult | null> {
-    try {
-      // Sample content
-      // const content = await this.contentSampler.sample(filePath);
-
-      // Build minimal prompt
-      // const promptMode = this.getPromptMode('cheap');
-      // const _prompt = this.promptOptimizer.buildPrompt(
-      //   {
-      //     fileType: content.type,
-      //     content: typeof content.content === 'string' ? content.content : '[Binary content]',
-      //   },
-      //   promptMode
-      // );
-
-      // Call provider (would need to pass custom prompt)
-      // For now, return null to fallback to premium
-      return null;
-    } catch (error) {
-      return null;
-    }
+  private async tryCheapModel(
+    filePath: string,
+    provider: AIProvider,
+    sample: SampledContent,
+    context: FileContext,
+  ): Promise<PipelineResult | null> {
+    const result = await this.callProvider('cheap', filePath, provider, sample, context);
+    return result.error ? null : result;
   }
 
   /**
    * Stage 2: Try with premium model (GPT-5)
    */
-  private async tryPremiumModel(filePath: string, _provider: AIProvider): Promise<PipelineResult> {
-    // For now, return a placeholder result
-    // Full integration with provider requires FileContext which is created by SDK
-    // This will be used when called from FileNamingSDK.processFile()
+  private async tryPremiumModel(
+    filePath: string,
+    provider: AIProvider,
+    sample: SampledContent,
+    context: FileContext,
+  ): Promise<PipelineResult> {
+    return this.callProvider('premium', filePath, provider, sample, context);
+  }
+
+  /**
+   * Name a file with the provider using the prompt and model for a tier
+   */
+  private async callProvider(
+    tier: ModelTier,
+    filePath: string,
+    provider: AIProvider,
+    sample: SampledContent,
+    context: FileContext,
+  ): Promise<PipelineResult> {
+    const stage = tier === 'cheap' ? 'cheap-model' : 'premium-model';
+    const metadata = context.analysis.metadata;
+    const prompt = this.promptOptimizer.buildPrompt(
+      {
+        fileType:
+          path.extname(filePath).toLowerCase() === '.pdf' ? 'pdf' : context.analysis.fileType,
+        content: typeof sample.content === 'string' ? sample.content : undefined,
+        metadata: {
+          filename: context.originalName,
+          size: metadata.size,
+          date: metadata.modified.toISOString().split('T')[0],
+        },
+      },
+      this.getPromptMode(tier),
+    );
+
+    const options: GenerateNameOptions = {
+      model: this.getModel(tier, provider),
+      systemPrompt: prompt.system,
+      structured: true,
+    };
+    if (Buffer.isBuffer(sample.content)) {
+      // Send the sampled thumbnail instead of the full-size image
+      options.images = [
+        {
+          data: sample.content.toString('base64'),
+          mimeType: 'image/jpeg',
+          size: sample.content.length,
+        },
+      ];
+    }
+
+    const response = await provider.generateName(prompt.user, context, options);
+    const model = response.model ?? options.model;
+    const tokensUsed =
+      response.usage?.totalTokens ?? prompt.tokens + (sample.type === 'image' ? sample.tokens : 0);
 
     return {
       originalName: filePath,
-      suggestedName: path.basename(filePath, path.extname(filePath)),
-      confidence: 0.8,
-      stage: 'premium-model',
-      tokensUsed: 200, // Estimate
-      cost: this.calculateCost(200, 'gpt-5'),
+      suggestedName: response.error ? undefined : response.suggestedName,
+      confidence: response.error ? 0 : response.confidence,
+      stage,
+      tokensUsed,
+      cost: response.usage?.cost ?? this.calculateCost(tokensUsed, provider.name, model),
+      usage: response.usage,
+      provider: response.provider,
+      model,
+      prompt: prompt.user,
+      reasoning: response.reasoning,
+      alternatives: response.alternatives,
+      detected: response.detected,
+      error: response.error,
+    };
+  }
+
+  /**
+   * Build the provider context for a file
+   */
+  private async buildContext(filePath: string): Promise<FileContext> {
+    return {
+      filePath,
+      analysis: {
+        filePath,
+        fileName: path.basename(filePath),
+        fileType: FileUtils.detectFileType(filePath),
+        metadata: await FileUtils.getFileMetadata(filePath),
+      },
+      originalName: path.basename(filePath),
+      directory: path.dirname(filePath),
     };
   }
 
+  /**
+   * Model override for a tier, if any
+   */
+  private getModel(tier: ModelTier, provider: AIProvider): string | undefined {
+    if (tier === 'premium') {
+      return this.config.models?.premium;
+    }
+    return this.config.models?.cheap ?? CHEAP_MODELS[provider.name];
+  }
+
   /**
    * Build configuration from strategy
    */
-  private buildConfig(config: Partial<PipelineConfig>): PipelineConfig {
-    const strategy = config.strategy || 'balanced';
+  private buildConfig(config: PipelineOptions): PipelineConfig {
+    const strategy = config.strategy ?? 'balanced';
 
     const presets: Record<OptimizationStrategy, PipelineConfig> = {
       aggressive: {
@@ -231,50 +475,49 @@ export class SmartPipeline {
       },
     };
 
-    return { ...presets[strategy], ...config };
+    // Options left undefined keep the preset's value
+    const preset = presets[strategy];
+    return {
+      ...preset,
+      ...withoutUndefined(config),
+      confidenceThresholds: {
+        ...preset.confidenceThresholds,
+        ...withoutUndefined(config.confidenceThresholds ?? {}),
+      },
+    };
   }
 
   /**
-   * Get content sampler config based on strategy (will be used for full integration)
+   * Get content sampler config based on strategy
    */
-  // private getContentSamplerConfig() {
-  //   switch (this.config.strategy) {
-  //     case 'aggressive':
-  //       return { pdfWords: 300, imageSize: 128, videoFrames: 1, textChars: 300 };
-  //     case 'balanced':
-  //       return { pdfWords: 500, imageSize: 256, videoFrames: 2, textChars: 500 };
-  //     case 'quality':
-  //       return { pdfWords: 1000, imageSize: 512, videoFrames: 3, textChars: 1000 };
-  //   }
-  // }
+  private getContentSamplerConfig(): ContentSamplerConfig {
+    switch (this.config.strategy) {
+      case 'aggressive':
+        return { pdfWords: 300, imageSize: 128, videoFrames: 1, textChars: 300 };
+      case 'balanced':
+        return { pdfWords: 500, imageSize: 256, videoFrames: 2, textChars: 500 };
+      case 'quality':
+        return { pdfWords: 1000, imageSize: 512, videoFrames: 3, textChars: 1000 };
+    }
+  }
 
   /**
-   * Get prompt mode based on model tier (will be used for full integration)
+   * Get prompt mode based on model tier
    */
-  // private _getPromptMode(tier: 'cheap' | 'premium'): PromptMode {
-  //   if (tier === 'cheap') {
-  //     return this.config.strategy === 'aggressive' ? 'ultra-minimal' : 'minimal';
-  //   }
-  //   return this.config.strategy === 'quality' ? 'standard' : 'minimal';
-  // }
+  private getPromptMode(tier: ModelTier): PromptMode {
+    if (tier === 'cheap') {
+      return this.config.strategy === 'aggressive' ? 'ultra-minimal' : 'minimal';
+    }
+    return this.config.strategy === 'quality' ? 'standard' : 'minimal';
+  }
 
   /**
-   * Calculate cost based on tokens and model
+   * Calculate cost based on tokens, provider and model
    */
-  private calculateCost(tokens: number, model: string): number {
-    // Pricing per 1M tokens (input)
-    const pricing: Record<string, number> = {
-      'gpt-5': 1.25 / 1_000_000,
-      'gpt-5-mini': 0.25 / 1_000_000,
-      'gpt-5-nano': 0.05 / 1_000_000,
-    };
-
-    const rate = pricing[model];
-    const fallbackRate = pricing['gpt-5-mini'];
-    return tokens * (rate !== undefined ? rate : fallbackRate || 0);
+  private calculateCost(tokens: number, provider: string, model: string | undefined): number {
+    return calculateCost(this.pricing, provider, model, tokens);
   }
 
-
   /**
    * Get pipeline statistics
    */
@@ -287,6 +530,10 @@ export class SmartPipeline {
         premiumModel: 0,
         batchPattern: 0,
       },
+      patternChecks: {
+        verified: 0,
+        reprocessed: 0,
+      },
       totalTokens: 0,
       totalCost: 0,
       averageConfidence: 0,
@@ -300,6 +547,9 @@ export class SmartPipeline {
       else if (result.stage === 'premium-model') stats.byStage.premiumModel++;
       else if (result.stage === 'batch-pattern') stats.byStage.batchPattern++;
 
+      if (result.patternCheck === 'verified') stats.patternChecks.verified++;
+      else if (result.patternCheck === 'reprocessed') stats.patternChecks.reprocessed++;
+
       stats.totalTokens += result.tokensUsed;
       stats.totalCost += result.cost;
       stats.averageConfidence += result.confidence;
@@ -310,3 +560,34 @@ export class SmartPipeline {
     return stats;
   }
 }
+
+/**
+ * Drop keys whose value is undefined
+ */
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+/**
+ * Whether two photos come from the same camera within a short window
+ */
+function isSameSeries(a: RichMetadata, b: RichMetadata): boolean {
+  const aTime = a.exif?.dateTime?.getTime();
+  const bTime = b.exif?.dateTime?.getTime();
+  if (!a.exif?.camera || a.exif.camera !== b.exif?.camera) return false;
+  if (aTime === undefined || bTime === undefined) return false;
+  return Math.abs(aTime - bTime) <= SERIES_WINDOW_MS;
+}
+
+/**
+ * Sum the usage of two requests; unknown if either is unknown
+ */
+function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+  if (!a || !b) return undefined;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    cost: (a.cost ?? 0) + (b.cost ?? 0),
+  };
+}
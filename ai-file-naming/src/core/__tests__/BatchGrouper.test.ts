@@ -0,0 +1,147 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import { BatchGrouper } from '../BatchGrouper';
+
+const MEETING_NOTES =
+  'The committee reviewed the quarterly budget and agreed to move the remaining funds ' +
+  'into the maintenance reserve before the end of the financial year';
+
+describe('BatchGrouper', () => {
+  let dir: string;
+  let grouper: BatchGrouper;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'batch-grouper-'));
+    grouper = new BatchGrouper();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const writeFile = async (name: string, content: string): Promise<string> => {
+    const filePath = path.join(dir, name);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+    return filePath;
+  };
+
+  /**
+   * A grayscale JPEG whose brightness runs left to right, or right to left
+   */
+  const writeGradient = async (
+    name: string,
+    direction: 'ltr' | 'rtl',
+    offset = 0,
+  ): Promise<string> => {
+    const width = 90;
+    const height = 80;
+    const pixels = Buffer.alloc(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const step = direction === 'ltr' ? x : width - 1 - x;
+        pixels[y * width + x] = Math.min(255, step * 2 + offset);
+      }
+    }
+    const filePath = path.join(dir, name);
+    await sharp(pixels, { raw: { width, height, channels: 1 } })
+      .jpeg()
+      .toFile(filePath);
+    return filePath;
+  };
+
+  const members = (groups: Awaited<ReturnType<BatchGrouper['group']>>): string[][] =>
+    groups.map((group) => [group.representative, ...group.similar].map((f) => path.basename(f)));
+
+  describe('similarity strategy', () => {
+    it('clusters photos by their difference hash rather than their names', async () => {
+      const files = [
+        await writeGradient('IMG_001.jpg', 'ltr'),
+        await writeGradient('IMG_002.jpg', 'ltr', 40),
+        await writeGradient('IMG_003.jpg', 'rtl'),
+      ];
+
+      const groups = await grouper.group(files, { strategy: 'similarity' });
+
+      expect(members(groups)).toEqual([['IMG_001.jpg', 'IMG_002.jpg'], ['IMG_003.jpg']]);
+    });
+
+    it('clusters text files that share most of their shingles', async () => {
+      const files = [
+        await writeFile('minutes_jan.txt', `${MEETING_NOTES} in January`),
+        await writeFile('minutes_feb.txt', `${MEETING_NOTES} in February`),
+        await writeFile('recipe.txt', 'Whisk the eggs with sugar until pale and fold in the flour'),
+      ];
+
+      const groups = await grouper.group(files, { strategy: 'similarity' });
+
+      expect(members(groups)).toEqual([['minutes_jan.txt', 'minutes_feb.txt'], ['recipe.txt']]);
+    });
+
+    it('keeps files with alike names but different content apart', async () => {
+      const files = [
+        await writeFile('scan_1.txt', MEETING_NOTES),
+        await writeFile('scan_2.txt', 'Whisk the eggs with sugar until pale and fold in the flour'),
+      ];
+
+      const groups = await grouper.group(files, { strategy: 'similarity' });
+
+      expect(groups).toHaveLength(2);
+    });
+
+    it('compares names alone when the content cannot be sampled', async () => {
+      const files = [
+        await writeFile('holiday_beach.bin', 'a'),
+        await writeFile('holiday_beach_2.bin', 'b'),
+        await writeFile('tax_return.bin', 'c'),
+      ];
+
+      const groups = await grouper.group(files, { strategy: 'similarity' });
+
+      expect(members(groups)).toEqual([
+        ['holiday_beach.bin', 'holiday_beach_2.bin'],
+        ['tax_return.bin'],
+      ]);
+    });
+
+    it('honors the similarity threshold', async () => {
+      const files = [
+        await writeFile('minutes_jan.txt', `${MEETING_NOTES} in January`),
+        await writeFile('minutes_feb.txt', `${MEETING_NOTES} in February`),
+      ];
+
+      const groups = await grouper.group(files, { strategy: 'similarity', similarityThreshold: 1 });
+
+      expect(groups).toHaveLength(2);
+    });
+
+    it('never groups files of different directories', async () => {
+      const files = [
+        await writeFile('a/minutes.txt', MEETING_NOTES),
+        await writeFile('b/minutes.txt', MEETING_NOTES),
+      ];
+
+      const groups = await grouper.group(files, { strategy: 'similarity' });
+
+      expect(groups).toHaveLength(2);
+    });
+  });
+
+  it('splits groups larger than maxGroupSize', async () => {
+    const files = await Promise.all(
+      ['a', 'b', 'c', 'd', 'e'].map((name) => writeFile(`${name}.txt`, name)),
+    );
+
+    const groups = await grouper.group(files, { strategy: 'directory', maxGroupSize: 2 });
+
+    expect(groups.map((group) => group.metadata.count)).toEqual([2, 2, 1]);
+  });
+
+  it('requires a groupKey for the custom strategy', async () => {
+    const file = await writeFile('a.txt', 'a');
+
+    await expect(grouper.group([file], { strategy: 'custom' })).rejects.toThrow(/groupKey/);
+  });
+});
@@ -0,0 +1,89 @@
+import { BudgetTracker } from '../BudgetTracker';
+
+describe('BudgetTracker', () => {
+  const pricing = {
+    test: {
+      small: { input: 1, output: 4 },
+      large: { input: 10, output: 40 },
+      '*': { input: 10, output: 40 },
+    },
+  };
+
+  describe('estimate', () => {
+    it('prices prompt and answer tokens at their own rates', () => {
+      const tracker = new BudgetTracker({}, pricing);
+
+      const estimate = tracker.estimate('test', 'small', 1_000_000, 500_000);
+
+      expect(estimate).toEqual({ tokens: 1_500_000, cost: 1 + 2 });
+    });
+
+    it('falls back to the provider default price for unknown models', () => {
+      const tracker = new BudgetTracker({}, pricing);
+
+      expect(tracker.estimate('test', 'unlisted', 1_000_000).cost).toBe(10);
+      expect(tracker.estimate('unknown', 'model', 1_000_000).cost).toBe(0);
+    });
+  });
+
+  it('finds a cheaper model of the same provider', () => {
+    const tracker = new BudgetTracker({}, pricing);
+
+    expect(tracker.getCheaperModel('test', 'large')).toBe('small');
+    expect(tracker.getCheaperModel('test', 'small')).toBeUndefined();
+  });
+
+  describe('fits', () => {
+    it('is always true without limits', () => {
+      const tracker = new BudgetTracker();
+
+      expect(tracker.isLimited()).toBe(false);
+      expect(tracker.fits({ tokens: 1e9, cost: 1e9 })).toBe(true);
+    });
+
+    it('applies per-file limits to each file of a request', () => {
+      const tracker = new BudgetTracker({ maxTokensPerFile: 100 });
+
+      expect(tracker.fits({ tokens: 300, cost: 0 }, 3)).toBe(true);
+      expect(tracker.fits({ tokens: 301, cost: 0 }, 3)).toBe(false);
+    });
+
+    it('counts in-flight reservations against the run limits', () => {
+      const tracker = new BudgetTracker({ maxCostPerRun: 1 });
+      const reservation = tracker.reserve({ tokens: 10, cost: 0.6 });
+
+      expect(tracker.fits({ tokens: 10, cost: 0.5 })).toBe(false);
+
+      tracker.settle(reservation, { tokens: 10, cost: 0.4 });
+      expect(tracker.fits({ tokens: 10, cost: 0.5 })).toBe(true);
+    });
+  });
+
+  it('releases a reservation without usage when the request failed', () => {
+    const tracker = new BudgetTracker({ maxTokensPerRun: 100 });
+    const reservation = tracker.reserve({ tokens: 100, cost: 0 });
+
+    tracker.settle(reservation);
+
+    expect(tracker.getUsage().tokensUsed).toBe(0);
+    expect(tracker.fits({ tokens: 100, cost: 0 })).toBe(true);
+  });
+
+  it('reports usage and degraded files', () => {
+    const tracker = new BudgetTracker({ maxTokensPerRun: 1000 });
+    tracker.record({ tokens: 200, cost: 0.01 });
+    tracker.countDegraded(false);
+    tracker.countDegraded(true);
+
+    expect(tracker.getUsage()).toEqual({
+      maxTokensPerRun: 1000,
+      maxCostPerRun: undefined,
+      maxTokensPerFile: undefined,
+      maxCostPerFile: undefined,
+      tokensUsed: 200,
+      cost: 0.01,
+      degraded: 1,
+      stopped: 1,
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { CandidateRanker } from '../CandidateRanker';
+
+describe('CandidateRanker', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'candidate-ranker-'));
+    filePath = path.join(dir, 'scan_0042.pdf');
+    await fs.writeFile(filePath, '');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const same = (...names: string[]) => names.map((name) => ({ name, raw: name }));
+
+  it('orders specific names before generic ones', async () => {
+    const ranked = await new CandidateRanker().rank(
+      filePath,
+      same('scanned document', 'acme invoice march 2024'),
+    );
+
+    expect(ranked.map((candidate) => candidate.name)).toEqual([
+      'acme invoice march 2024',
+      'scanned document',
+    ]);
+    expect(ranked[0]).toEqual({
+      name: 'acme invoice march 2024',
+      score: 1,
+      factors: { length: 1, specificity: 1, uniqueness: 1, format: 1 },
+    });
+  });
+
+  it('weighs the factors into the score', async () => {
+    const [candidate] = await new CandidateRanker().rank(filePath, same('tax_01'));
+
+    // Half the ideal length, and one informative word of two
+    expect(candidate?.factors).toEqual({
+      length: 0.5,
+      specificity: 0.5 * (1 / 3),
+      uniqueness: 1,
+      format: 1,
+    });
+    expect(candidate?.score).toBe(
+      Math.round((0.2 * 0.5 + 0.35 * (0.5 / 3) + 0.25 + 0.2) * 100) / 100,
+    );
+  });
+
+  it('counts years but not short numbers as informative', async () => {
+    const [withYear, withCounter] = await new CandidateRanker().rank(
+      filePath,
+      same('budget report 2024', 'budget report 01'),
+    );
+
+    expect(withYear?.factors.specificity).toBe(1);
+    expect(withCounter?.factors.specificity).toBeCloseTo((2 / 3) * (2 / 3));
+  });
+
+  it('splits camelCase names into words', async () => {
+    const [candidate] = await new CandidateRanker().rank(filePath, same('acmeInvoiceMarch'));
+
+    expect(candidate?.factors.specificity).toBe(1);
+  });
+
+  it('scores names by how far they are from the ideal length', async () => {
+    const long = 'a'.repeat(60);
+    const ranked = await new CandidateRanker({ maxLength: 100 }).rank(filePath, same(long));
+    const capped = await new CandidateRanker({ maxLength: 50 }).rank(filePath, same(long));
+
+    expect(ranked[0]?.factors.length).toBe(0.5);
+    expect(capped[0]?.factors.length).toBe(0);
+  });
+
+  it('scores names a sibling file already has as not unique', async () => {
+    await fs.writeFile(path.join(dir, 'Acme_Invoice.pdf'), '');
+    await fs.writeFile(path.join(dir, 'acme_receipt.txt'), '');
+
+    const ranked = await new CandidateRanker().rank(
+      filePath,
+      same('acme_invoice', 'acme_receipt', 'scan_0042'),
+    );
+
+    // Only the same extension collides, and the file itself does not count
+    expect(ranked.map((candidate) => [candidate.name, candidate.factors.uniqueness])).toEqual([
+      ['acme_receipt', 1],
+      ['scan_0042', 1],
+      ['acme_invoice', 0],
+    ]);
+  });
+
+  it("scores the model's answers on the naming format", async () => {
+    const ranker = new CandidateRanker({ caseFormat: 'snake_case' });
+
+    const ranked = await ranker.rank(filePath, [
+      { name: 'acme_invoice', raw: 'acme_invoice' },
+      { name: 'acme_receipt', raw: 'Acme Receipt' },
+      { name: 'acme_order', raw: 'acme/order' },
+    ]);
+
+    expect(ranked.map((candidate) => candidate.factors.format)).toEqual([1, 0.5, 0]);
+  });
+
+  it('accepts any case when the format is preserved', async () => {
+    const [candidate] = await new CandidateRanker({ caseFormat: 'preserve' }).rank(
+      filePath,
+      same('Acme Invoice'),
+    );
+
+    expect(candidate?.factors.format).toBe(1);
+  });
+
+  it('drops empty and duplicate names and keeps the order of ties', async () => {
+    const ranked = await new CandidateRanker().rank(
+      filePath,
+      same('acme invoice march', '', 'Acme Invoice March', 'acme receipt march'),
+    );
+
+    expect(ranked.map((candidate) => candidate.name)).toEqual([
+      'acme invoice march',
+      'acme receipt march',
+    ]);
+  });
+
+  it('ranks without siblings when the directory cannot be read', async () => {
+    const ranked = await new CandidateRanker().rank(
+      path.join(dir, 'missing', 'a.pdf'),
+      same('acme invoice'),
+    );
+
+    expect(ranked[0]?.factors.uniqueness).toBe(1);
+  });
+});
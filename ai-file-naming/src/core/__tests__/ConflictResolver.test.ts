@@ -0,0 +1,157 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ConflictResolver } from '../ConflictResolver';
+
+describe('ConflictResolver', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'conflict-resolver-'));
+    await fs.writeFile(path.join(dir, 'a.txt'), 'a');
+    await fs.writeFile(path.join(dir, 'b.txt'), 'b');
+    await fs.writeFile(path.join(dir, 'taken.txt'), 'taken');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const file = (name: string): string => path.join(dir, name);
+
+  it('returns a free target unchanged', async () => {
+    const resolver = new ConflictResolver();
+
+    expect(await resolver.resolve(file('a.txt'), file('free.txt'))).toEqual({
+      action: 'rename',
+      targetPath: file('free.txt'),
+      overwrite: false,
+    });
+  });
+
+  it('skips a target that exists on disk by default', async () => {
+    const resolver = new ConflictResolver();
+
+    const outcome = await resolver.resolve(file('a.txt'), file('taken.txt'));
+
+    expect(outcome).toMatchObject({
+      action: 'skip',
+      conflict: { reason: 'exists', existingPath: file('taken.txt') },
+    });
+  });
+
+  it('ignores files on disk when checkDisk is false', async () => {
+    const resolver = new ConflictResolver();
+
+    const outcome = await resolver.resolve(file('a.txt'), file('taken.txt'), { checkDisk: false });
+
+    expect(outcome).toMatchObject({ action: 'rename', targetPath: file('taken.txt') });
+  });
+
+  it('overwrites existing files with the overwrite strategy', async () => {
+    const resolver = new ConflictResolver('overwrite');
+
+    const outcome = await resolver.resolve(file('a.txt'), file('taken.txt'));
+
+    expect(outcome).toMatchObject({ action: 'rename', overwrite: true });
+  });
+
+  it('never overwrites a target claimed earlier in the run', async () => {
+    const resolver = new ConflictResolver('overwrite');
+    await resolver.resolve(file('a.txt'), file('same.txt'));
+
+    const outcome = await resolver.resolve(file('b.txt'), file('same.txt'));
+
+    expect(outcome).toMatchObject({
+      action: 'rename',
+      targetPath: file('same_1.txt'),
+      overwrite: false,
+      conflict: { reason: 'batch' },
+    });
+  });
+
+  it('numbers taken targets with the rename pattern', async () => {
+    await fs.writeFile(file('taken_1.txt'), 'taken');
+    const resolver = new ConflictResolver('rename');
+
+    const outcome = await resolver.resolve(file('a.txt'), file('taken.txt'));
+
+    expect(outcome).toMatchObject({ action: 'rename', targetPath: file('taken_2.txt') });
+  });
+
+  it('uses a custom rename pattern', async () => {
+    const resolver = new ConflictResolver({ strategy: 'rename', renamePattern: '{name} ({n})' });
+
+    const outcome = await resolver.resolve(file('a.txt'), file('taken.txt'));
+
+    expect(outcome).toMatchObject({ action: 'rename', targetPath: file('taken (1).txt') });
+  });
+
+  it('avoids names reserved by later files of the run', async () => {
+    const resolver = new ConflictResolver('rename');
+    await resolver.reserve(file('b.txt'), file('taken_1.txt'));
+
+    const outcome = await resolver.resolve(file('a.txt'), file('taken.txt'));
+
+    expect(outcome).toMatchObject({ targetPath: file('taken_2.txt') });
+    expect(await resolver.resolve(file('b.txt'), file('taken_1.txt'))).toMatchObject({
+      action: 'rename',
+      targetPath: file('taken_1.txt'),
+    });
+  });
+
+  it('treats renaming a file to its own path as free', async () => {
+    const resolver = new ConflictResolver();
+
+    const outcome = await resolver.resolve(file('a.txt'), file('a.txt'));
+
+    expect(outcome).toMatchObject({ action: 'rename', targetPath: file('a.txt') });
+  });
+
+  describe('prompt strategy', () => {
+    it('uses the name returned by the onConflict handler', async () => {
+      const onConflict = jest.fn().mockReturnValue({ name: 'chosen.txt' });
+      const resolver = new ConflictResolver({ strategy: 'prompt', onConflict });
+
+      const outcome = await resolver.resolve(file('a.txt'), file('taken.txt'));
+
+      expect(onConflict).toHaveBeenCalledWith(
+        expect.objectContaining({ targetPath: file('taken.txt'), reason: 'exists' }),
+      );
+      expect(outcome).toMatchObject({
+        action: 'rename',
+        targetPath: file('chosen.txt'),
+        conflict: { targetPath: file('taken.txt') },
+      });
+    });
+
+    it('applies a strategy returned by the handler', async () => {
+      const resolver = new ConflictResolver({
+        strategy: 'prompt',
+        onConflict: () => Promise.resolve('rename' as const),
+      });
+
+      const outcome = await resolver.resolve(file('a.txt'), file('taken.txt'));
+
+      expect(outcome).toMatchObject({ targetPath: file('taken_1.txt') });
+    });
+
+    it('skips when no handler is set', async () => {
+      const resolver = new ConflictResolver('prompt');
+
+      const outcome = await resolver.resolve(file('a.txt'), file('taken.txt'));
+
+      expect(outcome.action).toBe('skip');
+    });
+
+    it('gives up on a handler that keeps choosing taken names', async () => {
+      const onConflict = jest.fn().mockReturnValue({ name: 'taken.txt' });
+      const resolver = new ConflictResolver({ strategy: 'prompt', onConflict });
+
+      const outcome = await resolver.resolve(file('a.txt'), file('taken.txt'));
+
+      expect(outcome).toMatchObject({ action: 'skip', reason: /No free name among/ });
+      expect(onConflict).toHaveBeenCalledTimes(10001);
+    });
+  });
+});
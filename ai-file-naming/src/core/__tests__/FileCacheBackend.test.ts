@@ -0,0 +1,120 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileCacheBackend } from '../FileCacheBackend';
+import { NamingResponse } from '../../types/naming';
+
+describe('FileCacheBackend', () => {
+  let dir: string;
+  let cachePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-cache-'));
+    cachePath = path.join(dir, 'cache', 'cache.jsonl');
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const createBackend = (ttl = 0, maxSize = 10): FileCacheBackend =>
+    new FileCacheBackend({ path: cachePath, ttl, maxSize });
+
+  const response = (suggestedName: string): NamingResponse => ({
+    originalName: 'a.txt',
+    suggestedName,
+    confidence: 0.9,
+  });
+
+  const lineCount = async (): Promise<number> =>
+    (await fs.readFile(cachePath, 'utf-8')).split('\n').filter(Boolean).length;
+
+  it('keeps entries across instances', async () => {
+    const backend = createBackend();
+    await backend.set('a', response('first'));
+    await backend.set('b', response('second'));
+    await backend.close();
+
+    const reopened = createBackend();
+
+    expect(await reopened.get('a')).toEqual(response('first'));
+    expect(await reopened.size()).toBe(2);
+  });
+
+  it('lets later writes and deletions win when reloading', async () => {
+    const backend = createBackend();
+    await backend.set('a', response('first'));
+    await backend.set('a', response('updated'));
+    await backend.set('b', response('second'));
+    expect(await backend.delete('b')).toBe(true);
+    expect(await backend.delete('missing')).toBe(false);
+    await backend.close();
+
+    const reopened = createBackend();
+
+    expect(await reopened.get('a')).toEqual(response('updated'));
+    expect(await reopened.get('b')).toBeUndefined();
+  });
+
+  it('expires entries ttl ms after they were stored', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000);
+    const backend = createBackend(100);
+    await backend.set('a', response('first'));
+
+    now.mockReturnValue(1_100);
+    expect(await backend.get('a')).toEqual(response('first'));
+
+    now.mockReturnValue(1_101);
+    expect(await backend.get('a')).toBeUndefined();
+  });
+
+  it('evicts the least recently used entry beyond maxSize', async () => {
+    const backend = createBackend(0, 2);
+    await backend.set('a', response('first'));
+    await backend.set('b', response('second'));
+    await backend.get('a');
+    await backend.set('c', response('third'));
+    await backend.close();
+
+    const reopened = createBackend(0, 2);
+
+    expect(await reopened.get('a')).toEqual(response('first'));
+    expect(await reopened.get('b')).toBeUndefined();
+    expect(await reopened.get('c')).toEqual(response('third'));
+  });
+
+  it('compacts a file that is mostly stale lines when loading it', async () => {
+    const backend = createBackend();
+    for (let i = 0; i < 5; i++) {
+      await backend.set('a', response(`name ${i}`));
+    }
+    await backend.close();
+    expect(await lineCount()).toBe(5);
+
+    const reopened = createBackend();
+    expect(await reopened.size()).toBe(1);
+    await reopened.close();
+
+    expect(await lineCount()).toBe(1);
+  });
+
+  it('skips malformed lines', async () => {
+    const backend = createBackend();
+    await backend.set('a', response('first'));
+    await backend.close();
+    await fs.appendFile(cachePath, 'not json\n');
+
+    expect(await createBackend().get('a')).toEqual(response('first'));
+  });
+
+  it('removes the file when cleared', async () => {
+    const backend = createBackend();
+    await backend.set('a', response('first'));
+
+    await backend.clear();
+
+    expect(await backend.size()).toBe(0);
+    await expect(fs.access(cachePath)).rejects.toThrow();
+  });
+});
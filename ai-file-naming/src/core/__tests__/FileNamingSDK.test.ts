@@ -0,0 +1,525 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { FileNamingSDK } from '../FileNamingSDK';
+import { AnalyzerRegistry } from '../../analyzers';
+import { OllamaProvider, ProviderRegistry } from '../../providers';
+import { BaseProviderConfig, PartialSDKConfig } from '../../types/config';
+import { EventName } from '../../types/events';
+import { FileContext } from '../../types/file';
+
+// p-queue ships only as an ES module, which Jest does not load; run tasks in order instead
+jest.mock('p-queue', () => ({
+  __esModule: true,
+  default: class {
+    private tail: Promise<unknown> = Promise.resolve();
+
+    add<T>(task: () => Promise<T>): Promise<T> {
+      const run = this.tail.then(task, task);
+      this.tail = run.catch(() => undefined);
+      return run;
+    }
+  },
+}));
+
+// Lets a test point `~` somewhere else
+jest.mock('os', () => {
+  const actual = jest.requireActual<typeof os>('os');
+  return { ...actual, homedir: jest.fn(actual.homedir) };
+});
+
+describe('FileNamingSDK', () => {
+  let dir: string;
+  let sdks: FileNamingSDK[] = [];
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-naming-sdk-'));
+  });
+
+  afterEach(async () => {
+    // Shared providers keep the listeners of SDKs that are not destroyed
+    sdks.forEach((sdk) => sdk.destroy());
+    sdks = [];
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const provider: BaseProviderConfig = {
+    type: 'ollama',
+    baseURL: 'http://localhost:11434',
+    model: 'llama3',
+    maxRetries: 0,
+    timeout: 1000,
+    temperature: 0,
+  };
+
+  const createSDK = (config?: PartialSDKConfig): FileNamingSDK => {
+    const sdk = new FileNamingSDK({
+      provider,
+      cache: { enabled: false, ttl: 60000, maxSize: 10, backend: 'memory' },
+      history: { enabled: false },
+      logging: { level: 'error', format: 'json' },
+      ...config,
+    });
+    sdks.push(sdk);
+    return sdk;
+  };
+
+  describe('nameBatch', () => {
+    it('reads each file into the prompt when given a glob', async () => {
+      await fs.writeFile(path.join(dir, 'a.txt'), 'Quarterly revenue report for the north region');
+      await fs.writeFile(path.join(dir, 'b.txt'), 'Recipe for lemon drizzle cake');
+      await fs.writeFile(path.join(dir, 'c.md'), 'Not matched by the pattern');
+
+      const generateName = jest
+        .spyOn(OllamaProvider.prototype, 'generateName')
+        .mockImplementation((_prompt: string, context: FileContext) =>
+          Promise.resolve({
+            originalName: context.originalName,
+            suggestedName: `named-${context.originalName}`,
+            confidence: 0.9,
+          }),
+        );
+
+      const result = await createSDK().nameBatch(path.join(dir, '*.txt'), { concurrency: 1 });
+
+      expect(result.totalSuccess).toBe(2);
+      expect(generateName).toHaveBeenCalledTimes(2);
+      const prompts = generateName.mock.calls.map(([prompt]) => prompt).join('\n');
+      expect(prompts).toContain('Quarterly revenue report');
+      expect(prompts).toContain('lemon drizzle cake');
+      expect(prompts).not.toContain('Not matched');
+    });
+  });
+
+  describe('content analysis', () => {
+    const answer = () =>
+      jest
+        .spyOn(OllamaProvider.prototype, 'generateName')
+        .mockImplementation((_prompt: string, context: FileContext) =>
+          Promise.resolve({
+            originalName: context.originalName,
+            suggestedName: 'meeting notes',
+            confidence: 0.9,
+          }),
+        );
+
+    it('puts the summary, details and keywords of the content into the prompt', async () => {
+      const filePath = path.join(dir, 'a.txt');
+      await fs.writeFile(filePath, 'Minutes of the budget meeting');
+      jest.spyOn(AnalyzerRegistry, 'analyze').mockResolvedValue({
+        analyzer: 'text',
+        content: {
+          summary: 'Minutes of the budget meeting',
+          details: ['2 pages', 'budget meeting', 'Author: J. Doe'],
+          keywords: ['budget', 'minutes', 'budget'],
+          confidence: 0.9,
+          text: 'Minutes of the budget meeting',
+        },
+      });
+      const generateName = answer();
+
+      await createSDK().nameFile(filePath);
+
+      const [prompt, context] = generateName.mock.calls[0] ?? [];
+      expect(prompt).toContain('Content: Minutes of the budget meeting\n');
+      // Details the summary already says are left out, and keywords said once
+      expect(prompt).toContain('Details: 2 pages; Author: J. Doe\n');
+      expect(prompt).toContain('Keywords: budget, minutes\n');
+      expect(context?.analysis.content).toEqual({
+        text: 'Minutes of the budget meeting',
+        summary: 'Minutes of the budget meeting',
+        details: ['2 pages', 'Author: J. Doe'],
+        keywords: ['budget', 'minutes'],
+      });
+    });
+
+    it('reads the content with the registered analyzers', async () => {
+      const filePath = path.join(dir, 'a.txt');
+      await fs.writeFile(filePath, 'Minutes of the budget meeting');
+      const generateName = answer();
+
+      await createSDK().nameFile(filePath);
+
+      expect(generateName.mock.calls[0]?.[0]).toContain('Content: Minutes of the budget meeting');
+    });
+
+    it('does not read the content when asked not to or given a prompt', async () => {
+      const filePath = path.join(dir, 'a.txt');
+      await fs.writeFile(filePath, 'Minutes of the budget meeting');
+      const analyze = jest.spyOn(AnalyzerRegistry, 'analyze');
+      const generateName = answer();
+      const sdk = createSDK();
+
+      await sdk.nameFile(filePath, { analyzeContent: false });
+      await sdk.nameFile(filePath, { prompt: 'Name this file' });
+
+      expect(analyze).not.toHaveBeenCalled();
+      expect(generateName.mock.calls[0]?.[0]).not.toContain('Content:');
+      expect(generateName.mock.calls[1]?.[1].analysis.content).toBeUndefined();
+    });
+
+    it('names the file from its metadata when the content cannot be analyzed', async () => {
+      const filePath = path.join(dir, 'a.txt');
+      await fs.writeFile(filePath, 'Minutes of the budget meeting');
+      jest.spyOn(AnalyzerRegistry, 'analyze').mockRejectedValue(new Error('Unreadable'));
+      const generateName = answer();
+
+      const response = await createSDK().nameFile(filePath);
+
+      expect(response.suggestedName).toBe('meeting notes');
+      expect(generateName.mock.calls[0]?.[0]).toContain('Current name: a.txt');
+      expect(generateName.mock.calls[0]?.[1].analysis.content).toBeUndefined();
+    });
+  });
+
+  describe('optimization', () => {
+    const optimization = {
+      enabled: true,
+      strategy: 'balanced' as const,
+      enableMetadataStage: false,
+      models: { cheap: 'llama3.2:1b' },
+    };
+
+    const answerWithModel = () =>
+      jest
+        .spyOn(OllamaProvider.prototype, 'generateName')
+        .mockImplementation((_prompt: string, context: FileContext, options) =>
+          Promise.resolve({
+            originalName: context.originalName,
+            suggestedName: 'meeting notes',
+            confidence: 0.9,
+            model: options?.model,
+          }),
+        );
+
+    it('names files through the pipeline and reports the stage', async () => {
+      const filePath = path.join(dir, 'a.txt');
+      await fs.writeFile(filePath, 'Meeting notes');
+      const generateName = answerWithModel();
+      const sdk = createSDK({ optimization });
+      const stages = jest.fn();
+      sdk.on(EventName.PipelineStage, stages);
+
+      const response = await sdk.nameFile(filePath);
+
+      expect(response.suggestedName).toBe('meeting notes');
+      expect(response.metadata).toMatchObject({ stage: 'cheap-model', model: 'llama3.2:1b' });
+      expect(generateName.mock.calls[0]?.[2]).toMatchObject({ model: 'llama3.2:1b' });
+      expect(stages).toHaveBeenCalledWith(
+        expect.objectContaining({ filePath, stage: 'cheap-model', model: 'llama3.2:1b' }),
+      );
+    });
+
+    it('sends a custom prompt directly instead of through the pipeline', async () => {
+      const filePath = path.join(dir, 'a.txt');
+      await fs.writeFile(filePath, 'Meeting notes');
+      const generateName = answerWithModel();
+      const sdk = createSDK({ optimization });
+      const stages = jest.fn();
+      sdk.on(EventName.PipelineStage, stages);
+
+      await sdk.nameFile(filePath, { prompt: 'Name this file' });
+
+      expect(stages).not.toHaveBeenCalled();
+      expect(generateName.mock.calls[0]?.[0]).toContain('Name this file');
+    });
+
+    it('reuses cached pipeline answers', async () => {
+      const filePath = path.join(dir, 'a.txt');
+      await fs.writeFile(filePath, 'Meeting notes');
+      const generateName = answerWithModel();
+      const sdk = createSDK({
+        optimization,
+        cache: { enabled: true, ttl: 60000, maxSize: 10, backend: 'memory' },
+      });
+
+      await sdk.nameFile(filePath);
+      await sdk.nameFile(filePath);
+
+      expect(generateName).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('history', () => {
+    const answerAsFallback = () =>
+      jest
+        .spyOn(OllamaProvider.prototype, 'generateName')
+        .mockImplementation((_prompt: string, context: FileContext) =>
+          Promise.resolve({
+            originalName: context.originalName,
+            suggestedName: 'meeting notes',
+            confidence: 0.9,
+            provider: 'anthropic',
+            model: 'claude-3-haiku-20240307',
+          }),
+        );
+
+    it('journals the prompt that was sent and the provider and model that answered', async () => {
+      const filePath = path.join(dir, 'a.txt');
+      await fs.writeFile(filePath, 'Meeting notes');
+      const generateName = answerAsFallback();
+      const sdk = createSDK({ history: { enabled: true, path: path.join(dir, 'history.jsonl') } });
+
+      await sdk.renameFile(filePath, { prompt: 'Name this file' });
+
+      const [entry] = await sdk.getHistory();
+      expect(entry).toMatchObject({ provider: 'anthropic', model: 'claude-3-haiku-20240307' });
+      expect(entry?.prompt).toBe(generateName.mock.calls[0]?.[0]);
+    });
+
+    it('keeps the prompt on the plan for the journal', async () => {
+      const filePath = path.join(dir, 'a.txt');
+      await fs.writeFile(filePath, 'Meeting notes');
+      const generateName = answerAsFallback();
+      const sdk = createSDK({ history: { enabled: true, path: path.join(dir, 'history.jsonl') } });
+
+      const plan = await sdk.createPlan([filePath]);
+      await sdk.applyPlan(plan);
+
+      const prompt = generateName.mock.calls[0]?.[0];
+      expect(prompt).toContain('Meeting notes');
+      expect(plan.entries[0]).toMatchObject({ provider: 'anthropic', prompt });
+      expect(await sdk.getHistory()).toEqual([
+        expect.objectContaining({
+          provider: 'anthropic',
+          model: 'claude-3-haiku-20240307',
+          prompt,
+        }),
+      ]);
+    });
+  });
+
+  describe('candidates', () => {
+    const answerWithAlternatives = () =>
+      jest
+        .spyOn(OllamaProvider.prototype, 'generateName')
+        .mockImplementation((_prompt: string, context: FileContext) =>
+          Promise.resolve({
+            originalName: context.originalName,
+            suggestedName: 'document',
+            alternatives: ['budget meeting minutes 2024', 'meeting notes', 'notes'],
+            confidence: 0.9,
+          }),
+        );
+
+    it('asks for alternatives and returns the best names ranked', async () => {
+      const filePath = path.join(dir, 'a.txt');
+      await fs.writeFile(filePath, 'Meeting notes');
+      const generateName = answerWithAlternatives();
+
+      const response = await createSDK().nameFile(filePath, { candidates: 3 });
+
+      expect(generateName.mock.calls[0]?.[2]).toMatchObject({ structured: true, alternatives: 2 });
+      expect(response.suggestedName).toBe('budget meeting minutes 2024');
+      // The generic first answer falls out of the top three
+      expect(response.alternatives).toEqual(['meeting notes', 'notes']);
+      expect(response.candidates?.map((candidate) => candidate.name)).toEqual([
+        'budget meeting minutes 2024',
+        'meeting notes',
+        'notes',
+      ]);
+    });
+
+    it('renames to the candidate picked by index', async () => {
+      const filePath = path.join(dir, 'a.txt');
+      await fs.writeFile(filePath, 'Meeting notes');
+      answerWithAlternatives();
+
+      const result = await createSDK().renameFile(filePath, { candidates: 3, pick: 1 });
+
+      expect(result.newPath).toBe(path.join(dir, 'meeting notes.txt'));
+      expect(await fs.readFile(result.newPath, 'utf-8')).toBe('Meeting notes');
+    });
+
+    it('refuses to pick past the last candidate', async () => {
+      const filePath = path.join(dir, 'a.txt');
+      await fs.writeFile(filePath, 'Meeting notes');
+      answerWithAlternatives();
+
+      await expect(createSDK().renameFile(filePath, { candidates: 2, pick: 2 })).rejects.toThrow(
+        'Cannot pick name 2: only 2 candidate(s)',
+      );
+      await expect(fs.access(filePath)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('cache statistics', () => {
+    it('answers synchronously for the in-memory backend', () => {
+      const sdk = createSDK();
+
+      expect(sdk.getCacheSize()).toBe(0);
+      expect(sdk.getCacheStats()).toMatchObject({ backend: 'memory', size: 0, hitRate: 0 });
+    });
+
+    it('reports the last known size for file backends', async () => {
+      const sdk = createSDK({
+        cache: {
+          enabled: true,
+          ttl: 60000,
+          maxSize: 10,
+          backend: 'file',
+          path: path.join(dir, 'cache.jsonl'),
+        },
+      });
+
+      const filePath = path.join(dir, 'a.txt');
+      await fs.writeFile(filePath, 'Meeting notes');
+      jest.spyOn(OllamaProvider.prototype, 'generateName').mockResolvedValue({
+        originalName: 'a.txt',
+        suggestedName: 'meeting notes',
+        confidence: 0.9,
+      });
+
+      await sdk.nameFile(filePath);
+      expect(sdk.getCacheSize()).toBe(0);
+
+      expect(await sdk.getCacheSizeAsync()).toBe(1);
+      expect(sdk.getCacheSize()).toBe(1);
+      expect(sdk.getCacheStats()).toMatchObject({ backend: 'file', size: 1 });
+    });
+  });
+
+  describe('provider events', () => {
+    it('keeps forwarding provider events once after the provider stack is rebuilt', async () => {
+      const filePath = path.join(dir, 'a.txt');
+      await fs.writeFile(filePath, 'Meeting notes');
+      jest.spyOn(OllamaProvider.prototype, 'generateName').mockImplementation(function (
+        this: OllamaProvider,
+        prompt: string,
+        context: FileContext,
+      ) {
+        this.emit(EventName.ProviderRequest, { provider: this.name, prompt });
+        return Promise.resolve({
+          originalName: context.originalName,
+          suggestedName: 'meeting notes',
+          confidence: 0.9,
+        });
+      });
+
+      const sdk = createSDK();
+      const shared = ProviderRegistry.getOrCreate(provider);
+      const listeners = shared.listenerCount(EventName.ProviderRequest);
+      const requests = jest.fn();
+      sdk.on(EventName.ProviderRequest, requests);
+
+      await sdk.nameFile(filePath);
+      await sdk.updateConfig({
+        fallbackProviders: [{ ...provider, baseURL: 'http://localhost:11435' }],
+      });
+      await sdk.updateConfig({ fallbackProviders: [] });
+      await sdk.nameFile(filePath);
+
+      expect(requests).toHaveBeenCalledTimes(2);
+      expect(shared.listenerCount(EventName.ProviderRequest)).toBe(listeners);
+    });
+  });
+
+  describe('cache', () => {
+    it("does not reuse a routed file's answer after consensus is turned on", async () => {
+      const filePath = path.join(dir, 'a.txt');
+      await fs.writeFile(filePath, 'Meeting notes');
+      const generateName = jest
+        .spyOn(OllamaProvider.prototype, 'generateName')
+        .mockImplementation((_prompt: string, context: FileContext) =>
+          Promise.resolve({
+            originalName: context.originalName,
+            suggestedName: 'meeting notes',
+            confidence: 0.9,
+          }),
+        );
+      const sdk = createSDK({
+        cache: { enabled: true, ttl: 60000, maxSize: 10, backend: 'memory' },
+        routing: [
+          { extensions: ['.txt'], provider: { ...provider, baseURL: 'http://localhost:11435' } },
+        ],
+      });
+
+      await sdk.nameFile(filePath);
+      await sdk.nameFile(filePath);
+      expect(generateName).toHaveBeenCalledTimes(1);
+
+      await sdk.updateConfig({
+        consensus: { providers: [{ ...provider, baseURL: 'http://localhost:11436' }] },
+      });
+      await sdk.nameFile(filePath);
+
+      expect(generateName).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('estimateCost', () => {
+    const other = { ...provider, baseURL: 'http://localhost:11435' };
+
+    it('counts a consensus request for every provider that is asked', async () => {
+      const filePath = path.join(dir, 'a.txt');
+      await fs.writeFile(filePath, 'Meeting notes');
+      const single = await createSDK().estimateCost([filePath]);
+
+      const agreement = await createSDK({ consensus: { providers: [other] } }).estimateCost([
+        filePath,
+      ]);
+      const judged = await createSDK({
+        consensus: { providers: [other], strategy: 'judge' },
+      }).estimateCost([filePath]);
+
+      expect(agreement.tokens).toEqual(single.tokens * 2);
+      expect(judged.tokens).toEqual(single.tokens * 3);
+    });
+
+    it('does not count the primary provider twice when it is also a voter', async () => {
+      const filePath = path.join(dir, 'a.txt');
+      await fs.writeFile(filePath, 'Meeting notes');
+      const single = await createSDK().estimateCost([filePath]);
+
+      const withSelf = await createSDK({
+        consensus: { providers: [provider, other] },
+      }).estimateCost([filePath]);
+      const onlySelf = await createSDK({ consensus: { providers: [provider] } }).estimateCost([
+        filePath,
+      ]);
+
+      expect(withSelf.tokens).toEqual(single.tokens * 2);
+      expect(onlySelf.tokens).toEqual(single.tokens);
+    });
+  });
+
+  describe('resolveFiles', () => {
+    beforeEach(async () => {
+      await fs.mkdir(path.join(dir, 'sub', '.git', 'objects'), { recursive: true });
+      await fs.writeFile(path.join(dir, 'a.txt'), 'a');
+      await fs.writeFile(path.join(dir, '.env'), 'secret');
+      await fs.writeFile(path.join(dir, 'sub', 'b.txt'), 'b');
+      await fs.writeFile(path.join(dir, 'sub', '.git', 'config'), 'config');
+      await fs.writeFile(path.join(dir, 'sub', '.git', 'objects', 'c.txt'), 'c');
+    });
+
+    it('stays out of hidden directories when walking a directory', async () => {
+      const files = await createSDK().resolveFiles(dir);
+
+      expect(files).toEqual([path.join(dir, 'a.txt'), path.join(dir, 'sub', 'b.txt')]);
+    });
+
+    it('stays out of hidden directories when expanding a glob', async () => {
+      const files = await createSDK().resolveFiles(path.join(dir, '**', '*.txt'));
+
+      expect(files).toEqual([path.join(dir, 'a.txt'), path.join(dir, 'sub', 'b.txt')]);
+    });
+
+    it('expands a leading ~ in quoted patterns', async () => {
+      const sdk = createSDK();
+      jest.mocked(os.homedir).mockReturnValueOnce(dir);
+
+      const files = await sdk.resolveFiles('~/*.txt');
+
+      expect(files).toEqual([path.join(dir, 'a.txt')]);
+    });
+
+    it('includes hidden files and directories with includeHidden', async () => {
+      const files = await createSDK().resolveFiles(dir, { includeHidden: true });
+
+      expect(files).toHaveLength(5);
+      expect(files).toContain(path.join(dir, 'sub', '.git', 'objects', 'c.txt'));
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import * as path from 'path';
+import { NameDeduplicator } from '../NameDeduplicator';
+import { NamingResponse } from '../../types/naming';
+
+describe('NameDeduplicator', () => {
+  const dir = path.resolve('photos');
+
+  const named = (fileName: string, suggestedName: string, folder = dir): NamingResponse => ({
+    filePath: path.join(folder, fileName),
+    originalName: fileName,
+    suggestedName,
+    confidence: 0.9,
+  });
+
+  const names = (responses: NamingResponse[]): string[] =>
+    responses.map((response) => response.suggestedName);
+
+  it('leaves unique names alone', async () => {
+    const responses = [named('a.txt', 'notes'), named('b.txt', 'report')];
+
+    expect(await new NameDeduplicator().deduplicate(responses)).toEqual(responses);
+  });
+
+  it('tells duplicates apart by the number in their original names', async () => {
+    const result = await new NameDeduplicator({ caseFormat: 'snake_case' }).deduplicate([
+      named('IMG_0421.txt', 'beach_sunset'),
+      named('IMG_0422.txt', 'beach_sunset'),
+    ]);
+
+    expect(names(result)).toEqual(['beach_sunset_0421', 'beach_sunset_0422']);
+    expect(result[0]?.metadata).toMatchObject({ deduplicatedFrom: 'beach_sunset' });
+  });
+
+  it('numbers duplicates that have nothing else to tell them apart', async () => {
+    const result = await new NameDeduplicator({ caseFormat: 'kebab-case' }).deduplicate([
+      named('a.txt', 'meeting-notes'),
+      named('b.txt', 'meeting-notes'),
+      named('c.txt', 'meeting-notes'),
+    ]);
+
+    expect(names(result)).toEqual(['meeting-notes-1', 'meeting-notes-2', 'meeting-notes-3']);
+  });
+
+  it('skips numbers already used by other files of the batch', async () => {
+    const result = await new NameDeduplicator({ caseFormat: 'snake_case' }).deduplicate([
+      named('a.txt', 'notes'),
+      named('b.txt', 'notes'),
+      named('c.txt', 'notes_1'),
+    ]);
+
+    expect(names(result)).toEqual(['notes_2', 'notes_3', 'notes_1']);
+  });
+
+  it('compares names without regard to case', async () => {
+    const result = await new NameDeduplicator({ caseFormat: 'snake_case' }).deduplicate([
+      named('a.txt', 'Notes'),
+      named('b.txt', 'notes'),
+    ]);
+
+    expect(names(result)).toEqual(['Notes_1', 'Notes_2']);
+  });
+
+  it('does not treat files in different folders as duplicates', async () => {
+    const responses = [named('a.txt', 'notes'), named('a.txt', 'notes', path.join(dir, 'archive'))];
+
+    expect(names(await new NameDeduplicator().deduplicate(responses))).toEqual(['notes', 'notes']);
+  });
+
+  it('does not treat files with different extensions as duplicates', async () => {
+    const responses = [named('a.txt', 'notes'), named('a.md', 'notes')];
+
+    expect(names(await new NameDeduplicator().deduplicate(responses))).toEqual(['notes', 'notes']);
+  });
+
+  it('trims the base name, not the suffix, to fit the maximum length', async () => {
+    const result = await new NameDeduplicator({
+      caseFormat: 'snake_case',
+      maxLength: 8,
+    }).deduplicate([named('a.txt', 'quarterly'), named('b.txt', 'quarterly')]);
+
+    expect(names(result)).toEqual(['quarte_1', 'quarte_2']);
+  });
+});
@@ -0,0 +1,117 @@
+import { NamingTemplate, TemplateValues } from '../NamingTemplate';
+import { FileType } from '../../types/file';
+
+describe('NamingTemplate', () => {
+  const modified = new Date(2024, 2, 5, 14, 30, 0);
+
+  const values = (overrides: Partial<TemplateValues> = {}): TemplateValues => ({
+    analysis: {
+      filePath: '/photos/IMG_0001.jpg',
+      fileName: 'IMG_0001.jpg',
+      fileType: FileType.Image,
+      metadata: {
+        size: 1024,
+        created: modified,
+        modified,
+        accessed: modified,
+        mimeType: 'image/jpeg',
+        extension: '.jpg',
+      },
+    },
+    ...overrides,
+  });
+
+  describe('parsing', () => {
+    it('rejects unknown tokens before rendering', () => {
+      expect(() => new NamingTemplate('{date}_{colour}')).toThrow(/Unknown naming template token/);
+    });
+
+    it('rejects formats that do not fit the token', () => {
+      expect(() => new NamingTemplate('{seq:abc}')).toThrow(/Invalid format/);
+      expect(() => new NamingTemplate('{title:YYYY}')).toThrow(/Invalid format/);
+    });
+
+    it('rejects templates without tokens or with unbalanced braces', () => {
+      expect(() => new NamingTemplate('plain')).toThrow(/no tokens/);
+      expect(() => new NamingTemplate('{date}}')).toThrow(/Unbalanced brace/);
+    });
+
+    it('lists the fields the AI has to provide', () => {
+      const template = new NamingTemplate('{ai.subject}_{ai.name}_{ai.place}_{ai.subject}');
+
+      expect(template.usesAI()).toBe(true);
+      expect(template.getAIFields()).toEqual(['subject', 'place']);
+      expect(template.getPromptInstructions()).toContain('- place:');
+      expect(new NamingTemplate('{date}').getPromptInstructions()).toBe('');
+    });
+  });
+
+  describe('render', () => {
+    it('formats dates and zero-pads sequence numbers', () => {
+      const template = new NamingTemplate('{date:YYYYMMDD-HHmm}_{seq:03}');
+
+      expect(template.render(values({ sequence: 7 }))).toBe('20240305-1430_007');
+    });
+
+    it('prefers the EXIF capture date over the modification date', () => {
+      const template = new NamingTemplate('{date}_{exif.camera}');
+      const rich = {
+        originalName: 'IMG_0001.jpg',
+        extension: '.jpg',
+        size: 1024,
+        modified,
+        exif: { dateTime: new Date(2023, 11, 24), camera: 'Canon EOS R5' },
+      };
+
+      expect(template.render(values({ rich }))).toBe('2023-12-24_Canon EOS R5');
+    });
+
+    it('drops a missing value together with one separator', () => {
+      const template = new NamingTemplate('{date}_{exif.camera}_{original}');
+
+      expect(template.render(values())).toBe('2024-03-05_IMG_0001');
+    });
+
+    it('uses the fallback for a missing value', () => {
+      const template = new NamingTemplate('{exif.camera|unknown}-{seq}');
+
+      expect(template.render(values())).toBe('unknown-1');
+    });
+
+    it('applies the case format to text but not to verbatim tokens', () => {
+      const template = new NamingTemplate('{ai.subject}_{original}');
+
+      expect(
+        template.render(values({ ai: { subject: 'Beach Sunset' } }), { caseFormat: 'kebab-case' }),
+      ).toBe('beach-sunset_IMG_0001');
+    });
+
+    it('replaces path separators in values', () => {
+      const template = new NamingTemplate('{ai.subject}');
+
+      expect(template.render(values({ ai: { subject: 'in/out' } }))).toBe('in_out');
+    });
+  });
+
+  describe('parseAnswer', () => {
+    it('reads a JSON object from the response', () => {
+      const answer = NamingTemplate.parseAnswer({
+        originalName: 'a.jpg',
+        suggestedName: 'Here you go: {"name": "beach", "subject": "sunset"}',
+        confidence: 0.9,
+      });
+
+      expect(answer).toEqual({ name: 'beach', subject: 'sunset' });
+    });
+
+    it('falls back to the suggested name', () => {
+      const answer = NamingTemplate.parseAnswer({
+        originalName: 'a.jpg',
+        suggestedName: 'beach',
+        confidence: 0.9,
+      });
+
+      expect(answer).toEqual({ name: 'beach' });
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PlanManager } from '../PlanManager';
+import { RenameJournal } from '../RenameJournal';
+import { NamingResponse } from '../../types/naming';
+
+describe('PlanManager', () => {
+  let dir: string;
+  let manager: PlanManager;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'plan-manager-'));
+    manager = new PlanManager();
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const writeFile = async (name: string, content: string): Promise<string> => {
+    const filePath = path.join(dir, name);
+    await fs.writeFile(filePath, content);
+    return filePath;
+  };
+
+  const named = (filePath: string, suggestedName: string): NamingResponse => ({
+    filePath,
+    originalName: path.basename(filePath),
+    suggestedName,
+    confidence: 0.9,
+  });
+
+  describe('createPlan', () => {
+    it('keeps the extension and dotted parts of suggested names', async () => {
+      const file = await writeFile('IMG_1.jpg', 'a');
+
+      const plan = await manager.createPlan([named(file, 'report v1.2')]);
+
+      expect(plan.entries[0]?.proposedPath).toBe(path.join(dir, 'report v1.2.jpg'));
+    });
+
+    it('numbers files that were given the same name', async () => {
+      const first = await writeFile('a.txt', 'a');
+      const second = await writeFile('b.txt', 'b');
+
+      const plan = await manager.createPlan([named(first, 'notes'), named(second, 'notes')]);
+
+      expect(plan.entries.map((entry) => entry.proposedPath)).toEqual([
+        path.join(dir, 'notes.txt'),
+        path.join(dir, 'notes_1.txt'),
+      ]);
+    });
+
+    it('lists failed results separately', async () => {
+      const file = await writeFile('a.txt', 'a');
+
+      const plan = await manager.createPlan([
+        { ...named(file, 'a.txt'), error: { code: 'NAMING_ERROR', message: 'boom' } },
+      ]);
+
+      expect(plan.entries).toHaveLength(0);
+      expect(plan.failed).toEqual([{ originalPath: file, error: 'boom' }]);
+    });
+  });
+
+  describe('savePlan and loadPlan', () => {
+    it('round-trips a plan through a JSON file', async () => {
+      const file = await writeFile('a.txt', 'a');
+      const plan = await manager.createPlan([named(file, 'notes')]);
+      const planPath = path.join(dir, 'plans', 'plan.json');
+
+      await manager.savePlan(plan, planPath);
+
+      expect(await manager.loadPlan(planPath)).toEqual(plan);
+    });
+
+    it('rejects a file that is not a valid plan', async () => {
+      const planPath = await writeFile('plan.json', JSON.stringify({ entries: 'none' }));
+
+      await expect(manager.loadPlan(planPath)).rejects.toThrow(/Invalid rename plan/);
+    });
+  });
+
+  describe('applyPlan', () => {
+    it('renames the files of the plan', async () => {
+      const file = await writeFile('a.txt', 'a');
+      const plan = await manager.createPlan([named(file, 'notes')]);
+
+      const result = await manager.applyPlan(plan);
+
+      expect(result.renamed).toBe(1);
+      expect(await fs.readFile(path.join(dir, 'notes.txt'), 'utf-8')).toBe('a');
+      await expect(fs.access(file)).rejects.toThrow();
+    });
+
+    it('skips entries whose source changed since the plan was created', async () => {
+      const changed = await writeFile('a.txt', 'a');
+      const unchanged = await writeFile('b.txt', 'b');
+      const plan = await manager.createPlan([named(changed, 'first'), named(unchanged, 'second')]);
+      await fs.writeFile(changed, 'edited after planning');
+
+      const result = await manager.applyPlan(plan);
+
+      expect(result.renamed).toBe(1);
+      expect(result.skipped).toBe(1);
+      expect(result.results[0]).toMatchObject({
+        status: 'skipped',
+        reason: 'Source file changed since plan was created',
+      });
+      expect(await fs.readFile(changed, 'utf-8')).toBe('edited after planning');
+      await expect(fs.access(path.join(dir, 'second.txt'))).resolves.toBeUndefined();
+    });
+
+    it('skips entries whose source was removed', async () => {
+      const file = await writeFile('a.txt', 'a');
+      const plan = await manager.createPlan([named(file, 'notes')]);
+      await fs.rm(file);
+
+      const result = await manager.applyPlan(plan);
+
+      expect(result.results[0]).toMatchObject({
+        status: 'skipped',
+        reason: 'Source file no longer exists',
+      });
+    });
+
+    it('does not overwrite an existing target by default', async () => {
+      const file = await writeFile('a.txt', 'a');
+      await writeFile('notes.txt', 'existing');
+      const plan = await manager.createPlan([named(file, 'notes')]);
+
+      const result = await manager.applyPlan(plan);
+
+      expect(result.results[0]?.status).toBe('skipped');
+      expect(await fs.readFile(path.join(dir, 'notes.txt'), 'utf-8')).toBe('existing');
+    });
+
+    it('journals the provider, model and prompt that named each file', async () => {
+      const file = await writeFile('a.txt', 'a');
+      const journal = new RenameJournal(path.join(dir, 'history.jsonl'));
+      const plan = await new PlanManager(journal).createPlan(
+        [
+          {
+            ...named(file, 'notes'),
+            provider: 'anthropic',
+            model: 'claude-3-haiku-20240307',
+            prompt: 'Name this text file',
+          },
+        ],
+        { provider: 'openai', model: 'gpt-5' },
+      );
+
+      await new PlanManager(journal).applyPlan(plan);
+
+      expect(await journal.getEntries()).toEqual([
+        expect.objectContaining({
+          provider: 'anthropic',
+          model: 'claude-3-haiku-20240307',
+          prompt: 'Name this text file',
+        }),
+      ]);
+    });
+
+    it('leaves files in place on a dry run', async () => {
+      const file = await writeFile('a.txt', 'a');
+      const plan = await manager.createPlan([named(file, 'notes')]);
+
+      const result = await manager.applyPlan(plan, { dryRun: true });
+
+      expect(result).toMatchObject({ dryRun: true, renamed: 1, runId: undefined });
+      expect(result.results[0]?.newPath).toBe(path.join(dir, 'notes.txt'));
+      await expect(fs.access(file)).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { RenameJournal } from '../RenameJournal';
+
+describe('RenameJournal', () => {
+  let dir: string;
+  let journal: RenameJournal;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rename-journal-'));
+    journal = new RenameJournal(path.join(dir, 'history', 'history.jsonl'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Rename a file on disk and record it, like a run of the SDK would
+   */
+  const rename = async (runId: string, from: string, to: string): Promise<void> => {
+    const filePath = path.join(dir, from);
+    const newPath = path.join(dir, to);
+    await fs.rename(filePath, newPath);
+    await journal.recordRename({
+      runId,
+      originalName: from,
+      newName: to,
+      filePath,
+      newPath,
+      provider: 'test',
+    });
+  };
+
+  const exists = (name: string): Promise<boolean> =>
+    fs.access(path.join(dir, name)).then(
+      () => true,
+      () => false,
+    );
+
+  it('records renames with the hash of the renamed file', async () => {
+    await fs.writeFile(path.join(dir, 'a.txt'), 'a');
+    await rename('run-1', 'a.txt', 'b.txt');
+
+    const [entry] = await journal.getEntries();
+
+    expect(entry).toMatchObject({ action: 'rename', runId: 'run-1', success: true });
+    expect(entry?.hash).toEqual(expect.any(String));
+    expect(entry?.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('undoes the most recent run by default', async () => {
+    await fs.writeFile(path.join(dir, 'a.txt'), 'a');
+    await fs.writeFile(path.join(dir, 'b.txt'), 'b');
+    await rename('run-1', 'a.txt', 'first.txt');
+    await rename('run-2', 'b.txt', 'second.txt');
+
+    const result = await journal.undo();
+
+    expect(result).toMatchObject({ runId: 'run-2', reverted: 1, skipped: 0, failed: 0 });
+    expect(await exists('b.txt')).toBe(true);
+    expect(await exists('first.txt')).toBe(true);
+  });
+
+  it('unwinds chained renames within a run', async () => {
+    await fs.writeFile(path.join(dir, 'a.txt'), 'a');
+    await rename('run-1', 'a.txt', 'b.txt');
+    await rename('run-1', 'b.txt', 'c.txt');
+
+    const result = await journal.undo({ runId: 'run-1' });
+
+    expect(result.reverted).toBe(2);
+    expect(await exists('a.txt')).toBe(true);
+    expect(await exists('c.txt')).toBe(false);
+  });
+
+  it('undoes a single file by its new path', async () => {
+    await fs.writeFile(path.join(dir, 'a.txt'), 'a');
+    await fs.writeFile(path.join(dir, 'b.txt'), 'b');
+    await rename('run-1', 'a.txt', 'first.txt');
+    await rename('run-1', 'b.txt', 'second.txt');
+
+    const result = await journal.undo({ filePath: path.join(dir, 'first.txt') });
+
+    expect(result.reverted).toBe(1);
+    expect(await exists('a.txt')).toBe(true);
+    expect(await exists('second.txt')).toBe(true);
+  });
+
+  it('refuses to undo a file that was modified since it was renamed', async () => {
+    await fs.writeFile(path.join(dir, 'a.txt'), 'a');
+    await rename('run-1', 'a.txt', 'b.txt');
+    await fs.writeFile(path.join(dir, 'b.txt'), 'edited');
+
+    const result = await journal.undo();
+
+    expect(result.skipped).toBe(1);
+    expect(result.results[0]?.reason).toBe('File was modified since it was renamed');
+    expect(await fs.readFile(path.join(dir, 'b.txt'), 'utf-8')).toBe('edited');
+  });
+
+  it('refuses to undo onto an original path that is taken again', async () => {
+    await fs.writeFile(path.join(dir, 'a.txt'), 'a');
+    await rename('run-1', 'a.txt', 'b.txt');
+    await fs.writeFile(path.join(dir, 'a.txt'), 'new file');
+
+    const result = await journal.undo();
+
+    expect(result.skipped).toBe(1);
+    expect(await fs.readFile(path.join(dir, 'a.txt'), 'utf-8')).toBe('new file');
+  });
+
+  it('undoes a case-only rename whose original path is the same file', async () => {
+    await fs.writeFile(path.join(dir, 'a.txt'), 'a');
+    await rename('run-1', 'a.txt', 'A.txt');
+    // A hard link stands in for a case-insensitive filesystem, where both names are one file
+    await fs.link(path.join(dir, 'A.txt'), path.join(dir, 'a.txt'));
+
+    const result = await journal.undo();
+
+    expect(result.reverted).toBe(1);
+    expect(result.skipped).toBe(0);
+  });
+
+  it('does not move files or record undos on a dry run', async () => {
+    await fs.writeFile(path.join(dir, 'a.txt'), 'a');
+    await rename('run-1', 'a.txt', 'b.txt');
+
+    const result = await journal.undo({ dryRun: true });
+
+    expect(result).toMatchObject({ reverted: 1, dryRun: true });
+    expect(await exists('b.txt')).toBe(true);
+    expect(await journal.getActiveRenames()).toHaveLength(1);
+  });
+
+  it('does not undo the same rename twice', async () => {
+    await fs.writeFile(path.join(dir, 'a.txt'), 'a');
+    await rename('run-1', 'a.txt', 'b.txt');
+
+    await journal.undo();
+    const again = await journal.undo({ runId: 'run-1' });
+
+    expect(again.results).toHaveLength(0);
+    expect(await journal.getRuns()).toEqual([
+      expect.objectContaining({ runId: 'run-1', renames: 1, active: 0 }),
+    ]);
+  });
+
+  it('skips malformed journal lines', async () => {
+    await fs.writeFile(path.join(dir, 'a.txt'), 'a');
+    await rename('run-1', 'a.txt', 'b.txt');
+    await fs.appendFile(journal.getPath(), 'not json\n');
+
+    expect(await journal.getEntries()).toHaveLength(1);
+  });
+});
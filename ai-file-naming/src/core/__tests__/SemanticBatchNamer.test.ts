@@ -0,0 +1,201 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { BudgetTracker } from '../BudgetTracker';
+import { SemanticBatchNamer } from '../SemanticBatchNamer';
+import { AIProvider } from '../../providers/base/AIProvider';
+import { FileContext } from '../../types/file';
+import { GenerateNameOptions, ProviderCapabilities, ProviderResponse } from '../../types/provider';
+import * as FileUtils from '../../utils/FileUtils';
+
+/**
+ * Provider that answers every request with the same text and records the prompts
+ */
+class ScriptedProvider extends AIProvider {
+  readonly name = 'scripted';
+  readonly capabilities: ProviderCapabilities = {
+    supportsVision: false,
+    supportsStreaming: false,
+    supportsBatch: false,
+    supportsCustomModels: true,
+    maxTokens: 1000,
+  };
+  readonly prompts: string[] = [];
+
+  constructor(private answer: Partial<ProviderResponse>) {
+    super({ type: 'custom', maxRetries: 0, timeout: 0, temperature: 0 });
+  }
+
+  override generateName(
+    prompt: string,
+    context: FileContext,
+    _options?: GenerateNameOptions,
+  ): Promise<ProviderResponse> {
+    this.prompts.push(prompt);
+    return Promise.resolve({
+      originalName: context.originalName,
+      suggestedName: '',
+      confidence: 0.8,
+      provider: this.name,
+      ...this.answer,
+    });
+  }
+
+  protected initializeClient(): unknown {
+    return null;
+  }
+
+  protected executeRequest(): Promise<ProviderResponse> {
+    return Promise.reject(new Error('Not used'));
+  }
+
+  protected performConnectionTest(): Promise<boolean> {
+    return Promise.resolve(true);
+  }
+
+  protected requiresApiKey(): boolean {
+    return false;
+  }
+
+  protected isValidModel(): boolean {
+    return true;
+  }
+}
+
+const groupAnswer = (stem: string, names: Record<string, string>): Partial<ProviderResponse> => ({
+  suggestedName: JSON.stringify({ stem, names }),
+  usage: { promptTokens: 90, completionTokens: 10, totalTokens: 100, cost: 0.001 },
+});
+
+describe('SemanticBatchNamer', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'semantic-batch-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const writeFiles = async (files: Record<string, string>): Promise<FileContext[]> =>
+    Promise.all(
+      Object.entries(files).map(async ([name, content]) => {
+        const filePath = path.join(dir, name);
+        await fs.writeFile(filePath, content);
+        return {
+          filePath,
+          originalName: name,
+          directory: dir,
+          analysis: {
+            filePath,
+            fileName: name,
+            fileType: FileUtils.detectFileType(filePath),
+            metadata: await FileUtils.getFileMetadata(filePath),
+          },
+        };
+      }),
+    );
+
+  it('names a group of files with one request so they share a stem', async () => {
+    const contexts = await writeFiles({
+      'day1.txt': 'Arrived in Paris and walked along the Seine',
+      'day2.txt': 'Spent the day at the Louvre',
+    });
+    const provider = new ScriptedProvider(
+      groupAnswer('Paris trip', { '1': 'Paris trip arrival', '2': 'Louvre visit.txt' }),
+    );
+
+    const names = await new SemanticBatchNamer(provider).name(contexts, {
+      groupingStrategy: 'directory',
+    });
+
+    expect(provider.prompts).toHaveLength(1);
+    expect(provider.prompts[0]).toContain('Spent the day at the Louvre');
+    const [first, second] = contexts.map((context) => names.get(context.filePath));
+    expect(first).toMatchObject({
+      suggestedName: 'Paris trip arrival',
+      usage: { totalTokens: 100 },
+      provider: 'scripted',
+      prompt: provider.prompts[0],
+      metadata: { stem: 'Paris trip', groupSize: 2 },
+    });
+    // The stem is added where the model left it out, and the extension dropped
+    expect(second?.suggestedName).toBe('Paris trip Louvre visit');
+    // The group's usage is reported once
+    expect(second?.usage).toBeUndefined();
+  });
+
+  it('passes the custom prompt and case format to the group prompt', async () => {
+    const contexts = await writeFiles({ 'a.txt': 'first', 'b.txt': 'second' });
+    const provider = new ScriptedProvider(groupAnswer('notes', { '1': 'notes_a', '2': 'notes_b' }));
+
+    await new SemanticBatchNamer(provider, {
+      prompt: 'These are lecture notes.',
+      caseFormat: 'snake_case',
+    }).name(contexts, { groupingStrategy: 'directory' });
+
+    expect(provider.prompts[0]).toMatch(/^These are lecture notes\./);
+    expect(provider.prompts[0]).toContain('Use snake_case format');
+  });
+
+  it('leaves single files to individual naming', async () => {
+    const contexts = await writeFiles({ 'a.txt': 'first', 'b.txt': 'second' });
+    const provider = new ScriptedProvider(groupAnswer('notes', {}));
+
+    const names = await new SemanticBatchNamer(provider).name(contexts, {
+      groupingStrategy: 'custom',
+      groupKey: (filePath) => filePath,
+    });
+
+    expect(names.size).toBe(0);
+    expect(provider.prompts).toHaveLength(0);
+  });
+
+  it('leaves groups without a usable answer to individual naming', async () => {
+    const contexts = await writeFiles({ 'a.txt': 'first', 'b.txt': 'second' });
+    const provider = new ScriptedProvider({ suggestedName: 'not json' });
+
+    const names = await new SemanticBatchNamer(provider).name(contexts, {
+      groupingStrategy: 'directory',
+    });
+
+    expect(names.size).toBe(0);
+  });
+
+  it('leaves files the answer did not name to individual naming', async () => {
+    const contexts = await writeFiles({ 'a.txt': 'first', 'b.txt': 'second' });
+    const provider = new ScriptedProvider(groupAnswer('notes', { '1': 'notes first' }));
+
+    const names = await new SemanticBatchNamer(provider).name(contexts, {
+      groupingStrategy: 'directory',
+    });
+
+    expect([...names.keys()]).toEqual([contexts[0]?.filePath]);
+  });
+
+  it('does not send groups that would exceed the budget', async () => {
+    const contexts = await writeFiles({ 'a.txt': 'first', 'b.txt': 'second' });
+    const provider = new ScriptedProvider(groupAnswer('notes', { '1': 'a', '2': 'b' }));
+    const budget = new BudgetTracker({ maxTokensPerRun: 10 });
+
+    const names = await new SemanticBatchNamer(provider, { budget }).name(contexts, {
+      groupingStrategy: 'directory',
+    });
+
+    expect(names.size).toBe(0);
+    expect(provider.prompts).toHaveLength(0);
+  });
+
+  it('records what a group request used against the budget', async () => {
+    const contexts = await writeFiles({ 'a.txt': 'first', 'b.txt': 'second' });
+    const provider = new ScriptedProvider(groupAnswer('notes', { '1': 'a', '2': 'b' }));
+    const budget = new BudgetTracker({ maxTokensPerRun: 100_000 });
+
+    await new SemanticBatchNamer(provider, { budget }).name(contexts, {
+      groupingStrategy: 'directory',
+    });
+
+    expect(budget.getUsage()).toMatchObject({ tokensUsed: 100, cost: 0.001 });
+  });
+});
@@ -0,0 +1,131 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { SequenceNumberer } from '../SequenceNumberer';
+import { NamingResponse } from '../../types/naming';
+
+describe('SequenceNumberer', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sequence-numberer-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Create a file with a given modification time (seconds since the epoch)
+   */
+  const createFile = async (name: string, mtime = 1_700_000_000): Promise<string> => {
+    const filePath = path.join(dir, name);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, name);
+    await fs.utimes(filePath, mtime, mtime);
+    return filePath;
+  };
+
+  it('numbers files by modification time', async () => {
+    const newer = await createFile('a.txt', 1_700_000_200);
+    const older = await createFile('b.txt', 1_700_000_100);
+
+    const numbers = await new SequenceNumberer({ orderBy: 'modified' }).number([
+      { filePath: newer },
+      { filePath: older },
+    ]);
+
+    expect(numbers.get(older)).toBe(1);
+    expect(numbers.get(newer)).toBe(2);
+  });
+
+  it('orders by name naturally', async () => {
+    const ten = await createFile('scan10.txt');
+    const two = await createFile('scan2.txt');
+
+    const numbers = await new SequenceNumberer({ orderBy: 'name' }).number([
+      { filePath: ten },
+      { filePath: two },
+    ]);
+
+    expect(numbers.get(two)).toBe(1);
+    expect(numbers.get(ten)).toBe(2);
+  });
+
+  it('numbers each directory separately by default', async () => {
+    const first = await createFile('one/a.txt');
+    const second = await createFile('two/b.txt');
+
+    const numbers = await new SequenceNumberer({ start: 5 }).number([
+      { filePath: first },
+      { filePath: second },
+    ]);
+
+    expect([numbers.get(first), numbers.get(second)]).toEqual([5, 5]);
+  });
+
+  it('numbers across directories with the batch scope', async () => {
+    const first = await createFile('one/a.txt', 1_700_000_100);
+    const second = await createFile('two/b.txt', 1_700_000_200);
+
+    const numbers = await new SequenceNumberer({ scope: 'batch' }).number([
+      { filePath: first },
+      { filePath: second },
+    ]);
+
+    expect([numbers.get(first), numbers.get(second)]).toEqual([1, 2]);
+  });
+
+  it('numbers each suggested name separately with the name scope', async () => {
+    const a = await createFile('a.txt', 1_700_000_100);
+    const b = await createFile('b.txt', 1_700_000_200);
+    const c = await createFile('c.txt', 1_700_000_300);
+
+    const numbers = await new SequenceNumberer({ scope: 'name' }).number([
+      { filePath: a, name: 'beach' },
+      { filePath: b, name: 'Beach' },
+      { filePath: c, name: 'forest' },
+    ]);
+
+    expect([numbers.get(a), numbers.get(b), numbers.get(c)]).toEqual([1, 2, 1]);
+  });
+
+  it('continues after the highest number already in the folder', async () => {
+    await createFile('holiday_004.jpg');
+    await createFile('report_2023.txt');
+    const file = await createFile('new.txt');
+
+    const numbers = await new SequenceNumberer().number([{ filePath: file }]);
+
+    expect(numbers.get(file)).toBe(5);
+  });
+
+  it('ignores files of the batch and can restart the series', async () => {
+    const numbered = await createFile('holiday_007.jpg');
+    await createFile('other_002.jpg');
+
+    const numberer = new SequenceNumberer();
+
+    expect((await numberer.number([{ filePath: numbered }])).get(numbered)).toBe(3);
+    expect(
+      (await numberer.number([{ filePath: numbered }], { continueExisting: false })).get(numbered),
+    ).toBe(1);
+  });
+
+  it('appends padded numbers in the case format', async () => {
+    const older = await createFile('a.jpg', 1_700_000_100);
+    const newer = await createFile('b.jpg', 1_700_000_200);
+    const responses: NamingResponse[] = [
+      { filePath: newer, originalName: 'b.jpg', suggestedName: 'beach-day', confidence: 0.9 },
+      { filePath: older, originalName: 'a.jpg', suggestedName: 'beach-day', confidence: 0.9 },
+    ];
+
+    const result = await new SequenceNumberer(
+      { orderBy: 'modified', padding: 2 },
+      { caseFormat: 'kebab-case' },
+    ).apply(responses);
+
+    expect(result.map((r) => r.suggestedName)).toEqual(['beach-day-02', 'beach-day-01']);
+    expect(result[0]?.metadata).toMatchObject({ sequence: 2 });
+  });
+});
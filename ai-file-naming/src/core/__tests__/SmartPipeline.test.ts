@@ -0,0 +1,286 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { SmartPipeline } from '../SmartPipeline';
+import { AIProvider } from '../../providers/base/AIProvider';
+import { FileContext } from '../../types/file';
+import { GenerateNameOptions, ProviderCapabilities, ProviderResponse } from '../../types/provider';
+
+type Answer =
+  | Partial<ProviderResponse>
+  | ((prompt: string, options?: GenerateNameOptions) => Partial<ProviderResponse>);
+
+/**
+ * Provider that answers every request from a script and records the requests
+ */
+class ScriptedProvider extends AIProvider {
+  readonly capabilities: ProviderCapabilities = {
+    supportsVision: false,
+    supportsStreaming: false,
+    supportsBatch: false,
+    supportsCustomModels: true,
+    maxTokens: 1000,
+  };
+  readonly calls: Array<{ prompt: string; options?: GenerateNameOptions }> = [];
+
+  constructor(
+    readonly name: string,
+    private answer: Answer,
+  ) {
+    super({ type: 'custom', maxRetries: 0, timeout: 0, temperature: 0 });
+  }
+
+  override generateName(
+    prompt: string,
+    context: FileContext,
+    options?: GenerateNameOptions,
+  ): Promise<ProviderResponse> {
+    this.calls.push({ prompt, options });
+    const answer = typeof this.answer === 'function' ? this.answer(prompt, options) : this.answer;
+    return Promise.resolve({
+      originalName: context.originalName,
+      suggestedName: '',
+      confidence: 0,
+      ...answer,
+    });
+  }
+
+  protected initializeClient(): unknown {
+    return null;
+  }
+
+  protected executeRequest(): Promise<ProviderResponse> {
+    return Promise.reject(new Error('Not used'));
+  }
+
+  protected performConnectionTest(): Promise<boolean> {
+    return Promise.resolve(true);
+  }
+
+  protected requiresApiKey(): boolean {
+    return false;
+  }
+
+  protected isValidModel(): boolean {
+    return true;
+  }
+}
+
+const usage = (totalTokens: number, cost: number) => ({
+  promptTokens: totalTokens - 10,
+  completionTokens: 10,
+  totalTokens,
+  cost,
+});
+
+const MEETING_NOTES =
+  'The committee reviewed the quarterly budget and agreed to move the remaining funds ' +
+  'into the maintenance reserve before the end of the financial year';
+
+describe('SmartPipeline', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'smart-pipeline-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const writeFile = async (name: string, content: string): Promise<string> => {
+    const filePath = path.join(dir, name);
+    await fs.writeFile(filePath, content);
+    return filePath;
+  };
+
+  describe('processFile', () => {
+    it('names a file with the cheap model when it answers confidently', async () => {
+      const file = await writeFile('notes.txt', 'Minutes of the budget meeting held on Monday');
+      const provider = new ScriptedProvider('openai', {
+        suggestedName: 'budget_meeting_minutes',
+        confidence: 0.9,
+        usage: usage(40, 0.0001),
+      });
+
+      const result = await new SmartPipeline({ enableMetadataStage: false }).processFile(
+        file,
+        provider,
+      );
+
+      expect(result).toMatchObject({
+        suggestedName: 'budget_meeting_minutes',
+        stage: 'cheap-model',
+        model: 'gpt-5-mini',
+        tokensUsed: 40,
+        cost: 0.0001,
+      });
+      expect(provider.calls).toHaveLength(1);
+      expect(provider.calls[0]?.options).toMatchObject({ model: 'gpt-5-mini', structured: true });
+      expect(provider.calls[0]?.prompt).toContain('budget meeting');
+    });
+
+    it('escalates to the premium model and counts the tokens of both stages', async () => {
+      const file = await writeFile('notes.txt', 'Minutes of the budget meeting');
+      const provider = new ScriptedProvider('openai', (_prompt, options) =>
+        options?.model === 'gpt-5-mini'
+          ? { suggestedName: 'notes', confidence: 0.4, usage: usage(40, 0.0001) }
+          : { suggestedName: 'budget_meeting_minutes', confidence: 0.9, usage: usage(200, 0.002) },
+      );
+      const pipeline = new SmartPipeline({
+        enableMetadataStage: false,
+        models: { premium: 'gpt-5' },
+      });
+
+      const result = await pipeline.processFile(file, provider);
+
+      expect(result).toMatchObject({
+        suggestedName: 'budget_meeting_minutes',
+        stage: 'premium-model',
+        model: 'gpt-5',
+        tokensUsed: 240,
+      });
+      expect(result.cost).toBeCloseTo(0.0021);
+      expect(result.usage?.totalTokens).toBe(240);
+      expect(provider.calls.map((call) => call.options?.model)).toEqual(['gpt-5-mini', 'gpt-5']);
+    });
+
+    it('escalates when the cheap model fails', async () => {
+      const file = await writeFile('notes.txt', 'Minutes of the budget meeting');
+      const provider = new ScriptedProvider('openai', (_prompt, options) =>
+        options?.model === 'gpt-5-mini'
+          ? { error: { code: 'NETWORK_ERROR', message: 'offline' } }
+          : { suggestedName: 'budget_meeting_minutes', confidence: 0.9, usage: usage(200, 0.002) },
+      );
+
+      const result = await new SmartPipeline({ enableMetadataStage: false }).processFile(
+        file,
+        provider,
+      );
+
+      expect(result).toMatchObject({ stage: 'premium-model', tokensUsed: 200, cost: 0.002 });
+      expect(result.error).toBeUndefined();
+    });
+
+    it('goes straight to the configured model under the quality strategy', async () => {
+      const file = await writeFile('notes.txt', 'Minutes of the budget meeting');
+      const provider = new ScriptedProvider('openai', {
+        suggestedName: 'budget_meeting_minutes',
+        confidence: 0.5,
+      });
+
+      const result = await new SmartPipeline({ strategy: 'quality' }).processFile(file, provider);
+
+      expect(result.stage).toBe('premium-model');
+      expect(provider.calls).toHaveLength(1);
+      expect(provider.calls[0]?.options?.model).toBeUndefined();
+    });
+
+    it('estimates and prices the tokens when the provider reports no usage', async () => {
+      const file = await writeFile('notes.txt', 'Minutes of the budget meeting');
+      const provider = new ScriptedProvider('openai', {
+        suggestedName: 'budget_meeting_minutes',
+        confidence: 0.9,
+      });
+
+      const result = await new SmartPipeline({ enableMetadataStage: false }).processFile(
+        file,
+        provider,
+      );
+
+      expect(result.tokensUsed).toBeGreaterThan(0);
+      expect(result.cost).toBeGreaterThan(0);
+      expect(result.usage).toBeUndefined();
+    });
+
+    it('reports a failed premium request as an error without a name', async () => {
+      const file = await writeFile('notes.txt', 'Minutes of the budget meeting');
+      const provider = new ScriptedProvider('openai', {
+        error: { code: 'AUTH_ERROR', message: 'bad key' },
+      });
+
+      const result = await new SmartPipeline({ enableMetadataStage: false }).processFile(
+        file,
+        provider,
+      );
+
+      expect(result).toMatchObject({ suggestedName: undefined, confidence: 0 });
+      expect(result.error?.code).toBe('AUTH_ERROR');
+    });
+  });
+
+  describe('processBatch', () => {
+    /**
+     * Names files with a numbered name and answers pattern checks from `fits`
+     */
+    const batchProvider = (fits: (prompt: string) => boolean) =>
+      new ScriptedProvider('openai', (prompt, options) =>
+        options?.structured
+          ? { suggestedName: 'budget_minutes_001', confidence: 0.9, usage: usage(40, 0.0001) }
+          : { reasoning: fits(prompt) ? 'yes' : 'no', usage: usage(20, 0.00005) },
+      );
+
+    const writeMinutes = (): Promise<string[]> =>
+      Promise.all(
+        ['jan', 'feb', 'mar'].map((month) =>
+          writeFile(`minutes_${month}.txt`, `${MEETING_NOTES} in ${month}`),
+        ),
+      );
+
+    it("applies the representative's pattern to members the model confirms", async () => {
+      const files = await writeMinutes();
+      const provider = batchProvider(() => true);
+      const pipeline = new SmartPipeline({ enableMetadataStage: false });
+
+      const results = await pipeline.processBatch(files, provider);
+
+      expect(results.map((result) => [result.suggestedName, result.stage])).toEqual([
+        ['budget_minutes_001', 'cheap-model'],
+        ['budget_minutes_002', 'batch-pattern'],
+        ['budget_minutes_003', 'batch-pattern'],
+      ]);
+      expect(results[1]).toMatchObject({ patternCheck: 'verified', tokensUsed: 20 });
+      expect(pipeline.getStats(results).patternChecks).toEqual({ verified: 2, reprocessed: 0 });
+      // The check asks about the pattern and shows the file's content
+      const check = provider.calls[1];
+      expect(check?.prompt).toContain('budget_minutes_[n]');
+      expect(check?.prompt).toContain('quarterly budget');
+      expect(check?.options).toMatchObject({ model: 'gpt-5-mini', images: [] });
+    });
+
+    it('names members that do not fit the pattern on their own', async () => {
+      const files = await writeMinutes();
+      const provider = batchProvider((prompt) => !prompt.includes('minutes_mar'));
+      const pipeline = new SmartPipeline({ enableMetadataStage: false });
+
+      const results = await pipeline.processBatch(files, provider);
+
+      expect(results[2]).toMatchObject({
+        originalName: files[2],
+        stage: 'cheap-model',
+        patternCheck: 'reprocessed',
+        tokensUsed: 40 + 20, // Its own naming plus the failed check
+      });
+      expect(pipeline.getStats(results).patternChecks).toEqual({ verified: 1, reprocessed: 1 });
+    });
+
+    it('treats a failed check as not fitting', async () => {
+      const files = await writeMinutes();
+      const provider = new ScriptedProvider('openai', (_prompt, options) =>
+        options?.structured
+          ? { suggestedName: 'budget_minutes_001', confidence: 0.9 }
+          : { error: { code: 'NETWORK_ERROR', message: 'offline' } },
+      );
+
+      const results = await new SmartPipeline({ enableMetadataStage: false }).processBatch(
+        files,
+        provider,
+      );
+
+      expect(results.slice(1).map((result) => result.patternCheck)).toEqual([
+        'reprocessed',
+        'reprocessed',
+      ]);
+    });
+  });
+});
@@ -7,6 +7,16 @@
 // Main SDK export
 export { FileNamingSDK } from './core/FileNamingSDK';
 export { ConfigManager } from './core/ConfigManager';
+export { PlanManager } from './core/PlanManager';
+export { ConflictResolver } from './core/ConflictResolver';
+export { NameDeduplicator } from './core/NameDeduplicator';
+export { CandidateRanker } from './core/CandidateRanker';
+export { NamingTemplate } from './core/NamingTemplate';
+export { SequenceNumberer } from './core/SequenceNumberer';
+export { RenameJournal } from './core/RenameJournal';
+export { MemoryCacheBackend } from './core/MemoryCacheBackend';
+export { FileCacheBackend } from './core/FileCacheBackend';
+export { BudgetTracker } from './core/BudgetTracker';
 
 // Token Optimization Components
 export { ContentSampler } from './analyzers/ContentSampler';
@@ -14,22 +24,51 @@ export { MetadataExtractor } from './analyzers/MetadataExtractor';
 export { PromptOptimizer } from './prompts/PromptOptimizer';
 export { BatchGrouper } from './core/BatchGrouper';
 export { SmartPipeline } from './core/SmartPipeline';
+export { SemanticBatchNamer } from './core/SemanticBatchNamer';
 
 // Provider exports
 export { AIProvider } from './providers/base/AIProvider';
+export { CompositeProvider } from './providers/base/CompositeProvider';
 export { ProviderRegistry } from './providers/ProviderRegistry';
+export { ProviderChain } from './providers/ProviderChain';
+export { ConsensusProvider, ConsensusProviderOptions } from './providers/ConsensusProvider';
+export { ProviderRouter, ProviderRoute } from './providers/ProviderRouter';
 export { OpenAIProvider } from './providers/openai/OpenAIProvider';
 export { OllamaProvider } from './providers/ollama/OllamaProvider';
 export { AnthropicProvider } from './providers/anthropic/AnthropicProvider';
 export { GeminiProvider } from './providers/gemini/GeminiProvider';
 export { initializeProviders } from './providers';
 
+// Analyzer exports
+export { ContentAnalyzer, AnalyzerFileInfo } from './analyzers/base/ContentAnalyzer';
+export {
+  AnalyzerRegistry,
+  AnalyzerConstructor,
+  AnalyzerRegistration,
+} from './analyzers/AnalyzerRegistry';
+export { PdfAnalyzer } from './analyzers/pdf/PdfAnalyzer';
+export { SpreadsheetAnalyzer } from './analyzers/spreadsheet/SpreadsheetAnalyzer';
+export { VideoAnalyzer } from './analyzers/video/VideoAnalyzer';
+export { AudioAnalyzer } from './analyzers/audio/AudioAnalyzer';
+export { TextAnalyzer } from './analyzers/text/TextAnalyzer';
+export {
+  OfficeAnalyzer,
+  OfficeDocument,
+  OfficeParagraph,
+  OfficeProperties,
+  OfficeSlide,
+} from './analyzers/office/OfficeAnalyzer';
+export { OfficeOpenXmlAnalyzer } from './analyzers/office/OfficeOpenXmlAnalyzer';
+export { OpenDocumentAnalyzer } from './analyzers/office/OpenDocumentAnalyzer';
+export { EnhancedContentAnalyzer, EnhancedContent } from './analyzers/EnhancedContentAnalyzer';
+
 // Type exports
 export * from './types';
 
 // Utility exports
 export * as FileUtils from './utils/FileUtils';
 export * as CaseTransformer from './utils/CaseTransformer';
+export * as Pricing from './utils/Pricing';
 export { Logger, logger } from './utils/Logger';
 
 // Event exports
@@ -12,7 +12,7 @@ export type PromptMode = 'ultra-minimal' | 'minimal' | 'standard';
 export interface PromptContext {
   fileType: string;
   content?: string;
-  pattern?: string;  // For batch operations
+  pattern?: string; // For batch operations
   metadata?: {
     filename?: string;
     size?: number;
@@ -74,13 +74,14 @@ export class PromptOptimizer {
 
     // Type-specific ultra-short prompts
     const templates: Record<string, string> = {
-      image: `Photo: ${this.truncate(content || '', 20)}. Name:`,
-      video: `Video: ${this.truncate(content || '', 20)}. Name:`,
-      pdf: `PDF: ${this.truncate(content || '', 30)}. Name:`,
-      document: `Doc: ${this.truncate(content || '', 30)}. Name:`,
+      image: `Photo: ${this.truncate(content ?? '', 20)}. Name:`,
+      video: `Video: ${this.truncate(content ?? '', 20)}. Name:`,
+      pdf: `PDF: ${this.truncate(content ?? '', 30)}. Name:`,
+      document: `Doc: ${this.truncate(content ?? '', 30)}. Name:`,
     };
 
-    const template = templates[fileType] || `${fileType}: ${this.truncate(content || '', 20)}. Name:`;
+    const template =
+      templates[fileType] ?? `${fileType}: ${this.truncate(content ?? '', 20)}. Name:`;
 
     return template;
   }
@@ -191,10 +192,23 @@ Rules:
 
   /**
    * Build pattern-based prompt for batch operations
+   *
+   * 'apply' asks for a name following the pattern; 'verify' asks whether the
+   * pattern fits the file at all (yes/no).
    */
-  buildBatchPrompt(pattern: string, fileInfo: string): OptimizedPrompt {
-    const system = `Apply naming pattern. snake_case. No extension.`;
-    const user = `Pattern: ${pattern}\nFile: ${fileInfo}\nName:`;
+  buildBatchPrompt(
+    pattern: string,
+    fileInfo: string,
+    mode: 'apply' | 'verify' = 'apply',
+  ): OptimizedPrompt {
+    const system =
+      mode === 'verify'
+        ? `Does the naming pattern fit the file? Answer yes or no.`
+        : `Apply naming pattern. snake_case. No extension.`;
+    const user =
+      mode === 'verify'
+        ? `Pattern: ${pattern}\nFile: ${fileInfo}\nFits:`
+        : `Pattern: ${pattern}\nFile: ${fileInfo}\nName:`;
 
     return {
       system,
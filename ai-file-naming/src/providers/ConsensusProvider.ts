@@ -0,0 +1,268 @@
+/**
+ * ConsensusProvider - Ask several providers and reconcile their names
+ *
+ * Every provider is asked in parallel. With the agreement strategy the name
+ * sharing the most words with the other answers wins; with the judge strategy
+ * a judge provider picks among the answers (or improves on them). Either way
+ * the confidence is lowered by how much the providers disagreed: full
+ * agreement keeps the chosen answer's confidence, no overlap at all halves it,
+ * and providers that failed count as disagreeing. Per-request model overrides
+ * only apply to the first provider, since model names are provider specific.
+ */
+
+import { AIProvider } from './base/AIProvider';
+import { CompositeProvider } from './base/CompositeProvider';
+import {
+  ConnectionTestResult,
+  GenerateNameOptions,
+  ProviderResponse,
+  ProviderStatus,
+} from '../types/provider';
+import { FileContext } from '../types/file';
+import { ConsensusResult, TokenUsage } from '../types/naming';
+
+/**
+ * Share of the confidence that depends on agreement
+ */
+const DISAGREEMENT_PENALTY = 0.5;
+
+/**
+ * Consensus options
+ */
+export interface ConsensusProviderOptions {
+  strategy?: ConsensusResult['strategy']; // Default: 'agreement'
+  judge?: AIProvider; // Judge strategy; defaults to the first provider
+}
+
+/**
+ * Consensus provider class
+ */
+export class ConsensusProvider extends CompositeProvider {
+  private providers: AIProvider[];
+  private primary: AIProvider;
+  private strategy: ConsensusResult['strategy'];
+  private judge: AIProvider;
+
+  constructor(providers: AIProvider[], options: ConsensusProviderOptions = {}) {
+    const [primary] = providers;
+    if (!primary || providers.length < 2) {
+      throw new Error('Consensus naming needs at least two providers');
+    }
+
+    const judge = options.judge ?? primary;
+    super(primary, [...providers, judge]);
+    this.providers = providers;
+    this.primary = primary;
+    this.strategy = options.strategy ?? 'agreement';
+    this.judge = judge;
+  }
+
+  /**
+   * Generate a name with every provider and reconcile the answers
+   *
+   * The judge strategy needs structured answers; other requests, such as
+   * template prompts, are reconciled by agreement.
+   */
+  override async generateName(
+    prompt: string,
+    context: FileContext,
+    options?: GenerateNameOptions,
+  ): Promise<ProviderResponse> {
+    const responses = await Promise.all(
+      this.providers.map((provider) =>
+        provider.generateName(
+          prompt,
+          context,
+          provider === this.primary ? options : { ...options, model: undefined },
+        ),
+      ),
+    );
+
+    const answered = responses.filter((response) => !response.error);
+    if (answered.length === 0) {
+      return responses[0] as ProviderResponse;
+    }
+
+    const tokens = responses.map((response) =>
+      response.error ? undefined : nameTokens(response.suggestedName),
+    );
+    const agreement = averageAgreement(tokens);
+
+    let chosen = responses[pickByAgreement(responses, tokens)] as ProviderResponse;
+    let strategy: ConsensusResult['strategy'] = 'agreement';
+    const usage = [...responses];
+
+    if (this.strategy === 'judge' && options?.structured && answered.length > 1) {
+      const verdict = await this.judge.generateName(
+        this.buildJudgePrompt(prompt, answered),
+        context,
+        { ...options, model: undefined },
+      );
+      usage.push(verdict);
+
+      if (verdict.error) {
+        this.providerLogger.warn('Consensus judge failed, picking by agreement', {
+          filePath: context.filePath,
+          error: verdict.error.message,
+        });
+      } else {
+        chosen = verdict;
+        strategy = 'judge';
+      }
+    }
+
+    const alternatives = [
+      ...(chosen.alternatives ?? []),
+      ...answered.map((response) => response.suggestedName),
+    ];
+
+    return {
+      ...chosen,
+      confidence: chosen.confidence * (1 - DISAGREEMENT_PENALTY * (1 - agreement)),
+      alternatives: [...new Set(alternatives)].filter((name) => name !== chosen.suggestedName),
+      usage: sumUsage(usage),
+      consensus: {
+        strategy,
+        agreement: Math.round(agreement * 100) / 100,
+        answers: responses.map((response, i) => ({
+          provider: response.provider ?? this.providers[i]?.name ?? 'unknown',
+          name: response.error ? undefined : response.suggestedName,
+          confidence: response.error ? undefined : response.confidence,
+          error: response.error?.message,
+        })),
+      },
+    };
+  }
+
+  /**
+   * Test every provider; succeeds if at least two of them answer
+   */
+  override async testConnection(): Promise<ConnectionTestResult> {
+    const results = await Promise.all(this.members.map((provider) => provider.testConnection()));
+    const failures: Record<string, unknown> = {};
+    results.forEach((result, i) => {
+      if (!result.success) {
+        failures[this.members[i]?.name ?? String(i)] = result.error ?? 'Connection test failed';
+      }
+    });
+
+    const reachable = results.filter((result) => result.success).length;
+    return reachable >= 2
+      ? { success: true, details: { failures } }
+      : { success: false, error: 'Fewer than two providers are reachable', details: failures };
+  }
+
+  /**
+   * Status of the first provider, available if at least two providers are
+   */
+  override getStatus(): ProviderStatus {
+    const available = this.providers.filter((provider) => provider.getStatus().available);
+    return { ...this.primary.getStatus(), available: available.length >= 2 };
+  }
+
+  /**
+   * Ask the judge to choose among the providers' names
+   */
+  private buildJudgePrompt(prompt: string, answers: ProviderResponse[]): string {
+    const names = answers.map((answer, i) => `${i + 1}. ${answer.suggestedName}`).join('\n');
+
+    return `${prompt}
+
+Several assistants suggested these names for the file:
+${names}
+
+Choose the name that fits the file best. You may combine or improve them if none fits well.`;
+  }
+}
+
+/**
+ * Lowercase words of a name, splitting camelCase and separators
+ */
+function nameTokens(name: string): Set<string> {
+  const words = name
+    .replace(/(\p{Ll})(\p{Lu})/gu, '$1 $2')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 0);
+  return new Set(words);
+}
+
+/**
+ * Jaccard similarity of two token sets
+ */
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Similarity of two answers; 0 when either provider failed
+ */
+function similarity(a: Set<string> | undefined, b: Set<string> | undefined): number {
+  return a && b ? jaccard(a, b) : 0;
+}
+
+/**
+ * Mean similarity over all pairs of answers
+ */
+function averageAgreement(tokens: Array<Set<string> | undefined>): number {
+  let total = 0;
+  let pairs = 0;
+  for (let i = 0; i < tokens.length; i++) {
+    for (let j = i + 1; j < tokens.length; j++) {
+      total += similarity(tokens[i], tokens[j]);
+      pairs++;
+    }
+  }
+  return pairs > 0 ? total / pairs : 1;
+}
+
+/**
+ * Index of the answer most similar to the others; ties go to the more
+ * confident answer, then to the earlier provider
+ */
+function pickByAgreement(
+  responses: ProviderResponse[],
+  tokens: Array<Set<string> | undefined>,
+): number {
+  let best = -1;
+  let bestScore = -1;
+  let bestConfidence = -1;
+
+  responses.forEach((response, i) => {
+    if (response.error) return;
+
+    const score = tokens.reduce<number>(
+      (total, other, j) => (i === j ? total : total + similarity(tokens[i], other)),
+      0,
+    );
+    if (score > bestScore || (score === bestScore && response.confidence > bestConfidence)) {
+      best = i;
+      bestScore = score;
+      bestConfidence = response.confidence;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Usage summed over several answers
+ */
+function sumUsage(responses: ProviderResponse[]): TokenUsage | undefined {
+  const usages = responses.flatMap((response) => (response.usage ? [response.usage] : []));
+  if (usages.length === 0) return undefined;
+
+  const costs = usages.flatMap((usage) => (usage.cost === undefined ? [] : [usage.cost]));
+  return {
+    promptTokens: usages.reduce((total, usage) => total + usage.promptTokens, 0),
+    completionTokens: usages.reduce((total, usage) => total + usage.completionTokens, 0),
+    totalTokens: usages.reduce((total, usage) => total + usage.totalTokens, 0),
+    cost: costs.length > 0 ? costs.reduce((total, cost) => total + cost, 0) : undefined,
+  };
+}
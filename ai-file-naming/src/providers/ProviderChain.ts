@@ -0,0 +1,115 @@
+/**
+ * ProviderChain - Ordered providers that take over from each other
+ *
+ * Requests go to the first provider. When it is rate limited, unreachable or
+ * rejects its credentials, the same request moves to the next one (for
+ * example OpenAI, then Anthropic, then a local Ollama). Any other error is
+ * returned as is. Per-request model overrides only apply to the first
+ * provider, since model names are provider specific.
+ */
+
+import { AIProvider } from './base/AIProvider';
+import { CompositeProvider } from './base/CompositeProvider';
+import {
+  ConnectionTestResult,
+  GenerateNameOptions,
+  ProviderResponse,
+  ProviderStatus,
+} from '../types/provider';
+import { FileContext } from '../types/file';
+import { EventName, ProviderFallbackEvent } from '../types/events';
+
+/**
+ * Error codes (from `AIProvider.handleError`) that move a request to the next provider
+ */
+const FALLBACK_ERRORS = new Set(['RATE_LIMIT', 'NETWORK_ERROR', 'AUTH_ERROR']);
+
+/**
+ * Provider chain class
+ */
+export class ProviderChain extends CompositeProvider {
+  private providers: AIProvider[];
+  private primary: AIProvider;
+
+  constructor(providers: AIProvider[]) {
+    const [primary] = providers;
+    if (!primary) {
+      throw new Error('A provider chain needs at least one provider');
+    }
+
+    super(primary, providers);
+    this.providers = providers;
+    this.primary = primary;
+  }
+
+  /**
+   * Names of the chained providers, in order
+   */
+  getProviderNames(): string[] {
+    return this.providers.map((provider) => provider.name);
+  }
+
+  /**
+   * Generate a name, moving to the next provider on rate limit, network and
+   * authentication errors
+   */
+  override async generateName(
+    prompt: string,
+    context: FileContext,
+    options?: GenerateNameOptions,
+  ): Promise<ProviderResponse> {
+    let provider = this.primary;
+    let response = await provider.generateName(prompt, context, options);
+
+    for (const next of this.providers.slice(1)) {
+      if (!response.error || !FALLBACK_ERRORS.has(response.error.code)) {
+        break;
+      }
+
+      this.providerLogger.warn(`Provider '${provider.name}' failed, trying '${next.name}'`, {
+        filePath: context.filePath,
+        error: response.error.message,
+      });
+      this.emit<ProviderFallbackEvent>(EventName.ProviderFallback, {
+        from: provider.name,
+        to: next.name,
+        error: response.error,
+        filePath: context.filePath,
+        timestamp: new Date(),
+        eventId: `provider-fallback-${Date.now()}`,
+      });
+
+      provider = next;
+      response = await provider.generateName(prompt, context, { ...options, model: undefined });
+    }
+
+    return response;
+  }
+
+  /**
+   * Test the chained providers in order; succeeds if any of them answers
+   */
+  override async testConnection(): Promise<ConnectionTestResult> {
+    const failures: Record<string, unknown> = {};
+
+    for (const provider of this.providers) {
+      const result = await provider.testConnection();
+      if (result.success) {
+        return { ...result, details: { provider: provider.name, failures } };
+      }
+      failures[provider.name] = result.error ?? 'Connection test failed';
+    }
+
+    return { success: false, error: 'No provider in the chain is reachable', details: failures };
+  }
+
+  /**
+   * Status of the first provider, available if any provider is
+   */
+  override getStatus(): ProviderStatus {
+    return {
+      ...this.primary.getStatus(),
+      available: this.providers.some((provider) => provider.getStatus().available),
+    };
+  }
+}
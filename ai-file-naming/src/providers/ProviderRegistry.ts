@@ -4,6 +4,7 @@
 
 import { AIProvider } from './base/AIProvider';
 import { BaseProviderConfig } from '../types/config';
+import { PricingTable } from '../types/budget';
 import { Logger } from '../utils/Logger';
 
 /**
@@ -60,9 +61,10 @@ export class ProviderRegistry {
   }
 
   /**
-   * Create a provider instance
+   * Create a provider instance, costing its usage with `pricing` (merged
+   * over the defaults) when given
    */
-  static create(config: BaseProviderConfig): AIProvider {
+  static create(config: BaseProviderConfig, pricing?: PricingTable): AIProvider {
     const entry = this.providers.get(config.type);
 
     if (!entry) {
@@ -73,9 +75,12 @@ export class ProviderRegistry {
 
     try {
       const provider = new entry.constructor(config);
+      if (pricing) {
+        provider.setPricing(pricing);
+      }
 
       // Cache the instance
-      const instanceKey = this.getInstanceKey(config);
+      const instanceKey = this.getInstanceKey(config, pricing);
       this.instances.set(instanceKey, provider);
 
       return provider;
@@ -90,9 +95,12 @@ export class ProviderRegistry {
 
   /**
    * Get or create a provider instance
+   *
+   * Instances are shared by callers with the same config and pricing, so a
+   * custom pricing table gets its own instance instead of repricing others.
    */
-  static getOrCreate(config: BaseProviderConfig): AIProvider {
-    const instanceKey = this.getInstanceKey(config);
+  static getOrCreate(config: BaseProviderConfig, pricing?: PricingTable): AIProvider {
+    const instanceKey = this.getInstanceKey(config, pricing);
 
     // Check if instance already exists
     if (this.instances.has(instanceKey)) {
@@ -103,7 +111,7 @@ export class ProviderRegistry {
     }
 
     // Create new instance
-    return this.create(config);
+    return this.create(config, pricing);
   }
 
   /**
@@ -213,7 +221,7 @@ export class ProviderRegistry {
   /**
    * Get instance key for caching
    */
-  private static getInstanceKey(config: BaseProviderConfig): string {
+  private static getInstanceKey(config: BaseProviderConfig, pricing?: PricingTable): string {
     // Create a unique key based on provider type and API key (if present)
     const parts: string[] = [config.type];
 
@@ -231,6 +239,10 @@ export class ProviderRegistry {
       parts.push(config.model);
     }
 
+    if (pricing) {
+      parts.push(JSON.stringify(pricing));
+    }
+
     return parts.join('-');
   }
 }
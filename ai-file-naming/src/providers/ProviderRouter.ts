@@ -0,0 +1,118 @@
+/**
+ * ProviderRouter - Send each file to the provider best suited for it
+ *
+ * Rules are checked in order against the file's type, extension and size; the
+ * first match picks the provider, and files matching no rule go to the default
+ * provider. Image files skip rules whose provider cannot see images, so a
+ * text-only model never names a photo from its metadata alone unless a rule
+ * asks for it with `requireVision: false`. Per-request model overrides only
+ * apply to the default provider, since model names are provider specific.
+ */
+
+import { AIProvider } from './base/AIProvider';
+import { CompositeProvider } from './base/CompositeProvider';
+import {
+  ConnectionTestResult,
+  GenerateNameOptions,
+  ProviderResponse,
+  ProviderStatus,
+} from '../types/provider';
+import { FileContext, FileType } from '../types/file';
+import { RoutingRule } from '../types/config';
+
+/**
+ * A routing rule with its provider
+ */
+export interface ProviderRoute {
+  rule: RoutingRule;
+  provider: AIProvider;
+}
+
+/**
+ * Provider router class
+ */
+export class ProviderRouter extends CompositeProvider {
+  constructor(
+    private defaultProvider: AIProvider,
+    private routes: ProviderRoute[],
+  ) {
+    super(defaultProvider, [defaultProvider, ...routes.map((route) => route.provider)]);
+  }
+
+  /**
+   * Generate a name with the provider routed to for the file
+   */
+  override generateName(
+    prompt: string,
+    context: FileContext,
+    options?: GenerateNameOptions,
+  ): Promise<ProviderResponse> {
+    const route = this.selectRoute(context);
+    if (!route) {
+      return this.defaultProvider.generateName(prompt, context, options);
+    }
+
+    this.providerLogger.debug(`Routing to '${route.provider.name}'`, {
+      filePath: context.filePath,
+      rule: route.rule.name,
+    });
+    return route.provider.generateName(prompt, context, { ...options, model: undefined });
+  }
+
+  /**
+   * Test every provider; succeeds if all of them answer
+   */
+  override async testConnection(): Promise<ConnectionTestResult> {
+    const failures: Record<string, unknown> = {};
+    let latency = 0;
+
+    for (const provider of this.members) {
+      const result = await provider.testConnection();
+      if (result.success) {
+        latency = Math.max(latency, result.latency ?? 0);
+      } else {
+        failures[provider.name] = result.error ?? 'Connection test failed';
+      }
+    }
+
+    const failed = Object.keys(failures);
+    return failed.length === 0
+      ? { success: true, latency }
+      : {
+          success: false,
+          error: `Unreachable provider(s): ${failed.join(', ')}`,
+          details: failures,
+        };
+  }
+
+  /**
+   * Status of the default provider
+   */
+  override getStatus(): ProviderStatus {
+    return this.defaultProvider.getStatus();
+  }
+
+  /**
+   * First route whose rule matches the file and whose provider can handle it;
+   * undefined for files that go to the default provider
+   */
+  selectRoute(context: FileContext): ProviderRoute | undefined {
+    const { fileType, metadata } = context.analysis;
+    const extension = metadata.extension.replace(/^\./, '').toLowerCase();
+
+    return this.routes.find(({ rule, provider }) => {
+      if (rule.fileTypes && !rule.fileTypes.includes(fileType)) return false;
+      if (
+        rule.extensions &&
+        !rule.extensions.some((ext) => ext.replace(/^\./, '').toLowerCase() === extension)
+      ) {
+        return false;
+      }
+      if (rule.minSize !== undefined && metadata.size < rule.minSize) return false;
+      if (rule.maxSize !== undefined && metadata.size > rule.maxSize) return false;
+
+      const needsVision = rule.requireVision ?? fileType === FileType.Image;
+      return !needsVision || provider.capabilities.supportsVision;
+    });
+  }
+}
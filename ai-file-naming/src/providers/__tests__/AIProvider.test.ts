@@ -0,0 +1,289 @@
+import { AIProvider } from '../base/AIProvider';
+import { ProviderChain } from '../ProviderChain';
+import { FileContext, FileType } from '../../types/file';
+import { TokenUsage } from '../../types/naming';
+import {
+  ProviderCapabilities,
+  ProviderRequestContext,
+  ProviderResponse,
+} from '../../types/provider';
+
+type Reply = Partial<ProviderResponse> | Error;
+
+/**
+ * Provider whose requests return queued replies, as the provider's API would
+ */
+class StubProvider extends AIProvider {
+  readonly capabilities: ProviderCapabilities = {
+    supportsVision: false,
+    supportsStreaming: false,
+    supportsBatch: false,
+    supportsCustomModels: true,
+    maxTokens: 1000,
+  };
+  readonly requests: ProviderRequestContext[] = [];
+
+  constructor(
+    readonly name: string,
+    private replies: Reply[],
+    model = 'small',
+  ) {
+    super({ type: 'custom', model, maxRetries: 0, timeout: 0, temperature: 0 });
+  }
+
+  protected initializeClient(): unknown {
+    return null;
+  }
+
+  protected executeRequest(context: ProviderRequestContext): Promise<ProviderResponse> {
+    this.requests.push(context);
+    const reply = this.replies.shift();
+    if (!reply) {
+      return Promise.reject(new Error('No reply queued'));
+    }
+    if (reply instanceof Error) {
+      return Promise.reject(reply);
+    }
+    return Promise.resolve({
+      originalName: context.request.context.originalName,
+      suggestedName: 'name',
+      confidence: 0.5,
+      ...reply,
+    });
+  }
+
+  protected performConnectionTest(): Promise<boolean> {
+    return Promise.resolve(true);
+  }
+
+  protected requiresApiKey(): boolean {
+    return false;
+  }
+
+  protected isValidModel(): boolean {
+    return true;
+  }
+}
+
+const usage = (promptTokens: number, completionTokens: number): TokenUsage => ({
+  promptTokens,
+  completionTokens,
+  totalTokens: promptTokens + completionTokens,
+});
+
+// USD per million tokens
+const pricing = {
+  stub: {
+    small: { input: 1, output: 4 },
+    large: { input: 10, output: 40 },
+  },
+};
+
+describe('AIProvider', () => {
+  const context: FileContext = {
+    filePath: '/files/a.txt',
+    originalName: 'a.txt',
+    directory: '/files',
+    analysis: {
+      filePath: '/files/a.txt',
+      fileName: 'a.txt',
+      fileType: FileType.Document,
+      metadata: {
+        size: 1,
+        created: new Date(),
+        modified: new Date(),
+        accessed: new Date(),
+        mimeType: 'text/plain',
+        extension: '.txt',
+      },
+    },
+  };
+
+  describe('usage accounting', () => {
+    it('prices reported usage and adds it to the metrics per model', async () => {
+      const provider = new StubProvider('stub', [
+        { usage: usage(1_000_000, 0) },
+        { usage: usage(0, 1_000_000), model: 'large' },
+        { usage: usage(500_000, 500_000) },
+      ]);
+      provider.setPricing(pricing);
+
+      const first = await provider.generateName('prompt', context);
+      await provider.generateName('prompt', context, { model: 'large' });
+      await provider.generateName('prompt', context);
+
+      expect(first.usage?.cost).toBe(1);
+      const metrics = provider.getMetrics();
+      expect(metrics).toMatchObject({
+        totalTokensUsed: 3_000_000,
+        promptTokens: 1_500_000,
+        completionTokens: 1_500_000,
+        totalCost: 1 + 40 + (0.5 + 2),
+      });
+      expect(metrics.byModel).toEqual({
+        small: {
+          requests: 2,
+          promptTokens: 1_500_000,
+          completionTokens: 500_000,
+          totalTokens: 2_000_000,
+          cost: 3.5,
+        },
+        large: {
+          requests: 1,
+          promptTokens: 0,
+          completionTokens: 1_000_000,
+          totalTokens: 1_000_000,
+          cost: 40,
+        },
+      });
+    });
+
+    it('prices usage at the requested model when the answer does not name one', async () => {
+      const provider = new StubProvider('stub', [{ usage: usage(1_000_000, 0) }]);
+      provider.setPricing(pricing);
+
+      const response = await provider.generateName('prompt', context, { model: 'large' });
+
+      expect(response).toMatchObject({ model: 'large', usage: { cost: 10 } });
+      expect(Object.keys(provider.getMetrics().byModel)).toEqual(['large']);
+    });
+
+    it('leaves token metrics alone when the provider reports no usage', async () => {
+      const provider = new StubProvider('stub', [{}]);
+
+      const response = await provider.generateName('prompt', context);
+
+      expect(response.usage).toBeUndefined();
+      expect(provider.getMetrics()).toMatchObject({
+        successfulRequests: 1,
+        totalTokensUsed: 0,
+        totalCost: 0,
+        byModel: {},
+      });
+    });
+
+    it('returns copies of the metrics', async () => {
+      const provider = new StubProvider('stub', [{ usage: usage(10, 0) }]);
+      await provider.generateName('prompt', context);
+
+      const metrics = provider.getMetrics();
+      const small = metrics.byModel['small'];
+      if (small) small.requests = 99;
+
+      expect(provider.getMetrics().byModel['small']?.requests).toBe(1);
+    });
+
+    it('sums the metrics of the providers in a chain', async () => {
+      const primary = new StubProvider('stub', [new Error('ECONNREFUSED')]);
+      const fallback = new StubProvider('stub', [{ usage: usage(1_000_000, 0) }], 'large');
+      const chain = new ProviderChain([primary, fallback]);
+      chain.setPricing(pricing);
+
+      await chain.generateName('prompt', context);
+
+      expect(chain.getMetrics()).toMatchObject({
+        totalRequests: 2,
+        successfulRequests: 1,
+        failedRequests: 1,
+        totalTokensUsed: 1_000_000,
+        totalCost: 10,
+        byModel: { large: { requests: 1, cost: 10 } },
+      });
+    });
+  });
+
+  describe('structured answers', () => {
+    const answer = (fields: Record<string, unknown>): Reply => ({
+      suggestedName: `Here you go:\n${JSON.stringify(fields)}`,
+      usage: usage(100, 20),
+    });
+
+    it('uses the validated fields of the answer', async () => {
+      const provider = new StubProvider('stub', [
+        answer({
+          name: 'Quarterly Report.pdf',
+          alternatives: ['q1 report', 'Quarterly Report', 'q1 report'],
+          confidence: 0.8,
+          reasoning: ' Matches the title page ',
+          subject: 'finance',
+          date: '2024-03-31',
+          entities: ['ACME'],
+        }),
+      ]);
+
+      const response = await provider.generateName('prompt', context, { structured: true });
+
+      expect(response).toMatchObject({
+        suggestedName: 'Quarterly Report',
+        alternatives: ['q1 report'],
+        confidence: 0.8,
+        reasoning: 'Matches the title page',
+        detected: { subject: 'finance', date: '2024-03-31', entities: ['ACME'] },
+      });
+    });
+
+    it('asks for the number of alternatives requested', async () => {
+      const provider = new StubProvider('stub', [
+        answer({ name: 'a', confidence: 1 }),
+        answer({ name: 'b', confidence: 1 }),
+      ]);
+
+      await provider.generateName('prompt', context, { structured: true, alternatives: 2 });
+      await provider.generateName('prompt', context, { structured: true, alternatives: 0 });
+
+      expect(provider.requests[0]?.userPrompt).toMatch(/^prompt\n\nRespond only with a JSON/);
+      expect(provider.requests[0]?.userPrompt).toContain('2 other good filenames');
+      expect(provider.requests[1]?.userPrompt).toContain('alternatives: an empty list');
+      expect(provider.requests[0]?.structured).toBe(true);
+    });
+
+    it('sends plain prompts unless asked for a structured answer', async () => {
+      const provider = new StubProvider('stub', [{ suggestedName: 'plain name' }]);
+
+      const response = await provider.generateName('prompt', context);
+
+      expect(provider.requests[0]?.userPrompt).toBe('prompt');
+      expect(response.suggestedName).toBe('plain name');
+    });
+
+    it('asks the provider to repair a malformed answer and adds up the usage', async () => {
+      const provider = new StubProvider('stub', [
+        { suggestedName: 'Quarterly report', usage: usage(100, 10) },
+        answer({ name: 'Quarterly report', confidence: 0.9 }),
+      ]);
+
+      const response = await provider.generateName('prompt', context, { structured: true });
+
+      expect(response).toMatchObject({ suggestedName: 'Quarterly report', confidence: 0.9 });
+      expect(response.usage).toMatchObject({ promptTokens: 200, totalTokens: 230 });
+      expect(provider.requests[1]?.userPrompt).toContain(
+        'Your previous answer could not be used (no JSON object in the answer)',
+      );
+    });
+
+    it('names the fields that failed validation in the repair prompt', async () => {
+      const provider = new StubProvider('stub', [
+        answer({ name: 'Quarterly report', confidence: 2 }),
+        answer({ name: 'Quarterly report', confidence: 0.9 }),
+      ]);
+
+      await provider.generateName('prompt', context, { structured: true });
+
+      expect(provider.requests[1]?.userPrompt).toMatch(/\(confidence: .+\)/);
+    });
+
+    it('fails after the repairs are used up, recording the usage of every attempt', async () => {
+      const provider = new StubProvider('stub', [
+        { suggestedName: '{"name": ', usage: usage(100, 10) },
+        { suggestedName: 'still not json', usage: usage(100, 10) },
+        { suggestedName: '{}', usage: usage(100, 10) },
+      ]);
+
+      const response = await provider.generateName('prompt', context, { structured: true });
+
+      expect(provider.requests).toHaveLength(3);
+      expect(response.error?.message).toMatch(/^Malformed structured answer: name: /);
+      expect(provider.getMetrics()).toMatchObject({ failedRequests: 1, totalTokensUsed: 330 });
+    });
+  });
+});
@@ -0,0 +1,293 @@
+import { AIProvider } from '../base/AIProvider';
+import { ConsensusProvider } from '../ConsensusProvider';
+import { FileContext, FileType } from '../../types/file';
+import { GenerateNameOptions, ProviderCapabilities, ProviderResponse } from '../../types/provider';
+
+/**
+ * Provider that answers every request the same way and records the requests
+ */
+class FakeProvider extends AIProvider {
+  readonly capabilities: ProviderCapabilities = {
+    supportsVision: false,
+    supportsStreaming: false,
+    supportsBatch: false,
+    supportsCustomModels: true,
+    maxTokens: 1000,
+  };
+  readonly calls: Array<{ prompt: string; options?: GenerateNameOptions }> = [];
+
+  constructor(
+    readonly name: string,
+    private answer: Partial<ProviderResponse>,
+  ) {
+    super({ type: 'custom', maxRetries: 0, timeout: 0, temperature: 0 });
+  }
+
+  override generateName(
+    prompt: string,
+    context: FileContext,
+    options?: GenerateNameOptions,
+  ): Promise<ProviderResponse> {
+    this.calls.push({ prompt, options });
+    return Promise.resolve({
+      originalName: context.originalName,
+      suggestedName: '',
+      confidence: 1,
+      provider: this.name,
+      ...this.answer,
+    });
+  }
+
+  protected initializeClient(): unknown {
+    return null;
+  }
+
+  protected executeRequest(): Promise<ProviderResponse> {
+    return Promise.reject(new Error('Not used'));
+  }
+
+  protected performConnectionTest(): Promise<boolean> {
+    return Promise.resolve(true);
+  }
+
+  protected requiresApiKey(): boolean {
+    return false;
+  }
+
+  protected isValidModel(): boolean {
+    return true;
+  }
+}
+
+const named = (name: string, suggestedName: string, confidence = 1): FakeProvider =>
+  new FakeProvider(name, {
+    suggestedName,
+    confidence,
+    usage: { promptTokens: 90, completionTokens: 10, totalTokens: 100, cost: 0.01 },
+  });
+
+const failing = (name: string): FakeProvider =>
+  new FakeProvider(name, { error: { code: 'NETWORK_ERROR', message: 'offline' } });
+
+describe('ConsensusProvider', () => {
+  const context: FileContext = {
+    filePath: '/files/a.txt',
+    originalName: 'a.txt',
+    directory: '/files',
+    analysis: {
+      filePath: '/files/a.txt',
+      fileName: 'a.txt',
+      fileType: FileType.Document,
+      metadata: {
+        size: 1,
+        created: new Date(),
+        modified: new Date(),
+        accessed: new Date(),
+        mimeType: 'text/plain',
+        extension: '.txt',
+      },
+    },
+  };
+
+  it('needs at least two providers', () => {
+    expect(() => new ConsensusProvider([named('a', 'name')])).toThrow(/at least two providers/);
+  });
+
+  describe('agreement', () => {
+    it('picks the name sharing the most words with the others', async () => {
+      const consensus = new ConsensusProvider([
+        named('a', 'team offsite photos'),
+        named('b', 'offsite_photos_2024'),
+        named('c', 'budgetReport'),
+      ]);
+
+      const response = await consensus.generateName('prompt', context);
+
+      expect(response.suggestedName).toBe('team offsite photos');
+      expect(response.alternatives).toEqual(['offsite_photos_2024', 'budgetReport']);
+      expect(response.consensus).toMatchObject({
+        strategy: 'agreement',
+        answers: [
+          { provider: 'a', name: 'team offsite photos', confidence: 1 },
+          { provider: 'b', name: 'offsite_photos_2024', confidence: 1 },
+          { provider: 'c', name: 'budgetReport', confidence: 1 },
+        ],
+      });
+    });
+
+    it('breaks ties by confidence, then by provider order', async () => {
+      const byConfidence = new ConsensusProvider([
+        named('a', 'invoice', 0.6),
+        named('b', 'receipt', 0.9),
+      ]);
+      const byOrder = new ConsensusProvider([named('a', 'invoice'), named('b', 'receipt')]);
+
+      expect((await byConfidence.generateName('prompt', context)).suggestedName).toBe('receipt');
+      expect((await byOrder.generateName('prompt', context)).suggestedName).toBe('invoice');
+    });
+
+    it('keeps the confidence when the providers agree', async () => {
+      const consensus = new ConsensusProvider([
+        named('a', 'offsite photos', 0.8),
+        named('b', 'Offsite-Photos', 0.8),
+      ]);
+
+      const response = await consensus.generateName('prompt', context);
+
+      expect(response.confidence).toBe(0.8);
+      expect(response.consensus?.agreement).toBe(1);
+    });
+
+    it('lowers the confidence by the mean word overlap of all pairs', async () => {
+      const consensus = new ConsensusProvider([
+        named('a', 'team offsite photos', 0.8),
+        named('b', 'offsite photos', 0.8),
+        named('c', 'budget report', 0.8),
+      ]);
+
+      const response = await consensus.generateName('prompt', context);
+
+      // Pairs overlap by 2/3, 0 and 0
+      const agreement = 2 / 3 / 3;
+      expect(response.consensus?.agreement).toBe(Math.round(agreement * 100) / 100);
+      expect(response.confidence).toBeCloseTo(0.8 * (1 - 0.5 * (1 - agreement)));
+    });
+
+    it('halves the confidence when the providers share no words', async () => {
+      const consensus = new ConsensusProvider([
+        named('a', 'invoice', 0.8),
+        named('b', 'receipt', 0.8),
+      ]);
+
+      const response = await consensus.generateName('prompt', context);
+
+      expect(response.confidence).toBe(0.4);
+    });
+
+    it('counts failed providers as disagreeing', async () => {
+      const consensus = new ConsensusProvider([
+        failing('a'),
+        named('b', 'offsite photos', 0.8),
+        named('c', 'offsite photos', 0.8),
+      ]);
+
+      const response = await consensus.generateName('prompt', context);
+
+      expect(response.suggestedName).toBe('offsite photos');
+      expect(response.error).toBeUndefined();
+      // One of three pairs agrees
+      expect(response.confidence).toBeCloseTo(0.8 * (1 - 0.5 * (2 / 3)));
+      expect(response.consensus?.answers[0]).toEqual({
+        provider: 'a',
+        name: undefined,
+        confidence: undefined,
+        error: 'offline',
+      });
+    });
+
+    it("returns the first provider's error when every provider fails", async () => {
+      const consensus = new ConsensusProvider([failing('a'), failing('b')]);
+
+      const response = await consensus.generateName('prompt', context);
+
+      expect(response).toMatchObject({ provider: 'a', error: { code: 'NETWORK_ERROR' } });
+      expect(response.consensus).toBeUndefined();
+    });
+
+    it('sums the usage of every answer', async () => {
+      const consensus = new ConsensusProvider([named('a', 'invoice'), named('b', 'receipt')]);
+
+      const response = await consensus.generateName('prompt', context);
+
+      expect(response.usage).toEqual({
+        promptTokens: 180,
+        completionTokens: 20,
+        totalTokens: 200,
+        cost: 0.02,
+      });
+    });
+
+    it('passes model overrides to the first provider only', async () => {
+      const first = named('a', 'invoice');
+      const second = named('b', 'invoice');
+
+      await new ConsensusProvider([first, second]).generateName('prompt', context, {
+        model: 'large',
+        structured: true,
+      });
+
+      expect(first.calls[0]?.options).toEqual({ model: 'large', structured: true });
+      expect(second.calls[0]?.options).toEqual({ model: undefined, structured: true });
+    });
+  });
+
+  describe('judge', () => {
+    it("uses the judge's name and lists the providers' names as alternatives", async () => {
+      const judge = new FakeProvider('judge', {
+        suggestedName: 'acme invoice march',
+        alternatives: ['acme invoice'],
+        confidence: 0.9,
+      });
+      const consensus = new ConsensusProvider([named('a', 'invoice'), named('b', 'receipt')], {
+        strategy: 'judge',
+        judge,
+      });
+
+      const response = await consensus.generateName('Name this file', context, {
+        model: 'large',
+        structured: true,
+      });
+
+      expect(response).toMatchObject({
+        suggestedName: 'acme invoice march',
+        alternatives: ['acme invoice', 'invoice', 'receipt'],
+        consensus: { strategy: 'judge', agreement: 0 },
+      });
+      // The judge's confidence is lowered by the disagreement too
+      expect(response.confidence).toBeCloseTo(0.45);
+      expect(judge.calls[0]?.prompt).toMatch(/^Name this file\n/);
+      expect(judge.calls[0]?.prompt).toContain('1. invoice\n2. receipt');
+      expect(judge.calls[0]?.options?.model).toBeUndefined();
+    });
+
+    it('picks by agreement when the judge fails', async () => {
+      const consensus = new ConsensusProvider([named('a', 'invoice'), named('b', 'receipt')], {
+        strategy: 'judge',
+        judge: failing('judge'),
+      });
+
+      const response = await consensus.generateName('prompt', context, { structured: true });
+
+      expect(response.suggestedName).toBe('invoice');
+      expect(response.consensus?.strategy).toBe('agreement');
+    });
+
+    it('does not ask the judge for unstructured requests or a single answer', async () => {
+      const judge = named('judge', 'judged');
+      const unstructured = new ConsensusProvider([named('a', 'invoice'), named('b', 'receipt')], {
+        strategy: 'judge',
+        judge,
+      });
+      const single = new ConsensusProvider([named('a', 'invoice'), failing('b')], {
+        strategy: 'judge',
+        judge,
+      });
+
+      await unstructured.generateName('prompt', context);
+      await single.generateName('prompt', context, { structured: true });
+
+      expect(judge.calls).toHaveLength(0);
+    });
+
+    it('counts the usage of the judge', async () => {
+      const consensus = new ConsensusProvider([named('a', 'invoice'), named('b', 'receipt')], {
+        strategy: 'judge',
+        judge: named('judge', 'judged'),
+      });
+
+      const response = await consensus.generateName('prompt', context, { structured: true });
+
+      expect(response.usage?.totalTokens).toBe(300);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { AIProvider } from '../base/AIProvider';
+import { ProviderChain } from '../ProviderChain';
+import { EventName, ProviderFallbackEvent } from '../../types/events';
+import { FileContext, FileType } from '../../types/file';
+import { NamingError } from '../../types/naming';
+import { GenerateNameOptions, ProviderCapabilities, ProviderResponse } from '../../types/provider';
+
+/**
+ * Provider that answers with a fixed name or fails with a fixed error
+ */
+class FakeProvider extends AIProvider {
+  readonly capabilities: ProviderCapabilities = {
+    supportsVision: false,
+    supportsStreaming: false,
+    supportsBatch: false,
+    supportsCustomModels: true,
+    maxTokens: 1000,
+  };
+  readonly calls: Array<GenerateNameOptions | undefined> = [];
+
+  constructor(
+    readonly name: string,
+    private error?: NamingError,
+  ) {
+    super({ type: 'custom', maxRetries: 0, timeout: 0, temperature: 0 });
+  }
+
+  override generateName(
+    prompt: string,
+    context: FileContext,
+    options?: GenerateNameOptions,
+  ): Promise<ProviderResponse> {
+    this.calls.push(options);
+    this.emit(EventName.ProviderRequest, { provider: this.name, prompt, timestamp: new Date() });
+    return Promise.resolve(
+      this.error
+        ? {
+            originalName: context.originalName,
+            suggestedName: context.originalName,
+            confidence: 0,
+            error: this.error,
+          }
+        : { originalName: context.originalName, suggestedName: `${this.name} name`, confidence: 1 },
+    );
+  }
+
+  protected initializeClient(): unknown {
+    return null;
+  }
+
+  protected executeRequest(): Promise<ProviderResponse> {
+    return Promise.reject(new Error('Not used'));
+  }
+
+  protected performConnectionTest(): Promise<boolean> {
+    return Promise.resolve(!this.error);
+  }
+
+  protected requiresApiKey(): boolean {
+    return false;
+  }
+
+  protected isValidModel(): boolean {
+    return true;
+  }
+}
+
+describe('ProviderChain', () => {
+  const context: FileContext = {
+    filePath: '/files/a.txt',
+    originalName: 'a.txt',
+    directory: '/files',
+    analysis: {
+      filePath: '/files/a.txt',
+      fileName: 'a.txt',
+      fileType: FileType.Document,
+      metadata: {
+        size: 1,
+        created: new Date(),
+        modified: new Date(),
+        accessed: new Date(),
+        mimeType: 'text/plain',
+        extension: '.txt',
+      },
+    },
+  };
+
+  const failure = (code: string): NamingError => ({ code, message: `${code} failure` });
+
+  it('moves to the next provider on rate limit, network and auth errors', async () => {
+    for (const code of ['RATE_LIMIT', 'NETWORK_ERROR', 'AUTH_ERROR']) {
+      const chain = new ProviderChain([
+        new FakeProvider('first', failure(code)),
+        new FakeProvider('second'),
+      ]);
+
+      const response = await chain.generateName('prompt', context);
+
+      expect(response.suggestedName).toBe('second name');
+    }
+  });
+
+  it('returns other errors without trying the next provider', async () => {
+    const second = new FakeProvider('second');
+    const chain = new ProviderChain([
+      new FakeProvider('first', failure('INVALID_RESPONSE')),
+      second,
+    ]);
+
+    const response = await chain.generateName('prompt', context);
+
+    expect(response.error?.code).toBe('INVALID_RESPONSE');
+    expect(second.calls).toHaveLength(0);
+  });
+
+  it('returns the last error when every provider fails', async () => {
+    const chain = new ProviderChain([
+      new FakeProvider('first', failure('RATE_LIMIT')),
+      new FakeProvider('second', failure('NETWORK_ERROR')),
+    ]);
+
+    const response = await chain.generateName('prompt', context);
+
+    expect(response.error?.code).toBe('NETWORK_ERROR');
+  });
+
+  it('only passes a model override to the first provider', async () => {
+    const first = new FakeProvider('first', failure('RATE_LIMIT'));
+    const second = new FakeProvider('second');
+    const chain = new ProviderChain([first, second]);
+
+    await chain.generateName('prompt', context, { model: 'cheap-model' });
+
+    expect(first.calls[0]?.model).toBe('cheap-model');
+    expect(second.calls[0]?.model).toBeUndefined();
+  });
+
+  it('emits a fallback event for each provider change', async () => {
+    const chain = new ProviderChain([
+      new FakeProvider('first', failure('RATE_LIMIT')),
+      new FakeProvider('second', failure('AUTH_ERROR')),
+      new FakeProvider('third'),
+    ]);
+    const events: ProviderFallbackEvent[] = [];
+    chain.on(EventName.ProviderFallback, (event: ProviderFallbackEvent) => {
+      events.push(event);
+    });
+
+    await chain.generateName('prompt', context);
+
+    expect(events.map(({ from, to }) => [from, to])).toEqual([
+      ['first', 'second'],
+      ['second', 'third'],
+    ]);
+    expect(events[0]).toMatchObject({ filePath: '/files/a.txt', error: { code: 'RATE_LIMIT' } });
+  });
+
+  it('forwards member events until disposed', async () => {
+    const member = new FakeProvider('first');
+    const chain = new ProviderChain([member]);
+    const listener = jest.fn();
+    chain.on(EventName.ProviderRequest, listener);
+
+    await chain.generateName('prompt', context);
+    chain.dispose();
+    await chain.generateName('prompt', context);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(member.listenerCount(EventName.ProviderRequest)).toBe(0);
+  });
+
+  it('reports the first reachable provider when testing the connection', async () => {
+    const chain = new ProviderChain([
+      new FakeProvider('first', failure('NETWORK_ERROR')),
+      new FakeProvider('second'),
+    ]);
+
+    const result = await chain.testConnection();
+
+    expect(result.success).toBe(true);
+    expect(result.details).toMatchObject({ provider: 'second' });
+  });
+});
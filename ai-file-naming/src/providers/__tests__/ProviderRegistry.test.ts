@@ -0,0 +1,30 @@
+import { ProviderRegistry } from '..';
+import { BaseProviderConfig } from '../../types/config';
+
+describe('ProviderRegistry', () => {
+  const config: BaseProviderConfig = {
+    type: 'ollama',
+    baseURL: 'http://localhost:11434',
+    model: 'llama3',
+    maxRetries: 0,
+    timeout: 1000,
+    temperature: 0,
+  };
+
+  afterEach(() => {
+    ProviderRegistry.clearInstances();
+  });
+
+  it('shares instances between callers with the same config', () => {
+    expect(ProviderRegistry.getOrCreate(config)).toBe(ProviderRegistry.getOrCreate({ ...config }));
+  });
+
+  it('gives a custom pricing table its own instance', () => {
+    const shared = ProviderRegistry.getOrCreate(config);
+    const priced = ProviderRegistry.getOrCreate(config, { ollama: { '*': 1 } });
+
+    expect(priced).not.toBe(shared);
+    expect(ProviderRegistry.getOrCreate(config, { ollama: { '*': 1 } })).toBe(priced);
+    expect(ProviderRegistry.getOrCreate(config)).toBe(shared);
+  });
+});
@@ -0,0 +1,184 @@
+import { AIProvider } from '../base/AIProvider';
+import { ProviderRouter } from '../ProviderRouter';
+import { FileContext, FileType } from '../../types/file';
+import { RoutingRule } from '../../types/config';
+import { GenerateNameOptions, ProviderCapabilities, ProviderResponse } from '../../types/provider';
+
+/**
+ * Provider that answers with its own name, with or without vision
+ */
+class FakeProvider extends AIProvider {
+  readonly capabilities: ProviderCapabilities;
+  readonly calls: Array<GenerateNameOptions | undefined> = [];
+
+  constructor(
+    readonly name: string,
+    supportsVision = false,
+    private reachable = true,
+  ) {
+    super({ type: 'custom', maxRetries: 0, timeout: 0, temperature: 0 });
+    this.capabilities = {
+      supportsVision,
+      supportsStreaming: false,
+      supportsBatch: false,
+      supportsCustomModels: true,
+      maxTokens: 1000,
+    };
+  }
+
+  override generateName(
+    _prompt: string,
+    context: FileContext,
+    options?: GenerateNameOptions,
+  ): Promise<ProviderResponse> {
+    this.calls.push(options);
+    return Promise.resolve({
+      originalName: context.originalName,
+      suggestedName: `${this.name} name`,
+      confidence: 1,
+      provider: this.name,
+    });
+  }
+
+  protected initializeClient(): unknown {
+    return null;
+  }
+
+  protected executeRequest(): Promise<ProviderResponse> {
+    return Promise.reject(new Error('Not used'));
+  }
+
+  protected performConnectionTest(): Promise<boolean> {
+    return Promise.resolve(this.reachable);
+  }
+
+  protected requiresApiKey(): boolean {
+    return false;
+  }
+
+  protected isValidModel(): boolean {
+    return true;
+  }
+}
+
+const fileContext = (fileName: string, fileType: FileType, size = 1000): FileContext => ({
+  filePath: `/files/${fileName}`,
+  originalName: fileName,
+  directory: '/files',
+  analysis: {
+    filePath: `/files/${fileName}`,
+    fileName,
+    fileType,
+    metadata: {
+      size,
+      created: new Date(),
+      modified: new Date(),
+      accessed: new Date(),
+      mimeType: 'application/octet-stream',
+      extension: fileName.slice(fileName.lastIndexOf('.')),
+    },
+  },
+});
+
+// The provider configs only matter to the SDK, which builds the providers from them
+const rule = (fields: Omit<RoutingRule, 'provider'>): RoutingRule => ({
+  ...fields,
+  provider: { type: 'custom', maxRetries: 0, timeout: 0, temperature: 0 },
+});
+
+describe('ProviderRouter', () => {
+  const photo = fileContext('IMG_0001.jpg', FileType.Image);
+  const report = fileContext('report.pdf', FileType.Document);
+
+  it('sends files matching no rule to the default provider', async () => {
+    const fallback = new FakeProvider('default');
+    const text = new FakeProvider('text');
+    const router = new ProviderRouter(fallback, [
+      { rule: rule({ fileTypes: [FileType.Code] }), provider: text },
+    ]);
+
+    const response = await router.generateName('prompt', report, { model: 'large' });
+
+    expect(response.provider).toBe('default');
+    expect(router.selectRoute(report)).toBeUndefined();
+    // Model overrides are meant for the default provider
+    expect(fallback.calls).toEqual([{ model: 'large' }]);
+  });
+
+  it('uses the first rule that matches', async () => {
+    const first = new FakeProvider('first');
+    const second = new FakeProvider('second');
+    const router = new ProviderRouter(new FakeProvider('default'), [
+      { rule: rule({ fileTypes: [FileType.Document] }), provider: first },
+      { rule: rule({ extensions: ['pdf'] }), provider: second },
+    ]);
+
+    const response = await router.generateName('prompt', report, { model: 'large' });
+
+    expect(response.provider).toBe('first');
+    expect(first.calls).toEqual([{ model: undefined }]);
+    expect(second.calls).toHaveLength(0);
+  });
+
+  it('matches extensions with or without the dot and in any case', () => {
+    const text = new FakeProvider('text');
+    const router = new ProviderRouter(new FakeProvider('default'), [
+      { rule: rule({ extensions: ['.PDF', 'docx'] }), provider: text },
+    ]);
+
+    expect(router.selectRoute(report)?.provider).toBe(text);
+    expect(router.selectRoute(fileContext('notes.DOCX', FileType.Document))?.provider).toBe(text);
+    expect(router.selectRoute(fileContext('notes.txt', FileType.Document))).toBeUndefined();
+  });
+
+  it('matches file sizes within the bounds', () => {
+    const large = new FakeProvider('large');
+    const router = new ProviderRouter(new FakeProvider('default'), [
+      { rule: rule({ minSize: 1000, maxSize: 5000 }), provider: large },
+    ]);
+
+    expect(router.selectRoute(fileContext('a.pdf', FileType.Document, 999))).toBeUndefined();
+    expect(router.selectRoute(fileContext('a.pdf', FileType.Document, 1000))).toBeDefined();
+    expect(router.selectRoute(fileContext('a.pdf', FileType.Document, 5000))).toBeDefined();
+    expect(router.selectRoute(fileContext('a.pdf', FileType.Document, 5001))).toBeUndefined();
+  });
+
+  it('skips text-only providers for images', () => {
+    const text = new FakeProvider('text');
+    const vision = new FakeProvider('vision', true);
+    const router = new ProviderRouter(new FakeProvider('default'), [
+      { rule: rule({}), provider: text },
+      { rule: rule({}), provider: vision },
+    ]);
+
+    expect(router.selectRoute(photo)?.provider).toBe(vision);
+    expect(router.selectRoute(report)?.provider).toBe(text);
+  });
+
+  it('follows the rule when it says whether vision is required', () => {
+    const text = new FakeProvider('text');
+    const forced = new ProviderRouter(new FakeProvider('default'), [
+      { rule: rule({ requireVision: false }), provider: text },
+    ]);
+    const visionOnly = new ProviderRouter(new FakeProvider('default'), [
+      { rule: rule({ requireVision: true }), provider: text },
+    ]);
+
+    expect(forced.selectRoute(photo)?.provider).toBe(text);
+    expect(visionOnly.selectRoute(report)).toBeUndefined();
+  });
+
+  it('reports every unreachable provider from the connection test', async () => {
+    const router = new ProviderRouter(new FakeProvider('default'), [
+      { rule: rule({}), provider: new FakeProvider('text', false, false) },
+      { rule: rule({}), provider: new FakeProvider('vision', true, false) },
+    ]);
+
+    const result = await router.testConnection();
+
+    expect(result).toMatchObject({
+      success: false,
+      error: 'Unreachable provider(s): text, vision',
+    });
+  });
+});
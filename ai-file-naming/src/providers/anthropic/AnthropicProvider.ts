@@ -9,7 +9,19 @@ import {
   ProviderResponse,
 } from '../../types/provider';
 import { AnthropicConfig } from '../../types/config';
-import { AnthropicClient, AnthropicMessage, AnthropicMessageContent } from '../../types/ai-clients';
+import { NAMING_ANSWER_JSON_SCHEMA } from '../../types/naming';
+import {
+  AnthropicClient,
+  AnthropicMessage,
+  AnthropicMessageContent,
+  AnthropicTextBlock,
+  AnthropicToolUseBlock,
+} from '../../types/ai-clients';
+
+/**
+ * Tool the model is made to call with a structured answer
+ */
+const NAMING_TOOL = 'name_file';
 
 /**
  * Anthropic Provider class
@@ -73,37 +85,49 @@ export class AnthropicProvider extends AIProvider {
 
       // Make request to Anthropic
       const response = await this.client.messages.create({
-        model: this.config.model ?? 'claude-3-opus-20240229',
+        model: context.model ?? this.config.model ?? 'claude-3-opus-20240229',
         max_tokens: context.maxTokens ?? this.config.maxTokens ?? 1024,
         temperature: context.temperature ?? this.config.temperature,
+        system: context.systemPrompt,
         messages,
+        // Structured answers come back as the input of a forced tool call
+        ...(context.structured && {
+          tools: [
+            {
+              name: NAMING_TOOL,
+              description: 'Record the suggested filename and what the file contains',
+              input_schema: NAMING_ANSWER_JSON_SCHEMA,
+            },
+          ],
+          tool_choice: { type: 'tool', name: NAMING_TOOL },
+        }),
       });
 
       if (!response.content || response.content.length === 0) {
         throw new Error('No content in Anthropic response');
       }
 
-      const textContent = response.content.find((c) => c.type === 'text');
-      if (!textContent) {
+      const toolUse = response.content.find(
+        (c): c is AnthropicToolUseBlock => c.type === 'tool_use' && c.name === NAMING_TOOL,
+      );
+      const textContent = response.content.find((c): c is AnthropicTextBlock => c.type === 'text');
+      const text = toolUse ? JSON.stringify(toolUse.input) : textContent?.text;
+      if (!text) {
         throw new Error('No text content in Anthropic response');
       }
 
       // Extract suggested name from response
-      const suggestedName = this.sanitizeResponse(textContent.text);
+      const suggestedName = this.sanitizeResponse(text);
 
       // Calculate confidence based on stop reason
-      const confidence = response.stop_reason === 'end_turn' ? 0.95 : 0.8;
-
-      // Update token usage metrics
-      if (response.usage) {
-        this.metrics.totalTokensUsed += response.usage.input_tokens + response.usage.output_tokens;
-      }
+      const confidence =
+        response.stop_reason === 'end_turn' || response.stop_reason === 'tool_use' ? 0.95 : 0.8;
 
       return {
         originalName: context.request.context.originalName,
         suggestedName,
         confidence,
-        reasoning: textContent.text,
+        reasoning: text,
         usage: response.usage
           ? {
               promptTokens: response.usage.input_tokens,
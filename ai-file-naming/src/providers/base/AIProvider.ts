@@ -3,6 +3,7 @@
  */
 
 import {
+  GenerateNameOptions,
   ProviderCapabilities,
   ProviderStatus,
   ProviderValidationResult,
@@ -14,12 +15,45 @@ import {
   RateLimitInfo,
   StreamChunk,
 } from '../../types/provider';
-import { NamingRequest, NamingResponse, NamingError } from '../../types/naming';
+import {
+  DetectedContent,
+  NamingAnswer,
+  NamingAnswerSchema,
+  NamingRequest,
+  NamingResponse,
+  NamingError,
+  TokenUsage,
+} from '../../types/naming';
 import { FileContext, FileType } from '../../types/file';
 import { BaseProviderConfig } from '../../types/config';
 import { EventEmitter } from '../../events/EventEmitter';
 import { EventName } from '../../types/events';
 import { Logger } from '../../utils/Logger';
+import { DEFAULT_PRICING, calculateCost, mergePricing } from '../../utils/Pricing';
+import { PricingTable } from '../../types/budget';
+
+/**
+ * Repair requests sent after a malformed structured answer
+ */
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Alternatives asked for in a structured answer unless the caller says otherwise
+ */
+const DEFAULT_ALTERNATIVES = 3;
+
+/**
+ * Instructions appended to prompts that ask for a structured answer
+ */
+const STRUCTURED_INSTRUCTIONS =
+  '\n\nRespond only with a JSON object with these keys:' +
+  '\n- name: the suggested filename, without extension' +
+  '\n- alternatives: {alternatives}' +
+  '\n- confidence: how well the name fits the file, from 0 to 1' +
+  '\n- reasoning: one sentence on why the name fits' +
+  '\n- subject: the main subject of the file, or null' +
+  '\n- date: the date the content refers to as YYYY-MM-DD, or null' +
+  '\n- entities: people, organizations, places or products named in the file';
 
 /**
  * Abstract base class for all AI providers
@@ -62,9 +96,18 @@ export abstract class AIProvider extends EventEmitter {
     failedRequests: 0,
     averageLatency: 0,
     totalTokensUsed: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalCost: 0,
+    byModel: {},
     errors: [],
   };
 
+  /**
+   * Prices used to cost token usage
+   */
+  protected pricing: PricingTable = DEFAULT_PRICING;
+
   /**
    * Rate limit information
    */
@@ -100,7 +143,11 @@ export abstract class AIProvider extends EventEmitter {
   /**
    * Generate a name for a single file
    */
-  async generateName(prompt: string, context: FileContext): Promise<NamingResponse> {
+  async generateName(
+    prompt: string,
+    context: FileContext,
+    options?: GenerateNameOptions,
+  ): Promise<ProviderResponse> {
     const startTime = Date.now();
     this.metrics.totalRequests++;
 
@@ -113,28 +160,36 @@ export abstract class AIProvider extends EventEmitter {
       });
 
       // Prepare the request
-      const requestContext = await this.prepareRequest(prompt, context);
+      const requestContext = await this.prepareRequest(prompt, context, options);
 
       // Execute the request with retry logic
-      const response = await this.executeWithRetry(
+      let response = await this.executeWithRetry(
         () => this.executeRequest(requestContext),
         this.config.maxRetries,
       );
+      if (requestContext.structured) {
+        response = await this.withStructuredAnswer(requestContext, response);
+      }
 
       // Update metrics
       this.metrics.successfulRequests++;
       const latency = Date.now() - startTime;
       this.updateAverageLatency(latency);
+      const costed = {
+        ...this.recordUsage(response, requestContext.model),
+        provider: this.name,
+        model: response.model ?? requestContext.model ?? this.config.model,
+      };
 
       // Emit response event
       this.emit(EventName.ProviderResponse, {
         provider: this.name,
-        response,
+        response: costed,
         duration: latency,
         timestamp: new Date(),
       });
 
-      return response;
+      return costed;
     } catch (error) {
       this.metrics.failedRequests++;
       const namingError = this.handleError(error);
@@ -300,7 +355,17 @@ export abstract class AIProvider extends EventEmitter {
    * Get provider metrics
    */
   getMetrics(): ProviderMetrics {
-    return { ...this.metrics };
+    const byModel = Object.fromEntries(
+      Object.entries(this.metrics.byModel).map(([model, usage]) => [model, { ...usage }]),
+    );
+    return { ...this.metrics, byModel };
+  }
+
+  /**
+   * Set the prices used to cost token usage, merged over the defaults
+   */
+  setPricing(pricing?: PricingTable): void {
+    this.pricing = mergePricing(pricing);
   }
 
   /**
@@ -320,6 +385,10 @@ export abstract class AIProvider extends EventEmitter {
       failedRequests: 0,
       averageLatency: 0,
       totalTokensUsed: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalCost: 0,
+      byModel: {},
       errors: [],
     };
   }
@@ -390,6 +459,34 @@ export abstract class AIProvider extends EventEmitter {
     return preparedImages;
   }
 
+  /**
+   * Sample frames from a video for vision models. Returns undefined when
+   * frames are disabled or ffmpeg is unavailable, so the request falls back
+   * to the video's metadata. A duration already in the metadata saves
+   * probing the video again.
+   */
+  protected async prepareVideoFrames(context: FileContext): Promise<PreparedImage[] | undefined> {
+    const VideoUtils = await import('../../utils/VideoUtils');
+    const count = this.config.videoFrames ?? VideoUtils.DEFAULT_VIDEO_FRAMES;
+    if (count === 0) {
+      return undefined;
+    }
+
+    const videoPath = context.filePath;
+    const metadata = context.analysis.metadata;
+    const duration = 'fps' in metadata && metadata.duration > 0 ? metadata.duration : undefined;
+    try {
+      const frames = await VideoUtils.prepareVideoFrames(videoPath, { count, duration });
+      return frames.length > 0 ? frames : undefined;
+    } catch (error) {
+      this.providerLogger.debug('Sending video without frames', {
+        videoPath,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
   /**
    * Build default prompt
    */
@@ -403,6 +500,10 @@ export abstract class AIProvider extends EventEmitter {
       prompt += `Content: ${context.analysis.content.summary}\n`;
     }
 
+    if (context.analysis.content?.details?.length) {
+      prompt += `Details: ${context.analysis.content.details.join('; ')}\n`;
+    }
+
     if (context.analysis.content?.keywords?.length) {
       prompt += `Keywords: ${context.analysis.content.keywords.join(', ')}\n`;
     }
@@ -420,6 +521,7 @@ export abstract class AIProvider extends EventEmitter {
   protected async prepareRequest(
     prompt: string,
     context: FileContext,
+    options?: GenerateNameOptions,
   ): Promise<ProviderRequestContext> {
     const request: NamingRequest = {
       id: this.generateRequestId(),
@@ -427,18 +529,153 @@ export abstract class AIProvider extends EventEmitter {
       prompt,
     };
 
-    // Prepare images if the file is an image and provider supports vision
-    let images: PreparedImage[] | undefined;
-    if (this.capabilities.supportsVision && context.analysis.fileType === FileType.Image) {
-      images = await this.prepareImages([context.filePath]);
+    // Prepare images (or sampled frames of a video) if the provider supports vision
+    let images: PreparedImage[] | undefined = options?.images;
+    if (!images && this.capabilities.supportsVision) {
+      if (context.analysis.fileType === FileType.Image) {
+        images = await this.prepareImages([context.filePath]);
+      } else if (context.analysis.fileType === FileType.Video) {
+        images = await this.prepareVideoFrames(context);
+      }
     }
 
+    const structured = options?.structured === true && this.config.structuredOutput !== false;
+
     return {
       request,
       images,
-      userPrompt: prompt,
+      model: options?.model,
+      systemPrompt: options?.systemPrompt,
+      userPrompt: structured
+        ? prompt + this.buildStructuredInstructions(options?.alternatives)
+        : prompt,
       temperature: this.config.temperature,
-      maxTokens: this.config.maxTokens,
+      maxTokens: options?.maxTokens ?? this.config.maxTokens,
+      structured,
+    };
+  }
+
+  /**
+   * Instructions for a structured answer with the given number of alternatives
+   */
+  private buildStructuredInstructions(alternatives = DEFAULT_ALTERNATIVES): string {
+    const count = Math.max(0, Math.floor(alternatives));
+    return STRUCTURED_INSTRUCTIONS.replace(
+      '{alternatives}',
+      count > 0 ? `${count} other good filenames, best first` : 'an empty list',
+    );
+  }
+
+  /**
+   * Validate a structured answer, asking the provider to repair malformed ones
+   *
+   * Usage of the repair requests is added to the response. If the answer is
+   * still malformed after the last repair, the usage is recorded and the
+   * request fails.
+   */
+  private async withStructuredAnswer(
+    requestContext: ProviderRequestContext,
+    response: ProviderResponse,
+  ): Promise<ProviderResponse> {
+    let current = response;
+    let usage = response.usage;
+    let issues = '';
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      if (attempt > 0) {
+        this.providerLogger.warn('Malformed structured answer, asking the provider to repair it', {
+          provider: this.name,
+          attempt,
+          issues,
+        });
+
+        const repairContext: ProviderRequestContext = {
+          ...requestContext,
+          userPrompt: this.buildRepairPrompt(requestContext.userPrompt, current, issues),
+        };
+        current = await this.executeWithRetry(
+          () => this.executeRequest(repairContext),
+          this.config.maxRetries,
+        );
+        usage = addUsage(usage, current.usage);
+      }
+
+      const parsed = this.parseStructuredAnswer(current.reasoning ?? current.suggestedName);
+      if (parsed.success) {
+        return this.applyStructuredAnswer({ ...current, usage }, parsed.answer);
+      }
+      issues = parsed.issues;
+    }
+
+    this.recordUsage({ ...current, usage }, requestContext.model);
+    throw new Error(`Malformed structured answer: ${issues}`);
+  }
+
+  /**
+   * Parse and validate a structured answer from the raw response text
+   */
+  private parseStructuredAnswer(
+    text: string,
+  ): { success: true; answer: NamingAnswer } | { success: false; issues: string } {
+    const match = text.match(/\{[\s\S]*\}/);
+    if (!match) {
+      return { success: false, issues: 'no JSON object in the answer' };
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(match[0]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, issues: `invalid JSON (${message})` };
+    }
+
+    const result = NamingAnswerSchema.safeParse(json);
+    if (!result.success) {
+      const issues = result.error.issues.map(
+        (issue) => `${issue.path.join('.') || 'answer'}: ${issue.message}`,
+      );
+      return { success: false, issues: issues.join('; ') };
+    }
+
+    return { success: true, answer: result.data };
+  }
+
+  /**
+   * Build a prompt asking the provider to fix a malformed structured answer
+   */
+  private buildRepairPrompt(prompt: string, previous: ProviderResponse, issues: string): string {
+    const answer = (previous.reasoning ?? previous.suggestedName).slice(0, 1000);
+    return (
+      `${prompt}\n\nYour previous answer could not be used (${issues}):\n${answer}` +
+      '\n\nAnswer again with only the JSON object described above.'
+    );
+  }
+
+  /**
+   * Use a validated structured answer as the response
+   */
+  private applyStructuredAnswer(
+    response: ProviderResponse,
+    answer: NamingAnswer,
+  ): ProviderResponse {
+    const suggestedName = this.sanitizeResponse(answer.name);
+    const alternatives = [
+      ...new Set(answer.alternatives.map((name) => this.sanitizeResponse(name))),
+    ].filter((name) => name && name !== suggestedName);
+
+    const detected: DetectedContent = {};
+    if (answer.subject) detected.subject = answer.subject;
+    if (answer.date) detected.date = answer.date;
+    if (answer.entities.length > 0) detected.entities = answer.entities;
+
+    return {
+      ...response,
+      suggestedName,
+      confidence: answer.confidence,
+      reasoning: answer.reasoning.trim() ? answer.reasoning.trim() : undefined,
+      alternatives: alternatives.length > 0 ? alternatives : undefined,
+      detected: Object.keys(detected).length > 0 ? detected : undefined,
     };
   }
 
@@ -469,8 +706,10 @@ export abstract class AIProvider extends EventEmitter {
    */
   protected override handleError(error: unknown): NamingError {
     if (error instanceof Error) {
+      const message = error.message.toLowerCase();
+
       // Check for rate limit errors
-      if (error.message.includes('rate limit') || error.message.includes('429')) {
+      if (message.includes('rate limit') || message.includes('429')) {
         this.emit(EventName.ProviderRateLimit, {
           provider: this.name,
           timestamp: new Date(),
@@ -486,10 +725,10 @@ export abstract class AIProvider extends EventEmitter {
 
       // Check for auth errors
       if (
-        error.message.includes('401') ||
-        error.message.includes('403') ||
-        error.message.includes('authentication') ||
-        error.message.includes('unauthorized')
+        message.includes('401') ||
+        message.includes('403') ||
+        message.includes('authentication') ||
+        message.includes('unauthorized')
       ) {
         return {
           code: 'AUTH_ERROR',
@@ -501,9 +740,12 @@ export abstract class AIProvider extends EventEmitter {
 
       // Check for network errors
       if (
-        error.message.includes('ECONNREFUSED') ||
-        error.message.includes('ETIMEDOUT') ||
-        error.message.includes('network')
+        message.includes('econnrefused') ||
+        message.includes('etimedout') ||
+        message.includes('econnreset') ||
+        message.includes('enotfound') ||
+        message.includes('cannot connect') ||
+        message.includes('network')
       ) {
         return {
           code: 'NETWORK_ERROR',
@@ -530,6 +772,40 @@ export abstract class AIProvider extends EventEmitter {
     };
   }
 
+  /**
+   * Add a response's token usage to the metrics and price it
+   */
+  private recordUsage(response: ProviderResponse, requestedModel?: string): ProviderResponse {
+    if (!response.usage) {
+      return response;
+    }
+
+    const model = response.model ?? requestedModel ?? this.config.model ?? 'default';
+    const { promptTokens, completionTokens, totalTokens } = response.usage;
+    const cost = calculateCost(this.pricing, this.name, model, totalTokens, completionTokens);
+
+    this.metrics.totalTokensUsed += totalTokens;
+    this.metrics.promptTokens += promptTokens;
+    this.metrics.completionTokens += completionTokens;
+    this.metrics.totalCost += cost;
+
+    const usage = this.metrics.byModel[model] ?? {
+      requests: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      cost: 0,
+    };
+    usage.requests++;
+    usage.promptTokens += promptTokens;
+    usage.completionTokens += completionTokens;
+    usage.totalTokens += totalTokens;
+    usage.cost += cost;
+    this.metrics.byModel[model] = usage;
+
+    return { ...response, usage: { ...response.usage, cost } };
+  }
+
   /**
    * Update average latency
    */
@@ -545,3 +821,18 @@ export abstract class AIProvider extends EventEmitter {
     return `${this.name}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
   }
 }
+
+/**
+ * Sum the token usage of two requests
+ */
+function addUsage(a?: TokenUsage, b?: TokenUsage): TokenUsage | undefined {
+  if (!a || !b) {
+    return a ?? b;
+  }
+
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * CompositeProvider - Base class for providers that delegate to other providers
+ *
+ * Requests, validation and metrics go to the member providers; the composite
+ * itself has no client. Providers shared between nested composites are only
+ * counted once in the metrics. Member providers can be shared with other
+ * composites (`ProviderRegistry` caches them), so a composite that is
+ * replaced must be disposed to stop forwarding their events.
+ */
+
+import { AIProvider } from './AIProvider';
+import {
+  ConnectionTestResult,
+  ProviderCapabilities,
+  ProviderMetrics,
+  ProviderRequestContext,
+  ProviderResponse,
+  ProviderValidationResult,
+} from '../../types/provider';
+import { PricingTable } from '../../types/budget';
+import { EventName } from '../../types/events';
+
+/**
+ * Provider events passed on from the member providers
+ */
+const FORWARDED_EVENTS = [
+  EventName.ProviderRequest,
+  EventName.ProviderResponse,
+  EventName.ProviderError,
+  EventName.ProviderRateLimit,
+  EventName.ProviderFallback,
+];
+
+/**
+ * Composite provider base class
+ */
+export abstract class CompositeProvider extends AIProvider {
+  readonly name: string;
+  readonly capabilities: ProviderCapabilities;
+
+  protected members: AIProvider[];
+  private forwarders: Array<{
+    provider: AIProvider;
+    event: EventName;
+    handler: (data: unknown) => void;
+  }> = [];
+
+  /**
+   * @param primary - Provider whose name and capabilities the composite reports
+   * @param members - All member providers, including the primary
+   */
+  constructor(primary: AIProvider, members: AIProvider[]) {
+    super({ type: 'custom', maxRetries: 0, timeout: 0, temperature: 0 });
+
+    this.members = [...new Set(members)];
+    this.name = primary.name;
+    this.capabilities = primary.capabilities;
+
+    for (const provider of this.members) {
+      for (const event of FORWARDED_EVENTS) {
+        const handler = (data: unknown) => this.emit(event, data);
+        provider.on(event, handler);
+        this.forwarders.push({ provider, event, handler });
+      }
+    }
+  }
+
+  /**
+   * Stop forwarding the member providers' events, including those of nested
+   * composites
+   */
+  dispose(): void {
+    for (const { provider, event, handler } of this.forwarders) {
+      provider.off(event, handler);
+    }
+    this.forwarders = [];
+
+    for (const provider of this.members) {
+      if (provider instanceof CompositeProvider) {
+        provider.dispose();
+      }
+    }
+  }
+
+  /**
+   * Member providers, with nested composites expanded
+   */
+  getLeafProviders(): AIProvider[] {
+    const leaves = this.members.flatMap((provider) =>
+      provider instanceof CompositeProvider ? provider.getLeafProviders() : [provider],
+    );
+    return [...new Set(leaves)];
+  }
+
+  /**
+   * Test the member providers
+   */
+  abstract override testConnection(): Promise<ConnectionTestResult>;
+
+  /**
+   * Validate every member provider
+   */
+  override async validateConfig(): Promise<ProviderValidationResult> {
+    const results = await Promise.all(
+      this.members.map(async (provider) => ({
+        provider: provider.name,
+        result: await provider.validateConfig(),
+      })),
+    );
+    const errors = results.flatMap(({ provider, result }) =>
+      (result.errors ?? []).map((message) => `${provider}: ${message}`),
+    );
+    const warnings = results.flatMap(({ provider, result }) =>
+      (result.warnings ?? []).map((message) => `${provider}: ${message}`),
+    );
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+      warnings: warnings.length > 0 ? warnings : undefined,
+      capabilities: this.capabilities,
+    };
+  }
+
+  /**
+   * Metrics summed over the member providers
+   */
+  override getMetrics(): ProviderMetrics {
+    const all = this.getLeafProviders().map((provider) => provider.getMetrics());
+    const total: ProviderMetrics = {
+      totalRequests: 0,
+      successfulRequests: 0,
+      failedRequests: 0,
+      averageLatency: 0,
+      totalTokensUsed: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalCost: 0,
+      byModel: {},
+      errors: [],
+    };
+
+    for (const metrics of all) {
+      total.totalRequests += metrics.totalRequests;
+      total.successfulRequests += metrics.successfulRequests;
+      total.failedRequests += metrics.failedRequests;
+      total.averageLatency += metrics.averageLatency * metrics.successfulRequests;
+      total.totalTokensUsed += metrics.totalTokensUsed;
+      total.promptTokens += metrics.promptTokens;
+      total.completionTokens += metrics.completionTokens;
+      total.totalCost += metrics.totalCost;
+      total.errors.push(...metrics.errors);
+
+      for (const [model, usage] of Object.entries(metrics.byModel)) {
+        const current = total.byModel[model];
+        total.byModel[model] = current
+          ? {
+              requests: current.requests + usage.requests,
+              promptTokens: current.promptTokens + usage.promptTokens,
+              completionTokens: current.completionTokens + usage.completionTokens,
+              totalTokens: current.totalTokens + usage.totalTokens,
+              cost: current.cost + usage.cost,
+            }
+          : usage;
+      }
+    }
+
+    if (total.successfulRequests > 0) {
+      total.averageLatency /= total.successfulRequests;
+    }
+    total.errors.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    return total;
+  }
+
+  /**
+   * Set the prices used by every member provider
+   */
+  override setPricing(pricing?: PricingTable): void {
+    for (const provider of this.members) {
+      provider.setPricing(pricing);
+    }
+  }
+
+  /**
+   * Reset the metrics of every member provider
+   */
+  override resetMetrics(): void {
+    for (const provider of this.members) {
+      provider.resetMetrics();
+    }
+  }
+
+  /**
+   * A composite has no client of its own
+   */
+  protected initializeClient(): unknown {
+    return null;
+  }
+
+  /**
+   * Requests go through the member providers' `generateName`
+   */
+  protected executeRequest(_context: ProviderRequestContext): Promise<ProviderResponse> {
+    return Promise.reject(
+      new Error(`${this.constructor.name} sends requests through its providers`),
+    );
+  }
+
+  /**
+   * Connection tests go through the member providers
+   */
+  protected async performConnectionTest(): Promise<boolean> {
+    return (await this.testConnection()).success;
+  }
+
+  /**
+   * Credentials are checked by each member provider
+   */
+  protected requiresApiKey(): boolean {
+    return false;
+  }
+
+  /**
+   * Models are checked by each member provider
+   */
+  protected isValidModel(_model: string): boolean {
+    return true;
+  }
+}
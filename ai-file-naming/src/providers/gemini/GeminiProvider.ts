@@ -10,6 +10,7 @@ import {
 } from '../../types/provider';
 import { GeminiConfig } from '../../types/config';
 import { FileType } from '../../types/file';
+import { NAMING_ANSWER_JSON_SCHEMA } from '../../types/naming';
 
 /**
  * Gemini Provider class
@@ -64,11 +65,25 @@ export class GeminiProvider extends AIProvider {
    */
   protected async executeRequest(context: ProviderRequestContext): Promise<ProviderResponse> {
     try {
+      const modelName = context.model ?? this.config.model ?? 'gemini-pro-vision';
       // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
       const model = (
-        this.client as { getGenerativeModel: (config: { model: string }) => unknown }
+        this.client as {
+          getGenerativeModel: (config: {
+            model: string;
+            systemInstruction?: string;
+            generationConfig?: Record<string, unknown>;
+          }) => unknown;
+        }
       ).getGenerativeModel({
-        model: this.config.model ?? 'gemini-pro-vision',
+        model: modelName,
+        systemInstruction: context.systemPrompt,
+        generationConfig: context.structured
+          ? {
+              responseMimeType: 'application/json',
+              responseSchema: this.toResponseSchema(NAMING_ANSWER_JSON_SCHEMA),
+            }
+          : undefined,
       });
 
       const parts: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }> = [
@@ -128,10 +143,6 @@ export class GeminiProvider extends AIProvider {
           }
         : undefined;
 
-      if (usage) {
-        this.metrics.totalTokensUsed += usage.totalTokens;
-      }
-
       return {
         originalName: context.request.context.originalName,
         suggestedName,
@@ -139,13 +150,43 @@ export class GeminiProvider extends AIProvider {
         // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
         reasoning: text,
         usage,
-        model: this.config.model ?? 'gemini-pro-vision',
+        model: modelName,
       };
     } catch (error) {
       throw this.transformError(error);
     }
   }
 
+  /**
+   * Convert a JSON Schema to the OpenAPI subset Gemini accepts as a response schema
+   */
+  private toResponseSchema(schema: Record<string, unknown>): Record<string, unknown> {
+    const converted: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(schema)) {
+      if (key === 'additionalProperties') continue;
+
+      if (key === 'type' && Array.isArray(value)) {
+        // ['string', 'null'] becomes a nullable string
+        converted['type'] = value.find((type) => type !== 'null');
+        converted['nullable'] = value.includes('null');
+      } else if (key === 'properties' && value && typeof value === 'object') {
+        converted[key] = Object.fromEntries(
+          Object.entries(value).map(([name, property]) => [
+            name,
+            this.toResponseSchema(property as Record<string, unknown>),
+          ]),
+        );
+      } else if (key === 'items' && value && typeof value === 'object') {
+        converted[key] = this.toResponseSchema(value as Record<string, unknown>);
+      } else {
+        converted[key] = value;
+      }
+    }
+
+    return converted;
+  }
+
   /**
    * Transform Gemini errors
    */
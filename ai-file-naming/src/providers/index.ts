@@ -11,11 +11,15 @@ import { Logger } from '../utils/Logger';
 
 // Export providers
 export { AIProvider } from './base/AIProvider';
+export { CompositeProvider } from './base/CompositeProvider';
 export { OpenAIProvider } from './openai/OpenAIProvider';
 export { OllamaProvider } from './ollama/OllamaProvider';
 export { AnthropicProvider } from './anthropic/AnthropicProvider';
 export { GeminiProvider } from './gemini/GeminiProvider';
 export { ProviderRegistry } from './ProviderRegistry';
+export { ProviderChain } from './ProviderChain';
+export { ConsensusProvider, ConsensusProviderOptions } from './ConsensusProvider';
+export { ProviderRouter, ProviderRoute } from './ProviderRouter';
 
 // Register all built-in providers
 ProviderRegistry.register('openai', OpenAIProvider, {
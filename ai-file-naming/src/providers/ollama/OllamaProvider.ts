@@ -11,6 +11,7 @@ import {
 import { OllamaConfig } from '../../types/config';
 import { OllamaClient, OllamaMessage } from '../../types/ai-clients';
 import { FileType } from '../../types/file';
+import { NAMING_ANSWER_JSON_SCHEMA } from '../../types/naming';
 
 /**
  * Ollama Provider class for local AI models
@@ -67,9 +68,13 @@ export class OllamaProvider extends AIProvider {
    */
   protected async executeRequest(context: ProviderRequestContext): Promise<ProviderResponse> {
     try {
-      const model = this.config.model ?? 'llava';
+      const model = context.model ?? this.config.model ?? 'llava';
       const messages: OllamaMessage[] = [];
 
+      if (context.systemPrompt) {
+        messages.push({ role: 'system', content: context.systemPrompt });
+      }
+
       // Build images array for Ollama
       const images: string[] = [];
 
@@ -90,6 +95,7 @@ export class OllamaProvider extends AIProvider {
       const response = await this.client.chat({
         model,
         messages,
+        format: context.structured ? NAMING_ANSWER_JSON_SCHEMA : undefined,
         options: {
           temperature: context.temperature ?? this.config.temperature,
           num_predict: context.maxTokens ?? this.config.maxTokens,
@@ -111,6 +117,14 @@ export class OllamaProvider extends AIProvider {
         suggestedName,
         confidence,
         reasoning: response.message.content,
+        usage:
+          response.prompt_eval_count !== undefined || response.eval_count !== undefined
+            ? {
+                promptTokens: response.prompt_eval_count ?? 0,
+                completionTokens: response.eval_count ?? 0,
+                totalTokens: (response.prompt_eval_count ?? 0) + (response.eval_count ?? 0),
+              }
+            : undefined,
         model,
       };
     } catch (error) {
@@ -9,10 +9,12 @@ import {
   ProviderResponse,
 } from '../../types/provider';
 import { OpenAIConfig } from '../../types/config';
+import { NAMING_ANSWER_JSON_SCHEMA } from '../../types/naming';
 import {
   OpenAIClient,
   OpenAIMessage,
   OpenAIMessageContent,
+  OpenAIChatCompletionOptions,
   OpenAIChatCompletionResponse,
 } from '../../types/ai-clients';
 
@@ -87,10 +89,10 @@ export class OpenAIProvider extends AIProvider {
 
       // Make request to OpenAI (non-streaming)
       // GPT-5 models use max_completion_tokens instead of max_tokens
-      const model = this.config.model ?? 'gpt-5-mini';
+      const model = context.model ?? this.config.model ?? 'gpt-5-mini';
       const isGPT5 = model.includes('gpt-5') || model.includes('gpt-4.1');
 
-      const requestParams: any = {
+      const requestParams: OpenAIChatCompletionOptions = {
         model,
         messages,
         n: 1,
@@ -109,7 +111,16 @@ export class OpenAIProvider extends AIProvider {
         requestParams.max_tokens = context.maxTokens ?? this.config.maxTokens ?? 150;
       }
 
-      const response = (await this.client.chat.completions.create(requestParams)) as OpenAIChatCompletionResponse;
+      if (context.structured) {
+        requestParams.response_format = {
+          type: 'json_schema',
+          json_schema: { name: 'naming_answer', strict: true, schema: NAMING_ANSWER_JSON_SCHEMA },
+        };
+      }
+
+      const response = (await this.client.chat.completions.create(
+        requestParams,
+      )) as OpenAIChatCompletionResponse;
 
       const choice = response.choices[0];
       if (!choice?.message?.content) {
@@ -122,11 +133,6 @@ export class OpenAIProvider extends AIProvider {
       // Calculate confidence based on finish reason
       const confidence = this.calculateConfidence(choice.finish_reason);
 
-      // Update token usage metrics
-      if (response.usage) {
-        this.metrics.totalTokensUsed += response.usage.total_tokens;
-      }
-
       return {
         originalName: context.request.context.originalName,
         suggestedName,
@@ -156,7 +162,7 @@ export class OpenAIProvider extends AIProvider {
     // Add system prompt
     messages.push({
       role: 'system',
-      content: context.systemPrompt ?? this.getSystemPrompt(),
+      content: context.systemPrompt ?? this.getSystemPrompt(context.structured),
     });
 
     // Build user message
@@ -169,7 +175,7 @@ export class OpenAIProvider extends AIProvider {
 
     // Add images if present and model supports vision
     if (context.images && context.images.length > 0) {
-      if (!this.isVisionModel(this.config.model ?? 'gpt-5-mini')) {
+      if (!this.isVisionModel(context.model ?? this.config.model ?? 'gpt-5-mini')) {
         this.providerLogger.warn('Model does not support vision. Images will be ignored.');
       } else {
         this.providerLogger.debug('Adding images to request', { count: context.images.length });
@@ -210,7 +216,11 @@ export class OpenAIProvider extends AIProvider {
   /**
    * Get system prompt
    */
-  private getSystemPrompt(): string {
+  private getSystemPrompt(structured = false): string {
+    const answerFormat = structured
+      ? 'Respond with ONLY the requested JSON object'
+      : 'Respond with ONLY the suggested filename, no explanations or additional text';
+
     return `You are an AI assistant specialized in generating descriptive, clear, and organized filenames.
 Your task is to suggest appropriate filenames based on file content, metadata, and context.
 
@@ -221,18 +231,14 @@ Guidelines:
 - Consider the file type and content when naming
 - Maintain consistency in naming patterns
 - Do not include file extensions in the suggested name
-- Respond with ONLY the suggested filename, no explanations or additional text`;
+- ${answerFormat}`;
   }
 
   /**
    * Check if model supports vision
    */
   private isVisionModel(model: string): boolean {
-    const visionModels = [
-      'gpt-5',
-      'gpt-5-mini',
-      'gpt-5-nano',
-    ];
+    const visionModels = ['gpt-5', 'gpt-5-mini', 'gpt-5-nano'];
     return visionModels.some((vm) => model.includes(vm));
   }
 
@@ -331,13 +337,7 @@ Guidelines:
    * Check if model is valid
    */
   protected isValidModel(model: string): boolean {
-    const validModels = [
-      'gpt-5',
-      'gpt-5-mini',
-      'gpt-5-nano',
-      'o1-preview',
-      'o1-mini',
-    ];
+    const validModels = ['gpt-5', 'gpt-5-mini', 'gpt-5-nano', 'o1-preview', 'o1-mini'];
 
     // Allow any model that starts with gpt- or o1- for future compatibility
     return validModels.includes(model) || model.startsWith('gpt-') || model.startsWith('o1-');
@@ -365,7 +365,7 @@ Guidelines:
       const model = this.config.model ?? 'gpt-5-mini';
       const isGPT5 = model.includes('gpt-5') || model.includes('gpt-4.1');
 
-      const streamParams: any = {
+      const streamParams: OpenAIChatCompletionOptions = {
         model,
         messages,
         stream: true,
@@ -384,7 +384,9 @@ Guidelines:
         streamParams.max_tokens = this.config.maxTokens ?? 150;
       }
 
-      const stream = (await this.client.chat.completions.create(streamParams)) as AsyncIterable<OpenAIChatCompletionResponse>;
+      const stream = (await this.client.chat.completions.create(
+        streamParams,
+      )) as AsyncIterable<OpenAIChatCompletionResponse>;
 
       let fullContent = '';
       for await (const chunk of stream) {
@@ -25,8 +25,19 @@ export interface OpenAIChatCompletionOptions {
   messages: OpenAIMessage[];
   temperature?: number;
   max_tokens?: number;
+  max_completion_tokens?: number; // Used instead of max_tokens by GPT-5 models
   n?: number;
   stream?: boolean;
+  response_format?: OpenAIResponseFormat;
+}
+
+export interface OpenAIResponseFormat {
+  type: 'text' | 'json_object' | 'json_schema';
+  json_schema?: {
+    name: string;
+    strict?: boolean;
+    schema: Record<string, unknown>;
+  };
 }
 
 export interface OpenAIChatCompletionChoice {
@@ -107,15 +118,33 @@ export interface AnthropicMessageOptions {
   model: string;
   max_tokens: number;
   temperature?: number;
+  system?: string;
   messages: AnthropicMessage[];
   stream?: boolean;
+  tools?: AnthropicTool[];
+  tool_choice?: { type: 'auto' | 'any' } | { type: 'tool'; name: string };
 }
 
-export interface AnthropicContentBlock {
+export interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema: Record<string, unknown>;
+}
+
+export interface AnthropicTextBlock {
   type: 'text';
   text: string;
 }
 
+export interface AnthropicToolUseBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: unknown;
+}
+
+export type AnthropicContentBlock = AnthropicTextBlock | AnthropicToolUseBlock;
+
 export interface AnthropicUsage {
   input_tokens: number;
   output_tokens: number;
@@ -176,6 +205,7 @@ export interface OllamaChatOptions {
   model: string;
   messages: OllamaMessage[];
   stream?: boolean;
+  format?: 'json' | Record<string, unknown>; // JSON mode, or a JSON Schema the answer must follow
   options?: {
     temperature?: number;
     num_predict?: number;
@@ -202,6 +232,8 @@ export interface OllamaChatResponse {
     content: string;
   };
   done: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
 }
 
 export interface OllamaClient {
@@ -214,9 +246,15 @@ export interface OllamaClient {
  */
 export interface ConfigUpdateChanges {
   provider?: Record<string, unknown>;
+  fallbackProviders?: Array<Record<string, unknown>>;
+  routing?: Array<Record<string, unknown>>;
+  consensus?: Record<string, unknown>;
   naming?: Record<string, unknown>;
   batch?: Record<string, unknown>;
   cache?: Record<string, unknown>;
+  optimization?: Record<string, unknown>;
+  budget?: Record<string, unknown>;
+  history?: Record<string, unknown>;
   logging?: Record<string, unknown>;
   reset?: boolean;
 }
@@ -2,6 +2,8 @@
  * Analyzer-related types for the AI File Naming SDK
  */
 
+import { FileAnalysisResult } from './file';
+
 /**
  * Analyzer capabilities
  */
@@ -36,16 +38,37 @@ export interface AnalyzerValidationResult {
   suggestions?: string[];
 }
 
+/**
+ * Content read from a file by an analyzer
+ */
+export interface AnalyzedContent {
+  summary: string;
+  details: string[];
+  keywords: string[];
+  confidence: number; // 0-1, how much the content says about the file
+  text?: string; // Extracted text, for formats that have any
+}
+
+/**
+ * Analyzed content and the analyzer that produced it
+ */
+export interface AnalyzerResult {
+  analyzer: string;
+  content: AnalyzedContent;
+}
+
 /**
  * Content extraction options
  */
 export interface ContentExtractionOptions {
-  maxLength?: number;
+  maxLength?: number; // Characters of extracted text
+  maxWords?: number; // Words of extracted text
   extractText?: boolean;
   extractMetadata?: boolean;
   extractEntities?: boolean;
   extractKeywords?: boolean;
   ocrEnabled?: boolean;
+  metadata?: FileAnalysisResult['metadata']; // Already read by the caller, so it is not read again
 }
 
 /**
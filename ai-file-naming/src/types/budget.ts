@@ -0,0 +1,61 @@
+/**
+ * Token and cost budget types for the AI File Naming SDK
+ */
+
+/**
+ * Price in USD per 1M tokens; a single number prices input and output alike
+ */
+export type ModelPrice = number | { input: number; output: number };
+
+/**
+ * Prices by provider and model
+ *
+ * A `'*'` model entry prices models that are not listed, including the
+ * provider's default model when none is configured.
+ */
+export type PricingTable = Record<string, Record<string, ModelPrice>>;
+
+/**
+ * Budget limits; unset limits are not enforced
+ */
+export interface BudgetLimits {
+  maxTokensPerRun?: number;
+  maxCostPerRun?: number; // USD
+  maxTokensPerFile?: number;
+  maxCostPerFile?: number; // USD
+}
+
+/**
+ * What to do when a request would exceed the budget
+ *
+ * - cheaper-model: use the provider's cheapest priced model, then metadata-only
+ * - metadata-only: name the file from its metadata without calling the provider
+ * - stop: fail the file
+ */
+export type BudgetAction = 'cheaper-model' | 'metadata-only' | 'stop';
+
+/**
+ * Tokens and cost of a request
+ */
+export interface BudgetEstimate {
+  tokens: number;
+  cost: number; // USD
+}
+
+/**
+ * Budget spent in a run
+ */
+export interface BudgetUsage extends BudgetLimits {
+  tokensUsed: number;
+  cost: number; // USD
+  degraded: number; // Files named with a cheaper model or from metadata
+  stopped: number; // Files not named because of the budget
+}
+
+/**
+ * Pre-flight estimate for naming a set of files
+ */
+export interface BudgetForecast extends BudgetEstimate {
+  files: number;
+  withinBudget: boolean;
+}
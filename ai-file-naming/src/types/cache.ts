@@ -0,0 +1,45 @@
+/**
+ * Naming cache types for the AI File Naming SDK
+ */
+
+import { NamingResponse } from './naming';
+
+/**
+ * Storage backend for cached naming results
+ *
+ * Backends own expiry and eviction; the SDK only reads, writes and clears.
+ * Implement this to keep results somewhere else (Redis, a database, ...) and
+ * pass the instance to `FileNamingSDK.setCacheBackend()`.
+ */
+export interface CacheBackend {
+  readonly name: string;
+  get(key: string): Promise<NamingResponse | undefined>;
+  set(key: string, value: NamingResponse): Promise<void>;
+  delete(key: string): Promise<boolean>;
+  clear(): Promise<void>;
+  size(): Promise<number>;
+  sizeSync?(): number; // For backends that know their size without I/O
+  close?(): Promise<void>;
+}
+
+/**
+ * Limits shared by the built-in backends
+ */
+export interface CacheBackendOptions {
+  ttl: number; // Milliseconds; 0 keeps entries until evicted
+  maxSize: number; // Maximum number of entries
+}
+
+/**
+ * Cache statistics
+ */
+export interface CacheStats {
+  backend: string;
+  size: number;
+  maxSize: number;
+  enabled: boolean;
+  ttl: number;
+  hits: number;
+  misses: number;
+  hitRate: number; // hits / (hits + misses), 0 before the first lookup
+}
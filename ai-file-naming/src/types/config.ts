@@ -3,6 +3,7 @@
  */
 
 import { z } from 'zod';
+import { FileType } from './file';
 
 /**
  * Supported AI provider types
@@ -21,6 +22,8 @@ export const BaseProviderConfigSchema = z.object({
   timeout: z.number().int().min(0).default(30000), // 30 seconds default
   temperature: z.number().min(0).max(2).default(0.7),
   maxTokens: z.number().int().min(1).optional(),
+  structuredOutput: z.boolean().optional(), // Request JSON answers where the caller allows it (default: true)
+  videoFrames: z.number().int().min(0).max(10).optional(), // Frames sampled from videos for vision models (default: 3, 0 sends none)
 });
 
 export type BaseProviderConfig = z.infer<typeof BaseProviderConfigSchema>;
@@ -81,17 +84,49 @@ export type ProviderConfig =
   | GeminiConfig
   | BaseProviderConfig;
 
+/**
+ * Schema for any provider configuration
+ */
+export const ProviderConfigSchema = z.union([
+  OpenAIConfigSchema,
+  AnthropicConfigSchema,
+  OllamaConfigSchema,
+  GeminiConfigSchema,
+  BaseProviderConfigSchema,
+]);
+
+/**
+ * Rule sending matching files to a provider
+ *
+ * All given conditions must hold. Unless `requireVision` is false, image files
+ * only match rules whose provider supports vision.
+ */
+export const RoutingRuleSchema = z.object({
+  name: z.string().optional(), // For logs
+  fileTypes: z.array(z.nativeEnum(FileType)).optional(),
+  extensions: z.array(z.string()).optional(), // With or without the leading dot
+  minSize: z.number().int().min(0).optional(), // Bytes
+  maxSize: z.number().int().min(0).optional(), // Bytes
+  requireVision: z.boolean().optional(), // Match only vision-capable providers, for any file type
+  provider: ProviderConfigSchema,
+});
+
+export type RoutingRule = z.infer<typeof RoutingRuleSchema>;
+
 /**
  * SDK Configuration
  */
 export const SDKConfigSchema = z.object({
-  provider: z.union([
-    OpenAIConfigSchema,
-    AnthropicConfigSchema,
-    OllamaConfigSchema,
-    GeminiConfigSchema,
-    BaseProviderConfigSchema,
-  ]),
+  provider: ProviderConfigSchema,
+  fallbackProviders: z.array(ProviderConfigSchema).optional(), // Tried in order on rate limit, network and auth errors
+  routing: z.array(RoutingRuleSchema).optional(), // First matching rule picks the provider; otherwise `provider`
+  consensus: z
+    .object({
+      providers: z.array(ProviderConfigSchema).min(1), // Asked alongside `provider`
+      strategy: z.enum(['agreement', 'judge']).optional(), // Defaults to agreement
+      judge: ProviderConfigSchema.optional(), // Judge strategy; defaults to `provider`
+    })
+    .optional(),
   naming: z
     .object({
       format: z
@@ -113,8 +148,55 @@ export const SDKConfigSchema = z.object({
   cache: z
     .object({
       enabled: z.boolean().default(true),
-      ttl: z.number().int().min(0).default(3600000), // 1 hour default
-      maxSize: z.number().int().min(0).default(100),
+      ttl: z.number().int().min(0).default(3600000), // 1 hour default; 0 never expires
+      maxSize: z.number().int().min(1).default(100),
+      backend: z.enum(['memory', 'file']).default('memory'),
+      path: z.string().optional(), // File backend; defaults to ~/.ai-file-naming/cache.jsonl
+    })
+    .default({}),
+  optimization: z
+    .object({
+      enabled: z.boolean().default(false), // Name files through SmartPipeline
+      strategy: z.enum(['aggressive', 'balanced', 'quality']).default('balanced'),
+      enableMetadataStage: z.boolean().optional(), // Unset fields use the strategy's preset
+      enableCheapModelStage: z.boolean().optional(),
+      models: z
+        .object({
+          cheap: z.string().optional(),
+          premium: z.string().optional(),
+        })
+        .optional(),
+      thresholds: z
+        .object({
+          metadata: z.number().min(0).max(1).optional(),
+          cheapModel: z.number().min(0).max(1).optional(),
+        })
+        .optional(),
+    })
+    .default({}),
+  budget: z
+    .object({
+      maxTokensPerRun: z.number().int().min(1).optional(), // A run is one nameFile or nameBatch call
+      maxCostPerRun: z.number().min(0).optional(), // USD
+      maxTokensPerFile: z.number().int().min(1).optional(),
+      maxCostPerFile: z.number().min(0).optional(),
+      onExceeded: z.enum(['cheaper-model', 'metadata-only', 'stop']).default('cheaper-model'),
+      pricing: z // USD per 1M tokens by provider and model, merged over the defaults
+        .record(
+          z.record(
+            z.union([
+              z.number().min(0),
+              z.object({ input: z.number().min(0), output: z.number().min(0) }),
+            ]),
+          ),
+        )
+        .optional(),
+    })
+    .default({}),
+  history: z
+    .object({
+      enabled: z.boolean().default(true),
+      path: z.string().optional(), // Defaults to ~/.ai-file-naming/history.jsonl
     })
     .default({}),
   logging: z
@@ -2,8 +2,9 @@
  * Event types for the AI File Naming SDK
  */
 
-import { NamingRequest, NamingResponse, NamingError } from './naming';
+import { NamingRequest, NamingResponse, NamingError, TokenUsage } from './naming';
 import { FileAnalysisResult } from './file';
+import { BudgetAction, BudgetEstimate, BudgetUsage } from './budget';
 
 /**
  * Event names
@@ -26,11 +27,18 @@ export enum EventName {
   BatchComplete = 'batch:complete',
   BatchError = 'batch:error',
 
+  // Pipeline events
+  PipelineStage = 'pipeline:stage',
+
+  // Budget events
+  BudgetExceeded = 'budget:exceeded',
+
   // Provider events
   ProviderRequest = 'provider:request',
   ProviderResponse = 'provider:response',
   ProviderError = 'provider:error',
   ProviderRateLimit = 'provider:ratelimit',
+  ProviderFallback = 'provider:fallback',
 
   // System events
   ConfigUpdate = 'config:update',
@@ -78,6 +86,8 @@ export interface NamingCompleteEvent extends BaseEvent {
   request: NamingRequest;
   response: NamingResponse;
   duration: number;
+  usage?: TokenUsage; // Provider tokens and cost for this file; absent for cached answers
+  provider?: string; // Provider that answered, after any fallbacks
 }
 
 export interface NamingErrorEvent extends BaseEvent {
@@ -114,6 +124,7 @@ export interface BatchCompleteEvent extends BaseEvent {
   failed: number;
   duration: number;
   results: NamingResponse[];
+  usage?: TokenUsage & { requests: number };
 }
 
 export interface BatchErrorEvent extends BaseEvent {
@@ -121,6 +132,28 @@ export interface BatchErrorEvent extends BaseEvent {
   failedFiles?: string[];
 }
 
+/**
+ * Pipeline events
+ */
+export interface PipelineStageEvent extends BaseEvent {
+  filePath: string;
+  stage: string; // 'metadata', 'cheap-model' or 'premium-model'
+  confidence: number;
+  tokensUsed: number;
+  cost: number;
+  model?: string;
+}
+
+/**
+ * Budget events
+ */
+export interface BudgetExceededEvent extends BaseEvent {
+  filePath: string;
+  action: BudgetAction; // What was done instead of the planned request
+  estimate: BudgetEstimate; // The request that did not fit
+  usage: BudgetUsage;
+}
+
 /**
  * Provider events
  */
@@ -155,6 +188,13 @@ export interface ProviderRateLimitEvent extends BaseEvent {
   retryAfter?: number;
 }
 
+export interface ProviderFallbackEvent extends BaseEvent {
+  from: string; // Provider that failed
+  to: string; // Provider the request moved to
+  error: NamingError;
+  filePath: string;
+}
+
 /**
  * System events
  */
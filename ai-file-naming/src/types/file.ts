@@ -46,6 +46,13 @@ export interface VideoMetadata extends FileMetadata {
   audioBitrate?: number;
   audioChannels?: number;
   audioSampleRate?: number;
+  creationTime?: Date; // Recording time from the container tags
+  gps?: {
+    latitude: number;
+    longitude: number;
+    altitude?: number;
+  };
+  title?: string;
 }
 
 /**
@@ -71,10 +78,14 @@ export interface AudioMetadata extends FileMetadata {
   channels?: number;
   codec?: string;
   artist?: string;
+  albumArtist?: string;
   title?: string;
   album?: string;
   year?: number;
   genre?: string;
+  track?: number;
+  trackTotal?: number;
+  disc?: number;
 }
 
 /**
@@ -89,6 +100,7 @@ export interface FileAnalysisResult {
     text?: string;
     summary?: string;
     keywords?: string[];
+    details?: string[]; // e.g. page count, sheet names, headers
     entities?: string[];
     sentiment?: 'positive' | 'negative' | 'neutral';
   };
@@ -11,6 +11,15 @@ export * from './file';
 // Naming types
 export * from './naming';
 
+// Rename plan types
+export * from './plan';
+
+// Naming cache types
+export * from './cache';
+
+// Budget types
+export * from './budget';
+
 // Provider types
 export * from './provider';
 
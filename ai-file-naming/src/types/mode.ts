@@ -47,6 +47,16 @@ export interface SemanticBatchModeConfig extends BaseModeConfig {
   maxGroupSize?: number;
 }
 
+/**
+ * Grouping settings for semantic batch naming
+ */
+export type SemanticGroupingOptions = Pick<
+  SemanticBatchModeConfig,
+  'groupingStrategy' | 'similarityThreshold' | 'maxGroupSize'
+> & {
+  groupKey?: (filePath: string) => string; // Required for the 'custom' strategy
+};
+
 /**
  * Union type for all mode configurations
  */
@@ -2,7 +2,9 @@
  * Naming-related types for the AI File Naming SDK
  */
 
+import { z } from 'zod';
 import { FileContext } from './file';
+import { BudgetUsage } from './budget';
 
 /**
  * Naming request for a single file
@@ -20,15 +22,114 @@ export interface NamingRequest {
  */
 export interface NamingResponse {
   id?: string;
+  filePath?: string;
   originalName: string;
   suggestedName: string;
   confidence: number; // 0-1 score
   reasoning?: string;
   alternatives?: string[];
+  candidates?: NameCandidate[]; // Ranked best first when NamingOptions.candidates is set; the first is suggestedName
+  detected?: DetectedContent; // From structured provider answers
   metadata?: Record<string, unknown>;
+  usage?: TokenUsage; // Spent producing this answer; absent for cached answers
+  provider?: string; // Provider that answered, which may be a fallback
+  model?: string; // Model that answered
+  prompt?: string; // Prompt the name was generated from
+  consensus?: ConsensusResult; // When several providers were asked
   error?: NamingError;
 }
 
+/**
+ * A candidate name and how it ranked
+ */
+export interface NameCandidate {
+  name: string;
+  score: number; // 0-1, weighted sum of the factors
+  factors: {
+    length: number;
+    specificity: number; // Informative words rather than generic ones
+    uniqueness: number; // 0 when a sibling file already has the name
+    format: number; // How closely the model's answer followed the naming format
+  };
+}
+
+/**
+ * How several providers' answers were reconciled
+ */
+export interface ConsensusResult {
+  strategy: 'agreement' | 'judge';
+  agreement: number; // 0-1, mean token overlap between the providers' answers
+  answers: Array<{
+    provider: string;
+    name?: string; // Absent when the provider failed
+    confidence?: number;
+    error?: string;
+  }>;
+}
+
+/**
+ * What the provider recognized in a file
+ */
+export interface DetectedContent {
+  subject?: string;
+  date?: string; // YYYY-MM-DD
+  entities?: string[];
+}
+
+/**
+ * Structured answer requested from providers
+ *
+ * Validated with zod before use; providers with a native JSON or
+ * structured-output mode are given `NAMING_ANSWER_JSON_SCHEMA`.
+ */
+export const NamingAnswerSchema = z.object({
+  name: z.string().trim().min(1),
+  alternatives: z.array(z.string()).default([]),
+  confidence: z.number().min(0).max(1),
+  reasoning: z.string().default(''),
+  subject: z.string().nullable().optional(),
+  date: z.string().nullable().optional(),
+  entities: z.array(z.string()).default([]),
+});
+
+export type NamingAnswer = z.infer<typeof NamingAnswerSchema>;
+
+/**
+ * JSON Schema of the structured answer, for native structured-output modes
+ */
+export const NAMING_ANSWER_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', description: 'Suggested filename without extension' },
+    alternatives: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Other good filenames, best first',
+    },
+    confidence: { type: 'number', description: 'How well the name fits the file, from 0 to 1' },
+    reasoning: { type: 'string', description: 'One sentence on why the name fits' },
+    subject: { type: ['string', 'null'], description: 'Main subject of the file' },
+    date: { type: ['string', 'null'], description: 'Date the content refers to, as YYYY-MM-DD' },
+    entities: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'People, organizations, places or products named in the file',
+    },
+  },
+  required: ['name', 'alternatives', 'confidence', 'reasoning', 'subject', 'date', 'entities'],
+  additionalProperties: false,
+} as const;
+
+/**
+ * Tokens used by provider requests
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost?: number; // USD, from the pricing table
+}
+
 /**
  * Naming error information
  */
@@ -48,15 +149,30 @@ export type NamingStrategy = 'content' | 'metadata' | 'hybrid' | 'template' | 'c
  * Naming options
  */
 export interface NamingOptions {
+  strategy?: NamingStrategy; // 'template' requires `template`; set implicitly when a template is given
   includeDate?: boolean;
   includeSequence?: boolean;
   preserveExtension?: boolean;
-  template?: string;
+  template?: string; // e.g. "{date:YYYY-MM-DD}_{exif.camera}_{ai.subject}_{seq:03}"
+  sequence?: SequenceOptions; // Used with includeSequence and the {seq} template token
   customPrompt?: string;
+  candidates?: number; // Ask for this many names and rank them (NamingResponse.candidates)
+  audioTags?: boolean; // Name tagged audio files as artist_album_track_title without a provider call (default: true)
   maxLength?: number;
   caseFormat?: 'snake_case' | 'kebab-case' | 'camelCase' | 'PascalCase' | 'preserve';
 }
 
+/**
+ * Sequence numbering options
+ */
+export interface SequenceOptions {
+  scope?: 'directory' | 'batch' | 'name'; // 'name': per suggested name within a directory (default: 'directory')
+  start?: number; // Default: 1
+  padding?: number; // Digits, zero-padded (default: 3)
+  orderBy?: 'captureDate' | 'modified' | 'name'; // captureDate falls back to mtime (default: 'captureDate')
+  continueExisting?: boolean; // Continue after the highest number already in the folder (default: true)
+}
+
 /**
  * Batch naming request
  */
@@ -86,6 +202,8 @@ export interface BatchNamingResult {
   totalSuccess: number;
   totalFailed: number;
   duration: number;
+  budget?: BudgetUsage; // Tokens and cost spent by the batch
+  usage?: TokenUsage & { requests: number }; // Provider usage of the batch; requests excludes cache hits
 }
 
 /**
@@ -99,23 +217,90 @@ export interface NamingModeConfig {
 
 /**
  * Naming conflict resolution
+ *
+ * Collisions between files of the same batch are never resolved by
+ * overwriting; `overwrite` falls back to `rename` for those.
  */
 export interface ConflictResolution {
   strategy: 'skip' | 'overwrite' | 'rename' | 'prompt';
   renamePattern?: string; // e.g., "{name}_{n}"
+  onConflict?: (conflict: NameConflict) => ConflictDecision | Promise<ConflictDecision>; // For 'prompt'
 }
 
+/**
+ * A rename whose target is already taken
+ */
+export interface NameConflict {
+  sourcePath: string;
+  targetPath: string;
+  existingPath: string; // May differ from targetPath only in case
+  reason: 'exists' | 'batch'; // On disk, or claimed by an earlier file in the same batch
+}
+
+/**
+ * Answer to a prompted conflict: a strategy, or an explicit file name
+ */
+export type ConflictDecision = 'skip' | 'overwrite' | 'rename' | { name: string };
+
 /**
  * Naming history entry
+ *
+ * Every rename (and every undo of one) is appended to the history journal.
  */
 export interface NamingHistoryEntry {
+  id: string;
+  runId: string;
+  action: 'rename' | 'undo';
   timestamp: Date;
   originalName: string;
   newName: string;
   filePath: string;
+  newPath: string;
+  hash?: string;
   provider: string;
   model?: string;
   prompt?: string;
   success: boolean;
   error?: string;
+  revertsId?: string; // For undo entries, the rename entry that was reverted
+}
+
+/**
+ * Summary of one run in the naming history
+ */
+export interface NamingHistoryRun {
+  runId: string;
+  timestamp: Date;
+  renames: number;
+  active: number; // Renames not yet undone
+}
+
+/**
+ * Undo options (defaults to the most recent run)
+ */
+export interface UndoOptions {
+  runId?: string;
+  filePath?: string;
+  dryRun?: boolean;
+}
+
+/**
+ * Result of undoing a single rename
+ */
+export interface UndoEntryResult {
+  entry: NamingHistoryEntry;
+  status: 'reverted' | 'skipped' | 'failed';
+  reason?: string;
+}
+
+/**
+ * Result of an undo operation
+ */
+export interface UndoResult {
+  runId?: string;
+  results: UndoEntryResult[];
+  reverted: number;
+  skipped: number;
+  failed: number;
+  dryRun: boolean;
 }
@@ -0,0 +1,94 @@
+/**
+ * Rename plan types for the AI File Naming SDK
+ */
+
+import { z } from 'zod';
+import { ConflictResolution, NameConflict } from './naming';
+
+/**
+ * Current plan file format version
+ */
+export const RENAME_PLAN_VERSION = 1;
+
+/**
+ * A single proposed rename
+ *
+ * `proposedPath` is authoritative when the plan is applied, so reviewers can
+ * edit it by hand or set `skip` to leave a file untouched.
+ */
+export const RenamePlanEntrySchema = z.object({
+  originalPath: z.string().min(1),
+  proposedPath: z.string().min(1),
+  originalName: z.string(),
+  proposedName: z.string(),
+  confidence: z.number().min(0).max(1),
+  reasoning: z.string().optional(),
+  alternatives: z.array(z.string()).optional(),
+  hash: z.string().min(1),
+  skip: z.boolean().optional(),
+  provider: z.string().optional(), // Provider that answered; the plan's provider when unset
+  model: z.string().optional(),
+  prompt: z.string().optional(), // Prompt the name was generated from
+});
+
+export type RenamePlanEntry = z.infer<typeof RenamePlanEntrySchema>;
+
+/**
+ * Rename plan artifact
+ */
+export const RenamePlanSchema = z.object({
+  version: z.literal(RENAME_PLAN_VERSION),
+  id: z.string().min(1),
+  createdAt: z.string(),
+  provider: z.string().optional(),
+  model: z.string().optional(),
+  entries: z.array(RenamePlanEntrySchema),
+  failed: z
+    .array(
+      z.object({
+        originalPath: z.string(),
+        error: z.string(),
+      }),
+    )
+    .optional(),
+});
+
+export type RenamePlan = z.infer<typeof RenamePlanSchema>;
+
+/**
+ * Outcome of applying a single plan entry
+ */
+export type PlanEntryStatus = 'renamed' | 'unchanged' | 'skipped' | 'failed';
+
+/**
+ * Result of applying a single plan entry
+ */
+export interface PlanEntryResult {
+  entry: RenamePlanEntry;
+  status: PlanEntryStatus;
+  newPath?: string;
+  reason?: string;
+  conflict?: NameConflict; // Set when the target was taken and had to be resolved
+}
+
+/**
+ * Plan apply options
+ */
+export interface PlanApplyOptions {
+  dryRun?: boolean;
+  overwrite?: boolean; // Shorthand for conflict: 'overwrite'
+  conflict?: ConflictResolution | ConflictResolution['strategy']; // Default: skip
+}
+
+/**
+ * Result of applying a rename plan
+ */
+export interface PlanApplyResult {
+  planId: string;
+  runId?: string; // History journal run, for undo
+  results: PlanEntryResult[];
+  renamed: number;
+  skipped: number;
+  failed: number;
+  dryRun: boolean;
+}
@@ -2,7 +2,7 @@
  * Provider-related types for the AI File Naming SDK
  */
 
-import { NamingRequest, NamingResponse } from './naming';
+import { NamingRequest, NamingResponse, TokenUsage } from './naming';
 
 /**
  * Provider capabilities
@@ -67,23 +67,31 @@ export interface PreparedImage {
 export interface ProviderRequestContext {
   request: NamingRequest;
   images?: PreparedImage[];
+  model?: string; // Overrides the configured model for this request
   systemPrompt?: string;
   userPrompt: string;
   temperature?: number;
   maxTokens?: number;
   stream?: boolean;
+  structured?: boolean; // Ask for a NamingAnswer, with the provider's native JSON mode if it has one
+}
+
+/**
+ * Per-request overrides for `AIProvider.generateName`
+ */
+export interface GenerateNameOptions {
+  model?: string;
+  systemPrompt?: string;
+  maxTokens?: number;
+  images?: PreparedImage[]; // Sent instead of the prepared file image
+  structured?: boolean; // Ask for a validated NamingAnswer instead of free text
+  alternatives?: number; // Alternatives asked for in a structured answer (default: 3)
 }
 
 /**
  * Provider response
  */
 export interface ProviderResponse extends NamingResponse {
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
-  model?: string;
   finishReason?: string;
 }
 
@@ -105,6 +113,10 @@ export interface ProviderMetrics {
   failedRequests: number;
   averageLatency: number;
   totalTokensUsed: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalCost: number; // USD, from the pricing table
+  byModel: Record<string, ModelUsage>;
   errors: Array<{
     timestamp: Date;
     error: string;
@@ -112,6 +124,14 @@ export interface ProviderMetrics {
   }>;
 }
 
+/**
+ * Token usage and cost of one model
+ */
+export interface ModelUsage extends TokenUsage {
+  requests: number;
+  cost: number;
+}
+
 /**
  * Provider rate limit info
  */
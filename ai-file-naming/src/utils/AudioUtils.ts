@@ -0,0 +1,838 @@
+/**
+ * Audio utility functions - tags and stream properties of MP3, FLAC, Ogg,
+ * MP4/M4A and WAV files, read without external tools
+ */
+
+import * as fs from 'fs/promises';
+
+/**
+ * Audio tags and stream properties
+ */
+export interface AudioInfo {
+  format: 'mp3' | 'flac' | 'ogg' | 'mp4' | 'wav';
+  duration?: number; // in seconds
+  bitrate?: number; // bits per second
+  sampleRate?: number;
+  channels?: number;
+  codec?: string;
+  title?: string;
+  artist?: string;
+  albumArtist?: string;
+  album?: string;
+  year?: number;
+  genre?: string;
+  track?: number;
+  trackTotal?: number;
+  disc?: number;
+}
+
+/**
+ * The tag fields of audio info
+ */
+export type AudioTags = Pick<
+  AudioInfo,
+  'title' | 'artist' | 'albumArtist' | 'album' | 'year' | 'genre' | 'track' | 'trackTotal' | 'disc'
+>;
+
+type FileHandle = fs.FileHandle;
+
+// Tag blocks larger than this (mostly embedded cover art) are not read
+const MAX_TAG_SIZE = 16 * 1024 * 1024;
+
+// The last granule position of an Ogg stream is looked for in the file's tail
+const OGG_TAIL_BYTES = 64 * 1024;
+
+/**
+ * ID3v1 genres, also referenced by number from ID3v2 and MP4 tags
+ */
+// prettier-ignore
+const ID3_GENRES = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop', 'Jazz',
+  'Metal', 'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap', 'Reggae', 'Rock', 'Techno',
+  'Industrial', 'Alternative', 'Ska', 'Death Metal', 'Pranks', 'Soundtrack', 'Euro-Techno',
+  'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk', 'Fusion', 'Trance', 'Classical', 'Instrumental',
+  'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise', 'AlternRock', 'Bass', 'Soul', 'Punk',
+  'Space', 'Meditative', 'Instrumental Pop', 'Instrumental Rock', 'Ethnic', 'Gothic', 'Darkwave',
+  'Techno-Industrial', 'Electronic', 'Pop-Folk', 'Eurodance', 'Dream', 'Southern Rock', 'Comedy',
+  'Cult', 'Gangsta', 'Top 40', 'Christian Rap', 'Pop/Funk', 'Jungle', 'Native American',
+  'Cabaret', 'New Wave', 'Psychadelic', 'Rave', 'Showtunes', 'Trailer', 'Lo-Fi', 'Tribal',
+  'Acid Punk', 'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock',
+];
+
+/**
+ * ID3v2 frames (v2.3/v2.4 and v2.2 IDs) and the tags they fill
+ */
+const ID3_FRAMES: Record<string, keyof AudioTags | 'date' | 'length'> = {
+  TIT2: 'title',
+  TT2: 'title',
+  TPE1: 'artist',
+  TP1: 'artist',
+  TPE2: 'albumArtist',
+  TP2: 'albumArtist',
+  TALB: 'album',
+  TAL: 'album',
+  TYER: 'date',
+  TYE: 'date',
+  TDRC: 'date',
+  TCON: 'genre',
+  TCO: 'genre',
+  TRCK: 'track',
+  TRK: 'track',
+  TPOS: 'disc',
+  TPA: 'disc',
+  TLEN: 'length',
+  TLE: 'length',
+};
+
+/**
+ * Vorbis comment fields and the tags they fill
+ */
+const VORBIS_FIELDS: Record<string, keyof AudioTags | 'date'> = {
+  TITLE: 'title',
+  ARTIST: 'artist',
+  ALBUMARTIST: 'albumArtist',
+  ALBUM: 'album',
+  DATE: 'date',
+  YEAR: 'date',
+  GENRE: 'genre',
+  TRACKNUMBER: 'track',
+  TRACKTOTAL: 'trackTotal',
+  TOTALTRACKS: 'trackTotal',
+  DISCNUMBER: 'disc',
+};
+
+/**
+ * MP4 metadata items and the tags they fill
+ */
+const MP4_ITEMS: Record<string, keyof AudioTags | 'date'> = {
+  '©nam': 'title',
+  '©ART': 'artist',
+  aART: 'albumArtist',
+  '©alb': 'album',
+  '©day': 'date',
+  '©gen': 'genre',
+};
+
+/**
+ * WAV format tags and their codec names
+ */
+const WAV_FORMATS: Record<number, string> = {
+  0x0001: 'pcm',
+  0x0003: 'pcm_float',
+  0x0006: 'alaw',
+  0x0007: 'mulaw',
+  0x0055: 'mp3',
+  0xfffe: 'extensible',
+};
+
+/**
+ * RIFF INFO fields and the tags they fill
+ */
+const RIFF_INFO_FIELDS: Record<string, keyof AudioTags | 'date'> = {
+  INAM: 'title',
+  IART: 'artist',
+  IPRD: 'album',
+  ICRD: 'date',
+  IGNR: 'genre',
+  ITRK: 'track',
+  IPRT: 'track',
+};
+
+/**
+ * Read the tags and stream properties of an audio file
+ *
+ * The format is detected from the file's first bytes, not its extension.
+ */
+export async function getAudioInfo(filePath: string): Promise<AudioInfo> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const header = await readAt(handle, 0, 12);
+    const magic = header.toString('latin1', 0, 4);
+
+    if (magic.startsWith('ID3') || isMpegFrame(header, 0)) {
+      return await readMpeg(handle, size);
+    }
+    if (magic === 'fLaC') {
+      return await readFlac(handle, 0);
+    }
+    if (magic === 'OggS') {
+      return await readOgg(handle, size);
+    }
+    if (magic === 'RIFF' && header.toString('latin1', 8, 12) === 'WAVE') {
+      return await readWav(handle, size);
+    }
+    if (header.toString('latin1', 4, 8) === 'ftyp') {
+      return await readMp4(handle, size);
+    }
+    throw new Error('Unsupported audio format');
+  } catch (error) {
+    throw new Error(
+      `Failed to read audio info: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Whether the tags say enough to name the file: a title plus an artist or album
+ */
+export function hasNamingTags(tags: Partial<AudioTags>): boolean {
+  return !!tags.title && !!(tags.artist ?? tags.albumArtist ?? tags.album);
+}
+
+/**
+ * Read an MP3: ID3v2 tag (or ID3v1 at the end) and the first MPEG frame
+ */
+async function readMpeg(handle: FileHandle, size: number): Promise<AudioInfo> {
+  const info: AudioInfo = { format: 'mp3', codec: 'mp3' };
+  let audioStart = 0;
+  let lengthMs: number | undefined;
+
+  // Several ID3v2 tags may precede the audio; the first one holds the tags
+  let header = await readAt(handle, 0, 10);
+  while (header.length === 10 && header.toString('latin1', 0, 3) === 'ID3') {
+    const tagSize = 10 + synchsafe(header, 6) + (((header[5] ?? 0) & 0x10) !== 0 ? 10 : 0);
+    if (audioStart === 0 && tagSize <= MAX_TAG_SIZE) {
+      lengthMs = applyId3(info, await readAt(handle, 0, tagSize));
+    }
+    audioStart += tagSize;
+    header = await readAt(handle, audioStart, 10);
+  }
+
+  // FLAC files sometimes carry an ID3v2 tag in front
+  if (audioStart > 0 && header.toString('latin1', 0, 4) === 'fLaC') {
+    return await readFlac(handle, audioStart, { ...info, format: 'flac', codec: 'flac' });
+  }
+
+  if (!info.title && !info.artist && size >= 128) {
+    applyId3v1(info, await readAt(handle, size - 128, 128));
+  }
+
+  const frames = await readAt(handle, audioStart, 64 * 1024);
+  const offset = findMpegFrame(frames);
+  if (offset !== undefined) {
+    applyMpegFrame(info, frames.subarray(offset), size - audioStart - offset);
+  }
+  if (lengthMs && !info.duration) {
+    info.duration = lengthMs / 1000;
+  }
+  return info;
+}
+
+/**
+ * Apply an ID3v2 tag; returns the TLEN length in milliseconds, if any
+ */
+function applyId3(info: AudioInfo, tag: Buffer): number | undefined {
+  const version = tag[3] ?? 0;
+  const flags = tag[5] ?? 0;
+  let body = tag.subarray(10);
+
+  // v2.2/v2.3 unsynchronisation applies to the whole tag
+  if (version < 4 && (flags & 0x80) !== 0) {
+    body = resynchronise(body);
+  }
+
+  let position = 0;
+  if (version >= 3 && (flags & 0x40) !== 0 && body.length >= 4) {
+    // Skip the extended header
+    position = version === 4 ? synchsafe(body, 0) : body.readUInt32BE(0) + 4;
+  }
+
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+  const fields: Record<string, string> = {};
+
+  while (position + headerLength <= body.length) {
+    const id = body.toString('latin1', position, position + idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) {
+      break; // Padding
+    }
+
+    const frameSize =
+      version === 2
+        ? body.readUIntBE(position + 3, 3)
+        : version === 4
+          ? synchsafe(body, position + 4)
+          : body.readUInt32BE(position + 4);
+    const frameFlags = version === 2 ? 0 : body.readUInt16BE(position + 8);
+    let data = body.subarray(position + headerLength, position + headerLength + frameSize);
+    position += headerLength + frameSize;
+
+    const field = ID3_FRAMES[id];
+    if (!field || data.length === 0) {
+      continue;
+    }
+    if (version === 4) {
+      if ((frameFlags & 0x0001) !== 0) data = data.subarray(4); // Data length indicator
+      if ((frameFlags & 0x0002) !== 0) data = resynchronise(data);
+    }
+    const text = decodeId3Text(data);
+    if (text && !(field in fields)) {
+      fields[field] = text;
+    }
+  }
+
+  applyFields(info, fields);
+  const length = Number(fields['length']);
+  return length > 0 ? length : undefined;
+}
+
+/**
+ * Apply a 128-byte ID3v1 tag
+ */
+function applyId3v1(info: AudioInfo, tag: Buffer): void {
+  if (tag.toString('latin1', 0, 3) !== 'TAG') {
+    return;
+  }
+
+  const text = (start: number, end: number): string =>
+    tag.toString('latin1', start, end).replace(/\0.*$/s, '').trim();
+  const fields: Record<string, string> = {
+    title: text(3, 33),
+    artist: text(33, 63),
+    album: text(63, 93),
+    date: text(93, 97),
+  };
+  // ID3v1.1 keeps the track number in the last byte of the comment
+  if (tag[125] === 0 && tag[126]) {
+    fields['track'] = String(tag[126]);
+  }
+  const genre = ID3_GENRES[tag[127] ?? 255];
+  if (genre) {
+    fields['genre'] = genre;
+  }
+  applyFields(info, fields);
+}
+
+/**
+ * Decode an ID3v2 text frame: an encoding byte followed by the text; only
+ * the first of several NUL-separated values is kept
+ */
+function decodeId3Text(data: Buffer): string {
+  const encoding = data[0];
+  const bytes = data.subarray(1);
+  let text: string;
+
+  if (encoding === 1 || encoding === 2) {
+    // UTF-16 with a byte order mark, or UTF-16BE
+    let utf16 = bytes;
+    const bigEndian =
+      encoding === 2 || (bytes[0] === 0xfe && bytes[1] === 0xff) || bytes.length < 2;
+    if (encoding === 1 && bytes.length >= 2) {
+      utf16 = bytes.subarray(2);
+    }
+    if (bigEndian) {
+      utf16 = Buffer.from(utf16.subarray(0, utf16.length - (utf16.length % 2)));
+      utf16.swap16();
+    }
+    text = utf16.toString('utf16le');
+  } else {
+    text = bytes.toString(encoding === 3 ? 'utf8' : 'latin1');
+  }
+
+  return (text.split('\0')[0] ?? '').trim();
+}
+
+/**
+ * Undo ID3v2 unsynchronisation (0xFF 0x00 -> 0xFF)
+ */
+function resynchronise(data: Buffer): Buffer {
+  const bytes: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    const byte = data[i] ?? 0;
+    bytes.push(byte);
+    if (byte === 0xff && data[i + 1] === 0x00) {
+      i++;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Whether an MPEG audio frame header starts at an offset
+ */
+function isMpegFrame(buffer: Buffer, offset: number): boolean {
+  const b1 = buffer[offset + 1] ?? 0;
+  const b2 = buffer[offset + 2] ?? 0;
+  return (
+    buffer[offset] === 0xff &&
+    (b1 & 0xe0) === 0xe0 &&
+    (b1 & 0x18) !== 0x08 && // Reserved version
+    (b1 & 0x06) !== 0 && // Reserved layer
+    (b2 & 0xf0) !== 0xf0 && // Bad bitrate
+    (b2 & 0x0c) !== 0x0c // Reserved sample rate
+  );
+}
+
+/**
+ * Offset of the first MPEG frame in a buffer
+ */
+function findMpegFrame(buffer: Buffer): number | undefined {
+  for (let offset = 0; offset + 4 <= buffer.length; offset++) {
+    if (isMpegFrame(buffer, offset)) {
+      return offset;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Apply the stream properties of the first MPEG frame; the duration comes
+ * from a Xing/Info or VBRI header, or from the bitrate for constant-bitrate files
+ */
+function applyMpegFrame(info: AudioInfo, frame: Buffer, audioBytes: number): void {
+  const b1 = frame[1] ?? 0;
+  const b2 = frame[2] ?? 0;
+  const b3 = frame[3] ?? 0;
+  const version = (b1 >> 3) & 0x03; // 3: MPEG-1, 2: MPEG-2, 0: MPEG-2.5
+  const layer = 4 - ((b1 >> 1) & 0x03);
+  const mpeg1 = version === 3;
+
+  const bitrates =
+    mpeg1 && layer === 1
+      ? [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448]
+      : mpeg1 && layer === 2
+        ? [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384]
+        : mpeg1
+          ? [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+          : layer === 1
+            ? [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256]
+            : [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+  const baseRates = [44100, 48000, 32000];
+  const sampleRate = (baseRates[(b2 >> 2) & 0x03] ?? 44100) / (mpeg1 ? 1 : version === 2 ? 2 : 4);
+  const bitrate = (bitrates[b2 >> 4] ?? 0) * 1000;
+  const mono = b3 >> 6 === 3;
+  const samplesPerFrame = layer === 1 ? 384 : layer === 2 || mpeg1 ? 1152 : 576;
+
+  info.sampleRate = sampleRate;
+  info.channels = mono ? 1 : 2;
+  info.codec = `mp${layer}`;
+
+  // Xing/Info header after the side information, or VBRI 32 bytes into the frame
+  const xing = 4 + (mpeg1 ? (mono ? 17 : 32) : mono ? 9 : 17);
+  const xingTag = frame.toString('latin1', xing, xing + 4);
+  let frameCount: number | undefined;
+  if ((xingTag === 'Xing' || xingTag === 'Info') && frame.length >= xing + 12) {
+    if ((frame.readUInt32BE(xing + 4) & 0x01) !== 0) {
+      frameCount = frame.readUInt32BE(xing + 8);
+    }
+  } else if (frame.toString('latin1', 36, 40) === 'VBRI' && frame.length >= 54) {
+    frameCount = frame.readUInt32BE(50);
+  }
+
+  if (frameCount) {
+    info.duration = (frameCount * samplesPerFrame) / sampleRate;
+    info.bitrate = Math.round((audioBytes * 8) / info.duration);
+  } else if (bitrate > 0) {
+    info.bitrate = bitrate;
+    info.duration = (audioBytes * 8) / bitrate;
+  }
+}
+
+/**
+ * Read a FLAC file: STREAMINFO and VORBIS_COMMENT metadata blocks
+ */
+async function readFlac(
+  handle: FileHandle,
+  start: number,
+  info: AudioInfo = { format: 'flac', codec: 'flac' },
+): Promise<AudioInfo> {
+  let position = start + 4;
+
+  for (;;) {
+    const header = await readAt(handle, position, 4);
+    if (header.length < 4) {
+      break;
+    }
+    const type = (header[0] ?? 0) & 0x7f;
+    const length = header.readUIntBE(1, 3);
+    position += 4;
+
+    if (type === 0 && length >= 18) {
+      const block = await readAt(handle, position, length);
+      const sampleRate =
+        ((block[10] ?? 0) << 12) | ((block[11] ?? 0) << 4) | ((block[12] ?? 0) >> 4);
+      const totalSamples = ((block[13] ?? 0) & 0x0f) * 2 ** 32 + block.readUInt32BE(14);
+      info.sampleRate = sampleRate;
+      info.channels = (((block[12] ?? 0) >> 1) & 0x07) + 1;
+      if (sampleRate > 0 && totalSamples > 0) {
+        info.duration = totalSamples / sampleRate;
+      }
+    } else if (type === 4 && length <= MAX_TAG_SIZE) {
+      applyFields(info, parseVorbisComment(await readAt(handle, position, length)));
+    }
+
+    position += length;
+    if (((header[0] ?? 0) & 0x80) !== 0) {
+      break; // Last metadata block
+    }
+  }
+
+  if (info.duration) {
+    const { size } = await handle.stat();
+    info.bitrate = Math.round(((size - position) * 8) / info.duration);
+  }
+  return info;
+}
+
+/**
+ * Read an Ogg Vorbis or Opus file: identification and comment headers, and
+ * the last granule position for the duration
+ */
+async function readOgg(handle: FileHandle, size: number): Promise<AudioInfo> {
+  const info: AudioInfo = { format: 'ogg' };
+  const packets = await readOggPackets(handle, 2);
+  const [identification, comment] = packets;
+  let rate: number | undefined;
+  let preSkip = 0;
+
+  if (identification?.toString('latin1', 0, 7) === '\x01vorbis') {
+    info.codec = 'vorbis';
+    info.channels = identification[11];
+    info.sampleRate = rate = identification.readUInt32LE(12);
+    const nominalBitrate = identification.readInt32LE(20);
+    if (nominalBitrate > 0) {
+      info.bitrate = nominalBitrate;
+    }
+    if (comment?.toString('latin1', 0, 7) === '\x03vorbis') {
+      applyFields(info, parseVorbisComment(comment.subarray(7)));
+    }
+  } else if (identification?.toString('latin1', 0, 8) === 'OpusHead') {
+    info.codec = 'opus';
+    info.channels = identification[9];
+    info.sampleRate = identification.readUInt32LE(12);
+    rate = 48000; // Opus granule positions always count 48 kHz samples
+    preSkip = identification.readUInt16LE(10);
+    if (comment?.toString('latin1', 0, 8) === 'OpusTags') {
+      applyFields(info, parseVorbisComment(comment.subarray(8)));
+    }
+  } else {
+    throw new Error('Unsupported Ogg stream');
+  }
+
+  // The last page's granule position is the stream's sample count
+  const tailStart = Math.max(0, size - OGG_TAIL_BYTES);
+  const tail = await readAt(handle, tailStart, size - tailStart);
+  const lastPage = tail.lastIndexOf('OggS');
+  if (rate && lastPage >= 0 && lastPage + 14 <= tail.length) {
+    const granule = tail.readUInt32LE(lastPage + 6) + tail.readUInt32LE(lastPage + 10) * 2 ** 32;
+    if (granule > preSkip) {
+      info.duration = (granule - preSkip) / rate;
+      info.bitrate ??= Math.round((size * 8) / info.duration);
+    }
+  }
+  return info;
+}
+
+/**
+ * The first packets of the file's first logical stream, read page by page
+ *
+ * Comment packets can span many pages when they embed cover art; a packet
+ * that grows past MAX_TAG_SIZE ends the read.
+ */
+async function readOggPackets(handle: FileHandle, count: number): Promise<Buffer[]> {
+  const packets: Buffer[] = [];
+  let current: Buffer[] = [];
+  let currentSize = 0;
+  let serial: number | undefined;
+  let position = 0;
+
+  while (packets.length < count && currentSize <= MAX_TAG_SIZE) {
+    const header = await readAt(handle, position, 27);
+    if (header.length < 27 || header.toString('latin1', 0, 4) !== 'OggS') {
+      break;
+    }
+    const pageSerial = header.readUInt32LE(14);
+    const segments = await readAt(handle, position + 27, header[26] ?? 0);
+    const bodyLength = segments.reduce((total, length) => total + length, 0);
+    const bodyStart = position + 27 + segments.length;
+    position = bodyStart + bodyLength;
+    serial ??= pageSerial;
+    if (pageSerial !== serial) {
+      continue; // Another multiplexed stream
+    }
+
+    const body = await readAt(handle, bodyStart, bodyLength);
+    let offset = 0;
+    for (const length of segments) {
+      current.push(body.subarray(offset, offset + length));
+      currentSize += length;
+      offset += length;
+      if (length < 255) {
+        packets.push(Buffer.concat(current));
+        current = [];
+        currentSize = 0;
+      }
+    }
+  }
+  return packets.slice(0, count);
+}
+
+/**
+ * Parse a Vorbis comment block (FLAC, Ogg Vorbis and Opus) into tag fields
+ */
+function parseVorbisComment(data: Buffer): Record<string, string> {
+  const fields: Record<string, string> = {};
+  let position = 4 + data.readUInt32LE(0); // Skip the vendor string
+  const count = data.readUInt32LE(position);
+  position += 4;
+
+  for (let i = 0; i < count && position + 4 <= data.length; i++) {
+    const length = data.readUInt32LE(position);
+    const comment = data.toString('utf8', position + 4, position + 4 + length);
+    position += 4 + length;
+
+    const separator = comment.indexOf('=');
+    const field = VORBIS_FIELDS[comment.slice(0, separator).toUpperCase()];
+    const value = comment.slice(separator + 1).trim();
+    if (separator > 0 && field && value && !(field in fields)) {
+      fields[field] = value;
+    }
+  }
+  return fields;
+}
+
+/**
+ * Read an MP4/M4A file: movie header, first audio sample entry and iTunes
+ * metadata items
+ */
+async function readMp4(handle: FileHandle, size: number): Promise<AudioInfo> {
+  const info: AudioInfo = { format: 'mp4' };
+
+  // Find the movie box among the top-level boxes; it may follow the media data
+  let moov: Buffer | undefined;
+  for (let position = 0; position + 8 <= size; ) {
+    const header = await readAt(handle, position, 16);
+    const type = header.toString('latin1', 4, 8);
+    let boxSize = header.readUInt32BE(0);
+    if (boxSize === 1 && header.length >= 16) {
+      boxSize = header.readUInt32BE(8) * 2 ** 32 + header.readUInt32BE(12);
+    } else if (boxSize === 0) {
+      boxSize = size - position;
+    }
+    if (boxSize < 8) {
+      break;
+    }
+    if (type === 'moov') {
+      if (boxSize > MAX_TAG_SIZE) {
+        throw new Error('MP4 movie box is too large');
+      }
+      moov = (await readAt(handle, position, boxSize)).subarray(8);
+      break;
+    }
+    position += boxSize;
+  }
+  if (!moov) {
+    throw new Error('No MP4 movie box found');
+  }
+
+  const mvhd = findBox(moov, ['mvhd']);
+  if (mvhd && mvhd.length >= 32) {
+    const v1 = mvhd[0] === 1;
+    const timescale = mvhd.readUInt32BE(v1 ? 20 : 12);
+    const duration = v1
+      ? mvhd.readUInt32BE(24) * 2 ** 32 + mvhd.readUInt32BE(28)
+      : mvhd.readUInt32BE(16);
+    if (timescale > 0 && duration > 0) {
+      info.duration = duration / timescale;
+      info.bitrate = Math.round((size * 8) / info.duration);
+    }
+  }
+
+  // The first track's sample entry: codec, channels and sample rate
+  const stsd = findBox(moov, ['trak', 'mdia', 'minf', 'stbl', 'stsd']);
+  if (stsd && stsd.length >= 8 + 36) {
+    const entry = stsd.subarray(8);
+    const codec = entry.toString('latin1', 4, 8);
+    info.codec = codec === 'mp4a' ? 'aac' : codec;
+    info.channels = entry.readUInt16BE(24);
+    info.sampleRate = entry.readUInt32BE(32) >>> 16;
+  }
+
+  // iTunes metadata: moov/udta/meta (a full box) /ilst
+  const meta = findBox(moov, ['udta', 'meta']);
+  const ilst = meta ? findBox(meta.subarray(4), ['ilst']) : undefined;
+  if (ilst) {
+    const fields: Record<string, string> = {};
+    for (const item of listBoxes(ilst)) {
+      const data = findBox(item.data, ['data']);
+      if (!data || data.length < 8) {
+        continue;
+      }
+      const value = data.subarray(8); // Type indicator and locale
+
+      const field = MP4_ITEMS[item.type];
+      if (field) {
+        fields[field] = value.toString('utf8').trim();
+      } else if ((item.type === 'trkn' || item.type === 'disk') && value.length >= 6) {
+        fields[item.type === 'trkn' ? 'track' : 'disc'] = String(value.readUInt16BE(2));
+        if (item.type === 'trkn' && value.readUInt16BE(4) > 0) {
+          fields['trackTotal'] = String(value.readUInt16BE(4));
+        }
+      } else if (item.type === 'gnre' && value.length >= 2 && !fields['genre']) {
+        fields['genre'] = ID3_GENRES[value.readUInt16BE(0) - 1] ?? '';
+      }
+    }
+    applyFields(info, fields);
+  }
+  return info;
+}
+
+/**
+ * Child boxes of an MP4 box's content
+ */
+function listBoxes(data: Buffer): Array<{ type: string; data: Buffer }> {
+  const boxes: Array<{ type: string; data: Buffer }> = [];
+  for (let position = 0; position + 8 <= data.length; ) {
+    const size = data.readUInt32BE(position);
+    if (size < 8) {
+      break;
+    }
+    boxes.push({
+      type: data.toString('latin1', position + 4, position + 8),
+      data: data.subarray(position + 8, position + size),
+    });
+    position += size;
+  }
+  return boxes;
+}
+
+/**
+ * Content of the first box at a path of box types
+ */
+function findBox(data: Buffer, boxPath: string[]): Buffer | undefined {
+  const [type, ...rest] = boxPath;
+  const box = listBoxes(data).find((child) => child.type === type);
+  return box && rest.length > 0 ? findBox(box.data, rest) : box?.data;
+}
+
+/**
+ * Read a WAV file: format and data chunks, INFO list and an embedded ID3 tag
+ */
+async function readWav(handle: FileHandle, size: number): Promise<AudioInfo> {
+  const info: AudioInfo = { format: 'wav' };
+  let byteRate = 0;
+  let dataSize = 0;
+
+  for (let position = 12; position + 8 <= size; ) {
+    const header = await readAt(handle, position, 8);
+    const id = header.toString('latin1', 0, 4);
+    const length = header.readUInt32LE(4);
+    const start = position + 8;
+    position = start + length + (length % 2); // Chunks are word-aligned
+
+    if (id === 'fmt ' && length >= 16) {
+      const format = await readAt(handle, start, 16);
+      const formatTag = format.readUInt16LE(0);
+      info.codec = WAV_FORMATS[formatTag] ?? 'wav';
+      info.channels = format.readUInt16LE(2);
+      info.sampleRate = format.readUInt32LE(4);
+      byteRate = format.readUInt32LE(8);
+    } else if (id === 'data') {
+      dataSize = Math.min(length, size - start);
+    } else if (id === 'LIST' && length <= MAX_TAG_SIZE) {
+      const list = await readAt(handle, start, length);
+      if (list.toString('latin1', 0, 4) === 'INFO') {
+        applyFields(info, parseRiffInfo(list.subarray(4)));
+      }
+    } else if ((id === 'id3 ' || id === 'ID3 ') && length <= MAX_TAG_SIZE) {
+      applyId3(info, await readAt(handle, start, length));
+    }
+  }
+
+  if (byteRate > 0) {
+    info.bitrate = byteRate * 8;
+    info.duration = dataSize / byteRate;
+  }
+  return info;
+}
+
+/**
+ * Parse the sub-chunks of a RIFF INFO list into tag fields
+ */
+function parseRiffInfo(data: Buffer): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (let position = 0; position + 8 <= data.length; ) {
+    const id = data.toString('latin1', position, position + 4);
+    const length = data.readUInt32LE(position + 4);
+    const value = data
+      .toString('latin1', position + 8, position + 8 + length)
+      .replace(/\0.*$/s, '')
+      .trim();
+    position += 8 + length + (length % 2);
+
+    const field = RIFF_INFO_FIELDS[id];
+    if (field && value && !(field in fields)) {
+      fields[field] = value;
+    }
+  }
+  return fields;
+}
+
+/**
+ * Apply tag fields as read from a tag format to the audio info: years are
+ * taken from dates, `n/total` numbers split and numeric genres resolved
+ */
+function applyFields(info: AudioInfo, fields: Record<string, string>): void {
+  info.title ??= tagText(fields['title']);
+  info.artist ??= tagText(fields['artist']);
+  info.albumArtist ??= tagText(fields['albumArtist']);
+  info.album ??= tagText(fields['album']);
+  info.year ??= tagNumber(/\d{4}/.exec(fields['date'] ?? '')?.[0]);
+  info.genre ??= resolveGenre(tagText(fields['genre']));
+
+  const [track, trackTotal] = (fields['track'] ?? '').split('/');
+  info.track ??= tagNumber(track);
+  info.trackTotal ??= tagNumber(trackTotal) ?? tagNumber(fields['trackTotal']);
+  info.disc ??= tagNumber(fields['disc']?.split('/')[0]);
+}
+
+/**
+ * Resolve ID3 genre references: "17", "(17)" or "(17)Rock"
+ */
+function resolveGenre(genre: string | undefined): string | undefined {
+  const reference = genre ? /^\((\d+)\)(.*)$|^(\d+)$/.exec(genre) : null;
+  if (!reference) {
+    return genre;
+  }
+  return tagText(reference[2]) ?? ID3_GENRES[Number(reference[1] ?? reference[3])] ?? genre;
+}
+
+/**
+ * A trimmed tag value, undefined when empty
+ */
+function tagText(value: string | undefined): string | undefined {
+  const text = value?.trim();
+  return text ? text : undefined;
+}
+
+/**
+ * A positive tag number, undefined when missing or zero
+ */
+function tagNumber(value: string | undefined): number | undefined {
+  const parsed = parseInt(value ?? '', 10);
+  return parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Read bytes at a position; shorter than requested at the end of the file
+ */
+async function readAt(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(Math.max(0, length));
+  const { bytesRead } = await handle.read(buffer, 0, buffer.length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * Read a 28-bit synchsafe integer (ID3v2 sizes)
+ */
+function synchsafe(buffer: Buffer, offset: number): number {
+  return (
+    (((buffer[offset] ?? 0) & 0x7f) << 21) |
+    (((buffer[offset + 1] ?? 0) & 0x7f) << 14) |
+    (((buffer[offset + 2] ?? 0) & 0x7f) << 7) |
+    ((buffer[offset + 3] ?? 0) & 0x7f)
+  );
+}
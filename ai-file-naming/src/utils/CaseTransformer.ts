@@ -85,6 +85,30 @@ export function transformCase(str: string, format: CaseFormat): string {
   }
 }
 
+/**
+ * Append a suffix (a date, a sheet name, a sequence number) to a name in its
+ * case format, without re-casing the name itself
+ */
+export function appendInCase(
+  name: string,
+  suffix: string,
+  format: CaseFormat,
+  separator = '_',
+): string {
+  switch (format) {
+    case 'snake_case':
+      return `${name}_${toSnakeCase(suffix)}`;
+    case 'kebab-case':
+      return `${name}-${toKebabCase(suffix)}`;
+    case 'camelCase':
+    case 'PascalCase':
+      return name + toPascalCase(suffix);
+    case 'preserve':
+    default:
+      return `${name}${separator}${suffix.replace(/\s+/g, separator)}`;
+  }
+}
+
 /**
  * Detect case format of a string
  */
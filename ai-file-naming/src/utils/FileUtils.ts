@@ -3,6 +3,7 @@
  */
 
 import * as fs from 'fs/promises';
+import * as os from 'os';
 import * as path from 'path';
 import { createReadStream } from 'fs';
 import { createHash } from 'crypto';
@@ -245,6 +246,40 @@ export async function fileExists(filePath: string): Promise<boolean> {
   }
 }
 
+/**
+ * Check if two paths refer to the same file on disk
+ */
+export async function isSameFile(pathA: string, pathB: string): Promise<boolean> {
+  try {
+    const [a, b] = await Promise.all([fs.stat(pathA), fs.stat(pathB)]);
+    return a.dev === b.dev && a.ino === b.ino;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check if the filesystem holding a directory ignores case in names
+ *
+ * Probes the directory (or the nearest ancestor with letters in its name)
+ * under a case-swapped name; the filesystem root is assumed case-sensitive.
+ */
+export async function isCaseInsensitiveDir(dirPath: string): Promise<boolean> {
+  let probe = path.resolve(dirPath);
+
+  while (path.dirname(probe) !== probe) {
+    const name = path.basename(probe);
+    const swapped = name === name.toLowerCase() ? name.toUpperCase() : name.toLowerCase();
+
+    if (swapped !== name) {
+      return isSameFile(probe, path.join(path.dirname(probe), swapped));
+    }
+    probe = path.dirname(probe);
+  }
+
+  return false;
+}
+
 /**
  * Get file hash
  */
@@ -285,6 +320,7 @@ export async function listFiles(
     recursive?: boolean;
     filter?: (filePath: string) => boolean;
     includeDirectories?: boolean;
+    skipHidden?: boolean; // Leave out dot files and do not descend into dot directories
   },
 ): Promise<string[]> {
   const files: string[] = [];
@@ -293,6 +329,7 @@ export async function listFiles(
     const entries = await fs.readdir(dir, { withFileTypes: true });
 
     for (const entry of entries) {
+      if (options?.skipHidden && entry.name.startsWith('.')) continue;
       const fullPath = path.join(dir, entry.name);
 
       if (entry.isDirectory()) {
@@ -314,6 +351,130 @@ export async function listFiles(
   return files;
 }
 
+/**
+ * Check if path is a directory
+ */
+export async function isDirectory(dirPath: string): Promise<boolean> {
+  try {
+    const stats = await fs.stat(dirPath);
+    return stats.isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Expand a leading `~` to the home directory, as the shell would for an
+ * unquoted path
+ */
+export function expandHome(filePath: string): string {
+  return /^~(?=$|[/\\])/.test(filePath) ? os.homedir() + filePath.slice(1) : filePath;
+}
+
+/**
+ * Check if a string contains glob syntax
+ */
+export function isGlobPattern(pattern: string): boolean {
+  return /[*?[\]{}]/.test(pattern);
+}
+
+/**
+ * Convert a glob pattern to a regular expression
+ *
+ * Supports `*`, `**`, `?`, `[...]` and `{a,b}`. Paths are matched with `/` separators.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i] ?? '';
+
+    switch (char) {
+      case '*':
+        if (pattern[i + 1] === '*') {
+          // `**/` matches zero or more directories, bare `**` matches anything
+          if (pattern[i + 2] === '/') {
+            source += '(?:.*/)?';
+            i += 2;
+          } else {
+            source += '.*';
+            i += 1;
+          }
+        } else {
+          source += '[^/]*';
+        }
+        break;
+      case '?':
+        source += '[^/]';
+        break;
+      case '[': {
+        const end = pattern.indexOf(']', i + 1);
+        if (end === -1) {
+          source += '\\[';
+        } else {
+          const body = pattern.slice(i + 1, end).replace(/^!/, '^');
+          source += `[${body.replace(/\\/g, '\\\\')}]`;
+          i = end;
+        }
+        break;
+      }
+      case '{':
+        inGroup = true;
+        source += '(?:';
+        break;
+      case '}':
+        source += inGroup ? ')' : '\\}';
+        inGroup = false;
+        break;
+      case ',':
+        source += inGroup ? '|' : ',';
+        break;
+      default:
+        source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Expand a glob pattern to matching file paths
+ *
+ * With `skipHidden`, dot files and everything below dot directories under the
+ * pattern's static base are left out.
+ */
+export async function expandGlob(
+  pattern: string,
+  options?: { skipHidden?: boolean },
+): Promise<string[]> {
+  const normalized = pattern.split(path.sep).join('/');
+  const segments = normalized.split('/');
+
+  // Split into a static base directory and the glob remainder
+  const firstGlob = segments.findIndex((segment) => isGlobPattern(segment));
+  if (firstGlob === -1) {
+    return (await fileExists(pattern)) ? [pattern] : [];
+  }
+
+  const base = segments.slice(0, firstGlob).join('/') || (normalized.startsWith('/') ? '/' : '.');
+  const rest = segments.slice(firstGlob).join('/');
+  const matcher = globToRegExp(rest);
+
+  if (!(await isDirectory(base))) {
+    return [];
+  }
+
+  const candidates = await listFiles(base, {
+    recursive: rest.includes('/') || rest.includes('**'),
+    skipHidden: options?.skipHidden,
+  });
+
+  return candidates.filter((candidate) =>
+    matcher.test(path.relative(base, candidate).split(path.sep).join('/')),
+  );
+}
+
 /**
  * Prepare image for AI provider
  */
@@ -407,12 +568,8 @@ export async function renameFile(
   const oldExt = path.extname(oldPath);
 
   // Construct new path
-  let newFileName = newName;
-  if (options?.preserveExtension !== false) {
-    // Remove extension from new name if present
-    newFileName = newName.replace(/\.[^.]+$/, '');
-    newFileName += oldExt;
-  }
+  const newFileName =
+    options?.preserveExtension !== false ? withExtension(newName, oldExt) : newName;
 
   const newPath = path.join(dir, newFileName);
 
@@ -426,6 +583,33 @@ export async function renameFile(
   return newPath;
 }
 
+/**
+ * Move file to a new path
+ */
+export async function moveFile(
+  sourcePath: string,
+  destPath: string,
+  options?: {
+    overwrite?: boolean;
+  },
+): Promise<string> {
+  // Check if destination exists (a case-only rename on a case-insensitive
+  // filesystem "exists" as the source itself)
+  if (
+    !options?.overwrite &&
+    (await fileExists(destPath)) &&
+    !(await isSameFile(sourcePath, destPath))
+  ) {
+    throw new Error(`File already exists: ${destPath}`);
+  }
+
+  // Ensure destination directory exists
+  await fs.mkdir(path.dirname(destPath), { recursive: true });
+
+  await fs.rename(sourcePath, destPath);
+  return destPath;
+}
+
 /**
  * Copy file
  */
@@ -487,6 +671,32 @@ export function formatSize(bytes: number): string {
   return `${size.toFixed(2)} ${units[unitIndex]}`;
 }
 
+/**
+ * Format a duration in seconds as m:ss or h:mm:ss
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(total % 60)}`
+    : `${minutes}:${pad(total % 60)}`;
+}
+
+/**
+ * File name for a new name that keeps the original extension
+ *
+ * Only a suffix equal to that extension is replaced, so dotted parts of the
+ * name itself survive (`report_v1.2` stays `report_v1.2.pdf`).
+ */
+export function withExtension(name: string, ext: string): string {
+  if (ext && name.toLowerCase().endsWith(ext.toLowerCase())) {
+    return name.slice(0, -ext.length) + ext;
+  }
+  return name + ext;
+}
+
 /**
  * Sanitize filename
  */
@@ -0,0 +1,80 @@
+/**
+ * Model pricing for token cost accounting
+ */
+
+import { ModelPrice, PricingTable } from '../types/budget';
+
+/**
+ * Default prices in USD per 1M tokens (input / output)
+ */
+export const DEFAULT_PRICING: PricingTable = {
+  openai: {
+    'gpt-5': { input: 1.25, output: 10 },
+    'gpt-5-mini': { input: 0.25, output: 2 },
+    'gpt-5-nano': { input: 0.05, output: 0.4 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    '*': { input: 0.25, output: 2 }, // gpt-5-mini is the default model
+  },
+  anthropic: {
+    'claude-3-opus-20240229': { input: 15, output: 75 },
+    'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+    'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+    '*': { input: 15, output: 75 }, // claude-3-opus is the default model
+  },
+  gemini: {
+    'gemini-1.5-pro': { input: 1.25, output: 5 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+    'gemini-pro': { input: 0.5, output: 1.5 },
+    'gemini-pro-vision': { input: 0.5, output: 1.5 },
+    '*': { input: 0.5, output: 1.5 },
+  },
+  ollama: {
+    '*': 0, // Local models
+  },
+};
+
+/**
+ * Merge user prices over the defaults, per provider
+ */
+export function mergePricing(overrides: PricingTable = {}): PricingTable {
+  const merged: PricingTable = { ...DEFAULT_PRICING };
+  for (const [provider, models] of Object.entries(overrides)) {
+    merged[provider] = { ...DEFAULT_PRICING[provider], ...models };
+  }
+  return merged;
+}
+
+/**
+ * Price of a model, falling back to the provider's `'*'` entry
+ *
+ * Unknown providers and models without a `'*'` entry cost nothing.
+ */
+export function getModelPrice(
+  pricing: PricingTable,
+  provider: string,
+  model: string | undefined,
+): { input: number; output: number } {
+  const prices = pricing[provider] ?? {};
+  const price: ModelPrice = (model !== undefined ? prices[model] : undefined) ?? prices['*'] ?? 0;
+  return typeof price === 'number' ? { input: price, output: price } : price;
+}
+
+/**
+ * Cost in USD of a request's tokens
+ *
+ * `completionTokens` are part of `totalTokens` and billed at the output
+ * price; the rest at the input price.
+ */
+export function calculateCost(
+  pricing: PricingTable,
+  provider: string,
+  model: string | undefined,
+  totalTokens: number,
+  completionTokens = 0,
+): number {
+  const price = getModelPrice(pricing, provider, model);
+  return (
+    ((totalTokens - completionTokens) * price.input + completionTokens * price.output) / 1_000_000
+  );
+}
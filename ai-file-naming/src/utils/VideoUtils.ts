@@ -2,7 +2,7 @@
  * Video utility functions
  */
 
-import { exec } from 'child_process';
+import { execFile } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs/promises';
 import * as path from 'path';
@@ -10,13 +10,19 @@ import * as os from 'os';
 import { prepareImage } from './FileUtils';
 import { PreparedImage } from '../types/provider';
 
-const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+/**
+ * Frames sampled from a video for vision models when no count is given
+ */
+export const DEFAULT_VIDEO_FRAMES = 3;
 
 /**
  * Video frame extraction options
  */
 export interface FrameExtractionOptions {
   count?: number; // Number of frames to extract
+  duration?: number; // Known duration in seconds, saves probing the video again
   fps?: number; // Frames per second
   timestamps?: string[]; // Specific timestamps (e.g., '00:00:05')
   width?: number;
@@ -46,6 +52,17 @@ export interface VideoInfo {
   bitrate?: number;
   format?: string;
   hasAudio: boolean;
+  audioCodec?: string;
+  audioBitrate?: number;
+  audioChannels?: number;
+  audioSampleRate?: number;
+  creationTime?: Date; // Recording time from the container tags
+  gps?: {
+    latitude: number;
+    longitude: number;
+    altitude?: number;
+  };
+  title?: string;
 }
 
 /**
@@ -53,7 +70,7 @@ export interface VideoInfo {
  */
 export async function isFfmpegInstalled(): Promise<boolean> {
   try {
-    await execAsync('ffmpeg -version');
+    await execFileAsync('ffmpeg', ['-version']);
     return true;
   } catch {
     return false;
@@ -65,9 +82,16 @@ export async function isFfmpegInstalled(): Promise<boolean> {
  */
 export async function getVideoInfo(videoPath: string): Promise<VideoInfo> {
   try {
-    const { stdout } = await execAsync(
-      `ffprobe -v quiet -print_format json -show_format -show_streams "${videoPath}"`,
-    );
+    const { stdout } = await execFileAsync('ffprobe', [
+      '-v',
+      'quiet',
+      '-print_format',
+      'json',
+      '-show_format',
+      '-show_streams',
+      '--',
+      inputPath(videoPath),
+    ]);
 
     const data = JSON.parse(stdout) as {
       streams?: Array<{
@@ -76,11 +100,16 @@ export async function getVideoInfo(videoPath: string): Promise<VideoInfo> {
         width?: string | number;
         height?: string | number;
         codec_name?: string;
+        bit_rate?: string;
+        channels?: number;
+        sample_rate?: string;
+        tags?: Record<string, string>;
       }>;
       format?: {
         duration?: string;
         bit_rate?: string;
         format_name?: string;
+        tags?: Record<string, string>;
       };
     };
 
@@ -97,6 +126,18 @@ export async function getVideoInfo(videoPath: string): Promise<VideoInfo> {
     const [num, den] = fpsStr.split('/').map(Number);
     const fps = (num ?? 30) / (den ?? 1);
 
+    // QuickTime keeps the local recording time and location in its own keys
+    const tags = data.format?.tags ?? {};
+    const creationTime = [
+      tags['com.apple.quicktime.creationdate'],
+      tags['creation_time'],
+      videoStream.tags?.['creation_time'],
+    ]
+      .map((value) => (value ? new Date(value) : undefined))
+      .find((date) => date !== undefined && date.getFullYear() > 1970);
+    const location =
+      tags['com.apple.quicktime.location.ISO6709'] ?? tags['location'] ?? tags['location-eng'];
+
     return {
       duration: parseFloat(data.format?.duration ?? '0'),
       width: parseInt(String(videoStream.width ?? '0'), 10),
@@ -106,6 +147,13 @@ export async function getVideoInfo(videoPath: string): Promise<VideoInfo> {
       bitrate: parseInt(data.format?.bit_rate ?? '0', 10),
       format: data.format?.format_name,
       hasAudio: !!audioStream,
+      audioCodec: audioStream?.codec_name,
+      audioBitrate: audioStream?.bit_rate ? parseInt(audioStream.bit_rate, 10) : undefined,
+      audioChannels: audioStream?.channels,
+      audioSampleRate: audioStream?.sample_rate ? parseInt(audioStream.sample_rate, 10) : undefined,
+      creationTime,
+      gps: location ? parseIso6709(location) : undefined,
+      title: tags['com.apple.quicktime.title'] ?? tags['title'],
     };
   } catch (error) {
     throw new Error(
@@ -130,8 +178,8 @@ export async function extractFrames(
   const frames: ExtractedFrame[] = [];
 
   try {
-    const videoInfo = await getVideoInfo(videoPath);
-    const frameCount = options?.count ?? 3;
+    const duration = options?.duration ?? (await getVideoInfo(videoPath)).duration;
+    const frameCount = options?.count ?? DEFAULT_VIDEO_FRAMES;
     const format = options?.format ?? 'jpeg';
     const quality = options?.quality ?? 80;
 
@@ -142,7 +190,7 @@ export async function extractFrames(
       timestamps.push(...options.timestamps);
     } else {
       // Extract frames at regular intervals
-      const interval = videoInfo.duration / (frameCount + 1);
+      const interval = duration / (frameCount + 1);
       for (let i = 1; i <= frameCount; i++) {
         const seconds = interval * i;
         timestamps.push(formatTimestamp(seconds));
@@ -154,22 +202,19 @@ export async function extractFrames(
       const timestamp = timestamps[i]!;
       const outputPath = path.join(outputDir, `frame_${i}.${format}`);
 
-      // Build ffmpeg command
-      let command = `ffmpeg -ss ${timestamp} -i "${videoPath}" -vframes 1`;
+      // Build ffmpeg arguments
+      const args = ['-ss', timestamp, '-i', inputPath(videoPath), '-vframes', '1'];
 
       if (options?.width ?? options?.height) {
-        const scale = `scale=${options.width ?? -1}:${options.height ?? -1}`;
-        command += ` -vf "${scale}"`;
+        args.push('-vf', `scale=${options.width ?? -1}:${options.height ?? -1}`);
       }
 
       if (format === 'jpeg') {
-        command += ` -q:v ${Math.round((100 - quality) / 10)}`;
+        args.push('-q:v', String(Math.round((100 - quality) / 10)));
       }
 
-      command += ` "${outputPath}"`;
-
       // Execute ffmpeg
-      await execAsync(command);
+      await execFileAsync('ffmpeg', [...args, '--', outputPath]);
 
       // Verify frame was created
       try {
@@ -237,6 +282,37 @@ export async function prepareVideoFrames(
   }
 }
 
+/**
+ * Parse an ISO 6709 location in decimal degrees, e.g. `+37.7749-122.4194+010.000/`
+ */
+export function parseIso6709(
+  location: string,
+): { latitude: number; longitude: number; altitude?: number } | undefined {
+  const match = /^([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)?/.exec(location.trim());
+  if (!match?.[1] || !match[2]) {
+    return undefined;
+  }
+
+  const latitude = parseFloat(match[1]);
+  const longitude = parseFloat(match[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return undefined;
+  }
+  return {
+    latitude,
+    longitude,
+    altitude: match[3] ? parseFloat(match[3]) : undefined,
+  };
+}
+
+/**
+ * Absolute path of an input file, so ffmpeg reads it as a local file rather
+ * than an option (`-name.mp4`) or a protocol URL (`concat:a.mp4|b.mp4`)
+ */
+function inputPath(filePath: string): string {
+  return path.resolve(filePath);
+}
+
 /**
  * Format seconds to timestamp
  */
@@ -263,9 +339,18 @@ export async function generateThumbnail(
 
   const ts = timestamp ?? '00:00:01'; // Default to 1 second in
 
-  const command = `ffmpeg -ss ${ts} -i "${videoPath}" -vframes 1 -q:v 2 "${outputPath}"`;
-
-  await execAsync(command);
+  await execFileAsync('ffmpeg', [
+    '-ss',
+    ts,
+    '-i',
+    inputPath(videoPath),
+    '-vframes',
+    '1',
+    '-q:v',
+    '2',
+    '--',
+    path.resolve(outputPath),
+  ]);
 
   // Verify thumbnail was created
   await fs.access(outputPath);
@@ -0,0 +1,402 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { getAudioInfo } from '../AudioUtils';
+
+/**
+ * A Vorbis comment block: vendor string and `FIELD=value` comments
+ */
+const vorbisComment = (comments: string[]): Buffer => {
+  const vendor = Buffer.from('test');
+  const parts = [uint32LE(vendor.length), vendor, uint32LE(comments.length)];
+  for (const comment of comments) {
+    const bytes = Buffer.from(comment, 'utf8');
+    parts.push(uint32LE(bytes.length), bytes);
+  }
+  return Buffer.concat(parts);
+};
+
+const uint32LE = (value: number): Buffer => {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+};
+
+/**
+ * Ogg pages for a logical stream's packets, laced and split every 255 segments
+ */
+const oggStream = (packets: Buffer[], lastGranule = 0, serial = 1): Buffer => {
+  const segments: Array<{ length: number; data: Buffer }> = [];
+  for (const packet of packets) {
+    let offset = 0;
+    do {
+      const length = Math.min(255, packet.length - offset);
+      segments.push({ length, data: packet.subarray(offset, offset + length) });
+      offset += length;
+      if (length === 255 && offset === packet.length) {
+        segments.push({ length: 0, data: Buffer.alloc(0) }); // Packet ends on a full segment
+      }
+    } while (offset < packet.length);
+  }
+
+  const pages: Buffer[] = [];
+  for (let i = 0; i < segments.length; i += 255) {
+    const page = segments.slice(i, i + 255);
+    const header = Buffer.alloc(27);
+    header.write('OggS', 0, 'latin1');
+    header.writeUInt32LE(i + 255 >= segments.length ? lastGranule : 0, 6);
+    header.writeUInt32LE(serial, 14);
+    header.writeUInt32LE(pages.length, 18);
+    header[26] = page.length;
+    pages.push(
+      header,
+      Buffer.from(page.map((segment) => segment.length)),
+      ...page.map((segment) => segment.data),
+    );
+  }
+  return Buffer.concat(pages);
+};
+
+const vorbisIdentification = (channels: number, sampleRate: number): Buffer => {
+  const packet = Buffer.alloc(30);
+  packet.write('\x01vorbis', 0, 'latin1');
+  packet[11] = channels;
+  packet.writeUInt32LE(sampleRate, 12);
+  packet.writeInt32LE(128000, 20);
+  return packet;
+};
+
+/**
+ * An ID3v2 tag of the given version; frame sizes are synchsafe in v2.4
+ */
+const id3Tag = (version: 3 | 4, frames: Array<[string, Buffer]>): Buffer => {
+  const body = Buffer.concat(
+    frames.flatMap(([id, data]) => {
+      const header = Buffer.alloc(10);
+      header.write(id, 0, 'latin1');
+      if (version === 4) {
+        synchsafe(data.length).copy(header, 4);
+      } else {
+        header.writeUInt32BE(data.length, 4);
+      }
+      return [header, data];
+    }),
+  );
+  return Buffer.concat([
+    Buffer.from([0x49, 0x44, 0x33, version, 0, 0]),
+    synchsafe(body.length),
+    body,
+  ]);
+};
+
+const synchsafe = (value: number): Buffer =>
+  Buffer.from([(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f]);
+
+/**
+ * An ID3v2 text frame's data in an encoding: 0 Latin-1, 1 UTF-16 with BOM, 3 UTF-8
+ */
+const id3Text = (text: string, encoding: 0 | 1 | 3 = 0, bigEndian = false): Buffer => {
+  if (encoding !== 1) {
+    return Buffer.concat([
+      Buffer.from([encoding]),
+      Buffer.from(text, encoding ? 'utf8' : 'latin1'),
+    ]);
+  }
+  const utf16 = Buffer.from(text, 'utf16le');
+  if (bigEndian) {
+    utf16.swap16();
+  }
+  return Buffer.concat([Buffer.from([1, ...(bigEndian ? [0xfe, 0xff] : [0xff, 0xfe])]), utf16]);
+};
+
+/**
+ * An MPEG-1 Layer III frame (128 kbps, 44.1 kHz, stereo), with a Xing header
+ * when given a frame count
+ */
+const mpegFrame = (frameCount?: number): Buffer => {
+  const frame = Buffer.alloc(417);
+  frame.set([0xff, 0xfb, 0x90, 0x00]);
+  if (frameCount !== undefined) {
+    frame.write('Xing', 36, 'latin1');
+    frame.writeUInt32BE(1, 40);
+    frame.writeUInt32BE(frameCount, 44);
+  }
+  return frame;
+};
+
+/**
+ * An MP4 box around its content
+ */
+const mp4Box = (type: string, ...content: Buffer[]): Buffer => {
+  const body = Buffer.concat(content);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + body.length);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, body]);
+};
+
+/**
+ * An iTunes metadata item holding a data box
+ */
+const mp4Item = (type: string, value: Buffer): Buffer =>
+  mp4Box(type, mp4Box('data', Buffer.alloc(8), value));
+
+/**
+ * A RIFF chunk, padded to an even length
+ */
+const riffChunk = (id: string, data: Buffer): Buffer => {
+  const header = Buffer.alloc(8);
+  header.write(id, 0, 'latin1');
+  header.writeUInt32LE(data.length, 4);
+  return Buffer.concat([header, data, Buffer.alloc(data.length % 2)]);
+};
+
+describe('getAudioInfo', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'audio-utils-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const readAudio = async (name: string, data: Buffer) => {
+    const filePath = path.join(dir, name);
+    await fs.writeFile(filePath, data);
+    return getAudioInfo(filePath);
+  };
+
+  describe('MP3', () => {
+    it('reads UTF-16 text frames with either byte order', async () => {
+      const tag = id3Tag(3, [
+        ['TIT2', id3Text('Café Ünïcode', 1)],
+        ['TPE1', id3Text('Sigur Rós', 1, true)],
+        ['TALB', id3Text('Ágætis byrjun', 3)],
+      ]);
+
+      const info = await readAudio('song.mp3', Buffer.concat([tag, mpegFrame()]));
+
+      expect(info).toMatchObject({
+        title: 'Café Ünïcode',
+        artist: 'Sigur Rós',
+        album: 'Ágætis byrjun',
+      });
+    });
+
+    it('reads v2.4 frames whose sizes are synchsafe', async () => {
+      // 200 characters: a synchsafe size that differs from the plain integer
+      const title = 'x'.repeat(200);
+      const tag = id3Tag(4, [
+        ['TIT2', id3Text(title)],
+        ['TPE1', id3Text('Artist')],
+        ['TDRC', id3Text('2019-04-01')],
+      ]);
+
+      const info = await readAudio('long.mp3', Buffer.concat([tag, mpegFrame()]));
+
+      expect(info).toMatchObject({ title, artist: 'Artist', year: 2019 });
+    });
+
+    it('splits track numbers and resolves numeric genres', async () => {
+      const tag = id3Tag(3, [
+        ['TRCK', id3Text('3/12')],
+        ['TCON', id3Text('(17)')],
+      ]);
+
+      const info = await readAudio('track.mp3', Buffer.concat([tag, mpegFrame()]));
+
+      expect(info).toMatchObject({ track: 3, trackTotal: 12, genre: 'Rock' });
+    });
+
+    it('takes the duration of variable-bitrate files from the Xing header', async () => {
+      const info = await readAudio('vbr.mp3', mpegFrame(1000));
+
+      expect(info).toMatchObject({ codec: 'mp3', sampleRate: 44100, channels: 2 });
+      expect(info.duration).toBeCloseTo((1000 * 1152) / 44100);
+    });
+
+    it('derives the duration of constant-bitrate files from the bitrate', async () => {
+      const audio = Buffer.concat(Array.from({ length: 10 }, () => mpegFrame()));
+
+      const info = await readAudio('cbr.mp3', audio);
+
+      expect(info.bitrate).toBe(128000);
+      expect(info.duration).toBeCloseTo((audio.length * 8) / 128000);
+    });
+  });
+
+  describe('FLAC', () => {
+    it('reads STREAMINFO and the Vorbis comment block', async () => {
+      const streamInfo = Buffer.alloc(34);
+      // 20 bits sample rate, 3 bits channels - 1, 5 bits bits per sample - 1, 36 bits samples
+      streamInfo.writeBigUInt64BE((44100n << 44n) | (1n << 41n) | (15n << 36n) | 441000n, 10);
+      const comment = vorbisComment(['TITLE=Lossless', 'ARTIST=Encoder', 'DATE=2021']);
+      const blockHeader = (type: number, length: number): Buffer =>
+        Buffer.from([type, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff]);
+
+      const info = await readAudio(
+        'song.flac',
+        Buffer.concat([
+          Buffer.from('fLaC'),
+          blockHeader(0, streamInfo.length),
+          streamInfo,
+          blockHeader(0x84, comment.length),
+          comment,
+        ]),
+      );
+
+      expect(info).toMatchObject({
+        format: 'flac',
+        sampleRate: 44100,
+        channels: 2,
+        duration: 10,
+        title: 'Lossless',
+        artist: 'Encoder',
+        year: 2021,
+      });
+    });
+  });
+
+  describe('MP4', () => {
+    it('reads iTunes items, including track numbers and genre references', async () => {
+      const mvhd = Buffer.alloc(100);
+      mvhd.writeUInt32BE(1000, 12); // Timescale
+      mvhd.writeUInt32BE(90000, 16); // Duration
+      const trkn = Buffer.alloc(8);
+      trkn.writeUInt16BE(4, 2);
+      trkn.writeUInt16BE(10, 4);
+      const ilst = mp4Box(
+        'ilst',
+        mp4Item('©nam', Buffer.from('Podcast Episode')),
+        mp4Item('©ART', Buffer.from('Host')),
+        mp4Item('trkn', trkn),
+        mp4Item('gnre', Buffer.from([0, 18])),
+      );
+
+      const info = await readAudio(
+        'episode.m4a',
+        Buffer.concat([
+          mp4Box('ftyp', Buffer.from('M4A \0\0\0\0M4A ', 'latin1')),
+          mp4Box(
+            'moov',
+            mp4Box('mvhd', mvhd),
+            mp4Box('udta', mp4Box('meta', Buffer.alloc(4), ilst)),
+          ),
+        ]),
+      );
+
+      expect(info).toMatchObject({
+        format: 'mp4',
+        duration: 90,
+        title: 'Podcast Episode',
+        artist: 'Host',
+        track: 4,
+        trackTotal: 10,
+        genre: 'Rock',
+      });
+    });
+  });
+
+  describe('WAV', () => {
+    it('reads the format chunk and the RIFF INFO list', async () => {
+      const format = Buffer.alloc(16);
+      format.writeUInt16LE(1, 0);
+      format.writeUInt16LE(2, 2);
+      format.writeUInt32LE(44100, 4);
+      format.writeUInt32LE(176400, 8);
+      format.writeUInt16LE(4, 12);
+      format.writeUInt16LE(16, 14);
+      const list = Buffer.concat([
+        Buffer.from('INFO'),
+        riffChunk('INAM', Buffer.from('Field Recording\0')),
+        riffChunk('IART', Buffer.from('Odd')), // Padded to an even length
+        riffChunk('ICRD', Buffer.from('2018-05-01\0')),
+        riffChunk('ITRK', Buffer.from('7\0')),
+      ]);
+      const chunks = Buffer.concat([
+        riffChunk('fmt ', format),
+        riffChunk('LIST', list),
+        riffChunk('data', Buffer.alloc(88200)),
+      ]);
+      const header = Buffer.alloc(12);
+      header.write('RIFF', 0, 'latin1');
+      header.writeUInt32LE(4 + chunks.length, 4);
+      header.write('WAVE', 8, 'latin1');
+
+      const info = await readAudio('take.wav', Buffer.concat([header, chunks]));
+
+      expect(info).toMatchObject({
+        format: 'wav',
+        codec: 'pcm',
+        channels: 2,
+        sampleRate: 44100,
+        bitrate: 1411200,
+        duration: 0.5,
+        title: 'Field Recording',
+        artist: 'Odd',
+        year: 2018,
+        track: 7,
+      });
+    });
+  });
+
+  describe('Ogg', () => {
+    it('reads Vorbis comments and the duration from the last granule position', async () => {
+      const comment = Buffer.concat([
+        Buffer.from('\x03vorbis', 'latin1'),
+        vorbisComment(['TITLE=Blue Monday', 'ARTIST=New Order', 'TRACKNUMBER=2/8']),
+      ]);
+
+      const info = await readAudio(
+        'song.ogg',
+        oggStream([vorbisIdentification(2, 44100), comment], 44100 * 3),
+      );
+
+      expect(info).toMatchObject({
+        format: 'ogg',
+        codec: 'vorbis',
+        channels: 2,
+        sampleRate: 44100,
+        duration: 3,
+        title: 'Blue Monday',
+        artist: 'New Order',
+        track: 2,
+        trackTotal: 8,
+      });
+    });
+
+    it('reads comments that follow embedded cover art spanning many pages', async () => {
+      const picture = 'METADATA_BLOCK_PICTURE=' + 'A'.repeat(400 * 1024);
+      const comment = Buffer.concat([
+        Buffer.from('\x03vorbis', 'latin1'),
+        vorbisComment([picture, 'TITLE=Cover Story', 'ALBUM=Artwork']),
+      ]);
+
+      const info = await readAudio('art.ogg', oggStream([vorbisIdentification(2, 48000), comment]));
+
+      expect(info).toMatchObject({ title: 'Cover Story', album: 'Artwork' });
+    });
+
+    it('reads Opus tags and subtracts the pre-skip from the duration', async () => {
+      const head = Buffer.alloc(19);
+      head.write('OpusHead', 0, 'latin1');
+      head[8] = 1;
+      head[9] = 2;
+      head.writeUInt16LE(312, 10);
+      head.writeUInt32LE(44100, 12);
+      const tags = Buffer.concat([Buffer.from('OpusTags'), vorbisComment(['TITLE=Voice Memo'])]);
+
+      const info = await readAudio('memo.opus', oggStream([head, tags], 48000 * 2 + 312));
+
+      expect(info).toMatchObject({
+        codec: 'opus',
+        channels: 2,
+        sampleRate: 44100,
+        duration: 2,
+        title: 'Voice Memo',
+      });
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { expandGlob, expandHome, globToRegExp, moveFile, withExtension } from '../FileUtils';
+
+describe('globToRegExp', () => {
+  it('keeps * and ? within one path segment', () => {
+    const regex = globToRegExp('*.tx?');
+    expect(regex.test('notes.txt')).toBe(true);
+    expect(regex.test('sub/notes.txt')).toBe(false);
+    expect(regex.test('notes.text')).toBe(false);
+  });
+
+  it('lets **/ match zero or more directories', () => {
+    const regex = globToRegExp('**/*.jpg');
+    expect(regex.test('photo.jpg')).toBe(true);
+    expect(regex.test('a/b/photo.jpg')).toBe(true);
+    expect(regex.test('a/b/photo.png')).toBe(false);
+  });
+
+  it('supports character classes and brace alternatives', () => {
+    expect(globToRegExp('img[0-9].{jpg,png}').test('img3.png')).toBe(true);
+    expect(globToRegExp('img[!0-9].jpg').test('img3.jpg')).toBe(false);
+    expect(globToRegExp('img[!0-9].jpg').test('imgA.jpg')).toBe(true);
+  });
+
+  it('escapes regular expression characters', () => {
+    const regex = globToRegExp('report (1).pdf');
+    expect(regex.test('report (1).pdf')).toBe(true);
+    expect(regex.test('report (1)Xpdf')).toBe(false);
+  });
+});
+
+describe('expandGlob', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-utils-'));
+    await fs.mkdir(path.join(dir, 'sub'));
+    await fs.writeFile(path.join(dir, 'a.txt'), 'a');
+    await fs.writeFile(path.join(dir, 'b.md'), 'b');
+    await fs.writeFile(path.join(dir, 'sub', 'c.txt'), 'c');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('matches files in the base directory only for a single-segment pattern', async () => {
+    const files = await expandGlob(path.join(dir, '*.txt'));
+    expect(files).toEqual([path.join(dir, 'a.txt')]);
+  });
+
+  it('descends into subdirectories for **', async () => {
+    const files = await expandGlob(path.join(dir, '**', '*.txt'));
+    expect(files.sort()).toEqual([path.join(dir, 'a.txt'), path.join(dir, 'sub', 'c.txt')]);
+  });
+
+  it('returns a plain path only when the file exists', async () => {
+    expect(await expandGlob(path.join(dir, 'b.md'))).toEqual([path.join(dir, 'b.md')]);
+    expect(await expandGlob(path.join(dir, 'missing.md'))).toEqual([]);
+  });
+
+  it('returns nothing when the base directory does not exist', async () => {
+    expect(await expandGlob(path.join(dir, 'missing', '*.txt'))).toEqual([]);
+  });
+});
+
+describe('moveFile', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-utils-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('moves a file, creating the destination directory', async () => {
+    const source = path.join(dir, 'a.txt');
+    const dest = path.join(dir, 'nested', 'b.txt');
+    await fs.writeFile(source, 'a');
+
+    expect(await moveFile(source, dest)).toBe(dest);
+    expect(await fs.readFile(dest, 'utf-8')).toBe('a');
+    await expect(fs.access(source)).rejects.toThrow();
+  });
+
+  it('refuses to replace an existing file unless asked to', async () => {
+    const source = path.join(dir, 'a.txt');
+    const dest = path.join(dir, 'b.txt');
+    await fs.writeFile(source, 'a');
+    await fs.writeFile(dest, 'b');
+
+    await expect(moveFile(source, dest)).rejects.toThrow(/already exists/);
+    expect(await fs.readFile(dest, 'utf-8')).toBe('b');
+
+    await moveFile(source, dest, { overwrite: true });
+    expect(await fs.readFile(dest, 'utf-8')).toBe('a');
+  });
+
+  it('allows a case-only rename of the same file', async () => {
+    const source = path.join(dir, 'photo.jpg');
+    const dest = path.join(dir, 'Photo.jpg');
+    await fs.writeFile(source, 'a');
+
+    await moveFile(source, dest);
+
+    expect(await fs.readdir(dir)).toEqual(['Photo.jpg']);
+  });
+});
+
+describe('withExtension', () => {
+  it('appends the extension to names that do not end with it', () => {
+    expect(withExtension('report v1.2', '.pdf')).toBe('report v1.2.pdf');
+  });
+
+  it('does not repeat an extension the name already has', () => {
+    expect(withExtension('report.PDF', '.pdf')).toBe('report.pdf');
+  });
+});
+
+describe('expandHome', () => {
+  it('expands a leading ~ to the home directory', () => {
+    expect(expandHome('~')).toBe(os.homedir());
+    expect(expandHome('~/Desktop/*.png')).toBe(`${os.homedir()}/Desktop/*.png`);
+  });
+
+  it('leaves other paths alone', () => {
+    expect(expandHome('~user/file')).toBe('~user/file');
+    expect(expandHome('notes/~draft.txt')).toBe('notes/~draft.txt');
+  });
+});
@@ -0,0 +1,184 @@
+import { execFile } from 'child_process';
+import * as path from 'path';
+import { extractFrames, formatTimestamp, getVideoInfo, parseIso6709 } from '../VideoUtils';
+
+// ffprobe and ffmpeg are not run; each test scripts what they print
+jest.mock('child_process', () => ({ execFile: jest.fn() }));
+
+type Callback = (error: Error | null, result?: { stdout: string; stderr: string }) => void;
+
+const execFileMock = execFile as unknown as jest.Mock<void, [string, string[], Callback]>;
+
+/**
+ * Answer every ffprobe call with the given JSON output
+ */
+const probeOutput = (output: unknown): void => {
+  execFileMock.mockImplementation((_command, _args, callback) =>
+    callback(null, { stdout: JSON.stringify(output), stderr: '' }),
+  );
+};
+
+const VIDEO_STREAM = {
+  codec_type: 'video',
+  codec_name: 'h264',
+  width: 1920,
+  height: '1080',
+  r_frame_rate: '30000/1001',
+};
+
+describe('VideoUtils', () => {
+  afterEach(() => {
+    execFileMock.mockReset();
+  });
+
+  describe('getVideoInfo', () => {
+    it('reads the streams and QuickTime tags', async () => {
+      probeOutput({
+        streams: [
+          VIDEO_STREAM,
+          {
+            codec_type: 'audio',
+            codec_name: 'aac',
+            bit_rate: '128000',
+            channels: 2,
+            sample_rate: '48000',
+          },
+        ],
+        format: {
+          duration: '12.5',
+          bit_rate: '9000000',
+          format_name: 'mov,mp4,m4a,3gp,3g2,mj2',
+          tags: {
+            creation_time: '2024-06-01T11:30:00.000000Z', // When the file was written
+            'com.apple.quicktime.creationdate': '2024-06-01T12:00:00+0200',
+            'com.apple.quicktime.location.ISO6709': '+48.8584+002.2945+035.000/',
+            'com.apple.quicktime.title': 'Eiffel Tower',
+          },
+        },
+      });
+
+      const info = await getVideoInfo('clip.mov');
+
+      expect(info).toEqual({
+        duration: 12.5,
+        width: 1920,
+        height: 1080,
+        fps: 30000 / 1001,
+        codec: 'h264',
+        bitrate: 9000000,
+        format: 'mov,mp4,m4a,3gp,3g2,mj2',
+        hasAudio: true,
+        audioCodec: 'aac',
+        audioBitrate: 128000,
+        audioChannels: 2,
+        audioSampleRate: 48000,
+        creationTime: new Date('2024-06-01T10:00:00Z'),
+        gps: { latitude: 48.8584, longitude: 2.2945, altitude: 35 },
+        title: 'Eiffel Tower',
+      });
+    });
+
+    it('passes the absolute path after the options', async () => {
+      probeOutput({ streams: [VIDEO_STREAM], format: {} });
+
+      await getVideoInfo('-clip.mp4');
+
+      const [command, args] = execFileMock.mock.calls[0] ?? [];
+      expect(command).toBe('ffprobe');
+      expect(args?.slice(-2)).toEqual(['--', path.resolve('-clip.mp4')]);
+    });
+
+    it('skips unset creation times for the stream tag', async () => {
+      probeOutput({
+        streams: [{ ...VIDEO_STREAM, tags: { creation_time: '2023-12-24T18:30:00.000000Z' } }],
+        format: { tags: { creation_time: '1970-01-01T00:00:00.000000Z' } },
+      });
+
+      const info = await getVideoInfo('clip.mp4');
+
+      expect(info.creationTime).toEqual(new Date('2023-12-24T18:30:00Z'));
+    });
+
+    it('reads the location from the Android tag', async () => {
+      probeOutput({
+        streams: [VIDEO_STREAM],
+        format: { tags: { 'location-eng': '-33.8568+151.2153/' } },
+      });
+
+      const info = await getVideoInfo('clip.mp4');
+
+      expect(info.gps).toEqual({ latitude: -33.8568, longitude: 151.2153, altitude: undefined });
+    });
+
+    it('defaults what ffprobe leaves out', async () => {
+      probeOutput({ streams: [{ codec_type: 'video' }] });
+
+      const info = await getVideoInfo('clip.mp4');
+
+      expect(info).toMatchObject({
+        duration: 0,
+        width: 0,
+        height: 0,
+        fps: 30,
+        hasAudio: false,
+        creationTime: undefined,
+        gps: undefined,
+        title: undefined,
+      });
+    });
+
+    it('fails for files without a video stream', async () => {
+      probeOutput({ streams: [{ codec_type: 'audio' }] });
+
+      await expect(getVideoInfo('song.mp4')).rejects.toThrow(
+        'Failed to get video info: No video stream found in file',
+      );
+    });
+
+    it('fails when ffprobe cannot be run', async () => {
+      execFileMock.mockImplementation((_command, _args, callback) =>
+        callback(new Error('spawn ffprobe ENOENT')),
+      );
+
+      await expect(getVideoInfo('clip.mp4')).rejects.toThrow(
+        'Failed to get video info: spawn ffprobe ENOENT',
+      );
+    });
+  });
+
+  describe('extractFrames', () => {
+    it('fails when ffmpeg is not installed', async () => {
+      execFileMock.mockImplementation((_command, _args, callback) =>
+        callback(new Error('spawn ffmpeg ENOENT')),
+      );
+
+      await expect(extractFrames('clip.mp4')).rejects.toThrow('ffmpeg is not installed');
+    });
+  });
+
+  describe('parseIso6709', () => {
+    it('reads latitude, longitude and altitude', () => {
+      expect(parseIso6709('+37.7749-122.4194+010.000/')).toEqual({
+        latitude: 37.7749,
+        longitude: -122.4194,
+        altitude: 10,
+      });
+      expect(parseIso6709(' +37.7749-122.4194/ ')).toEqual({
+        latitude: 37.7749,
+        longitude: -122.4194,
+        altitude: undefined,
+      });
+    });
+
+    it('rejects coordinates out of range or in other notations', () => {
+      expect(parseIso6709('+95.0000+010.0000/')).toBeUndefined();
+      expect(parseIso6709('+45.0000+190.0000/')).toBeUndefined();
+      expect(parseIso6709('48 51 N, 2 17 E')).toBeUndefined();
+    });
+  });
+
+  it('formats seconds as an ffmpeg timestamp', () => {
+    expect(formatTimestamp(0)).toBe('00:00:00.000');
+    expect(formatTimestamp(3723.25)).toBe('01:02:03.250');
+  });
+});
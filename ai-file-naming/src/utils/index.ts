@@ -5,3 +5,4 @@
 export * from './FileUtils';
 export * from './CaseTransformer';
 export * from './Logger';
+export * from './Pricing';
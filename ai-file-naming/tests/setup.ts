@@ -3,10 +3,10 @@
  */
 
 // Set test environment
-process.env.NODE_ENV = 'test';
+process.env['NODE_ENV'] = 'test';
 
 // Mock console methods to reduce noise
-if (process.env.SILENT_TESTS === 'true') {
+if (process.env['SILENT_TESTS'] === 'true') {
   global.console.log = jest.fn();
   global.console.info = jest.fn();
   global.console.warn = jest.fn();